@@ -1,26 +1,274 @@
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
 const RedisClone = require("./redis");
-const ConsistentHashRing = require("./ConsistentHashRing");
+const HashSlotMap = require("./HashSlotMap");
+const { copyConfig } = require("./serverConfig");
+const ScriptEngine = require("./scripting");
+
+const NODE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
 
 class ClusterRedis{
-    constructor(nodeNames)
+    // nodeNames is the initial layout; once nodes have been added or removed
+    // the layout saved in cluster_nodes.json (like Redis' nodes.conf) wins
+    constructor(nodeNames, configPath = path.join(process.env.DATA_DIR || __dirname, "cluster_nodes.json"))
     {
-        this.ring = new ConsistentHashRing(nodeNames , 10);
+        this.configPath = configPath;
+        this.slotMap = this._loadConfig() || new HashSlotMap(nodeNames);
         this.nodes = {};
          // Create RedisClone instance for each node
-    for (const name of nodeNames) {
+    for (const name of this.slotMap.nodeNames) {
         this.nodes[name] = new RedisClone(name); // You might already have a constructor
+        this._routeKeyspaceEvents(this.nodes[name]);
       }
+
+        // Resharding state: slot -> { from, to } while its keys are being moved
+        this.migratingSlots = new Map();
+        this.resharding = null; // progress of the add/remove running now
+        this.lastResharding = null;
+
+        // PSUBSCRIBE callbacks; a pattern can match channels on any node, so
+        // each one is registered on every node, including ones added later
+        this.patternSubscriptions = new Map();
+
+        // Keyspace notifications are published on the node that owns their
+        // channel, where SUBSCRIBE registered the subscribers; replace it to
+        // deliver them elsewhere (the API server sends them to WebSockets)
+        this.keyspacePublisher = (channel, message) => this.route(channel).publish(channel, message);
+
+        // EVAL scripts, cached by SHA1 for the whole cluster (SCRIPT LOAD)
+        this.scripts = new ScriptEngine();
+
+        this.relocateMisplacedKeys();
     }
 
+    // While a slot is migrating a key is served by the node that has it: the
+    // old owner until the key has been moved, the new owner afterwards (and
+    // for keys created during the move)
     route(key) {
-        const nodeName = this.ring.getNode(key);
+        const slot = HashSlotMap.keySlot(key);
+        const migration = this.migratingSlots.get(slot);
+        let nodeName = this.slotMap.getNodeForSlot(slot);
+        if (migration) {
+            nodeName = this.nodes[migration.from].exists(key) ? migration.from : migration.to;
+        }
         console.log(`Routing key "${key}" to node: ${nodeName}`);
         return this.nodes[nodeName];
       }
 
-      set(key, value, ttl = null) {
+      keySlot(key) {
+        return HashSlotMap.keySlot(key);
+      }
+
+      // stable 40-character node ID, as shown by CLUSTER NODES
+      getNodeId(nodeName) {
+        return crypto.createHash("sha1").update(nodeName).digest("hex");
+      }
+
+      // Move a key (value and expiry) from one node to another
+      moveKey(key, fromName, toName) {
+        const dumped = this.nodes[fromName].dump(key);
+        if (!dumped) return false;
+        this.nodes[toName].restore(key, dumped.value, dumped.expireAt);
+        this.nodes[fromName].delete(key);
+        return true;
+      }
+
+      // Keys loaded from disk that their slot doesn't map to this node (data
+      // written before slot routing, or by a different layout) are moved to
+      // the node that owns their slot, otherwise they could never be read
+      relocateMisplacedKeys() {
+        let moved = 0;
+        for (const [nodeName, node] of Object.entries(this.nodes)) {
+          for (const key of node.keys()) {
+            const owner = this.slotMap.getNode(key);
+            if (owner !== nodeName && this.moveKey(key, nodeName, owner)) moved++;
+          }
+        }
+        if (moved > 0) console.log(`Moved ${moved} keys to the node that owns their hash slot`);
+        return moved;
+      }
+
+      // RENAME across nodes: the new name may hash to a different slot
+      rename(oldKey, newKey) {
+        const source = this.route(oldKey);
+        const target = this.route(newKey);
+        if (source === target) return source.rename(oldKey, newKey);
+        const dumped = source.dump(oldKey);
+        if (!dumped) throw new Error("No such key");
+        target.restore(newKey, dumped.value, dumped.expireAt);
+        source.delete(oldKey);
+        return "OK";
+      }
+
+      _loadConfig() {
+        if (!fs.existsSync(this.configPath)) return null;
+        try {
+          const config = JSON.parse(fs.readFileSync(this.configPath, "utf-8"));
+          return HashSlotMap.fromRanges(config.nodes, config.ranges.filter((range) => range.node !== null));
+        } catch (error) {
+          console.error(`Ignoring unreadable cluster config ${this.configPath}:`, error.message);
+          return null;
+        }
+      }
+
+      _saveConfig() {
+        const tempPath = `${this.configPath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(this.slotMap.toJSON(), null, 2));
+        fs.renameSync(tempPath, this.configPath);
+      }
+
+      // =========================
+      // Online resharding
+      // =========================
+
+      // Add a node and move an even share of the slots (with their keys) to it.
+      // Resolves with a summary once every key has been moved; onProgress is
+      // called with a status object at every step.
+      addNode(nodeName, options = {}) {
+        if (!NODE_NAME_PATTERN.test(String(nodeName))) {
+          throw new Error("ERR invalid node name, use letters, digits, '-' and '_'");
+        }
+        if (this.nodes[nodeName]) throw new Error(`ERR node ${nodeName} already exists`);
+        this._checkNotResharding();
+
+        const node = new RedisClone(nodeName);
+        copyConfig(Object.values(this.nodes)[0], node);
+        this._routeKeyspaceEvents(node);
+        this.nodes[nodeName] = node;
+        this.patternSubscriptions.forEach((callbacks, pattern) => {
+          callbacks.forEach((callback) => this.nodes[nodeName].psubscribe(pattern, callback));
+        });
+        this.slotMap.addNodeName(nodeName);
+        const moves = this.slotMap.planRebalance(this.slotMap.nodeNames);
+        return this._reshard({ type: "add", node: nodeName }, moves, options);
+      }
+
+      // Move all slots (with their keys) off a node, then drop it
+      removeNode(nodeName, options = {}) {
+        if (!this.nodes[nodeName]) throw new Error(`ERR unknown node ${nodeName}`);
+        const remaining = this.slotMap.nodeNames.filter((name) => name !== nodeName);
+        if (remaining.length === 0) throw new Error("ERR can't remove the last node of the cluster");
+        this._checkNotResharding();
+
+        const moves = this.slotMap.planRebalance(remaining);
+        return this._reshard({ type: "remove", node: nodeName }, moves, options).then((summary) => {
+          this.slotMap.removeNodeName(nodeName);
+          this.nodes[nodeName].shutdown();
+          delete this.nodes[nodeName];
+          this._saveConfig();
+          return summary;
+        });
+      }
+
+      _checkNotResharding() {
+        if (this.resharding) throw new Error("ERR resharding already in progress");
+      }
+
+      // Moves keys range by range: every moving slot is marked as migrating up
+      // front (see route), keys are copied in batches of batchSize with delayMs
+      // between batches, and a range changes owner once it is empty on the
+      // source. The slot layout is saved after every range, so a crash
+      // mid-move only needs relocateMisplacedKeys() on the next start.
+      async _reshard(operation, moves, { batchSize = 25, delayMs = 20, onProgress = () => {} } = {}) {
+        const ranges = HashSlotMap.groupMoves(moves);
+        const movingSlots = new Set(moves.map((move) => move.slot));
+        const countKeys = (nodeName) => (this.nodes[nodeName]
+          ? this.nodes[nodeName].keys().filter((key) => movingSlots.has(HashSlotMap.keySlot(key))).length
+          : 0);
+
+        const status = {
+          operation,
+          state: "running",
+          startedAt: Date.now(),
+          finishedAt: null,
+          ranges: ranges.map((range) => ({ ...range, keys: 0, movedKeys: 0, done: false })),
+          currentRange: null,
+          totalSlots: moves.length,
+          movedSlots: 0,
+          totalKeys: [...new Set(ranges.map((range) => range.from))].reduce((sum, from) => sum + countKeys(from), 0),
+          movedKeys: 0,
+          recentKeys: [],
+          error: null,
+        };
+        this.resharding = status;
+        moves.forEach(({ slot, from, to }) => {
+          if (from !== null) this.migratingSlots.set(slot, { from, to });
+        });
+        const report = () => onProgress({ ...status, ranges: status.ranges.map((range) => ({ ...range })) });
+        report();
+
+        try {
+          for (const [index, range] of status.ranges.entries()) {
+            status.currentRange = index;
+            const source = this.nodes[range.from];
+            const inRange = (key) => {
+              const slot = HashSlotMap.keySlot(key);
+              return slot >= range.start && slot <= range.end;
+            };
+            const keys = source ? source.keys().filter(inRange) : [];
+            range.keys = keys.length;
+
+            for (let i = 0; i < keys.length; i += batchSize) {
+              const batch = keys.slice(i, i + batchSize).filter((key) => this.moveKey(key, range.from, range.to));
+              range.movedKeys += batch.length;
+              status.movedKeys += batch.length;
+              status.recentKeys = batch.slice(-5);
+              report();
+              await new Promise((resolve) => setTimeout(resolve, delayMs));
+            }
+
+            for (let slot = range.start; slot <= range.end; slot++) {
+              this.slotMap.assignSlot(slot, range.to);
+              this.migratingSlots.delete(slot);
+            }
+            range.done = true;
+            status.movedSlots += range.end - range.start + 1;
+            this._saveConfig();
+            report();
+          }
+
+          status.state = "done";
+          return status;
+        } catch (error) {
+          status.state = "failed";
+          status.error = error.message;
+          // slots that weren't handed over stay with their old owner
+          movingSlots.forEach((slot) => this.migratingSlots.delete(slot));
+          this.relocateMisplacedKeys();
+          throw error;
+        } finally {
+          status.finishedAt = Date.now();
+          status.currentRange = null;
+          this.resharding = null;
+          this.lastResharding = status;
+          report();
+        }
+      }
+
+      getReshardStatus() {
+        return { inProgress: Boolean(this.resharding), current: this.resharding, last: this.lastResharding };
+      }
+
+      // CLUSTER SLOTS / CLUSTER NODES data: every node with its slot ranges
+      getSlotMap() {
+        const counts = this.slotMap.slotCounts();
+        return {
+          slotCount: HashSlotMap.SLOT_COUNT,
+          ranges: this.slotMap.ranges(),
+          nodes: Object.entries(this.nodes).map(([name, node]) => ({
+            name,
+            id: this.getNodeId(name),
+            slots: counts[name] || 0,
+            ranges: this.slotMap.nodeRanges(name).map(({ start, end }) => ({ start, end })),
+            keyCount: node.store.size,
+          })),
+        };
+      }
+
+      set(key, value, ttl = null, keepTtl = false) {
         const node = this.route(key);
-        return node.set(key, value, ttl);
+        return node.set(key, value, ttl, keepTtl);
       }
     // set(key, value, ttl = null) {
     //     const nodeName = this.hashRing.getNode(key);
@@ -39,6 +287,191 @@ class ClusterRedis{
         return node.delete(key);
       }
     
+      _routeKeyspaceEvents(node) {
+        node.keyspacePublisher = (channel, message) => this.keyspacePublisher(channel, message);
+      }
+
+      psubscribe(pattern, callback) {
+        if (!this.patternSubscriptions.has(pattern)) this.patternSubscriptions.set(pattern, new Set());
+        this.patternSubscriptions.get(pattern).add(callback);
+        Object.values(this.nodes).forEach((node) => node.psubscribe(pattern, callback));
+      }
+
+      punsubscribe(pattern, callback) {
+        const callbacks = this.patternSubscriptions.get(pattern);
+        if (callbacks) {
+          callbacks.delete(callback);
+          if (callbacks.size === 0) this.patternSubscriptions.delete(pattern);
+        }
+        Object.values(this.nodes).forEach((node) => node.punsubscribe(pattern, callback));
+      }
+
+      // Set algebra across shards: members are gathered from whichever node owns each key
+      sinter(keys) {
+        return RedisClone.intersectMembers(keys.map((key) => this.route(key).smembers(key)));
+      }
+
+      sunion(keys) {
+        return RedisClone.unionMembers(keys.map((key) => this.route(key).smembers(key)));
+      }
+
+      sdiff(keys) {
+        return RedisClone.diffMembers(keys.map((key) => this.route(key).smembers(key)));
+      }
+
+      // =========================
+      // Streams
+      // =========================
+
+      // XREAD over streams on any nodes. streams is [[key, id]] ("$" = the
+      // last ID right now); returns [[key, entries]] for the streams that
+      // have entries after their ID, or null. With block (ms, 0 = no limit)
+      // and nothing to return yet, a promise of the same (see _readOrBlock).
+      xread(streams, { count = null, block = null } = {}) {
+        const after = streams.map(([key, id]) => [key, id === "$" ? this.route(key).streamLastId(key) : id]);
+        const read = () => after
+          .map(([key, id]) => [key, this.route(key).xread(key, id, count)])
+          .filter(([, entries]) => entries.length > 0);
+        return this._readOrBlock(after.map(([key]) => key), read, block);
+      }
+
+      // XREADGROUP: like xread; only reads of new entries (">") block, a
+      // re-read of pending entries answers at once even when empty
+      xreadgroup(group, consumer, streams, { count = null, block = null, noAck = false } = {}) {
+        const read = () => streams
+          .map(([key, id]) => [key, this.route(key).xreadgroup(key, group, consumer, id, { count, noAck }), id])
+          .filter(([, entries, id]) => entries.length > 0 || id !== ">")
+          .map(([key, entries]) => [key, entries]);
+        return this._readOrBlock(streams.map(([key]) => key), read, block);
+      }
+
+      // Run read() and return what it found (null for nothing). With block
+      // set and nothing found, return a promise instead: read() runs again
+      // after every write to one of keys until it finds something, or
+      // resolves null once block ms have passed. promise.cancel() gives up
+      // early (the client went away).
+      _readOrBlock(keys, read, block) {
+        const result = read();
+        if (result.length > 0 || block === null) return result.length > 0 ? result : null;
+
+        let cancel = null;
+        const promise = new Promise((resolve, reject) => {
+          const stopWaiting = [];
+          let timer = null;
+          // set while read() runs (a BLMOVE onto its own source wakes itself)
+          // and for good once finished, so a wake-up can't take twice
+          let busy = false;
+          const finish = (error, value) => {
+            busy = true;
+            stopWaiting.forEach((stop) => stop());
+            clearTimeout(timer);
+            if (error) reject(error);
+            else resolve(value);
+          };
+          const wake = () => {
+            if (busy) return;
+            busy = true;
+            try {
+              const found = read();
+              if (found.length > 0) return finish(null, found);
+            } catch (error) {
+              return finish(error);
+            }
+            busy = false;
+          };
+          // on every node: a key being resharded changes nodes while we wait
+          keys.forEach((key) => {
+            Object.values(this.nodes).forEach((node) => stopWaiting.push(node.waitForKey(key, wake)));
+          });
+          if (block > 0) timer = setTimeout(() => finish(null, null), block);
+          cancel = () => finish(null, null);
+        });
+        promise.cancel = cancel;
+        return promise;
+      }
+
+      // =========================
+      // Lists
+      // =========================
+
+      // LMOVE across nodes: the pop is on the node that owns source, the push
+      // on the one that owns destination. Both types are checked and the
+      // destination node makes room first, so a WRONGTYPE or OOM loses nothing.
+      lmove(source, destination, whereFrom, whereTo) {
+        const from = this.route(source);
+        const to = this.route(destination);
+        if (from === to) return from.lmove(source, destination, whereFrom, whereTo);
+        to.llen(destination);
+        from.llen(source);
+        to.makeRoom();
+        if (from.llen(source) === 0) return "(nil)";
+        const value = whereFrom === "left" ? from.lpop(source) : from.rpop(source);
+        if (whereTo === "left") to.lpush(destination, value);
+        else to.rpush(destination, value);
+        return value;
+      }
+
+      // BLPOP / BRPOP: [key, value] from the first non-empty list of keys,
+      // each on whichever node owns it. With nothing to pop the client waits
+      // block ms (0 = no limit) for a push (see _readOrBlock); waiting
+      // clients are served in the order they blocked.
+      bpop(keys, end, block) {
+        const read = () => {
+          for (const key of keys) {
+            const node = this.route(key);
+            if (node.llen(key) > 0) return [key, end === "left" ? node.lpop(key) : node.rpop(key)];
+          }
+          return [];
+        };
+        return this._readOrBlock(keys, read, block);
+      }
+
+      // BLMOVE: lmove that waits for source to get an element; the result is
+      // [value], or null on timeout
+      blmove(source, destination, whereFrom, whereTo, block) {
+        const read = () => (this.route(source).llen(source) > 0
+          ? [this.lmove(source, destination, whereFrom, whereTo)]
+          : []);
+        return this._readOrBlock([source], read, block);
+      }
+
+      // =========================
+      // Transactions
+      // =========================
+
+      // MULTI/EXEC: fn runs the queued commands with nothing in between; every
+      // node sends the writes it got on to its AOF and slaves as one entry.
+      // When fn returns a promise (EVAL) the transaction ends once it settles.
+      transaction(fn) {
+        const nodes = Object.values(this.nodes);
+        const end = () => nodes.forEach((node) => node.endTransaction());
+        nodes.forEach((node) => node.beginTransaction());
+        let result;
+        try {
+          result = fn();
+        } catch (error) {
+          end();
+          throw error;
+        }
+        if (result instanceof Promise) return result.finally(end);
+        end();
+        return result;
+      }
+
+      // WATCH: any write to one of keys from now on sets state.dirty. Watched
+      // on every node, as a key can move while it is watched (resharding).
+      watch(keys, state = { dirty: false, stops: [] }) {
+        keys.forEach((key) => {
+          Object.values(this.nodes).forEach((node) => state.stops.push(node.watchKey(key, state)));
+        });
+        return state;
+      }
+
+      unwatch(state) {
+        state.stops.forEach((stop) => stop());
+        state.stops = [];
+      }
+    
       // Optional: Debug utility
       printShards() {
         for (const [name, node] of Object.entries(this.nodes)) {
@@ -46,7 +479,7 @@ class ClusterRedis{
         }
       }
 
-      // for testing redis consistent hashing is properly working or not
+      // for testing that keys are spread evenly across the nodes
 
     //   getNodeKeyDistribution() {
     //     const distribution = {};
@@ -73,13 +506,13 @@ class ClusterRedis{
     //   }
 
     getNodeForKey(key) {
-        const nodeName = this.ring.getNode(key); // ✅ Correct method name
+        const nodeName = this.slotMap.getNode(key);
         return nodeName;
     }
     
     clearAllNodes() {
         for (const node of Object.values(this.nodes)) {
-          node.store.clear();
+          node.flushAll();
         }
       }
       
@@ -0,0 +1,186 @@
+// Redis Cluster key distribution: every key hashes to one of 16384 slots
+// (CRC16/XMODEM of the key, mod 16384) and every slot is owned by one node.
+// Only the part inside the first non-empty {...} is hashed when present, so
+// "{user:1}.profile" and "{user:1}.sessions" always land on the same node.
+
+const SLOT_COUNT = 16384;
+
+// CRC16-CCITT (XMODEM): polynomial 0x1021, initial value 0, as used by Redis Cluster
+const CRC16_TABLE = (() => {
+    const table = new Uint16Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+        }
+        table[i] = crc & 0xffff;
+    }
+    return table;
+})();
+
+class HashSlotMap {
+    constructor(nodeNames = []) {
+        this.slots = new Array(SLOT_COUNT).fill(null); // slot -> node name
+        this.nodeNames = [...nodeNames];
+        this._assignEvenly();
+    }
+
+    static get SLOT_COUNT() {
+        return SLOT_COUNT;
+    }
+
+    static crc16(str) {
+        let crc = 0;
+        for (const byte of Buffer.from(String(str))) {
+            crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[((crc >> 8) ^ byte) & 0xff];
+        }
+        return crc;
+    }
+
+    // the part of the key that is hashed: the first non-empty {hashtag}, else the whole key
+    static hashTag(key) {
+        const str = String(key);
+        const open = str.indexOf("{");
+        if (open === -1) return str;
+        const close = str.indexOf("}", open + 1);
+        if (close === -1 || close === open + 1) return str;
+        return str.slice(open + 1, close);
+    }
+
+    static keySlot(key) {
+        return HashSlotMap.crc16(HashSlotMap.hashTag(key)) & (SLOT_COUNT - 1);
+    }
+
+    // contiguous ranges of (almost) equal size, like redis-cli --cluster create
+    _assignEvenly() {
+        const count = this.nodeNames.length;
+        if (count === 0) return;
+        const slotsPerNode = SLOT_COUNT / count;
+        let start = 0;
+        this.nodeNames.forEach((name, index) => {
+            const end = index === count - 1 ? SLOT_COUNT - 1 : Math.round((index + 1) * slotsPerNode - 1);
+            for (let slot = start; slot <= end; slot++) this.slots[slot] = name;
+            start = end + 1;
+        });
+    }
+
+    // Rebuild a map from saved ranges ({ start, end, node }); slots not covered stay unassigned
+    static fromRanges(nodeNames, ranges) {
+        const map = new HashSlotMap([]);
+        map.nodeNames = [...nodeNames];
+        ranges.forEach(({ start, end, node }) => {
+            for (let slot = start; slot <= end; slot++) map.slots[slot] = node;
+        });
+        return map;
+    }
+
+    toJSON() {
+        return { nodes: this.nodeNames, ranges: this.ranges() };
+    }
+
+    addNodeName(nodeName) {
+        if (!this.nodeNames.includes(nodeName)) this.nodeNames.push(nodeName);
+    }
+
+    // only once the node owns no slots any more
+    removeNodeName(nodeName) {
+        if (this.slots.includes(nodeName)) {
+            throw new Error(`ERR node ${nodeName} still owns hash slots`);
+        }
+        this.nodeNames = this.nodeNames.filter((name) => name !== nodeName);
+    }
+
+    assignSlot(slot, nodeName) {
+        this.slots[slot] = nodeName;
+    }
+
+    // Slot moves that spread all slots evenly over targetNodes: nodes above
+    // their share give away their highest slots, nodes leaving the cluster
+    // give away everything. Returns [{ slot, from, to }] in slot order.
+    planRebalance(targetNodes) {
+        if (targetNodes.length === 0) throw new Error("ERR a cluster needs at least one node");
+
+        const base = Math.floor(SLOT_COUNT / targetNodes.length);
+        const extra = SLOT_COUNT % targetNodes.length;
+        const target = Object.fromEntries(targetNodes.map((name, index) => [name, base + (index < extra ? 1 : 0)]));
+        const owned = new Map(); // node (null = unassigned) -> slots
+        this.slots.forEach((node, slot) => {
+            if (!owned.has(node)) owned.set(node, []);
+            owned.get(node).push(slot);
+        });
+
+        const donated = [];
+        owned.forEach((slots, node) => {
+            const keep = node in target ? target[node] : 0;
+            if (slots.length > keep) donated.push(...slots.slice(keep).map((slot) => ({ slot, from: node })));
+        });
+
+        const moves = [];
+        let next = 0;
+        targetNodes.forEach((node) => {
+            let missing = target[node] - (owned.has(node) ? owned.get(node).length : 0);
+            while (missing > 0 && next < donated.length) {
+                const { slot, from } = donated[next++];
+                moves.push({ slot, from, to: node });
+                missing--;
+            }
+        });
+        return moves.sort((a, b) => a.slot - b.slot);
+    }
+
+    // group slot moves into consecutive runs with the same source and target
+    static groupMoves(moves) {
+        const groups = [];
+        moves.forEach(({ slot, from, to }) => {
+            const last = groups[groups.length - 1];
+            if (last && last.from === from && last.to === to && last.end === slot - 1) {
+                last.end = slot;
+            } else {
+                groups.push({ start: slot, end: slot, from, to });
+            }
+        });
+        return groups;
+    }
+
+    getSlot(key) {
+        return HashSlotMap.keySlot(key);
+    }
+
+    getNodeForSlot(slot) {
+        return this.slots[slot];
+    }
+
+    getNode(key) {
+        return this.slots[HashSlotMap.keySlot(key)];
+    }
+
+    // [{ start, end, node }] covering every slot, in slot order
+    ranges() {
+        const ranges = [];
+        for (let slot = 0; slot < SLOT_COUNT; slot++) {
+            const node = this.slots[slot];
+            const last = ranges[ranges.length - 1];
+            if (last && last.node === node && last.end === slot - 1) {
+                last.end = slot;
+            } else {
+                ranges.push({ start: slot, end: slot, node });
+            }
+        }
+        return ranges;
+    }
+
+    nodeRanges(nodeName) {
+        return this.ranges().filter((range) => range.node === nodeName);
+    }
+
+    // { nodeName: number of slots owned }
+    slotCounts() {
+        const counts = Object.fromEntries(this.nodeNames.map((name) => [name, 0]));
+        this.slots.forEach((node) => {
+            if (node !== null) counts[node]++;
+        });
+        return counts;
+    }
+}
+
+module.exports = HashSlotMap;
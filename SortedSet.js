@@ -0,0 +1,312 @@
+// Score-ordered set backed by a skip list (same layout as Redis' zskiplist).
+// Every level keeps a "span" (how many nodes a forward link jumps over) so
+// rank lookups and rank ranges are O(log n) instead of a sort on each read.
+// A Map from member -> score gives O(1) ZSCORE / membership checks.
+
+const MAX_LEVEL = 32;
+const LEVEL_PROBABILITY = 0.25;
+
+class SkipListNode {
+    constructor(level, score, member) {
+        this.score = score;
+        this.member = member;
+        this.forward = new Array(level).fill(null);
+        this.span = new Array(level).fill(0);
+        this.backward = null;
+    }
+}
+
+class SortedSet {
+    constructor() {
+        this.head = new SkipListNode(MAX_LEVEL, -Infinity, null);
+        this.tail = null;
+        this.level = 1;
+        this.length = 0;
+        this.scores = new Map(); // member -> score
+    }
+
+    get size() {
+        return this.length;
+    }
+
+    // Parse a ZRANGEBYSCORE bound: "5", "(5" (exclusive), "-inf", "+inf"
+    static parseBound(bound) {
+        let str = String(bound);
+        let exclusive = false;
+        if (str.startsWith("(")) {
+            exclusive = true;
+            str = str.slice(1);
+        }
+        const value = SortedSet.parseScore(str, "ERR min or max is not a float");
+        return { value, exclusive };
+    }
+
+    static parseScore(input, message = "ERR value is not a valid float") {
+        const str = String(input).toLowerCase();
+        if (str === "inf" || str === "+inf") return Infinity;
+        if (str === "-inf") return -Infinity;
+        const value = Number(input);
+        if (str.trim() === "" || Number.isNaN(value)) throw new Error(message);
+        return value;
+    }
+
+    // Rebuild from the [member, score] pairs written by toEntries()
+    static fromEntries(entries) {
+        const zset = new SortedSet();
+        entries.forEach(([member, score]) => zset.add(member, Number(score)));
+        return zset;
+    }
+
+    // ----- public API -----
+
+    // Insert or update a member. Returns true when the member is new.
+    add(member, score) {
+        const current = this.scores.get(member);
+        if (current !== undefined) {
+            if (current !== score) {
+                this._delete(current, member);
+                this._insert(score, member);
+                this.scores.set(member, score);
+            }
+            return false;
+        }
+        this._insert(score, member);
+        this.scores.set(member, score);
+        return true;
+    }
+
+    remove(member) {
+        const score = this.scores.get(member);
+        if (score === undefined) return false;
+        this._delete(score, member);
+        this.scores.delete(member);
+        return true;
+    }
+
+    has(member) {
+        return this.scores.has(member);
+    }
+
+    score(member) {
+        return this.scores.get(member);
+    }
+
+    // 0-based rank, or null when the member is missing
+    rank(member, reverse = false) {
+        const score = this.scores.get(member);
+        if (score === undefined) return null;
+        const rank = this._getRank(score, member) - 1;
+        return reverse ? this.length - 1 - rank : rank;
+    }
+
+    // Members between two ranks (inclusive, negative indexes count from the end)
+    rangeByRank(start, stop, reverse = false) {
+        if (start < 0) start = this.length + start;
+        if (stop < 0) stop = this.length + stop;
+        if (start < 0) start = 0;
+        if (stop >= this.length) stop = this.length - 1;
+        if (start > stop || start >= this.length) return [];
+
+        const result = [];
+        let node = reverse
+            ? this._getByRank(this.length - start)
+            : this._getByRank(start + 1);
+
+        for (let i = start; i <= stop && node; i++) {
+            result.push({ member: node.member, score: node.score });
+            node = reverse ? node.backward : node.forward[0];
+        }
+        return result;
+    }
+
+    // Members whose score falls within [min, max]; bounds come from parseBound()
+    rangeByScore(min, max, { reverse = false, offset = 0, count = -1 } = {}) {
+        const result = [];
+        let node = reverse ? this._lastInRange(min, max) : this._firstInRange(min, max);
+
+        while (node && offset > 0) {
+            node = reverse ? node.backward : node.forward[0];
+            offset--;
+        }
+
+        while (node && count !== 0) {
+            const inRange = reverse ? this._gteMin(node.score, min) : this._lteMax(node.score, max);
+            if (!inRange) break;
+            result.push({ member: node.member, score: node.score });
+            node = reverse ? node.backward : node.forward[0];
+            if (count > 0) count--;
+        }
+        return result;
+    }
+
+    countInRange(min, max) {
+        const first = this._firstInRange(min, max);
+        if (!first) return 0;
+        const last = this._lastInRange(min, max);
+        return this._getRank(last.score, last.member) - this._getRank(first.score, first.member) + 1;
+    }
+
+    // All members in score order, used for persistence (non-finite scores as strings for JSON)
+    toEntries() {
+        const entries = [];
+        for (let node = this.head.forward[0]; node; node = node.forward[0]) {
+            entries.push([node.member, Number.isFinite(node.score) ? node.score : String(node.score)]);
+        }
+        return entries;
+    }
+
+    toJSON() {
+        return this.rangeByRank(0, -1);
+    }
+
+    // ----- skip list internals -----
+
+    _lessThan(node, score, member) {
+        return node.score < score || (node.score === score && node.member < member);
+    }
+
+    _randomLevel() {
+        let level = 1;
+        while (Math.random() < LEVEL_PROBABILITY && level < MAX_LEVEL) level++;
+        return level;
+    }
+
+    _insert(score, member) {
+        const update = new Array(MAX_LEVEL);
+        const rank = new Array(MAX_LEVEL);
+        let x = this.head;
+
+        for (let i = this.level - 1; i >= 0; i--) {
+            rank[i] = i === this.level - 1 ? 0 : rank[i + 1];
+            while (x.forward[i] && this._lessThan(x.forward[i], score, member)) {
+                rank[i] += x.span[i];
+                x = x.forward[i];
+            }
+            update[i] = x;
+        }
+
+        const level = this._randomLevel();
+        if (level > this.level) {
+            for (let i = this.level; i < level; i++) {
+                rank[i] = 0;
+                update[i] = this.head;
+                update[i].span[i] = this.length;
+            }
+            this.level = level;
+        }
+
+        x = new SkipListNode(level, score, member);
+        for (let i = 0; i < level; i++) {
+            x.forward[i] = update[i].forward[i];
+            update[i].forward[i] = x;
+            x.span[i] = update[i].span[i] - (rank[0] - rank[i]);
+            update[i].span[i] = rank[0] - rank[i] + 1;
+        }
+        for (let i = level; i < this.level; i++) {
+            update[i].span[i]++;
+        }
+
+        x.backward = update[0] === this.head ? null : update[0];
+        if (x.forward[0]) {
+            x.forward[0].backward = x;
+        } else {
+            this.tail = x;
+        }
+        this.length++;
+    }
+
+    _delete(score, member) {
+        const update = new Array(MAX_LEVEL);
+        let x = this.head;
+
+        for (let i = this.level - 1; i >= 0; i--) {
+            while (x.forward[i] && this._lessThan(x.forward[i], score, member)) {
+                x = x.forward[i];
+            }
+            update[i] = x;
+        }
+
+        x = x.forward[0];
+        if (!x || x.score !== score || x.member !== member) return false;
+
+        for (let i = 0; i < this.level; i++) {
+            if (update[i].forward[i] === x) {
+                update[i].span[i] += x.span[i] - 1;
+                update[i].forward[i] = x.forward[i];
+            } else {
+                update[i].span[i]--;
+            }
+        }
+
+        if (x.forward[0]) {
+            x.forward[0].backward = x.backward;
+        } else {
+            this.tail = x.backward;
+        }
+        while (this.level > 1 && !this.head.forward[this.level - 1]) {
+            this.level--;
+        }
+        this.length--;
+        return true;
+    }
+
+    // 1-based rank of an existing (score, member) pair, 0 if not found
+    _getRank(score, member) {
+        let rank = 0;
+        let x = this.head;
+        for (let i = this.level - 1; i >= 0; i--) {
+            while (x.forward[i] && (this._lessThan(x.forward[i], score, member) ||
+                (x.forward[i].score === score && x.forward[i].member === member))) {
+                rank += x.span[i];
+                x = x.forward[i];
+            }
+            if (x !== this.head && x.member === member) return rank;
+        }
+        return 0;
+    }
+
+    // Node at a 1-based rank
+    _getByRank(rank) {
+        let traversed = 0;
+        let x = this.head;
+        for (let i = this.level - 1; i >= 0; i--) {
+            while (x.forward[i] && traversed + x.span[i] <= rank) {
+                traversed += x.span[i];
+                x = x.forward[i];
+            }
+            if (traversed === rank) return x === this.head ? null : x;
+        }
+        return null;
+    }
+
+    _gteMin(score, min) {
+        return min.exclusive ? score > min.value : score >= min.value;
+    }
+
+    _lteMax(score, max) {
+        return max.exclusive ? score < max.value : score <= max.value;
+    }
+
+    _firstInRange(min, max) {
+        let x = this.head;
+        for (let i = this.level - 1; i >= 0; i--) {
+            while (x.forward[i] && !this._gteMin(x.forward[i].score, min)) {
+                x = x.forward[i];
+            }
+        }
+        x = x.forward[0];
+        return x && this._lteMax(x.score, max) ? x : null;
+    }
+
+    _lastInRange(min, max) {
+        let x = this.head;
+        for (let i = this.level - 1; i >= 0; i--) {
+            while (x.forward[i] && this._lteMax(x.forward[i].score, max)) {
+                x = x.forward[i];
+            }
+        }
+        return x !== this.head && this._gteMin(x.score, min) ? x : null;
+    }
+}
+
+module.exports = SortedSet;
@@ -0,0 +1,223 @@
+// Append-only log of field/value entries, the value behind XADD / XRANGE /
+// XREAD. Entry IDs are "<ms>-<seq>" and only ever grow, so entries are kept
+// in ID order and ranges are binary searches.
+// A consumer group remembers the last ID it handed out and a pending entries
+// list (PEL): entries delivered to one of its consumers and not acknowledged
+// yet, with when they were delivered and how many times.
+
+const MAX_SEQ = Number.MAX_SAFE_INTEGER;
+const INVALID_ID = "ERR Invalid stream ID specified as stream command argument";
+
+class Stream {
+    constructor() {
+        this.entries = []; // { id, fields: [field, value, ...] } in ID order
+        this.lastId = "0-0";
+        // name -> { lastDeliveredId, consumers: Map(name -> seenAt), pending: Map(id -> { consumer, deliveredAt, deliveries }) }
+        this.groups = new Map();
+    }
+
+    get length() {
+        return this.entries.length;
+    }
+
+    // "<ms>-<seq>", or "<ms>" with seq defaulting to defaultSeq
+    static parseId(id, defaultSeq = 0) {
+        const match = /^(\d+)(?:-(\d+))?$/.exec(String(id));
+        if (!match) throw new Error(INVALID_ID);
+        const ms = Number(match[1]);
+        const seq = match[2] === undefined ? defaultSeq : Number(match[2]);
+        if (!Number.isSafeInteger(ms) || !Number.isSafeInteger(seq)) throw new Error(INVALID_ID);
+        return { ms, seq };
+    }
+
+    static formatId({ ms, seq }) {
+        return `${ms}-${seq}`;
+    }
+
+    static compareIds(a, b) {
+        const left = typeof a === "string" ? Stream.parseId(a) : a;
+        const right = typeof b === "string" ? Stream.parseId(b) : b;
+        return left.ms - right.ms || left.seq - right.seq;
+    }
+
+    // XRANGE bound: "-", "+", an ID, "(" + ID for an exclusive bound. An ID
+    // without a sequence covers the whole millisecond.
+    static parseBound(bound, isEnd) {
+        const str = String(bound);
+        if (str === "-") return { id: { ms: 0, seq: 0 }, exclusive: false };
+        if (str === "+") return { id: { ms: MAX_SEQ, seq: MAX_SEQ }, exclusive: false };
+        const exclusive = str.startsWith("(");
+        return { id: Stream.parseId(exclusive ? str.slice(1) : str, isEnd ? MAX_SEQ : 0), exclusive };
+    }
+
+    static fromJSON(data) {
+        const stream = new Stream();
+        stream.entries = data.entries.map(({ id, fields }) => ({ id, fields: [...fields] }));
+        stream.lastId = data.lastId;
+        data.groups.forEach(({ name, lastDeliveredId, consumers, pending }) => {
+            stream.groups.set(name, {
+                lastDeliveredId,
+                consumers: new Map(consumers),
+                pending: new Map(pending.map(([id, info]) => [id, { ...info }])),
+            });
+        });
+        return stream;
+    }
+
+    // ----- entries -----
+
+    // The ID XADD gives a new entry: "*" (time based), "<ms>-*" or an explicit
+    // ID, which must be greater than every ID the stream has had
+    nextId(requested = "*", now = Date.now()) {
+        const last = Stream.parseId(this.lastId);
+        let id;
+        if (requested === "*") {
+            id = now > last.ms ? { ms: now, seq: 0 } : { ms: last.ms, seq: last.seq + 1 };
+        } else if (/^\d+-\*$/.test(requested)) {
+            const ms = Stream.parseId(requested.slice(0, -2)).ms;
+            id = { ms, seq: ms === last.ms ? last.seq + 1 : 0 };
+        } else {
+            id = Stream.parseId(requested);
+        }
+
+        if (id.ms === 0 && id.seq === 0) throw new Error("ERR The ID specified in XADD must be greater than 0-0");
+        if (Stream.compareIds(id, last) <= 0) {
+            throw new Error("ERR The ID specified in XADD is equal or smaller than the target stream top item");
+        }
+        return Stream.formatId(id);
+    }
+
+    // append an entry whose ID came from nextId()
+    add(id, fields) {
+        this.entries.push({ id, fields: fields.map(String) });
+        this.lastId = id;
+    }
+
+    // drop the oldest entries beyond maxLen; returns how many went
+    trim(maxLen) {
+        const removed = Math.max(0, this.entries.length - maxLen);
+        this.entries.splice(0, removed);
+        return removed;
+    }
+
+    get(id) {
+        const index = this._indexFrom(Stream.parseId(id));
+        const entry = this.entries[index];
+        return entry && entry.id === id ? entry : null;
+    }
+
+    // entries between two XRANGE bounds, oldest first (newest first with reverse)
+    range(start, end, { reverse = false, count = null } = {}) {
+        const from = Stream.parseBound(start, false);
+        const to = Stream.parseBound(end, true);
+        const first = from.exclusive ? this._indexAfter(from.id) : this._indexFrom(from.id);
+        const last = to.exclusive ? this._indexFrom(to.id) : this._indexAfter(to.id);
+        const entries = this.entries.slice(first, Math.max(first, last));
+        if (reverse) entries.reverse();
+        return count === null ? entries : entries.slice(0, count);
+    }
+
+    // entries with an ID greater than id (XREAD)
+    after(id, count = null) {
+        const first = this._indexAfter(Stream.parseId(id));
+        return this.entries.slice(first, count === null ? undefined : first + count);
+    }
+
+    // first index whose ID is >= id
+    _indexFrom(id) {
+        let low = 0;
+        let high = this.entries.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (Stream.compareIds(this.entries[mid].id, id) < 0) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    }
+
+    // first index whose ID is > id
+    _indexAfter(id) {
+        let low = 0;
+        let high = this.entries.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (Stream.compareIds(this.entries[mid].id, id) <= 0) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    }
+
+    // ----- consumer groups -----
+
+    // returns false when the group already exists
+    createGroup(name, lastDeliveredId) {
+        if (this.groups.has(name)) return false;
+        this.groups.set(name, { lastDeliveredId, consumers: new Map(), pending: new Map() });
+        return true;
+    }
+
+    // returns false when the consumer already exists
+    addConsumer(group, consumer, seenAt) {
+        if (group.consumers.has(consumer)) return false;
+        group.consumers.set(consumer, seenAt);
+        return true;
+    }
+
+    // remove a consumer and its pending entries; returns how many it had
+    removeConsumer(group, consumer) {
+        let pending = 0;
+        group.pending.forEach((info, id) => {
+            if (info.consumer !== consumer) return;
+            group.pending.delete(id);
+            pending++;
+        });
+        group.consumers.delete(consumer);
+        return pending;
+    }
+
+    // Record a delivery of ids to consumer (XREADGROUP, XCLAIM): each one is
+    // pending for that consumer from deliveredAt. countDelivery adds to the
+    // delivery counts; lastDeliveredId moves the group forward.
+    deliver(group, consumer, ids, deliveredAt, { countDelivery = true, lastDeliveredId = null } = {}) {
+        group.consumers.set(consumer, deliveredAt);
+        ids.forEach((id) => {
+            const current = group.pending.get(id);
+            const deliveries = (current ? current.deliveries : 0) + (countDelivery ? 1 : 0);
+            group.pending.set(id, { consumer, deliveredAt, deliveries });
+        });
+        if (lastDeliveredId && Stream.compareIds(lastDeliveredId, group.lastDeliveredId) > 0) {
+            group.lastDeliveredId = lastDeliveredId;
+        }
+    }
+
+    // XACK: ids no longer pending; returns the ones that were
+    ack(group, ids) {
+        return ids.filter((id) => group.pending.delete(id));
+    }
+
+    // a consumer's pending entries with an ID greater than afterId, oldest first
+    pendingOf(group, consumer, afterId, count = null) {
+        const ids = Array.from(group.pending.entries())
+            .filter(([id, info]) => info.consumer === consumer && Stream.compareIds(id, afterId) > 0)
+            .map(([id]) => id)
+            .sort(Stream.compareIds);
+        return count === null ? ids : ids.slice(0, count);
+    }
+
+    // ----- persistence -----
+
+    toJSON() {
+        return {
+            entries: this.entries,
+            lastId: this.lastId,
+            groups: Array.from(this.groups.entries(), ([name, group]) => ({
+                name,
+                lastDeliveredId: group.lastDeliveredId,
+                consumers: Array.from(group.consumers.entries()),
+                pending: Array.from(group.pending.entries()),
+            })),
+        };
+    }
+}
+
+module.exports = Stream;
@@ -0,0 +1,64 @@
+// Per-key access metadata, as Redis keeps it in the LRU bits of an object:
+// the time of the last access (OBJECT IDLETIME, the LRU policies) and a
+// logarithmic access-frequency counter (OBJECT FREQ, the LFU policies).
+//
+// The counter is a Morris counter that fits in 8 bits: a new key starts at
+// LFU_INIT_VAL, so it isn't evicted before it had a chance to be read, and
+// an access increments it with probability 1 / ((counter - LFU_INIT_VAL) *
+// lfu-log-factor + 1). With the default factor of 10 it takes about a
+// hundred accesses to reach 10, a million to reach 255. Idle keys lose one
+// point per lfu-decay-time minutes, so keys that were hot once cool down.
+
+const LFU_INIT_VAL = 5;
+const COUNTER_MAX = 255;
+const DEFAULT_LOG_FACTOR = 10;
+const DEFAULT_DECAY_TIME = 1; // minutes, 0 = never decay
+
+function createMeta(now = Date.now()) {
+    return { lastAccess: now, counter: LFU_INIT_VAL };
+}
+
+// the counter with the decay due since the last access applied
+function decayedCounter(meta, decayTime, now = Date.now()) {
+    if (decayTime === 0) return meta.counter;
+    const periods = Math.floor((now - meta.lastAccess) / 60000 / decayTime);
+    return Math.max(0, meta.counter - periods);
+}
+
+function logIncrement(counter, logFactor) {
+    if (counter >= COUNTER_MAX) return COUNTER_MAX;
+    const base = Math.max(0, counter - LFU_INIT_VAL);
+    return Math.random() < 1 / (base * logFactor + 1) ? counter + 1 : counter;
+}
+
+// restart the idle time, keeping the decay that was due
+function recordWrite(meta, { decayTime }, now = Date.now()) {
+    meta.counter = decayedCounter(meta, decayTime, now);
+    meta.lastAccess = now;
+}
+
+// a lookup: like a write, and the counter may go up
+function recordAccess(meta, { logFactor, decayTime }, now = Date.now()) {
+    meta.counter = logIncrement(decayedCounter(meta, decayTime, now), logFactor);
+    meta.lastAccess = now;
+}
+
+// CONFIG SET lfu-log-factor / lfu-decay-time take a non-negative integer
+function parseLfuSetting(name, value) {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+        throw new Error(`ERR Invalid argument '${value}' for CONFIG SET '${name}'`);
+    }
+    return number;
+}
+
+module.exports = {
+    LFU_INIT_VAL,
+    DEFAULT_LOG_FACTOR,
+    DEFAULT_DECAY_TIME,
+    createMeta,
+    decayedCounter,
+    recordWrite,
+    recordAccess,
+    parseLfuSetting,
+};
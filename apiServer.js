@@ -1,9 +1,19 @@
 const express = require("express");
+const path = require("path");
 const ClusterRedis = require("./ClusterRedis");
+const SortedSet = require("./SortedSet");
+const Stream = require("./Stream");
+const HashSlotMap = require("./HashSlotMap");
+const { readSnapshot, previousGenerationPath } = require("./rdbFile");
 const cors = require("cors");
 const http = require("http");
 const socketIo = require("socket.io");
 const { SampleDataPopulator } = require("./populateSampleData");
+const { matchesPattern } = require("./patternMatch");
+const PubSubHistory = require("./pubsubHistory");
+const { configGet, configSet } = require("./serverConfig");
+const { commands: commandTable, executeCommand, execBatch } = require("./commandTable");
+const { replyToJSON } = require("./respProtocol");
 
 const app = express();
 const server = http.createServer(app);
@@ -41,7 +51,9 @@ try {
   // Fallback: create a minimal cluster or exit gracefully
   try {
     const RedisClone = require("./redis");
+    const slotMap = new HashSlotMap(['node1', 'node2', 'node3']);
     cluster = {
+      slotMap,
       nodes: {
         node1: new RedisClone("node1"),
         node2: new RedisClone("node2"), 
@@ -50,13 +62,8 @@ try {
       get: (key) => cluster.route(key).get(key),
       set: (key, value, ttl) => cluster.route(key).set(key, value, ttl),
       delete: (key) => cluster.route(key).delete(key),
-      route: (key) => {
-        // Simple hash-based routing
-        const hash = require('crypto').createHash('md5').update(key).digest('hex');
-        const nodeIndex = parseInt(hash.substr(0, 8), 16) % 3;
-        const nodeName = ['node1', 'node2', 'node3'][nodeIndex];
-        return cluster.nodes[nodeName];
-      }
+      route: (key) => cluster.nodes[slotMap.getNode(key)],
+      getNodeForKey: (key) => slotMap.getNode(key)
     };
     console.log("✅ Fallback cluster initialized");
   } catch (fallbackError) {
@@ -114,7 +121,9 @@ function getErrorStatusCode(error) {
   }
   
   // Key not found errors should return 404 (Not Found)
-  if (errorMessage.includes('no such key')) {
+  if (errorMessage.includes('no such key') ||
+      errorMessage.includes('unknown node') ||
+      errorMessage.includes('no snapshot generation')) {
     return 404;
   }
   
@@ -123,17 +132,166 @@ function getErrorStatusCode(error) {
       errorMessage.includes('hash value is not an integer')) {
     return 400;
   }
+
+  // Invalid scores, options and config values should return 400 (Bad Request)
+  if (errorMessage.includes('not a valid float') ||
+      errorMessage.includes('invalid fsync policy') ||
+      errorMessage.includes('invalid snapshot retention') ||
+      errorMessage.includes('invalid channel retention') ||
+      errorMessage.includes('unknown option') ||
+      errorMessage.includes('invalid argument') ||
+      errorMessage.includes('invalid node name') ||
+      errorMessage.includes('invalid quorum') ||
+      errorMessage.includes('already exists') ||
+      errorMessage.includes("can't remove the last node") ||
+      errorMessage.includes('min or max is not a float') ||
+      errorMessage.includes('not compatible') ||
+      errorMessage.includes('single increment-element pair') ||
+      errorMessage.includes('invalid stream id') ||
+      errorMessage.includes('the id specified in xadd') ||
+      errorMessage.includes('requires the key to exist') ||
+      errorMessage.includes('wrong number of arguments') ||
+      errorMessage.includes('unknown command') ||
+      errorMessage.includes('timeout is') ||
+      errorMessage.includes('execabort') ||
+      errorMessage.includes('syntax error') ||
+      errorMessage.includes('number of keys') ||
+      errorMessage.includes('error compiling script') ||
+      errorMessage.includes('error running script') ||
+      errorMessage.includes('not allowed from script') ||
+      errorMessage.includes('not allowed inside a transaction')) {
+    return 400;
+  }
+
+  // Unknown script SHA (Not Found)
+  if (errorMessage.includes('noscript')) {
+    return 404;
+  }
+
+  // SCRIPT KILL with nothing to kill, or a script that already wrote (Conflict)
+  if (errorMessage.includes('notbusy') || errorMessage.includes('unkillable')) {
+    return 409;
+  }
+
+  // A script is running and has the server to itself (Service Unavailable)
+  if (errorMessage.startsWith('busy')) {
+    return 503;
+  }
+  
+  // A node over maxmemory with nothing to evict refuses writes (Insufficient Storage)
+  if (errorMessage.startsWith('oom')) {
+    return 507;
+  }
+
+  // A resharding is already running (Conflict)
+  if (errorMessage.includes('resharding already in progress')) {
+    return 409;
+  }
   
   // Default to 500 for other errors
   return 500;
 }
 
+// Convert engine values into JSON-friendly shapes (Sets become arrays,
+// sorted sets become [{ member, score }] in score order, streams their
+// entries and consumer groups)
+function serializeValue(value) {
+  if (value instanceof Set) {
+    return Array.from(value);
+  }
+  if (value instanceof SortedSet || value instanceof Stream) {
+    return value.toJSON();
+  }
+  return value;
+}
+
+// Reply to a read that may block (XREAD / XREADGROUP with block): the
+// response waits for the promise, and a client that goes away cancels it
+function sendBlockingRead(res, result, toData) {
+  if (result instanceof Promise) res.on("close", () => result.cancel());
+  Promise.resolve(result).then(
+    (value) => res.json({ success: true, data: toData(value) }),
+    (error) => res.status(getErrorStatusCode(error)).json({ success: false, error: error.message })
+  );
+}
+
+// BLPOP-style timeout in seconds (0 = no limit) as block ms
+function toBlockMs(timeout = 0) {
+  const seconds = Number(timeout);
+  if (!Number.isFinite(seconds)) throw new Error("ERR timeout is not a float or out of range");
+  if (seconds < 0) throw new Error("ERR timeout is negative");
+  return Math.ceil(seconds * 1000);
+}
+
+// LMOVE / BLMOVE ends: "left" or "right"
+function toDirection(value) {
+  const direction = String(value).toLowerCase();
+  if (direction !== "left" && direction !== "right") throw new Error("ERR syntax error, directions are left or right");
+  return direction;
+}
+
+// fields for XADD as a flat [field, value, ...] list, from an object or a list
+function toStreamFields(fields) {
+  if (Array.isArray(fields)) return fields;
+  return Object.entries(fields || {}).flat();
+}
+
 // WebSocket subscription tracking
 const subscriptions = new Map(); // channel -> Set of socket.id
 const channelCallbacks = new Map(); // `${socket.id}_${channel}` -> callback
 const channelNodes = new Map(); // `${socket.id}_${channel}` -> nodeName
+const patternSubscriptions = new Map(); // glob pattern -> Set of socket.id (PSUBSCRIBE)
 const connectedUsers = new Map(); // socket.id -> user info
 
+// Message IDs and retained messages of channels with a retention policy
+const pubsubHistory = new PubSubHistory();
+
+// Deliver a published message to WebSocket clients: 'message' to the
+// channel's room, 'pmessage' to every client whose pattern matches it.
+// Returns the message's history ID and how many deliveries were made,
+// like PUBLISH's reply.
+function deliverToWebSockets(channel, message) {
+  const { id, timestamp } = pubsubHistory.record(channel, message);
+  io.to(channel).emit('message', { id, channel, message, timestamp });
+
+  let delivered = subscriptions.has(channel) ? subscriptions.get(channel).size : 0;
+  for (const [pattern, socketIds] of patternSubscriptions.entries()) {
+    if (!matchesPattern(pattern, channel)) continue;
+    socketIds.forEach((socketId) => io.to(socketId).emit('pmessage', { id, pattern, channel, message, timestamp }));
+    delivered += socketIds.size;
+  }
+  return { id, subscribers: delivered };
+}
+
+// Keyspace notifications (notify-keyspace-events) reach WebSocket clients
+// like published messages, on __keyspace@0__:<key> / __keyevent@0__:<event>
+cluster.keyspacePublisher = (channel, message) => deliverToWebSockets(channel, message);
+
+// A client for commands run through the command table (transactions, EVAL)
+function restContext() {
+  const client = { id: 0, name: "rest", protocol: 2, subscriptions: new Map(), patternSubscriptions: new Map(), multi: null, watch: null };
+  return { cluster, client, stats: serverStats };
+}
+
+// While an EVAL script runs nothing else may touch the data, as with RESP
+// clients: the data routes, and every route that changes something
+// (flushall, the replication master, persistence...), answer BUSY (503)
+// until it ends or SCRIPT KILL
+const BUSY_DATA_ROUTES = ["/api/keys", "/api/transaction", "/api/streams", "/api/scripts", "/api/sets"];
+const WRITE_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+app.use((req, res, next) => {
+  if (!cluster || !cluster.scripts || !cluster.scripts.running) {
+    return next();
+  }
+  const scriptStatus = req.path === "/api/scripts/kill" || (req.path.startsWith("/api/scripts") && req.method === "GET");
+  const dataRoute = BUSY_DATA_ROUTES.some((route) => req.path === route || req.path.startsWith(`${route}/`));
+  if (scriptStatus || (!dataRoute && !WRITE_METHODS.includes(req.method))) {
+    return next();
+  }
+  res.status(503).json({ success: false, error: "BUSY Redis is busy running a script. You can only call SCRIPT KILL or SHUTDOWN NOSAVE." });
+});
+
 // =========================
 // Root Route
 // =========================
@@ -186,7 +344,8 @@ app.get("/api/keys/:key", (req, res) => {
     incrementCommandCounter();
     const { key } = req.params;
     const value = cluster.get(key);
-    res.json({ success: true, data: { key, value } });
+    const type = cluster.route(key).type(key);
+    res.json({ success: true, data: { key, value: serializeValue(value), type } });
   } catch (error) {
     const statusCode = getErrorStatusCode(error);
     res.status(statusCode).json({ success: false, error: error.message });
@@ -318,7 +477,7 @@ app.post("/api/keys/:key/rename", (req, res) => {
   try {
     const { key } = req.params;
     const { newKey } = req.body;
-    const result = cluster.route(key).rename(key, newKey);
+    const result = cluster.rename(key, newKey);
     res.json({ success: true, data: result });
   } catch (error) {
     const statusCode = getErrorStatusCode(error);
@@ -338,6 +497,31 @@ app.get("/api/keys/:key/exists", (req, res) => {
   }
 });
 
+// MEMORY USAGE key: approximate bytes, null when the key doesn't exist
+app.get("/api/keys/:key/memory", (req, res) => {
+  try {
+    const { key } = req.params;
+    const node = cluster.route(key);
+    res.json({ success: true, data: { key, node: node.nodeName, bytes: node.memoryUsage(key) } });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// OBJECT ENCODING / IDLETIME / FREQ of key, without counting as an access; null when it doesn't exist
+app.get("/api/keys/:key/object", (req, res) => {
+  try {
+    const { key } = req.params;
+    const node = cluster.route(key);
+    const info = node.objectInfo(key);
+    res.json({ success: true, data: info && { key, node: node.nodeName, ...info } });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
 // =========================
 // List Operations
 // =========================
@@ -392,6 +576,65 @@ app.post("/api/keys/:key/rpop", (req, res) => {
   }
 });
 
+// BLPOP ({ timeout, keys }): pop from the first non-empty of key and the
+// extra keys. With nothing to pop the request is held for up to timeout
+// seconds (0 = no limit) and answered with { key, value }, or null.
+app.post("/api/keys/:key/blpop", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { timeout, keys = [] } = req.body;
+    const result = cluster.bpop([key, ...[].concat(keys)], "left", toBlockMs(timeout));
+    sendBlockingRead(res, result, (popped) => (popped ? { key: popped[0], value: popped[1] } : null));
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// BRPOP ({ timeout, keys }), like BLPOP from the tail
+app.post("/api/keys/:key/brpop", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { timeout, keys = [] } = req.body;
+    const result = cluster.bpop([key, ...[].concat(keys)], "right", toBlockMs(timeout));
+    sendBlockingRead(res, result, (popped) => (popped ? { key: popped[0], value: popped[1] } : null));
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// LMOVE ({ destination, from, to }): the moved value, "(nil)" for an empty source
+app.post("/api/keys/:key/lmove", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { destination, from = "left", to = "right" } = req.body;
+    const result = cluster.lmove(key, destination, toDirection(from), toDirection(to));
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// BLMOVE ({ destination, from, to, timeout }): LMOVE that waits like BLPOP;
+// the moved value, or null on timeout
+app.post("/api/keys/:key/blmove", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { destination, from = "left", to = "right", timeout } = req.body;
+    const result = cluster.blmove(key, destination, toDirection(from), toDirection(to), toBlockMs(timeout));
+    sendBlockingRead(res, result, (moved) => (moved ? moved[0] : null));
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
 // =========================
 // Hash Operations
 // =========================
@@ -458,6 +701,562 @@ app.post("/api/keys/:key/hincrby", (req, res) => {
   }
 });
 
+// =========================
+// Set Operations
+// =========================
+
+// SADD (accepts a single member or an array of members)
+app.post("/api/keys/:key/sadd", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { member, members } = req.body;
+    const toAdd = members !== undefined ? [].concat(members) : [member];
+    if (toAdd.length === 0 || toAdd.some((m) => m === undefined || m === null)) {
+      throw new Error("ERR wrong number of arguments for 'sadd' command");
+    }
+    const result = cluster.route(key).sadd(key, ...toAdd);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SREM
+app.post("/api/keys/:key/srem", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { member, members } = req.body;
+    const toRemove = members !== undefined ? [].concat(members) : [member];
+    if (toRemove.length === 0 || toRemove.some((m) => m === undefined || m === null)) {
+      throw new Error("ERR wrong number of arguments for 'srem' command");
+    }
+    const result = cluster.route(key).srem(key, ...toRemove);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SMEMBERS
+app.get("/api/keys/:key/smembers", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const result = cluster.route(key).smembers(key);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SISMEMBER
+app.get("/api/keys/:key/sismember/:member", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key, member } = req.params;
+    const result = cluster.route(key).sismember(key, member);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SCARD
+app.get("/api/keys/:key/scard", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const result = cluster.route(key).scard(key);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SPOP
+app.post("/api/keys/:key/spop", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { count } = req.body || {};
+    const result = cluster.route(key).spop(key, count !== undefined ? Number(count) : null);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SRANDMEMBER
+app.get("/api/keys/:key/srandmember", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { count } = req.query;
+    const result = cluster.route(key).srandmember(key, count !== undefined ? Number(count) : null);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SINTER / SUNION / SDIFF across any keys (they may live on different nodes)
+app.post("/api/sets/:operation", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { operation } = req.params;
+    const { keys } = req.body;
+
+    if (!["sinter", "sunion", "sdiff"].includes(operation)) {
+      return res.status(400).json({ success: false, error: `Unknown set operation: ${operation}` });
+    }
+    if (!Array.isArray(keys) || keys.length === 0) {
+      return res.status(400).json({ success: false, error: "keys must be a non-empty array" });
+    }
+
+    const result = cluster[operation](keys);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// =========================
+// Sorted Set Operations
+// =========================
+
+// ZADD (accepts { score, member } or { members: [{ score, member }] } plus
+// optional nx / xx / gt / lt / ch / incr flags)
+app.post("/api/keys/:key/zadd", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { score, member, members, ...options } = req.body;
+    const entries = members !== undefined ? [].concat(members) : [{ score, member }];
+    const pairs = entries.map((entry) => [entry.score, entry.member]);
+    const result = cluster.route(key).zadd(key, pairs, options);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// ZINCRBY
+app.post("/api/keys/:key/zincrby", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { increment, member } = req.body;
+    const result = cluster.route(key).zincrby(key, increment, member);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// ZREM
+app.post("/api/keys/:key/zrem", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { member, members } = req.body;
+    const toRemove = members !== undefined ? [].concat(members) : [member];
+    const result = cluster.route(key).zrem(key, ...toRemove);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// ZRANGE by rank (rev=true for ZREVRANGE); always returns { member, score } entries
+app.get("/api/keys/:key/zrange", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { start = 0, stop = -1, rev } = req.query;
+    const node = cluster.route(key);
+    const result = rev === "true"
+      ? node.zrevrange(key, Number(start), Number(stop), true)
+      : node.zrange(key, Number(start), Number(stop), true);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// ZRANGEBYSCORE (min/max accept -inf, +inf and "(" for exclusive bounds)
+app.get("/api/keys/:key/zrangebyscore", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { min = "-inf", max = "+inf", offset = 0, count = -1, rev } = req.query;
+    const node = cluster.route(key);
+    const options = { withScores: true, offset: Number(offset), count: Number(count) };
+    const result = rev === "true"
+      ? node.zrevrangebyscore(key, max, min, options)
+      : node.zrangebyscore(key, min, max, options);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// ZRANK / ZREVRANK
+app.get("/api/keys/:key/zrank/:member", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key, member } = req.params;
+    const node = cluster.route(key);
+    const result = req.query.rev === "true" ? node.zrevrank(key, member) : node.zrank(key, member);
+    res.json({ success: true, data: result === "(nil)" ? null : result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// ZSCORE
+app.get("/api/keys/:key/zscore/:member", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key, member } = req.params;
+    const result = cluster.route(key).zscore(key, member);
+    res.json({ success: true, data: result === "(nil)" ? null : result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// ZCARD
+app.get("/api/keys/:key/zcard", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const result = cluster.route(key).zcard(key);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// =========================
+// Stream Operations
+// =========================
+
+// Every stream in the cluster with its length, last ID and group count
+app.get("/api/streams", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const streams = [];
+    for (const [nodeName, node] of Object.entries(cluster.nodes)) {
+      node.keys().filter((key) => node.type(key) === "stream").forEach((key) => {
+        const info = node.xinfoStream(key);
+        streams.push({ key, node: nodeName, length: info.length, lastGeneratedId: info.lastGeneratedId, groups: info.groups });
+      });
+    }
+    streams.sort((a, b) => a.key.localeCompare(b.key));
+    res.json({ success: true, data: streams });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// XADD ({ fields: { field: value } or [field, value, ...], id = "*", maxLen })
+app.post("/api/keys/:key/xadd", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { fields, id = "*", maxLen = null } = req.body;
+    const result = cluster.route(key).xadd(key, id, toStreamFields(fields), { maxLen: maxLen === null ? null : Number(maxLen) });
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// XRANGE (rev=true for XREVRANGE, newest first); returns { id, fields } entries
+app.get("/api/keys/:key/xrange", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { start = "-", end = "+", count, rev } = req.query;
+    const node = cluster.route(key);
+    const limit = count === undefined ? null : Number(count);
+    const result = rev === "true" ? node.xrevrange(key, end, start, limit) : node.xrange(key, start, end, limit);
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// XREAD of one stream: entries after id ("$" = only new ones). With block
+// (ms, 0 = no limit) the request is held until entries arrive or it times out.
+app.get("/api/keys/:key/xread", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { id = "$", count, block } = req.query;
+    const result = cluster.xread([[key, id]], {
+      count: count === undefined ? null : Number(count),
+      block: block === undefined ? null : Number(block),
+    });
+    sendBlockingRead(res, result, (streams) => (streams ? streams[0][1] : []));
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// XINFO STREAM plus XINFO GROUPS / CONSUMERS for every group
+app.get("/api/keys/:key/xinfo", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const node = cluster.route(key);
+    const groups = node.xinfoGroups(key).map((group) => ({ ...group, consumerList: node.xinfoConsumers(key, group.name) }));
+    res.json({ success: true, data: { ...node.xinfoStream(key), groups } });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// XGROUP ({ action: create | setid | destroy | createconsumer | delconsumer, group, id, mkStream, consumer })
+app.post("/api/keys/:key/xgroup", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { action, group, id = "$", mkStream = false, consumer } = req.body;
+    const node = cluster.route(key);
+    let result;
+    switch (action) {
+      case "create": result = node.xgroupCreate(key, group, id, mkStream); break;
+      case "setid": result = node.xgroupSetId(key, group, id); break;
+      case "destroy": result = node.xgroupDestroy(key, group); break;
+      case "createconsumer": result = node.xgroupCreateConsumer(key, group, consumer); break;
+      case "delconsumer": result = node.xgroupDelConsumer(key, group, consumer); break;
+      default:
+        return res.status(400).json({ success: false, error: "Invalid action. Use: create, setid, destroy, createconsumer, delconsumer" });
+    }
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// XREADGROUP of one stream ({ group, consumer, id = ">", count, block, noAck })
+app.post("/api/keys/:key/xreadgroup", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { group, consumer, id = ">", count = null, block = null, noAck = false } = req.body;
+    const result = cluster.xreadgroup(group, consumer, [[key, id]], { count, block, noAck });
+    sendBlockingRead(res, result, (streams) => (streams ? streams[0][1] : []));
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// XACK ({ group, ids })
+app.post("/api/keys/:key/xack", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { group, ids = [] } = req.body;
+    const result = cluster.route(key).xack(key, group, ...[].concat(ids));
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// XPENDING: the summary plus the pending entries (optionally of one consumer)
+app.get("/api/keys/:key/xpending", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { group, consumer = null, count = 100, minIdleMs = 0 } = req.query;
+    const node = cluster.route(key);
+    const summary = node.xpendingSummary(key, group);
+    const entries = node.xpending(key, group, { count: Number(count), consumer, minIdleMs: Number(minIdleMs) });
+    res.json({ success: true, data: { summary, entries } });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// XCLAIM ({ group, consumer, minIdleMs = 0, ids })
+app.post("/api/keys/:key/xclaim", (req, res) => {
+  try {
+    incrementCommandCounter();
+    const { key } = req.params;
+    const { group, consumer, minIdleMs = 0, ids = [] } = req.body;
+    const result = cluster.route(key).xclaim(key, group, consumer, Number(minIdleMs), [].concat(ids));
+    res.json({ success: true, data: result });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// =========================
+// Transactions
+// =========================
+
+// MULTI/EXEC in one request ({ commands: [["INCR", "counter"], ["LPUSH", "log", "x"]] }).
+// The commands run back to back with no other request in between, and each
+// node's writes reach its AOF and slaves as one entry. Nothing runs when a
+// command is unknown or has the wrong number of arguments; an error while
+// running (WRONGTYPE and the like) takes its command's place in the replies.
+app.post("/api/transaction", (req, res) => {
+  try {
+    const { commands } = req.body;
+    if (!Array.isArray(commands) || commands.length === 0 || !commands.every((argv) => Array.isArray(argv) && argv.length > 0)) {
+      throw new Error("ERR invalid argument: commands must be a list of [command, ...args] lists");
+    }
+    serverStats.commandsExecuted += commands.length;
+
+    const replies = execBatch(restContext(), commands.map((argv) => argv.map(String)));
+    res.json({ success: true, data: replies.map(replyToJSON) });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// =========================
+// Scripting (EVAL)
+// =========================
+
+// EVAL / EVALSHA through the command table, so REST scripts get the same
+// checks and replies as RESP ones; an { err } the script returns fails the request
+function sendScriptReply(res, argv) {
+  Promise.resolve()
+    .then(() => executeCommand(restContext(), argv))
+    .then((reply) => {
+      if (reply instanceof Error) throw reply;
+      res.json({ success: true, data: replyToJSON(reply) });
+    })
+    .catch((error) => res.status(getErrorStatusCode(error)).json({ success: false, error: error.message }));
+}
+
+// keys and args of a script as string lists
+function toScriptArgs({ keys = [], args = [] }) {
+  if (!Array.isArray(keys) || !Array.isArray(args)) {
+    throw new Error("ERR invalid argument: keys and args must be lists");
+  }
+  return [keys.length, ...keys, ...args].map(String);
+}
+
+// Run a script: { script, keys, args }
+app.post("/api/scripts/eval", (req, res) => {
+  try {
+    const { script } = req.body;
+    if (typeof script !== "string" || !script.trim()) throw new Error("ERR invalid argument: script is required");
+    incrementCommandCounter();
+    sendScriptReply(res, ["eval", script, ...toScriptArgs(req.body)]);
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// Run a cached script: { sha, keys, args }
+app.post("/api/scripts/evalsha", (req, res) => {
+  try {
+    const { sha } = req.body;
+    if (typeof sha !== "string" || !sha) throw new Error("ERR invalid argument: sha is required");
+    incrementCommandCounter();
+    sendScriptReply(res, ["evalsha", sha, ...toScriptArgs(req.body)]);
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SCRIPT LOAD: { script } -> { sha }
+app.post("/api/scripts/load", (req, res) => {
+  try {
+    const { script } = req.body;
+    if (typeof script !== "string" || !script.trim()) throw new Error("ERR invalid argument: script is required");
+    incrementCommandCounter();
+    res.json({ success: true, data: { sha: cluster.scripts.load(script) } });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SCRIPT EXISTS: { shas } -> [true | false, ...]
+app.post("/api/scripts/exists", (req, res) => {
+  try {
+    const { shas } = req.body;
+    if (!Array.isArray(shas) || shas.length === 0) throw new Error("ERR invalid argument: shas must be a non-empty list");
+    incrementCommandCounter();
+    res.json({ success: true, data: cluster.scripts.exists(shas) });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SCRIPT FLUSH
+app.post("/api/scripts/flush", (req, res) => {
+  try {
+    incrementCommandCounter();
+    cluster.scripts.flush();
+    res.json({ success: true, data: "OK" });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// SCRIPT KILL
+app.post("/api/scripts/kill", (req, res) => {
+  try {
+    incrementCommandCounter();
+    cluster.scripts.kill();
+    res.json({ success: true, data: "OK" });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// Cached scripts and the one running now
+app.get("/api/scripts", (req, res) => {
+  try {
+    res.json({ success: true, data: { scripts: cluster.scripts.list(), status: cluster.scripts.status() } });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
 // =========================
 // Pub/Sub Operations
 // =========================
@@ -484,12 +1283,20 @@ app.get("/api/pubsub/channels", (req, res) => {
       }
     }
     
+    // Channels with retained history are listed even without subscribers
+    for (const { channel } of pubsubHistory.listChannels()) {
+      if (!channelSubscribers.has(channel)) {
+        channelSubscribers.set(channel, 0);
+      }
+    }
+    
     // Convert to array format
     for (const [channelName, subscriberCount] of channelSubscribers.entries()) {
       channels.push({
         name: channelName,
         subscribers: subscriberCount,
-        node: 'websocket'
+        node: 'websocket',
+        retention: pubsubHistory.getRetention(channelName)
       });
     }
     
@@ -516,7 +1323,6 @@ app.post("/api/pubsub/publish", (req, res) => {
     
     // Collect WebSocket recipients
     const recipients = [];
-    let totalSubscribers = 0;
     
     if (subscriptions.has(channel)) {
       for (const socketId of subscriptions.get(channel)) {
@@ -524,7 +1330,6 @@ app.post("/api/pubsub/publish", (req, res) => {
         const userDisplay = userInfo ? userInfo.username : 'Anonymous';
         recipients.push(userDisplay);
       }
-      totalSubscribers = subscriptions.get(channel).size;
     }
     
     // Log batched message forwarding
@@ -532,11 +1337,51 @@ app.post("/api/pubsub/publish", (req, res) => {
       console.log(`📤 Forwarding message to clients [${recipients.join(', ')}]: ${message}`);
     }
     
-    // Use ONLY Socket.IO room system to avoid duplicate messages
+    // Use ONLY Socket.IO delivery to avoid duplicate messages
     // (Remove Redis pub/sub path that was causing duplicates)
-    io.to(channel).emit('message', { channel, message, timestamp: new Date() });
+    const { id, subscribers } = deliverToWebSockets(channel, message);
     
-    res.json({ success: true, data: { subscribers: totalSubscribers } });
+    res.json({ success: true, data: { id, subscribers } });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// Retained messages of a channel, optionally only those after ?since=<id>
+app.get("/api/pubsub/channels/:channel/history", (req, res) => {
+  try {
+    const { channel } = req.params;
+    const since = req.query.since !== undefined ? Number(req.query.since) : 0;
+    if (!Number.isInteger(since) || since < 0) {
+      return res.status(400).json({ success: false, error: "since must be a message ID" });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        channel,
+        retention: pubsubHistory.getRetention(channel),
+        lastId: pubsubHistory.lastId,
+        messages: pubsubHistory.since(channel, since)
+      }
+    });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// Set a channel's retention: keep the last maxLen messages and/or those
+// younger than maxAgeMs; both null turns retention off
+app.put("/api/pubsub/channels/:channel/retention", (req, res) => {
+  try {
+    const { channel } = req.params;
+    const { maxLen = null, maxAgeMs = null } = req.body || {};
+    const retention = pubsubHistory.setRetention(channel, { maxLen, maxAgeMs });
+
+    console.log(`🗄️  Retention for ${channel}: ${retention ? JSON.stringify(retention) : 'off'}`);
+    res.json({ success: true, data: { channel, retention } });
   } catch (error) {
     const statusCode = getErrorStatusCode(error);
     res.status(statusCode).json({ success: false, error: error.message });
@@ -677,13 +1522,85 @@ app.get("/api/server-stats", (req, res) => {
   }
 });
 
-// FLUSH ALL
-app.post("/api/flushall", (req, res) => {
+// FLUSH ALL
+app.post("/api/flushall", (req, res) => {
+  try {
+    for (const [nodeName, node] of Object.entries(cluster.nodes)) {
+      node.flushAll();
+    }
+    res.json({ success: true, data: "All data flushed" });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// the nodes a CONFIG GET/SET applies to: one node when named, else all of them
+function configNodes(nodeName) {
+  if (!nodeName) return Object.values(cluster.nodes);
+  if (!cluster.nodes[nodeName]) throw new Error(`ERR unknown node ${nodeName}`);
+  return [cluster.nodes[nodeName]];
+}
+
+// CONFIG GET: runtime parameters (?pattern= glob, default all; ?node= for one node's values)
+app.get("/api/config", (req, res) => {
+  try {
+    res.json({ success: true, data: configGet(configNodes(req.query.node), req.query.pattern || "*") });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// CONFIG SET on every node, or only on node: { parameter, value, node? }
+app.post("/api/config", (req, res) => {
+  try {
+    const { parameter, value, node } = req.body;
+    if (!parameter || value === undefined) {
+      return res.status(400).json({ success: false, error: "parameter and value are required" });
+    }
+    const applied = configSet(configNodes(node), parameter, String(value));
+    console.log(`⚙️  CONFIG SET ${parameter} ${JSON.stringify(applied)}${node ? ` on ${node}` : ""}`);
+    res.json({ success: true, data: { parameter, value: applied, node: node || null } });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// Eviction per node: maxmemory-policy, memory used against maxmemory and the evicted / rejected counters
+app.get("/api/eviction", (req, res) => {
+  try {
+    const nodes = Object.entries(cluster.nodes).map(([node, instance]) => ({ node, ...instance.getEvictionStatus() }));
+    res.json({ success: true, data: nodes });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// Keys of every node in LRU order with their idle time, LFU counter, encoding
+// and size (?limit= most recently used keys per node, default 100)
+app.get("/api/eviction/keys", (req, res) => {
+  try {
+    const limit = parseInt(req.query.limit) || 100;
+    const nodes = Object.entries(cluster.nodes).map(([node, instance]) => ({
+      node,
+      policy: instance.maxMemoryPolicy,
+      entries: instance.accessList(limit),
+    }));
+    res.json({ success: true, data: nodes });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+// MEMORY STATS per node: dataset bytes, peak, maxmemory and the largest keys
+app.get("/api/memory", (req, res) => {
   try {
-    for (const [nodeName, node] of Object.entries(cluster.nodes)) {
-      node.flushAll();
-    }
-    res.json({ success: true, data: "All data flushed" });
+    const nodes = Object.entries(cluster.nodes).map(([node, instance]) => ({ node, ...instance.memoryStats() }));
+    res.json({ success: true, data: nodes });
   } catch (error) {
     const statusCode = getErrorStatusCode(error);
     res.status(statusCode).json({ success: false, error: error.message });
@@ -697,14 +1614,37 @@ app.post("/api/flushall", (req, res) => {
 // Start master server for replication demo
 const net = require("net");
 const RedisClone = require("./redis");
+const { WRITE_COMMANDS, READ_COMMANDS, isWriteCommand, isReadCommand } = require("./replicationCommands");
+const { SentinelMonitor, inlineCommand } = require("./sentinel");
+const { checkConsistency, repairKeys, localNode, remoteNode } = require("./replicationConsistency");
+
+// Unknown commands and wrong argument counts are the caller's mistake; the
+// arity comes from the command table for the commands it has
+function checkMasterCommand([command, ...args]) {
+  const name = String(command || '').toLowerCase();
+  if (name !== 'wait' && !isReadCommand(name) && !isWriteCommand(name)) {
+    throw new Error(`Unknown command: ${command}`);
+  }
+  const entry = commandTable[name];
+  const argc = args.length + 1;
+  if (entry && ((entry.arity > 0 && argc !== entry.arity) || (entry.arity < 0 && argc < -entry.arity))) {
+    throw new Error(`ERR wrong number of arguments for '${name}' command`);
+  }
+  return name;
+}
 
 // Master instance for replication demo
 const masterRedis = new RedisClone("master");
 let masterServer = null;
 let replicationLog = [];
-let slaveConnections = new Map(); // slaveId -> {socket, status, lastSync}
+let slaveConnections = new Map(); // slaveId -> {socket, status, lastSync, lastAck}
 let slaveStates = new Map(); // slaveId -> {keys: {}, status: 'connected'}
 
+// master values by key, as shown for a slave right after its initial sync
+function masterKeySnapshot() {
+  return Object.fromEntries(masterRedis.store);
+}
+
 // Enhanced replication with logging
 function logReplicationEvent(command, args, status = 'success') {
   const event = {
@@ -739,48 +1679,68 @@ app.post("/api/replication/start-master", (req, res) => {
       
       console.log(`📡 Slave attempting to connect to master...`);
       
-      const setupSlave = (id) => {
+      const setupSlave = (id, replId = null, offset = -1) => {
         slaveId = id;
         console.log(`📡 Slave connected to master: ${slaveId}`);
+
+        // PSYNC: only the missed entries when the backlog covers the slave's offset, else the whole dataset
+        const sync = masterRedis.syncSlave(socket, replId, offset);
         
         slaveConnections.set(slaveId, {
           socket,
           status: 'connected',
           lastSync: new Date(),
-          connectedAt: new Date()
+          connectedAt: new Date(),
+          syncMode: sync.mode,
+          syncOffset: sync.offset
         });
         
         slaveStates.set(slaveId, {
-          keys: {},
+          keys: masterKeySnapshot(),
           status: 'connected'
         });
 
-        masterRedis.slaves.push(socket);
-        
-        // Send initial sync data to new slave
-        const masterKeys = masterRedis.keys();
-        masterKeys.forEach(key => {
-          const value = masterRedis.get(key);
-          const ttl = masterRedis.ttl(key);
-          const syncCommand = { command: "set", args: [key, value, ttl > 0 ? ttl : null] };
-          socket.write(JSON.stringify(syncCommand) + "\n");
-        });
-
         logReplicationEvent('SLAVE_CONNECTED', [slaveId], 'success');
+        if (sync.mode === 'partial') {
+          logReplicationEvent('PSYNC_CONTINUE', [slaveId, offset, `${sync.missed} missed`], 'success');
+        } else {
+          logReplicationEvent('FULL_RESYNC', [slaveId, masterRedis.backlog.replId, sync.offset], 'success');
+        }
         isHandshaken = true;
       };
-      
+      const fallbackSlaveId = () => `slave_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+      // Messages are newline-delimited; a TCP chunk can end mid-line or hold
+      // several lines, so the remainder waits for the next chunk
+      let pending = '';
+
       socket.on('data', (data) => {
-        const messages = data.toString().trim().split('\n');
+        pending += data.toString();
+        const messages = pending.split('\n');
+        pending = messages.pop();
         messages.forEach(msg => {
-          if (!msg) return;
+          if (!msg.trim()) return;
           
           try {
             const parsed = JSON.parse(msg);
+
+            // Sentinel heartbeat
+            if (parsed.type === 'ping') {
+              socket.write(JSON.stringify({ type: 'pong', ...masterRedis.getReplicationInfo() }) + '\n');
+              return;
+            }
             
             // Handle handshake
-            if (parsed.type === 'handshake' && parsed.slaveId && !isHandshaken) {
-              setupSlave(parsed.slaveId);
+            if (parsed.type === 'handshake' && !isHandshaken) {
+              setupSlave(parsed.slaveId || fallbackSlaveId(), parsed.replId, parsed.offset);
+              return;
+            }
+
+            // REPLCONF ACK: the offset the slave has applied
+            if (parsed.type === 'ack' && isHandshaken) {
+              masterRedis.acknowledge(socket, parsed.offset);
+              const connection = slaveConnections.get(slaveId);
+              if (connection) connection.lastAck = new Date();
               return;
             }
             
@@ -790,7 +1750,7 @@ app.post("/api/replication/start-master", (req, res) => {
           } catch (err) {
             // If no handshake received, fall back to old behavior
             if (!isHandshaken) {
-              const fallbackId = `slave_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+              const fallbackId = fallbackSlaveId();
               console.log(`⚠️ No handshake received, using fallback ID: ${fallbackId}`);
               setupSlave(fallbackId);
             }
@@ -798,30 +1758,26 @@ app.post("/api/replication/start-master", (req, res) => {
         });
       });
 
-      socket.on("end", () => {
-        if (slaveId) {
-          console.log(`❌ Slave disconnected: ${slaveId}`);
-          slaveConnections.delete(slaveId);
-          slaveStates.delete(slaveId);
-          
-          // Remove from masterRedis.slaves array
-          const index = masterRedis.slaves.indexOf(socket);
-          if (index > -1) {
-            masterRedis.slaves.splice(index, 1);
-          }
-          
-          logReplicationEvent('SLAVE_DISCONNECTED', [slaveId], 'warning');
-        }
-      });
-
       socket.on("error", (err) => {
         if (slaveId) {
           console.error(`💥 Slave connection error (${slaveId}):`, err.message);
-          slaveConnections.delete(slaveId);
-          slaveStates.delete(slaveId);
           logReplicationEvent('SLAVE_ERROR', [slaveId, err.message], 'error');
         }
       });
+
+      // 'close' comes however the socket went (end, error, destroy), so this
+      // is where the slave leaves the ACK/WAIT set; a reconnect under the
+      // same ID may already have replaced its entries
+      socket.on("close", () => {
+        masterRedis.unregisterSlave(socket);
+        if (!slaveId) return;
+        const connection = slaveConnections.get(slaveId);
+        if (connection && connection.socket !== socket) return;
+        console.log(`❌ Slave disconnected: ${slaveId}`);
+        slaveConnections.delete(slaveId);
+        slaveStates.delete(slaveId);
+        logReplicationEvent('SLAVE_DISCONNECTED', [slaveId], 'warning');
+      });
     });
 
     const PORT = 7000;
@@ -836,12 +1792,19 @@ app.post("/api/replication/start-master", (req, res) => {
       logReplicationEvent(command.toUpperCase(), args, 'replicating');
       originalReplicate(command, args);
       
-      // Update slave states (optimistic)
+      // Update slave states (optimistic): the touched keys now look like on the master
+      const touchedKeys = command === 'rename' ? args.slice(0, 2) : [args[0]];
       slaveStates.forEach((state, slaveId) => {
-        if (command === 'set') {
-          state.keys[args[0]] = args[1];
-        } else if (command === 'delete') {
-          delete state.keys[args[0]];
+        if (command === 'flushall') {
+          state.keys = {};
+        } else {
+          touchedKeys.forEach((key) => {
+            if (masterRedis.store.has(key)) {
+              state.keys[key] = masterRedis.store.get(key);
+            } else {
+              delete state.keys[key];
+            }
+          });
         }
         state.lastSync = new Date();
       });
@@ -869,6 +1832,28 @@ app.post("/api/replication/stop-master", (req, res) => {
   }
 });
 
+// Crash the master: stop listening and drop every slave link at once, so
+// slaves start reconnecting and the sentinels stop getting pongs
+app.post("/api/replication/kill-master", (req, res) => {
+  try {
+    if (!masterServer) {
+      return res.status(400).json({ success: false, error: "Master server is not running" });
+    }
+    masterServer.close();
+    masterServer = null;
+    [...masterRedis.slaves].forEach((socket) => {
+      socket.destroy();
+      masterRedis.unregisterSlave(socket);
+    });
+    slaveConnections.clear();
+    slaveStates.clear();
+    logReplicationEvent('MASTER_KILLED', [7000], 'error');
+    res.json({ success: true, message: "Master server killed" });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // Get master keys
 app.get("/api/replication/master/keys", (req, res) => {
   try {
@@ -912,6 +1897,8 @@ app.get("/api/replication/slaves", (req, res) => {
         keys: state ? state.keys : {},
         lastSync: connection.lastSync,
         connectedAt: connection.connectedAt,
+        syncMode: connection.syncMode,
+        ...masterRedis.slaveLag(connection.socket),
         role: 'slave'
       });
     });
@@ -922,28 +1909,28 @@ app.get("/api/replication/slaves", (req, res) => {
   }
 });
 
-// Execute command on master (for testing)
-app.post("/api/replication/master/execute", (req, res) => {
+// Execute command on master (for testing). WAIT numreplicas timeout blocks
+// until that many slaves acknowledged the writes so far; a write can also
+// pass `wait: { numreplicas, timeout }` to block on its own.
+app.post("/api/replication/master/execute", async (req, res) => {
   try {
-    const { command, args } = req.body;
-    
-    let result;
-    switch (command.toLowerCase()) {
-      case 'set':
-        result = masterRedis.set(args[0], args[1], args[2] || null);
-        break;
-      case 'get':
-        result = masterRedis.get(args[0]);
-        break;
-      case 'delete':
-        result = masterRedis.delete(args[0]);
-        break;
-      case 'flushall':
-        result = masterRedis.flushAll();
-        break;
-      default:
-        throw new Error(`Unknown command: ${command}`);
-    }
+    const { command, args, wait } = req.body;
+    
+    const name = checkMasterCommand([command, ...(args || [])]);
+
+    // after a failover the writes go to the promoted slave
+    const promoted = currentPromotedMaster();
+    const run = async (parts) => {
+      const [cmd, ...rest] = parts;
+      if (promoted) return inlineCommand(promoted.host, promoted.commandPort, parts, cmd === 'wait' ? 0 : undefined);
+      if (cmd === 'wait') return masterRedis.wait(Number(rest[0]), Number(rest[1]));
+      if (isReadCommand(cmd)) return READ_COMMANDS[cmd](masterRedis, rest);
+      return WRITE_COMMANDS[cmd](masterRedis, rest);
+    };
+    const result = await run([name, ...(args || [])]);
+    const replicasAcked = wait && isWriteCommand(name)
+      ? Number(await run(['wait', wait.numreplicas, wait.timeout]))
+      : undefined;
     
     res.json({ 
       success: true, 
@@ -951,11 +1938,41 @@ app.post("/api/replication/master/execute", (req, res) => {
         result,
         command: command.toUpperCase(),
         args,
+        replicasAcked,
         executedAt: new Date()
       }
     });
   } catch (error) {
-    res.status(500).json({ success: false, error: error.message });
+    res.status(getErrorStatusCode(error)).json({ success: false, error: error.message });
+  }
+});
+
+// MULTI/EXEC on the master ({ commands: [["set", "a", "1"], ["incr", "a"]] }):
+// the commands run back to back and their writes reach the slaves as one
+// entry. A command that fails has { error } as its result.
+app.post("/api/replication/master/transaction", (req, res) => {
+  try {
+    const { commands } = req.body;
+    if (!Array.isArray(commands) || commands.length === 0 || !commands.every((parts) => Array.isArray(parts) && parts.length > 0)) {
+      throw new Error("ERR invalid argument: commands must be a list of [command, ...args] lists");
+    }
+    if (currentPromotedMaster()) {
+      throw new Error("Transactions run on the original master, which has been failed over");
+    }
+    commands.forEach(checkMasterCommand);
+
+    const results = masterRedis.transaction(() => commands.map(([cmd, ...args]) => {
+      const name = String(cmd).toLowerCase();
+      try {
+        return isReadCommand(name) ? READ_COMMANDS[name](masterRedis, args) : WRITE_COMMANDS[name](masterRedis, args);
+      } catch (error) {
+        return { error: error.message };
+      }
+    }));
+
+    res.json({ success: true, data: { results, executedAt: new Date() } });
+  } catch (error) {
+    res.status(getErrorStatusCode(error)).json({ success: false, error: error.message });
   }
 });
 
@@ -981,10 +1998,15 @@ app.get("/api/replication/status", (req, res) => {
       totalReplicationEvents: replicationLog.length,
       masterPort: 7000,
       slavePort: 7001,
+      replication: masterRedis.getReplicationInfo(),
+      currentMaster: sentinelMonitor ? sentinelMonitor.master : { id: 'master', host: '127.0.0.1', port: 7000 },
       slaves: Array.from(slaveConnections.keys()).map(slaveId => ({
         id: slaveId,
         status: slaveConnections.get(slaveId).status,
-        lastSync: slaveConnections.get(slaveId).lastSync
+        lastSync: slaveConnections.get(slaveId).lastSync,
+        syncMode: slaveConnections.get(slaveId).syncMode,
+        syncOffset: slaveConnections.get(slaveId).syncOffset,
+        ...masterRedis.slaveLag(slaveConnections.get(slaveId).socket)
       }))
     };
     
@@ -994,6 +2016,75 @@ app.get("/api/replication/status", (req, res) => {
   }
 });
 
+// Run a command on one slave's read port (reads offloaded to a replica;
+// writes get the slave's READONLY error)
+app.post("/api/replication/slaves/:slaveId/command", async (req, res) => {
+  try {
+    const { slaveId } = req.params;
+    const { command, args = [] } = req.body;
+    const proc = slaveProcesses.get(slaveId);
+    if (!proc) {
+      return res.status(404).json({ success: false, error: `Slave ${slaveId} not found` });
+    }
+    if (!command) {
+      return res.status(400).json({ success: false, error: "Command is required" });
+    }
+
+    const reply = await inlineCommand('127.0.0.1', proc.port, [command, ...args]);
+    res.json({
+      success: true,
+      data: {
+        slaveId,
+        command: String(command).toUpperCase(),
+        args,
+        reply,
+        executedAt: new Date()
+      }
+    });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Compare every slave's keys with the master's over the slaves' read ports
+// (per-key digests), instead of the master's optimistic slaveStates
+function runConsistencyCheck() {
+  const promoted = currentPromotedMaster();
+  const master = promoted
+    ? remoteNode({ host: promoted.host, port: promoted.commandPort })
+    : localNode(masterRedis);
+  const slaves = Array.from(slaveProcesses.entries())
+    .filter(([id]) => !promoted || id !== promoted.id)
+    .map(([id, proc]) => ({ id, host: '127.0.0.1', port: proc.port }));
+  return checkConsistency(master, slaves);
+}
+
+app.get("/api/replication/consistency", async (req, res) => {
+  try {
+    res.json({ success: true, data: await runConsistencyCheck() });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Resend divergent keys (the given ones, or every key not synced) to the slaves
+app.post("/api/replication/consistency/repair", async (req, res) => {
+  try {
+    if (!masterServer || currentPromotedMaster()) {
+      return res.status(400).json({ success: false, error: "Repair needs the in-process master to be running and current" });
+    }
+    const keys = Array.isArray(req.body.keys)
+      ? req.body.keys
+      : (await runConsistencyCheck()).comparisons.filter((comparison) => comparison.status !== 'synced').map((comparison) => comparison.key);
+
+    const repaired = repairKeys(masterRedis, keys);
+    logReplicationEvent('CONSISTENCY_REPAIR', [`${repaired.length} key(s)`], 'warning');
+    res.json({ success: true, data: { repaired } });
+  } catch (error) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // Simulate slave failure
 app.post("/api/replication/simulate-failure/:slaveId", (req, res) => {
   try {
@@ -1325,6 +2416,80 @@ app.post("/api/replication/cleanup-zombie-slaves", (req, res) => {
   }
 });
 
+// =========================
+// Sentinel (automatic failover)
+// =========================
+
+let sentinelMonitor = null;
+
+// the promoted slave serving writes after a failover, or null while the in-process master is current
+function currentPromotedMaster() {
+  return sentinelMonitor && sentinelMonitor.master.id !== 'master' ? sentinelMonitor.master : null;
+}
+
+// Sentinel events go out like Redis Sentinel's: a pub/sub message on a channel
+// named after the event (+sdown, +odown, +switch-master, ...), for RESP
+// subscribers and WebSocket clients alike
+function publishSentinelEvent(event) {
+  const message = JSON.stringify({ ...event.details, sentinel: event.sentinel, epoch: event.epoch });
+  cluster.nodes[cluster.getNodeForKey(event.type)].publish(event.type, message);
+  deliverToWebSockets(event.type, message);
+  io.emit('sentinel_event', event);
+}
+
+app.post("/api/sentinel/start", (req, res) => {
+  try {
+    if (!masterServer) {
+      return res.status(400).json({ success: false, error: "Master server must be running to monitor it" });
+    }
+    if (sentinelMonitor) sentinelMonitor.stop();
+
+    const { sentinels = 3, quorum = 2, downAfterMs = 3000 } = req.body;
+    sentinelMonitor = new SentinelMonitor({
+      master: { id: 'master', host: '127.0.0.1', port: 7000 },
+      getSlaves: () => Array.from(slaveProcesses.entries(), ([id, proc]) => ({ id, host: '127.0.0.1', port: proc.port })),
+      sentinels: Number(sentinels),
+      quorum: Number(quorum),
+      downAfterMs: Number(downAfterMs),
+      onEvent: (event) => {
+        publishSentinelEvent(event);
+        if (event.type === '+switch-master') {
+          const { from, to } = event.details;
+          logReplicationEvent('FAILOVER', [from.id, to.id, `epoch ${event.epoch}`], 'warning');
+          io.emit('replication_topology_changed', sentinelMonitor.getStatus());
+        }
+      }
+    });
+    sentinelMonitor.start();
+    res.json({ success: true, data: sentinelMonitor.getStatus() });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+app.post("/api/sentinel/stop", (req, res) => {
+  try {
+    if (sentinelMonitor) {
+      sentinelMonitor.stop();
+      sentinelMonitor = null;
+    }
+    res.json({ success: true, message: "Sentinel stopped" });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
+app.get("/api/sentinel/status", (req, res) => {
+  try {
+    res.json({ success: true, data: sentinelMonitor ? sentinelMonitor.getStatus() : null });
+  } catch (error) {
+    const statusCode = getErrorStatusCode(error);
+    res.status(statusCode).json({ success: false, error: error.message });
+  }
+});
+
 // =========================
 // WebSocket for Pub/Sub
 // =========================
@@ -1347,7 +2512,9 @@ io.on('connection', (socket) => {
   });
   
   // Handle subscription
-  socket.on('subscribe', (channel) => {
+  // options.since: replay the channel's retained messages after that ID
+  // (the last one the client saw) before live delivery starts
+  socket.on('subscribe', (channel, options = {}) => {
     const userInfo = connectedUsers.get(socket.id);
     const userDisplay = userInfo ? `${userInfo.username} (${socket.id})` : socket.id;
     console.log(`📺 Client ${userDisplay} subscribing to channel: ${channel}`);
@@ -1384,6 +2551,11 @@ io.on('connection', (socket) => {
         
         // Join the Socket.IO room for this channel
         socket.join(channel);
+        if (options && options.since !== undefined) {
+          const missed = pubsubHistory.since(channel, Number(options.since) || 0);
+          missed.forEach((record) => socket.emit('message', { ...record, replayed: true }));
+          if (missed.length > 0) console.log(`⏪ Replayed ${missed.length} messages on ${channel} to ${socket.id}`);
+        }
         const userInfo = connectedUsers.get(socket.id);
         const userDisplay = userInfo ? `${userInfo.username} (${socket.id})` : socket.id;
         console.log(`✅ Client ${userDisplay} subscribed to channel: ${channel} on node1 and joined room`);
@@ -1449,6 +2621,31 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Handle pattern subscription (PSUBSCRIBE): messages on every channel
+  // matching the glob arrive as 'pmessage' with the pattern that matched
+  socket.on('psubscribe', (pattern) => {
+    if (typeof pattern !== 'string' || !pattern) {
+      socket.emit('psubscribed', { pattern, success: false, error: 'Pattern is required' });
+      return;
+    }
+    if (!patternSubscriptions.has(pattern)) {
+      patternSubscriptions.set(pattern, new Set());
+    }
+    patternSubscriptions.get(pattern).add(socket.id);
+    console.log(`✅ Client ${socket.id} subscribed to pattern: ${pattern}`);
+    socket.emit('psubscribed', { pattern, success: true, subscriberCount: patternSubscriptions.get(pattern).size });
+  });
+
+  socket.on('punsubscribe', (pattern) => {
+    const socketIds = patternSubscriptions.get(pattern);
+    if (socketIds) {
+      socketIds.delete(socket.id);
+      if (socketIds.size === 0) patternSubscriptions.delete(pattern);
+      console.log(`Client ${socket.id} unsubscribed from pattern: ${pattern}`);
+    }
+    socket.emit('punsubscribed', { pattern, success: true });
+  });
+
   // Handle disconnection
   socket.on('disconnect', () => {
     const userInfo = connectedUsers.get(socket.id);
@@ -1458,6 +2655,11 @@ io.on('connection', (socket) => {
     serverStats.connectedClients--;
     
     // Clean up all subscriptions for this client
+    for (const [pattern, socketIds] of patternSubscriptions.entries()) {
+      socketIds.delete(socket.id);
+      if (socketIds.size === 0) patternSubscriptions.delete(pattern);
+    }
+
     const keysToRemove = [];
     for (const [key, callback] of channelCallbacks.entries()) {
       if (key.startsWith(socket.id + '_')) {
@@ -1515,6 +2717,7 @@ app.get("/api/monitoring/stats", (req, res) => {
     // Calculate total keys across all nodes
     let totalKeys = 0;
     let ttlKeys = 0;
+    let datasetBytes = 0;
     const nodeDistribution = {};
     
     for (const [nodeName, node] of Object.entries(cluster.nodes)) {
@@ -1532,11 +2735,15 @@ app.get("/api/monitoring/stats", (req, res) => {
       nodeDistribution[nodeName] = {
         keyCount: nodeKeyCount,
         ttlKeys: nodeTtlKeys,
+        datasetBytes: node.usedMemory,
+        peakBytes: node.peakMemory,
+        maxMemory: node.maxMemory,
         status: 'connected'
       };
       
       totalKeys += nodeKeyCount;
       ttlKeys += nodeTtlKeys;
+      datasetBytes += node.usedMemory;
     }
     
     const stats = {
@@ -1548,12 +2755,8 @@ app.get("/api/monitoring/stats", (req, res) => {
       
       // System metrics
       uptime: Math.floor(uptime / 1000), // seconds
-      memoryUsage: {
-        rss: memoryUsage.rss,
-        heapTotal: memoryUsage.heapTotal,
-        heapUsed: memoryUsage.heapUsed,
-        external: memoryUsage.external
-      },
+      datasetBytes, // approximate memory of the data itself, per node in nodeDistribution
+      rss: memoryUsage.rss,
       cpuUsage: cpuUsage,
       
       // Cluster info
@@ -1600,10 +2803,11 @@ app.get("/api/monitoring/commands", (req, res) => {
 // Get key distribution across nodes
 app.get("/api/monitoring/cluster", (req, res) => {
   try {
+    const slotCounts = cluster.slotMap.slotCounts();
     const clusterInfo = {
       nodes: [],
       totalKeys: 0,
-      hashRingSize: 3 // Our cluster has 3 nodes
+      slotCount: HashSlotMap.SLOT_COUNT
     };
     
     for (const [nodeName, node] of Object.entries(cluster.nodes)) {
@@ -1613,6 +2817,7 @@ app.get("/api/monitoring/cluster", (req, res) => {
       clusterInfo.nodes.push({
         name: nodeName,
         keyCount,
+        slots: slotCounts[nodeName] || 0,
         status: 'connected',
         role: 'master', // All nodes are masters in our setup
         keys: keys.slice(0, 10) // Show first 10 keys for debugging
@@ -1706,6 +2911,91 @@ app.get("/api/monitoring/ttl-keys", (req, res) => {
   }
 });
 
+// =========================
+// Cluster Slot Operations
+// =========================
+
+// Live slot map: contiguous slot ranges and, per node, its ranges, slot count and key count
+app.get("/api/cluster/slots", (req, res) => {
+  try {
+    res.json({ success: true, data: cluster.getSlotMap() });
+  } catch (error) {
+    console.error('Error getting slot map:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// CLUSTER KEYSLOT: which slot and node a key maps to ({hashtag} aware)
+app.get("/api/cluster/keyslot/:key", (req, res) => {
+  try {
+    const { key } = req.params;
+    res.json({
+      success: true,
+      data: {
+        key,
+        hashTag: HashSlotMap.hashTag(key),
+        slot: cluster.keySlot(key),
+        node: cluster.getNodeForKey(key)
+      }
+    });
+  } catch (error) {
+    console.error('Error getting key slot:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Add or remove a node with online resharding. Replies right away with the
+// planned slot moves; progress is pushed to every Socket.IO client as
+// 'cluster_reshard_progress' until state is 'done' or 'failed'.
+function startResharding(res, operation, nodeName, options) {
+  const reshardOptions = {
+    batchSize: options.batchSize ? Number(options.batchSize) : undefined,
+    delayMs: options.delayMs !== undefined ? Number(options.delayMs) : undefined,
+    onProgress: (progress) => io.emit('cluster_reshard_progress', progress)
+  };
+  const run = operation === 'add'
+    ? cluster.addNode(nodeName, reshardOptions)
+    : cluster.removeNode(nodeName, reshardOptions);
+
+  run
+    .then((summary) => {
+      console.log(`Resharding (${operation} ${nodeName}) moved ${summary.movedKeys} keys in ${summary.finishedAt - summary.startedAt}ms`);
+      io.emit('cluster_topology_changed', cluster.getSlotMap());
+    })
+    .catch((error) => console.error(`Resharding (${operation} ${nodeName}) failed:`, error.message));
+
+  res.status(202).json({ success: true, data: cluster.getReshardStatus() });
+}
+
+// Add a node: { name, batchSize?, delayMs? }
+app.post("/api/cluster/nodes", (req, res) => {
+  try {
+    startResharding(res, 'add', req.body.name, req.body);
+  } catch (error) {
+    console.error('Error adding cluster node:', error);
+    res.status(getErrorStatusCode(error)).json({ success: false, error: error.message });
+  }
+});
+
+// Remove a node after moving its slots and keys to the others
+app.delete("/api/cluster/nodes/:name", (req, res) => {
+  try {
+    startResharding(res, 'remove', req.params.name, req.query);
+  } catch (error) {
+    console.error('Error removing cluster node:', error);
+    res.status(getErrorStatusCode(error)).json({ success: false, error: error.message });
+  }
+});
+
+app.get("/api/cluster/reshard", (req, res) => {
+  try {
+    res.json({ success: true, data: cluster.getReshardStatus() });
+  } catch (error) {
+    console.error('Error getting resharding status:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // =========================
 // RDB Persistence Operations
 // =========================
@@ -1713,11 +3003,16 @@ app.get("/api/monitoring/ttl-keys", (req, res) => {
 // Get persistence status
 app.get("/api/persistence/status", (req, res) => {
   try {
+    // save points ("seconds changes" pairs) are the same on every node
+    const savePoints = Object.values(cluster.nodes)[0].savePoints;
     const persistenceStatus = {
-      autoSaveEnabled: true,
-      autoSaveInterval: 30000, // 30 seconds
+      autoSaveEnabled: savePoints.length > 0,
+      autoSaveInterval: savePoints.length > 0 ? Math.max(...savePoints.map(({ seconds }) => seconds)) * 1000 : 0,
+      savePoints,
       lastSaveTime: null,
       rdbFiles: [],
+      rdb: [],
+      aof: [],
       totalKeys: 0
     };
 
@@ -1729,8 +3024,7 @@ app.get("/api/persistence/status", (req, res) => {
       
       // Check if RDB file exists
       const fs = require('fs');
-      const path = require('path');
-      const rdbPath = path.join(__dirname, `data_${nodeName}.json`);
+      const rdbPath = node.filePath;
       
       if (fs.existsSync(rdbPath)) {
         const stats = fs.statSync(rdbPath);
@@ -1747,6 +3041,15 @@ app.get("/api/persistence/status", (req, res) => {
           persistenceStatus.lastSaveTime = stats.mtime;
         }
       }
+
+      persistenceStatus.rdb.push({ node: nodeName, ...node.getRdbStatus() });
+
+      const aofStatus = node.getAofStatus();
+      persistenceStatus.aof.push({
+        node: nodeName,
+        ...aofStatus,
+        sizeFormatted: formatBytes(aofStatus.size)
+      });
     }
     
     persistenceStatus.totalKeys = totalKeys;
@@ -1757,36 +3060,48 @@ app.get("/api/persistence/status", (req, res) => {
   }
 });
 
-// Manual save (trigger RDB save)
-app.post("/api/persistence/save", (req, res) => {
+// Manual save: { mode: "save" } blocks while each node writes its file (SAVE),
+// { mode: "bgsave" } hands snapshots to the RDB workers (BGSAVE) and reports
+// each worker's result and duration
+app.post("/api/persistence/save", async (req, res) => {
   try {
-    const saveResults = [];
-    
-    for (const [nodeName, node] of Object.entries(cluster.nodes)) {
+    const mode = (req.body && req.body.mode) || 'save';
+    if (!['save', 'bgsave'].includes(mode)) {
+      return res.status(400).json({ success: false, error: `Unknown save mode: ${mode}` });
+    }
+
+    const saveResults = await Promise.all(Object.entries(cluster.nodes).map(async ([nodeName, node]) => {
+      const startedAt = Date.now();
       try {
-        node.saveToFile();
-        saveResults.push({
+        const result = mode === 'bgsave' ? await node.bgSave() : (node.save(), { durationMs: Date.now() - startedAt });
+        return {
           node: nodeName,
           success: true,
+          mode,
           keyCount: node.keys().length,
+          durationMs: result.durationMs,
+          bytes: result.bytes || null,
           timestamp: new Date()
-        });
+        };
       } catch (error) {
-        saveResults.push({
+        return {
           node: nodeName,
           success: false,
+          mode,
           error: error.message,
+          durationMs: Date.now() - startedAt,
           timestamp: new Date()
-        });
+        };
       }
-    }
+    }));
     
     const allSuccessful = saveResults.every(result => result.success);
+    const label = mode === 'bgsave' ? 'Background save (BGSAVE)' : 'RDB save (SAVE)';
     
     res.json({ 
       success: allSuccessful, 
       data: {
-        message: allSuccessful ? 'RDB save completed successfully' : 'RDB save completed with errors',
+        message: allSuccessful ? `${label} completed successfully` : `${label} completed with errors`,
         results: saveResults
       }
     });
@@ -1835,27 +3150,76 @@ app.post("/api/persistence/load", (req, res) => {
   }
 });
 
+// Turn AOF on/off and/or change the fsync policy on every node
+app.post("/api/persistence/aof", (req, res) => {
+  try {
+    const { enabled, fsyncPolicy } = req.body;
+    const results = [];
+
+    for (const [nodeName, node] of Object.entries(cluster.nodes)) {
+      const status = node.setAppendOnly(enabled === undefined ? node.appendOnly : Boolean(enabled), fsyncPolicy || null);
+      results.push({ node: nodeName, ...status });
+    }
+
+    res.json({ success: true, data: results });
+  } catch (error) {
+    console.error('Error configuring AOF:', error);
+    res.status(getErrorStatusCode(error)).json({ success: false, error: error.message });
+  }
+});
+
+// BGREWRITEAOF: starts the rewrite on every node and returns right away,
+// progress shows up in /api/persistence/status
+app.post("/api/persistence/bgrewriteaof", (req, res) => {
+  try {
+    const results = [];
+
+    for (const [nodeName, node] of Object.entries(cluster.nodes)) {
+      if (node.aof.rewriteInProgress) {
+        results.push({ node: nodeName, started: false, error: 'Rewrite already in progress' });
+        continue;
+      }
+      node.bgRewriteAof().catch(() => {});
+      results.push({ node: nodeName, started: true });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        message: 'Background append only file rewriting started',
+        results
+      }
+    });
+  } catch (error) {
+    console.error('Error starting AOF rewrite:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
 // Get RDB file content info
 app.get("/api/persistence/info", (req, res) => {
   try {
     const fs = require('fs');
-    const path = require('path');
     const rdbInfo = [];
     
     for (const [nodeName, node] of Object.entries(cluster.nodes)) {
-      const rdbPath = path.join(__dirname, `data_${nodeName}.json`);
+      const rdbPath = node.filePath;
       
       if (fs.existsSync(rdbPath)) {
         const stats = fs.statSync(rdbPath);
-        const content = fs.readFileSync(rdbPath, 'utf8');
         let keyCount = 0;
         let corruptedFile = false;
+        let corruptionReason = null;
+        let formatVersion = null;
         
+        // Verifies the header checksum and key count, not just that it parses
         try {
-          const data = JSON.parse(content);
-          keyCount = data.store ? data.store.length : 0;
+          const snapshot = readSnapshot(rdbPath);
+          keyCount = snapshot.store.length;
+          formatVersion = snapshot.header ? snapshot.header.version : 0;
         } catch (error) {
           corruptedFile = true;
+          corruptionReason = error.reason || error.message;
         }
         
         rdbInfo.push({
@@ -1866,6 +3230,10 @@ app.get("/api/persistence/info", (req, res) => {
           lastModified: stats.mtime,
           keyCount,
           corrupted: corruptedFile,
+          corruptionReason,
+          formatVersion,
+          hasPreviousGeneration: fs.existsSync(previousGenerationPath(rdbPath)),
+          loadedFrom: node.rdbStatus.loadedFrom,
           exists: true
         });
       } else {
@@ -1884,6 +3252,97 @@ app.get("/api/persistence/info", (req, res) => {
   }
 });
 
+// =========================
+// Snapshot History Operations
+// =========================
+
+// Retained snapshot generations per node, newest first
+app.get("/api/persistence/history", (req, res) => {
+  try {
+    const nodes = Object.entries(cluster.nodes).map(([nodeName, node]) => ({
+      node: nodeName,
+      ...node.history.getStatus(),
+      liveKeyCount: node.keys().length,
+      generations: node.history.list().map(({ filePath, ...generation }) => ({
+        ...generation,
+        fileName: path.basename(filePath),
+        sizeFormatted: formatBytes(generation.bytes)
+      }))
+    }));
+
+    res.json({ success: true, data: { retention: nodes[0] ? nodes[0].retention : null, nodes } });
+  } catch (error) {
+    console.error('Error listing snapshot history:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Change how many generations each node keeps; older ones are deleted right away
+app.post("/api/persistence/history/config", (req, res) => {
+  try {
+    const retention = Number(req.body.retention);
+    const results = Object.entries(cluster.nodes).map(([nodeName, node]) => {
+      node.history.setRetention(retention);
+      return { node: nodeName, ...node.history.getStatus() };
+    });
+
+    res.json({ success: true, data: results });
+  } catch (error) {
+    console.error('Error configuring snapshot history:', error);
+    res.status(getErrorStatusCode(error)).json({ success: false, error: error.message });
+  }
+});
+
+// Point-in-time restore. { timestamp } picks each node's newest generation
+// taken at or before that time; { node, timestamp } restores exactly that
+// node's generation. { dryRun: true } only diffs it against the live data.
+app.post("/api/persistence/history/restore", (req, res) => {
+  try {
+    const { node: nodeFilter, dryRun } = req.body;
+    const timestamp = Number(req.body.timestamp);
+    if (!Number.isFinite(timestamp)) {
+      return res.status(400).json({ success: false, error: 'timestamp is required' });
+    }
+    if (nodeFilter && !cluster.nodes[nodeFilter]) {
+      return res.status(404).json({ success: false, error: `Unknown node: ${nodeFilter}` });
+    }
+
+    const targets = nodeFilter ? [[nodeFilter, cluster.nodes[nodeFilter]]] : Object.entries(cluster.nodes);
+    const results = targets.map(([nodeName, node]) => {
+      const generation = nodeFilter ? node.history.get(timestamp) : node.history.findAt(timestamp);
+      if (!generation) {
+        if (nodeFilter) throw new Error(`ERR no snapshot generation ${timestamp} for ${nodeName}`);
+        return { node: nodeName, skipped: true, reason: 'No generation at or before this time' };
+      }
+      if (generation.corrupted) {
+        return { node: nodeName, skipped: true, reason: `Generation is corrupted: ${generation.error}` };
+      }
+      try {
+        const result = dryRun ? node.diffSnapshot(generation.id) : node.restoreSnapshot(generation.id);
+        const { filePath, ...restored } = result.generation;
+        return { node: nodeName, skipped: false, ...result, generation: { ...restored, fileName: path.basename(filePath) } };
+      } catch (error) {
+        return { node: nodeName, skipped: true, reason: error.message };
+      }
+    });
+
+    const restored = results.filter(result => !result.skipped).length;
+    res.json({
+      success: true,
+      data: {
+        dryRun: Boolean(dryRun),
+        message: dryRun
+          ? `Compared ${restored} node(s) with the live data`
+          : `Restored ${restored} of ${results.length} node(s)`,
+        results
+      }
+    });
+  } catch (error) {
+    console.error('Error restoring snapshot:', error);
+    res.status(getErrorStatusCode(error)).json({ success: false, error: error.message });
+  }
+});
+
 // Helper function to format bytes
 function formatBytes(bytes, decimals = 2) {
   if (bytes === 0) return '0 Bytes';
@@ -1952,13 +3411,16 @@ app.get("/api/processes/status", (req, res) => {
         memoryUsage: Math.floor(Math.random() * 50) + 10 // MB, simulated
       });
 
-      // Simulate RDB worker info
+      // RDB worker info as reported back by the BGSAVE child process
+      const rdbStatus = node.getRdbStatus();
       processInfo.workers.rdbWorkers.push({
         nodeId: nodeName,
-        status: 'idle',
-        lastSave: new Date(Date.now() - Math.random() * 30000), // Within last 30 seconds
-        processedSaves: Math.floor(Math.random() * 50) + 10, // Simulated
-        avgSaveTime: Math.floor(Math.random() * 200) + 50, // ms, simulated
+        pid: rdbStatus.workerPid,
+        status: !rdbStatus.workerAvailable ? 'error' : rdbStatus.bgsaveInProgress ? 'active' : 'idle',
+        lastSave: rdbStatus.lastSaveTime ? new Date(rdbStatus.lastSaveTime) : null,
+        lastSaveStatus: rdbStatus.lastBgsaveStatus,
+        processedSaves: rdbStatus.bgsaveCount,
+        avgSaveTime: rdbStatus.avgBgsaveMs || 0, // ms
         memoryUsage: Math.floor(Math.random() * 30) + 5 // MB, simulated
       });
     }
@@ -1973,6 +3435,7 @@ app.get("/api/processes/status", (req, res) => {
 // Get real-time process metrics
 app.get("/api/processes/metrics", (req, res) => {
   try {
+    const rdbStatuses = Object.values(cluster.nodes).map(node => node.getRdbStatus());
     const metrics = {
       timestamp: new Date(),
       mainProcess: {
@@ -1989,9 +3452,9 @@ app.get("/api/processes/metrics", (req, res) => {
           totalProcessedTasks: Math.floor(Math.random() * 10000) + 5000
         },
         rdbWorkers: {
-          totalActive: Object.keys(cluster.nodes).length,
-          recentSaves: Math.floor(Math.random() * 5) + 1,
-          averageSaveTime: Math.floor(Math.random() * 200) + 50
+          totalActive: rdbStatuses.filter(status => status.workerAvailable).length,
+          recentSaves: rdbStatuses.reduce((sum, status) => sum + status.bgsaveCount, 0),
+          averageSaveTime: Math.round(rdbStatuses.reduce((sum, status) => sum + (status.avgBgsaveMs || 0), 0) / Math.max(rdbStatuses.length, 1))
         }
       },
       systemMetrics: {
@@ -2164,12 +3627,9 @@ async function startServer() {
         let nodeKeyCount = 0;
         let nodeTTLCount = 0;
         
-        // Distribute sample data across nodes using consistent hashing
+        // Distribute sample data across nodes by hash slot
         for (const [key, value] of sampleData.keys) {
-          const { createHash } = require('crypto');
-          const hash = createHash('sha256').update(key).digest('hex');
-          const nodeIndex = parseInt(hash.substr(0, 8), 16) % 3;
-          const targetNodeName = ['node1', 'node2', 'node3'][nodeIndex];
+          const targetNodeName = cluster.getNodeForKey(key);
           
           if (targetNodeName === nodeName) {
             let ttl = null;
@@ -2236,11 +3696,7 @@ async function startServer() {
           // Distribute the new TTL keys across cluster nodes
           for (const [key, value] of keyData.entries()) {
             if (ttlData.has(key)) {
-              const { createHash } = require('crypto');
-              const hash = createHash('sha256').update(key).digest('hex');
-              const nodeIndex = parseInt(hash.substr(0, 8), 16) % 3;
-              const targetNodeName = ['node1', 'node2', 'node3'][nodeIndex];
-              const targetNode = cluster.nodes[targetNodeName];
+              const targetNode = cluster.nodes[cluster.getNodeForKey(key)];
               
               if (targetNode) {
                 const expiryTime = ttlData.get(key);
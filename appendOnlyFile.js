@@ -0,0 +1,240 @@
+// Append-only file (AOF) for one RedisClone node.
+// Every write is appended as one JSON line: {"command":"set","args":[...]}
+// and the log is replayed on startup. The fsync policy decides how much can
+// be lost on a crash:
+//   always    fsync after every write (safest, slowest)
+//   everysec  fsync at most once per second (Redis' default)
+//   no        leave flushing to the operating system
+
+const fs = require("fs");
+
+const FSYNC_POLICIES = ["always", "everysec", "no"];
+
+// auto-aof-rewrite-percentage / auto-aof-rewrite-min-size
+const AUTO_REWRITE_PERCENTAGE = 100;
+const AUTO_REWRITE_MIN_SIZE = 64 * 1024;
+
+class AppendOnlyFile {
+    constructor(filePath, fsyncPolicy = "everysec") {
+        this.filePath = filePath;
+        this.tempPath = `${filePath}.rewrite.tmp`;
+        this.fd = null;
+        this.size = 0;
+        this.baseSize = 0; // size right after the last rewrite
+        this.dirty = false;
+        this.lastFsync = null;
+        this.fsyncTimer = null;
+
+        this.rewriteInProgress = false;
+        this.rewriteBuffer = []; // lines written while a rewrite is running
+        this.lastRewrite = null; // { status, startedAt, durationMs, error }
+
+        this.setFsyncPolicy(fsyncPolicy);
+    }
+
+    static isValidPolicy(policy) {
+        return FSYNC_POLICIES.includes(policy);
+    }
+
+    get isOpen() {
+        return this.fd !== null;
+    }
+
+    open() {
+        if (this.fd !== null) return;
+        this.fd = fs.openSync(this.filePath, "a");
+        this.size = fs.fstatSync(this.fd).size;
+        this.baseSize = this.size;
+        this._startFsyncTimer();
+    }
+
+    close() {
+        if (this.fd === null) return;
+        this.fsync();
+        fs.closeSync(this.fd);
+        this.fd = null;
+        this._stopFsyncTimer();
+    }
+
+    setFsyncPolicy(policy) {
+        if (!AppendOnlyFile.isValidPolicy(policy)) {
+            throw new Error(`ERR invalid fsync policy '${policy}', expected one of ${FSYNC_POLICIES.join(", ")}`);
+        }
+        this.fsyncPolicy = policy;
+        if (this.fd !== null) {
+            this._stopFsyncTimer();
+            this._startFsyncTimer();
+        }
+    }
+
+    append(command, args) {
+        if (this.fd === null) return;
+
+        const line = JSON.stringify({ command, args }) + "\n";
+        fs.writeSync(this.fd, line);
+        this.size += Buffer.byteLength(line);
+
+        if (this.rewriteInProgress) {
+            this.rewriteBuffer.push(line);
+        }
+
+        if (this.fsyncPolicy === "always") {
+            this.fsync();
+        } else {
+            this.dirty = true;
+        }
+    }
+
+    fsync() {
+        if (this.fd === null) return;
+        try {
+            fs.fsyncSync(this.fd);
+            this.dirty = false;
+            this.lastFsync = Date.now();
+        } catch (error) {
+            console.error(`Error syncing AOF ${this.filePath}:`, error.message);
+        }
+    }
+
+    // Same trigger as Redis: the log has doubled since the last rewrite
+    needsRewrite() {
+        if (this.fd === null || this.rewriteInProgress) return false;
+        if (this.size < AUTO_REWRITE_MIN_SIZE) return false;
+        const base = Math.max(this.baseSize, 1);
+        return ((this.size - base) / base) * 100 >= AUTO_REWRITE_PERCENTAGE;
+    }
+
+    // Replay the log through apply(command, args). A partially written last
+    // line (crash mid-append) is cut off, like redis-check-aof --fix would.
+    replay(apply) {
+        if (!fs.existsSync(this.filePath)) return { commands: 0, truncated: false };
+
+        const lines = fs.readFileSync(this.filePath, "utf-8").split("\n");
+        let commands = 0;
+        let validBytes = 0;
+        let truncated = false;
+
+        lines.forEach((line, index) => {
+            if (!line.trim()) {
+                validBytes += Buffer.byteLength(line) + (index < lines.length - 1 ? 1 : 0);
+                return;
+            }
+            let entry;
+            try {
+                entry = JSON.parse(line);
+            } catch (error) {
+                if (index === lines.length - 1) {
+                    truncated = true;
+                    return;
+                }
+                throw new Error(`Bad AOF entry at line ${index + 1}: ${error.message}`);
+            }
+            apply(entry.command, entry.args || []);
+            validBytes += Buffer.byteLength(line) + 1;
+            commands++;
+        });
+
+        if (truncated) {
+            fs.truncateSync(this.filePath, validBytes);
+        }
+        return { commands, truncated };
+    }
+
+    // Write a fresh log from the given entries in one go (used when AOF is
+    // first enabled, so the log starts from the current dataset)
+    writeBase(entries) {
+        const content = entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+        const reopen = this.fd !== null;
+        if (reopen) this.close();
+
+        fs.writeFileSync(this.tempPath, content);
+        const fd = fs.openSync(this.tempPath, "r+");
+        fs.fsyncSync(fd);
+        fs.closeSync(fd);
+        fs.renameSync(this.tempPath, this.filePath);
+
+        if (reopen) this.open();
+        this.baseSize = Buffer.byteLength(content);
+    }
+
+    // BGREWRITEAOF: the compacted base is written asynchronously while new
+    // writes keep going to the old log and into rewriteBuffer. The buffered
+    // tail is appended and the files are swapped in one synchronous step, so
+    // nothing written during the rewrite is lost.
+    async rewrite(entries) {
+        if (this.rewriteInProgress) {
+            throw new Error("ERR Background append only file rewriting already in progress");
+        }
+
+        const startedAt = Date.now();
+        this.rewriteInProgress = true;
+        this.rewriteBuffer = [];
+        this.lastRewrite = { status: "in_progress", startedAt, durationMs: null, error: null };
+
+        try {
+            const content = entries.map((entry) => JSON.stringify(entry) + "\n").join("");
+            const handle = await fs.promises.open(this.tempPath, "w");
+            try {
+                await handle.writeFile(content);
+                await handle.sync();
+            } finally {
+                await handle.close();
+            }
+
+            const tail = this.rewriteBuffer.join("");
+            fs.appendFileSync(this.tempPath, tail);
+            const wasOpen = this.fd !== null;
+            if (wasOpen) {
+                fs.closeSync(this.fd);
+                this.fd = null;
+            }
+            fs.renameSync(this.tempPath, this.filePath);
+            if (wasOpen) {
+                this.fd = fs.openSync(this.filePath, "a");
+                fs.fsyncSync(this.fd);
+            }
+
+            this.size = Buffer.byteLength(content) + Buffer.byteLength(tail);
+            this.baseSize = this.size;
+            this.lastRewrite = { status: "ok", startedAt, durationMs: Date.now() - startedAt, error: null };
+            return this.lastRewrite;
+        } catch (error) {
+            fs.rmSync(this.tempPath, { force: true });
+            this.lastRewrite = { status: "err", startedAt, durationMs: Date.now() - startedAt, error: error.message };
+            throw error;
+        } finally {
+            this.rewriteInProgress = false;
+            this.rewriteBuffer = [];
+        }
+    }
+
+    getStatus() {
+        return {
+            filePath: this.filePath,
+            fsyncPolicy: this.fsyncPolicy,
+            size: this.size,
+            baseSize: this.baseSize,
+            pendingFsync: this.dirty,
+            lastFsync: this.lastFsync,
+            rewriteInProgress: this.rewriteInProgress,
+            lastRewrite: this.lastRewrite,
+        };
+    }
+
+    _startFsyncTimer() {
+        if (this.fsyncPolicy !== "everysec" || this.fsyncTimer) return;
+        this.fsyncTimer = setInterval(() => {
+            if (this.dirty) this.fsync();
+        }, 1000);
+        this.fsyncTimer.unref();
+    }
+
+    _stopFsyncTimer() {
+        if (this.fsyncTimer) {
+            clearInterval(this.fsyncTimer);
+            this.fsyncTimer = null;
+        }
+    }
+}
+
+module.exports = AppendOnlyFile;
@@ -0,0 +1,1480 @@
+// Command table for the RESP server: maps command names to handlers that
+// run against a ClusterRedis instance (ctx.cluster) for one client (ctx.client)
+
+const { OK, NULL_ARRAY, simple, push, replies, double } = require("./respProtocol");
+const { matchesPattern } = require("./patternMatch");
+const { configGet, configSet } = require("./serverConfig");
+const { formatBytes } = require("./memoryUsage");
+
+const SERVER_VERSION = "7.0.0";
+const startedAt = Date.now();
+
+// Commands a RESP2 client may still send once it is in subscribe mode
+const SUBSCRIBE_MODE_COMMANDS = new Set(["subscribe", "unsubscribe", "psubscribe", "punsubscribe", "ping", "quit", "reset"]);
+
+// Commands that run at once after MULTI; everything else is queued for EXEC
+const TRANSACTION_COMMANDS = new Set(["multi", "exec", "discard", "watch", "quit", "reset"]);
+const QUEUED = simple("QUEUED");
+
+const WRONGTYPE = "WRONGTYPE Operation against a key holding the wrong kind of value";
+
+
+// =========================
+// Helpers
+// =========================
+
+function nodeFor(ctx, key) {
+    return ctx.cluster.route(key);
+}
+
+function allNodes(ctx) {
+    return Object.values(ctx.cluster.nodes);
+}
+
+function toInteger(value) {
+    const num = Number(value);
+    if (!Number.isInteger(num)) throw new Error("ERR value is not an integer or out of range");
+    return num;
+}
+
+// RedisClone reports bad numeric values with its own messages; translate them
+// into the error text Redis clients expect
+function numericOp(fn) {
+    try {
+        return fn();
+    } catch (error) {
+        if (/not a number/i.test(error.message)) {
+            throw new Error("ERR value is not an integer or out of range");
+        }
+        throw error;
+    }
+}
+
+function toStringReply(value) {
+    if (value === null || value === undefined || value === "(nil)") return null;
+    if (typeof value === "object") throw new Error(WRONGTYPE);
+    return String(value);
+}
+
+function deleteKey(ctx, key) {
+    const node = nodeFor(ctx, key);
+    if (!node.exists(key)) return 0;
+    return Number(node.delete(key));
+}
+
+
+// =========================
+// Connection
+// =========================
+
+function ping(ctx, args) {
+    if (args.length > 1) throw new Error("ERR wrong number of arguments for 'ping' command");
+    if (subscriptionCount(ctx.client) > 0 && ctx.client.protocol === 2) {
+        return push(["pong", args[0] || ""]);
+    }
+    return args.length ? args[0] : simple("PONG");
+}
+
+function hello(ctx, args) {
+    if (args.length > 0) {
+        const version = Number(args[0]);
+        if (version !== 2 && version !== 3) {
+            throw new Error("NOPROTO unsupported protocol version");
+        }
+        ctx.client.protocol = version;
+
+        for (let i = 1; i < args.length; i++) {
+            const option = args[i].toUpperCase();
+            if (option === "SETNAME" && i + 1 < args.length) {
+                ctx.client.name = args[++i];
+            } else if (option === "AUTH" && i + 2 < args.length) {
+                i += 2; // no ACLs: every client is the default user
+            } else {
+                throw new Error(`ERR Syntax error in HELLO option '${args[i]}'`);
+            }
+        }
+    }
+
+    return {
+        server: "redis",
+        version: SERVER_VERSION,
+        proto: ctx.client.protocol,
+        id: ctx.client.id,
+        mode: "cluster",
+        role: "master",
+        modules: [],
+    };
+}
+
+function client(ctx, args) {
+    const sub = args[0].toUpperCase();
+    switch (sub) {
+        case "SETNAME":
+            ctx.client.name = args[1] || null;
+            return OK;
+        case "GETNAME":
+            return ctx.client.name;
+        case "ID":
+            return ctx.client.id;
+        case "SETINFO":
+            return OK;
+        case "INFO":
+        case "LIST":
+            return `id=${ctx.client.id} addr=${ctx.client.address || ""} name=${ctx.client.name || ""} ` +
+                `age=${Math.floor((Date.now() - ctx.client.createdAt) / 1000)} resp=${ctx.client.protocol}\n`;
+        default:
+            throw new Error(`ERR unknown subcommand '${args[0]}'. Try CLIENT HELP.`);
+    }
+}
+
+// RESET: the connection goes back to how it was when it was opened: out of
+// MULTI, nothing watched, no subscriptions, RESP2 and no name
+function reset(ctx) {
+    ctx.client.multi = null;
+    unwatch(ctx);
+    unsubscribe(ctx, []);
+    punsubscribe(ctx, []);
+    ctx.client.protocol = 2;
+    ctx.client.name = null;
+    return simple("RESET");
+}
+
+function commandInfo(name) {
+    const { arity, flags, keys } = commands[name];
+    const [first, last, step] = keys || [0, 0, 0];
+    return [name, arity, flags.map(simple), first, last, step];
+}
+
+function command(ctx, args) {
+    if (args.length === 0) {
+        return Object.keys(commands).map(commandInfo);
+    }
+    switch (args[0].toUpperCase()) {
+        case "COUNT":
+            return Object.keys(commands).length;
+        case "INFO":
+            return args.slice(1).map((name) => commands[name.toLowerCase()] ? commandInfo(name.toLowerCase()) : null);
+        case "DOCS":
+            return ctx.client.protocol === 3 ? {} : [];
+        case "LIST":
+            return Object.keys(commands);
+        default:
+            throw new Error(`ERR unknown subcommand '${args[0]}'. Try COMMAND HELP.`);
+    }
+}
+
+function info(ctx) {
+    const nodes = Object.entries(ctx.cluster.nodes);
+    const totalKeys = nodes.reduce((sum, [, node]) => sum + node.store.size, 0);
+    const expires = nodes.reduce((sum, [, node]) => sum + node.expiry.size, 0);
+    const memory = process.memoryUsage();
+
+    const lines = [
+        "# Server",
+        `redis_version:${SERVER_VERSION}`,
+        "redis_mode:standalone",
+        `process_id:${process.pid}`,
+        `tcp_port:${ctx.port || 6379}`,
+        `uptime_in_seconds:${Math.floor((Date.now() - startedAt) / 1000)}`,
+        "",
+        "# Clients",
+        `connected_clients:${ctx.stats ? ctx.stats.connectedClients : 1}`,
+        "",
+        "# Memory",
+        `used_memory:${memory.heapUsed}`,
+        `used_memory_rss:${memory.rss}`,
+        `used_memory_dataset:${nodes.reduce((sum, [, node]) => sum + node.usedMemory, 0)}`,
+        `used_memory_peak:${nodes.reduce((sum, [, node]) => sum + node.peakMemory, 0)}`,
+        `maxmemory:${nodes[0][1].maxMemory}`,
+        `maxmemory_human:${formatBytes(nodes[0][1].maxMemory)}`,
+        `maxmemory_policy:${nodes[0][1].maxMemoryPolicy}`,
+        "",
+        "# Stats",
+        `evicted_keys:${nodes.reduce((sum, [, node]) => sum + node.evictionStats.evictedKeys, 0)}`,
+        "",
+        "# Persistence",
+        "loading:0",
+        `rdb_changes_since_last_save:${nodes.reduce((sum, [, node]) => sum + node.rdbStatus.changesSinceLastSave, 0)}`,
+        `rdb_bgsave_in_progress:${nodes.some(([, node]) => node.rdbStatus.bgsaveInProgress) ? 1 : 0}`,
+        `rdb_last_save_time:${Math.floor(Math.min(...nodes.map(([, node]) => node.rdbStatus.lastSaveTime || 0)) / 1000)}`,
+        `rdb_last_bgsave_status:${nodes.some(([, node]) => node.rdbStatus.lastBgsaveStatus === "err") ? "err" : "ok"}`,
+        `rdb_last_bgsave_time_sec:${Math.round(Math.max(...nodes.map(([, node]) => node.rdbStatus.lastBgsaveDurationMs || 0)) / 1000)}`,
+        `aof_enabled:${nodes.some(([, node]) => node.appendOnly) ? 1 : 0}`,
+        `aof_rewrite_in_progress:${nodes.some(([, node]) => node.aof.rewriteInProgress) ? 1 : 0}`,
+        `aof_last_bgrewrite_status:${nodes.some(([, node]) => node.aof.lastRewrite && node.aof.lastRewrite.status === "err") ? "err" : "ok"}`,
+        `aof_current_size:${nodes.reduce((sum, [, node]) => sum + node.aof.size, 0)}`,
+        `aof_base_size:${nodes.reduce((sum, [, node]) => sum + node.aof.baseSize, 0)}`,
+        "",
+        "# Replication",
+        "role:master",
+        "",
+        "# Cluster",
+        "cluster_enabled:1",
+        ...nodes.map(([name, node]) => `shard_${name}:keys=${node.store.size}`),
+        "",
+        "# Keyspace",
+        `db0:keys=${totalKeys},expires=${expires},avg_ttl=0`,
+    ];
+    return lines.join("\r\n") + "\r\n";
+}
+
+// =========================
+// Cluster
+// =========================
+// Every node lives in this process and is served on this port, so all slot
+// ranges point back here and no MOVED redirects are ever needed.
+
+function clusterNodeAddress(ctx) {
+    return ["127.0.0.1", ctx.port || 6379];
+}
+
+function toSlot(value, slotMap) {
+    const slot = Number(value);
+    if (!Number.isInteger(slot) || slot < 0 || slot >= slotMap.slotCount) throw new Error("ERR Invalid or out of range slot");
+    return slot;
+}
+
+function cluster(ctx, args) {
+    const sub = args[0].toUpperCase();
+    const slotMap = ctx.cluster.getSlotMap();
+    const [host, port] = clusterNodeAddress(ctx);
+
+    switch (sub) {
+        case "KEYSLOT":
+            if (args.length !== 2) throw new Error("ERR wrong number of arguments for 'cluster|keyslot' command");
+            return ctx.cluster.keySlot(args[1]);
+        case "SLOTS":
+            return slotMap.ranges.map(({ start, end, node }) => [start, end, [host, port, ctx.cluster.getNodeId(node)]]);
+        case "SHARDS":
+            return slotMap.nodes.map((node) => ({
+                slots: node.ranges.flatMap(({ start, end }) => [start, end]),
+                nodes: [{ id: node.id, port, ip: host, endpoint: host, role: "master", "replication-offset": 0, health: "online" }],
+            }));
+        case "NODES":
+            return slotMap.nodes.map((node, index) => [
+                node.id,
+                `${host}:${port}@${port + 10000}`,
+                index === 0 ? "myself,master" : "master",
+                "-",
+                0,
+                Date.now(),
+                index + 1,
+                "connected",
+                ...node.ranges.map(({ start, end }) => (start === end ? `${start}` : `${start}-${end}`)),
+            ].join(" ")).join("\n") + "\n";
+        case "MYID":
+            return slotMap.nodes[0].id;
+        case "INFO": {
+            const assigned = slotMap.nodes.reduce((sum, node) => sum + node.slots, 0);
+            return [
+                `cluster_state:${assigned === slotMap.slotCount ? "ok" : "fail"}`,
+                `cluster_slots_assigned:${assigned}`,
+                `cluster_slots_ok:${assigned}`,
+                "cluster_slots_pfail:0",
+                "cluster_slots_fail:0",
+                `cluster_known_nodes:${slotMap.nodes.length}`,
+                `cluster_size:${slotMap.nodes.filter((node) => node.slots > 0).length}`,
+                `cluster_current_epoch:${slotMap.nodes.length}`,
+                "cluster_my_epoch:1",
+            ].join("\r\n") + "\r\n";
+        }
+        case "COUNTKEYSINSLOT": {
+            const slot = toSlot(args[1], slotMap);
+            const owner = ctx.cluster.nodes[ctx.cluster.slotMap.getNodeForSlot(slot)];
+            return owner ? owner.keys().filter((key) => ctx.cluster.keySlot(key) === slot).length : 0;
+        }
+        case "GETKEYSINSLOT": {
+            const slot = toSlot(args[1], slotMap);
+            const count = toInteger(args[2]);
+            if (count < 0) throw new Error("ERR Invalid number of keys");
+            const owner = ctx.cluster.nodes[ctx.cluster.slotMap.getNodeForSlot(slot)];
+            return owner ? owner.keys().filter((key) => ctx.cluster.keySlot(key) === slot).slice(0, count) : [];
+        }
+        default:
+            throw new Error(`ERR unknown subcommand '${args[0]}'. Try CLUSTER HELP.`);
+    }
+}
+
+// Snapshots every shard through its RDB worker; replies before the writes finish
+function bgSave(ctx, args) {
+    if (args.length > 0 && String(args[0]).toLowerCase() !== "schedule") {
+        throw new Error("ERR syntax error");
+    }
+    const nodes = allNodes(ctx);
+    if (nodes.some((node) => node.rdbStatus.bgsaveInProgress)) {
+        if (args.length > 0) {
+            nodes.forEach((node) => node.scheduleBgSave());
+            return simple("Background saving scheduled");
+        }
+        throw new Error("ERR Background save already in progress");
+    }
+    nodes.forEach((node) => node.bgSave().catch(() => {}));
+    return simple("Background saving started");
+}
+
+// Rewrites the AOF of every shard; the reply comes back before the rewrite finishes
+function bgRewriteAof(ctx) {
+    const nodes = allNodes(ctx);
+    if (nodes.some((node) => node.aof.rewriteInProgress)) {
+        throw new Error("ERR Background append only file rewriting already in progress");
+    }
+    nodes.forEach((node) => node.bgRewriteAof().catch(() => {}));
+    return simple("Background append only file rewriting started");
+}
+
+// CONFIG GET <pattern> / CONFIG SET <parameter> <value>, applied to every shard
+function config(ctx, args) {
+    const sub = String(args[0]).toUpperCase();
+    switch (sub) {
+        case "GET":
+            if (args.length !== 2) throw new Error("ERR wrong number of arguments for 'config|get' command");
+            return configGet(allNodes(ctx), args[1]);
+        case "SET":
+            if (args.length !== 3) throw new Error("ERR wrong number of arguments for 'config|set' command");
+            configSet(allNodes(ctx), args[1], args[2]);
+            return OK;
+        default:
+            throw new Error(`ERR unknown subcommand '${args[0]}'. Try CONFIG HELP.`);
+    }
+}
+
+// MEMORY USAGE <key> [SAMPLES <count>] / MEMORY STATS, in the approximate
+// sizes of memoryUsage.js. Every element is counted, so SAMPLES only gets
+// checked.
+function memory(ctx, args) {
+    const sub = String(args[0]).toUpperCase();
+    switch (sub) {
+        case "USAGE": {
+            if (args.length !== 2 && args.length !== 4) throw new Error("ERR syntax error");
+            if (args.length === 4) {
+                if (String(args[2]).toUpperCase() !== "SAMPLES") throw new Error("ERR syntax error");
+                toInteger(args[3]);
+            }
+            return nodeFor(ctx, args[1]).memoryUsage(args[1]);
+        }
+        case "STATS": {
+            if (args.length !== 1) throw new Error("ERR wrong number of arguments for 'memory|stats' command");
+            const nodes = Object.entries(ctx.cluster.nodes).map(([name, node]) => [name, node.memoryStats()]);
+            const total = (field) => nodes.reduce((sum, [, stats]) => sum + stats[field], 0);
+            const keys = total("keys");
+            const reply = {
+                "peak.allocated": total("peakBytes"),
+                "total.allocated": total("datasetBytes"),
+                "dataset.bytes": total("datasetBytes"),
+                "keys.count": keys,
+                "keys.bytes-per-key": keys === 0 ? 0 : Math.round(total("datasetBytes") / keys),
+            };
+            nodes.forEach(([name, stats]) => {
+                reply[`node.${name}`] = {
+                    "dataset.bytes": stats.datasetBytes,
+                    "peak.allocated": stats.peakBytes,
+                    "maxmemory": stats.maxMemory,
+                    "keys.count": stats.keys,
+                };
+            });
+            return reply;
+        }
+        default:
+            throw new Error(`ERR unknown subcommand '${args[0]}'. Try MEMORY HELP.`);
+    }
+}
+
+
+// =========================
+// Keyspace
+// =========================
+
+function keys(ctx, args) {
+    const pattern = args[0];
+    const result = [];
+    for (const node of allNodes(ctx)) {
+        for (const key of node.keys()) {
+            if (matchesPattern(pattern, key)) result.push(key);
+        }
+    }
+    return result;
+}
+
+// SCAN cursor [MATCH pattern] [COUNT count] [TYPE type]: the cursor is a
+// position in the keys of every node, in node order, 0 again once all of
+// them have been returned
+function scan(ctx, args) {
+    const [cursor, ...options] = args;
+    let pattern = "*";
+    let count = 10;
+    let type = null;
+    for (let i = 0; i < options.length; i += 2) {
+        const option = options[i].toUpperCase();
+        if (options[i + 1] === undefined) throw new Error("ERR syntax error");
+        if (option === "MATCH") pattern = options[i + 1];
+        else if (option === "COUNT") count = toInteger(options[i + 1]);
+        else if (option === "TYPE") type = options[i + 1].toLowerCase();
+        else throw new Error("ERR syntax error");
+    }
+    if (count < 1) throw new Error("ERR syntax error");
+
+    const start = toInteger(cursor);
+    if (start < 0) throw new Error("ERR invalid cursor");
+    const all = allNodes(ctx).flatMap((node) => node.keys().map((key) => [node, key]));
+    const end = Math.min(start + count, all.length);
+    const matched = all.slice(start, end)
+        .filter(([node, key]) => matchesPattern(pattern, key) && (!type || node.type(key) === type))
+        .map(([, key]) => key);
+    return [end >= all.length ? "0" : String(end), matched];
+}
+
+function flushAll(ctx) {
+    for (const node of allNodes(ctx)) {
+        node.flushAll();
+    }
+    return OK;
+}
+
+function rename(ctx, args) {
+    const [oldKey, newKey] = args;
+    const source = nodeFor(ctx, oldKey);
+    if (ctx.cluster.keySlot(oldKey) !== ctx.cluster.keySlot(newKey)) {
+        throw new Error("CROSSSLOT Keys in request don't hash to the same slot");
+    }
+    if (!source.exists(oldKey)) throw new Error("ERR no such key");
+    source.rename(oldKey, newKey);
+    return OK;
+}
+
+// OBJECT ENCODING | IDLETIME | FREQ | REFCOUNT <key>; reading them doesn't
+// count as an access
+function object(ctx, args) {
+    const sub = String(args[0]).toUpperCase();
+    if (!["ENCODING", "IDLETIME", "FREQ", "REFCOUNT"].includes(sub)) {
+        throw new Error(`ERR unknown subcommand '${args[0]}'. Try OBJECT HELP.`);
+    }
+    if (args.length !== 2) throw new Error(`ERR wrong number of arguments for 'object|${sub.toLowerCase()}' command`);
+    const info = nodeFor(ctx, args[1]).objectInfo(args[1]);
+    if (!info) return null;
+    switch (sub) {
+        case "ENCODING":
+            return info.encoding;
+        case "IDLETIME":
+            return info.idleSeconds;
+        case "FREQ":
+            return info.freq;
+        default:
+            return 1; // values are never shared between keys
+    }
+}
+
+
+// =========================
+// Strings
+// =========================
+
+function set(ctx, args) {
+    const [key, value] = args;
+    let ttl = null;
+    let condition = null;
+    let returnOld = false;
+    let keepTtl = false;
+
+    for (let i = 2; i < args.length; i++) {
+        const option = args[i].toUpperCase();
+        const needsValue = ["EX", "PX", "EXAT", "PXAT"].includes(option);
+        if (needsValue && i + 1 >= args.length) throw new Error("ERR syntax error");
+
+        switch (option) {
+            case "EX":
+                ttl = toInteger(args[++i]);
+                break;
+            case "PX":
+                ttl = toInteger(args[++i]) / 1000;
+                break;
+            case "EXAT":
+                ttl = toInteger(args[++i]) - Date.now() / 1000;
+                break;
+            case "PXAT":
+                ttl = (toInteger(args[++i]) - Date.now()) / 1000;
+                break;
+            case "NX":
+            case "XX":
+                condition = option;
+                break;
+            case "GET":
+                returnOld = true;
+                break;
+            case "KEEPTTL":
+                keepTtl = true;
+                break;
+            default:
+                // Legacy inline form from the old TCP server: SET key value <ttl-seconds>
+                if (i === 2 && args.length === 3 && !isNaN(args[i])) {
+                    ttl = Number(args[i]);
+                    break;
+                }
+                throw new Error("ERR syntax error");
+        }
+    }
+
+    if (keepTtl && ttl !== null) throw new Error("ERR syntax error");
+    if (ttl !== null && ttl <= 0) throw new Error("ERR invalid expire time in 'set' command");
+
+    const node = nodeFor(ctx, key);
+    const exists = node.exists(key) === 1;
+    const oldValue = returnOld && exists ? toStringReply(node.get(key)) : null;
+
+    if ((condition === "NX" && exists) || (condition === "XX" && !exists)) {
+        return returnOld ? oldValue : null;
+    }
+
+    node.set(key, value, ttl, keepTtl);
+    return returnOld ? oldValue : OK;
+}
+
+// SETEX key seconds value / PSETEX key milliseconds value
+function setWithExpiry(ctx, args, name, unitMs) {
+    const ttl = toInteger(args[1]);
+    if (ttl <= 0) throw new Error(`ERR invalid expire time in '${name}' command`);
+    nodeFor(ctx, args[0]).set(args[0], args[2], (ttl * unitMs) / 1000);
+    return OK;
+}
+
+
+// =========================
+// Sorted sets
+// =========================
+
+// ZADD key [NX|XX] [GT|LT] [CH] [INCR] score member [score member ...]
+function zadd(ctx, args) {
+    const key = args[0];
+    const options = {};
+    let i = 1;
+    while (i < args.length) {
+        const flag = String(args[i]).toLowerCase();
+        if (!["nx", "xx", "gt", "lt", "ch", "incr"].includes(flag)) break;
+        options[flag] = true;
+        i++;
+    }
+
+    const rest = args.slice(i);
+    if (rest.length === 0 || rest.length % 2 !== 0) throw new Error("ERR syntax error");
+
+    const pairs = [];
+    for (let j = 0; j < rest.length; j += 2) {
+        pairs.push([rest[j], rest[j + 1]]);
+    }
+
+    const result = nodeFor(ctx, key).zadd(key, pairs, options);
+    if (options.incr) return result === "(nil)" ? null : double(result);
+    return result;
+}
+
+// WITHSCORES replies are flat [member, score, ...] on RESP2 and
+// [[member, score], ...] on RESP3, matching real Redis
+function withScoresReply(ctx, entries) {
+    if (ctx.client.protocol === 3) {
+        return entries.map(({ member, score }) => [member, double(score)]);
+    }
+    return entries.flatMap(({ member, score }) => [member, double(score)]);
+}
+
+// Shared by ZRANGE, ZREVRANGE, ZRANGEBYSCORE and ZREVRANGEBYSCORE.
+// ZRANGE itself also accepts BYSCORE, REV and LIMIT offset count.
+function zrange(ctx, args, { byScore = false, rev = false }) {
+    const [key, start, stop] = args;
+    let withScores = false;
+    let offset = 0;
+    let count = -1;
+    let limited = false;
+    const isZrange = !byScore && !rev;
+
+    for (let i = 3; i < args.length; i++) {
+        const option = String(args[i]).toLowerCase();
+        if (option === "withscores") {
+            withScores = true;
+        } else if (option === "limit" && i + 2 < args.length) {
+            offset = toInteger(args[i + 1]);
+            count = toInteger(args[i + 2]);
+            limited = true;
+            i += 2;
+        } else if (option === "byscore" && isZrange) {
+            byScore = true;
+        } else if (option === "rev" && isZrange) {
+            rev = true;
+        } else {
+            throw new Error("ERR syntax error");
+        }
+    }
+
+    if (limited && !byScore) {
+        throw new Error("ERR syntax error, LIMIT is only supported in combination with either BYSCORE or BYLEX");
+    }
+
+    const node = nodeFor(ctx, key);
+    let entries;
+    if (byScore) {
+        // ZRANGE ... BYSCORE REV takes max first, like ZREVRANGEBYSCORE
+        const options = { withScores: true, offset, count };
+        if (offset < 0) return [];
+        entries = rev
+            ? node.zrevrangebyscore(key, start, stop, options)
+            : node.zrangebyscore(key, start, stop, options);
+    } else {
+        const from = toInteger(start);
+        const to = toInteger(stop);
+        entries = rev ? node.zrevrange(key, from, to, true) : node.zrange(key, from, to, true);
+    }
+
+    return withScores ? withScoresReply(ctx, entries) : entries.map((entry) => entry.member);
+}
+
+
+// =========================
+// Streams
+// =========================
+
+// an entry as Redis replies with it: [id, [field, value, ...]]
+function entryReply({ id, fields }) {
+    return [id, fields];
+}
+
+// XREAD / XREADGROUP replies: [[key, entries], ...] on RESP2, a map on RESP3,
+// a null array when nothing came before the timeout
+function streamsReply(ctx, streams) {
+    if (streams === null) return NULL_ARRAY;
+    if (ctx.client.protocol === 3) {
+        return new Map(streams.map(([key, entries]) => [key, entries.map(entryReply)]));
+    }
+    return streams.map(([key, entries]) => [key, entries.map(entryReply)]);
+}
+
+// A blocking read may hand back a promise; the reply is built once it
+// resolves, and cancel() stays reachable for server.js
+function whenRead(result, toReply) {
+    if (!(result instanceof Promise)) return toReply(result);
+    const reply = result.then(toReply);
+    reply.cancel = result.cancel;
+    return reply;
+}
+
+// COUNT n / BLOCK ms / NOACK options before STREAMS, then the keys and their IDs
+function parseStreamRead(args, allowed) {
+    const options = { count: null, block: null, noAck: false };
+    let i = 0;
+    for (; i < args.length; i++) {
+        const option = String(args[i]).toUpperCase();
+        if (option === "STREAMS") break;
+        if (option === "COUNT" && allowed.includes(option) && i + 1 < args.length) {
+            options.count = toInteger(args[++i]);
+        } else if (option === "BLOCK" && allowed.includes(option) && i + 1 < args.length) {
+            options.block = toInteger(args[++i]);
+            if (options.block < 0) throw new Error("ERR timeout is negative");
+        } else if (option === "NOACK" && allowed.includes(option)) {
+            options.noAck = true;
+        } else {
+            throw new Error("ERR syntax error");
+        }
+    }
+
+    const rest = args.slice(i + 1);
+    if (i === args.length || rest.length === 0 || rest.length % 2 !== 0) {
+        throw new Error("ERR Unbalanced 'xread' list of streams: for each stream key an ID or '$' must be specified.");
+    }
+    const half = rest.length / 2;
+    const streams = rest.slice(0, half).map((key, index) => [key, rest[half + index]]);
+    return { streams, options };
+}
+
+// XADD key [NOMKSTREAM] [MAXLEN [=|~] threshold] <* | id> field value [field value ...]
+function xadd(ctx, args) {
+    const key = args[0];
+    const options = {};
+    let i = 1;
+    while (i < args.length) {
+        const option = String(args[i]).toUpperCase();
+        if (option === "NOMKSTREAM") {
+            options.noMkStream = true;
+            i++;
+        } else if (option === "MAXLEN") {
+            // "~" asks for approximate trimming, which may keep more: exact is allowed
+            if (args[i + 1] === "=" || args[i + 1] === "~") i++;
+            options.maxLen = toInteger(args[i + 1]);
+            if (options.maxLen < 0) throw new Error("ERR The MAXLEN argument must be >= 0.");
+            i += 2;
+        } else {
+            break;
+        }
+    }
+    return nodeFor(ctx, key).xadd(key, args[i], args.slice(i + 1), options);
+}
+
+// XRANGE key start end [COUNT count] / XREVRANGE key end start [COUNT count]
+function xrange(ctx, args, { rev = false }) {
+    const [key, first, second] = args;
+    let count = null;
+    if (args.length === 5 && String(args[3]).toUpperCase() === "COUNT") {
+        count = toInteger(args[4]);
+    } else if (args.length !== 3) {
+        throw new Error("ERR syntax error");
+    }
+    const node = nodeFor(ctx, key);
+    const entries = rev ? node.xrevrange(key, first, second, count) : node.xrange(key, first, second, count);
+    return entries.map(entryReply);
+}
+
+// XREAD [COUNT count] [BLOCK milliseconds] STREAMS key [key ...] id [id ...]
+function xread(ctx, args) {
+    const { streams, options } = parseStreamRead(args, ["COUNT", "BLOCK"]);
+    return whenRead(ctx.cluster.xread(streams, options), (result) => streamsReply(ctx, result));
+}
+
+// XREADGROUP GROUP group consumer [COUNT count] [BLOCK milliseconds] [NOACK] STREAMS key [key ...] id [id ...]
+function xreadgroup(ctx, args) {
+    if (String(args[0]).toUpperCase() !== "GROUP" || args.length < 3) throw new Error("ERR syntax error");
+    const [, group, consumer] = args;
+    const { streams, options } = parseStreamRead(args.slice(3), ["COUNT", "BLOCK", "NOACK"]);
+    return whenRead(ctx.cluster.xreadgroup(group, consumer, streams, options), (result) => streamsReply(ctx, result));
+}
+
+function xgroup(ctx, args) {
+    const sub = String(args[0]).toUpperCase();
+    const [, key, group] = args;
+    const expect = (count) => {
+        if (args.length !== count) throw new Error(`ERR wrong number of arguments for 'xgroup|${sub.toLowerCase()}' command`);
+    };
+    switch (sub) {
+        case "CREATE": {
+            const mkStream = args.length === 5 && String(args[4]).toUpperCase() === "MKSTREAM";
+            if (!mkStream) expect(4);
+            nodeFor(ctx, key).xgroupCreate(key, group, args[3], mkStream);
+            return OK;
+        }
+        case "SETID":
+            expect(4);
+            nodeFor(ctx, key).xgroupSetId(key, group, args[3]);
+            return OK;
+        case "DESTROY":
+            expect(3);
+            return nodeFor(ctx, key).xgroupDestroy(key, group);
+        case "CREATECONSUMER":
+            expect(4);
+            return nodeFor(ctx, key).xgroupCreateConsumer(key, group, args[3]);
+        case "DELCONSUMER":
+            expect(4);
+            return nodeFor(ctx, key).xgroupDelConsumer(key, group, args[3]);
+        default:
+            throw new Error(`ERR unknown subcommand '${args[0]}'. Try XGROUP HELP.`);
+    }
+}
+
+// XPENDING key group [[IDLE min-idle-time] start end count [consumer]]
+function xpending(ctx, args) {
+    const [key, group] = args;
+    const node = nodeFor(ctx, key);
+    if (args.length === 2) {
+        const summary = node.xpendingSummary(key, group);
+        return [summary.count, summary.smallest, summary.largest,
+            summary.count ? summary.consumers.map(({ name, pending }) => [name, String(pending)]) : null];
+    }
+
+    let i = 2;
+    let minIdleMs = 0;
+    if (String(args[i]).toUpperCase() === "IDLE") {
+        minIdleMs = toInteger(args[i + 1]);
+        i += 2;
+    }
+    const [start, end, count, consumer] = args.slice(i);
+    if (count === undefined || args.length > i + 4) throw new Error("ERR syntax error");
+    return node.xpending(key, group, { start, end, count: toInteger(count), consumer: consumer || null, minIdleMs })
+        .map(({ id, consumer: owner, idleMs, deliveries }) => [id, owner, idleMs, deliveries]);
+}
+
+// XCLAIM key group consumer min-idle-time id [id ...] [JUSTID]
+function xclaim(ctx, args) {
+    const [key, group, consumer, minIdle, ...rest] = args;
+    const justId = rest.length > 0 && String(rest[rest.length - 1]).toUpperCase() === "JUSTID";
+    const ids = justId ? rest.slice(0, -1) : rest;
+    if (ids.length === 0) throw new Error("ERR wrong number of arguments for 'xclaim' command");
+    const claimed = nodeFor(ctx, key).xclaim(key, group, consumer, toInteger(minIdle), ids, { justId });
+    return justId ? claimed : claimed.map(entryReply);
+}
+
+function xinfo(ctx, args) {
+    const sub = String(args[0]).toUpperCase();
+    const node = nodeFor(ctx, args[1]);
+    switch (sub) {
+        case "STREAM": {
+            const info = node.xinfoStream(args[1]);
+            return {
+                length: info.length,
+                "last-generated-id": info.lastGeneratedId,
+                groups: info.groups,
+                "first-entry": info.firstEntry && entryReply(info.firstEntry),
+                "last-entry": info.lastEntry && entryReply(info.lastEntry),
+            };
+        }
+        case "GROUPS":
+            return node.xinfoGroups(args[1]).map((group) => ({
+                name: group.name,
+                consumers: group.consumers,
+                pending: group.pending,
+                "last-delivered-id": group.lastDeliveredId,
+            }));
+        case "CONSUMERS":
+            if (args.length !== 3) throw new Error("ERR wrong number of arguments for 'xinfo|consumers' command");
+            return node.xinfoConsumers(args[1], args[2]).map(({ name, pending, idleMs }) => ({ name, pending, idle: idleMs }));
+        default:
+            throw new Error(`ERR unknown subcommand '${args[0]}'. Try XINFO HELP.`);
+    }
+}
+
+// =========================
+// Lists
+// =========================
+
+// LEFT | RIGHT
+function toDirection(value) {
+    const direction = String(value).toLowerCase();
+    if (direction !== "left" && direction !== "right") throw new Error("ERR syntax error");
+    return direction;
+}
+
+// a BLPOP timeout in seconds (decimals allowed, 0 = no limit) as block ms
+function toBlockTimeout(value) {
+    const seconds = Number(value);
+    if (String(value).trim() === "" || !Number.isFinite(seconds)) {
+        throw new Error("ERR timeout is not a float or out of range");
+    }
+    if (seconds < 0) throw new Error("ERR timeout is negative");
+    return Math.ceil(seconds * 1000);
+}
+
+// BLPOP / BRPOP key [key ...] timeout: [key, value], or a null array on timeout
+function bpop(ctx, args, end) {
+    const result = ctx.cluster.bpop(args.slice(0, -1), end, toBlockTimeout(args[args.length - 1]));
+    return whenRead(result, (popped) => popped || NULL_ARRAY);
+}
+
+// BLMOVE source destination LEFT|RIGHT LEFT|RIGHT timeout: the element, or a
+// null array on timeout (as Redis answers every timed-out list pop)
+function blmove(ctx, args) {
+    const [source, destination, whereFrom, whereTo, timeout] = args;
+    const result = ctx.cluster.blmove(source, destination, toDirection(whereFrom), toDirection(whereTo), toBlockTimeout(timeout));
+    return whenRead(result, (moved) => (moved ? moved[0] : NULL_ARRAY));
+}
+
+
+// =========================
+// Transactions
+// =========================
+
+// ctx.client.multi is { commands, aborted } between MULTI and EXEC/DISCARD;
+// ctx.client.watch is the WATCH state from ctx.cluster.watch()
+
+function multi(ctx) {
+    if (ctx.client.multi) throw new Error("ERR MULTI calls can not be nested");
+    ctx.client.multi = { commands: [], aborted: false };
+    return OK;
+}
+
+function discard(ctx) {
+    if (!ctx.client.multi) throw new Error("ERR DISCARD without MULTI");
+    ctx.client.multi = null;
+    unwatch(ctx);
+    return OK;
+}
+
+function watch(ctx, args) {
+    if (ctx.client.multi) throw new Error("ERR WATCH inside MULTI is not allowed");
+    ctx.client.watch = ctx.cluster.watch(args, ctx.client.watch || undefined);
+    return OK;
+}
+
+function unwatch(ctx) {
+    if (ctx.client.watch) ctx.cluster.unwatch(ctx.client.watch);
+    ctx.client.watch = null;
+    return OK;
+}
+
+// EXEC: a null array when a watched key was written since WATCH, else the
+// replies of the queued commands in order. A command that fails at run time
+// (WRONGTYPE and the like) has its error in its place and the others still
+// run: there is no rollback, as in Redis.
+function exec(ctx) {
+    const transaction = ctx.client.multi;
+    if (!transaction) throw new Error("ERR EXEC without MULTI");
+    ctx.client.multi = null;
+    const dirty = Boolean(ctx.client.watch && ctx.client.watch.dirty);
+    unwatch(ctx);
+    if (transaction.aborted) throw new Error("EXECABORT Transaction discarded because of previous errors.");
+    if (dirty) return NULL_ARRAY;
+
+    return ctx.cluster.transaction(() => transaction.commands.map((argv) => {
+        try {
+            const reply = executeCommand(ctx, argv);
+            if (!(reply instanceof Promise)) return reply;
+            if (reply.cancel) reply.cancel(); // nothing to pop or read: a blocking command doesn't wait in a transaction
+            return null;
+        } catch (error) {
+            return error;
+        }
+    }));
+}
+
+// A whole MULTI ... EXEC in one call, for clients without a connection (the
+// REST API). If any command can't be queued nothing runs, and the EXECABORT
+// error lists why.
+function execBatch(ctx, batch) {
+    multi(ctx);
+    const problems = [];
+    batch.forEach((argv, index) => {
+        const name = String(argv[0]).toLowerCase();
+        try {
+            if (TRANSACTION_COMMANDS.has(name) || name === "unwatch" || (commands[name] && commands[name].flags.includes("pubsub") && name !== "publish")) {
+                throw new Error(`ERR '${name}' can't be part of a batch`);
+            }
+            executeCommand(ctx, argv);
+        } catch (error) {
+            problems.push(`#${index + 1} ${error.message}`);
+        }
+    });
+    if (problems.length > 0) {
+        ctx.client.multi = null;
+        throw new Error(`EXECABORT Transaction discarded because of previous errors: ${problems.join("; ")}`);
+    }
+    return exec(ctx);
+}
+
+// =========================
+// Scripting
+// =========================
+
+const BUSY = "BUSY Redis is busy running a script. You can only call SCRIPT KILL or SHUTDOWN NOSAVE.";
+
+// What a script returns, as Redis turns Lua values into replies: false and
+// null are a nil, true is 1, numbers are truncated to integers, { ok } is a
+// status reply and { err } an error reply
+function scriptReply(value) {
+    if (value === null || value === undefined || value === false) return null;
+    if (value === true) return 1;
+    if (typeof value === "number") return Math.trunc(value);
+    if (Array.isArray(value)) return value.map(scriptReply);
+    if (typeof value === "object") {
+        if (typeof value.err === "string") return new Error(value.err);
+        if (typeof value.ok === "string") return simple(value.ok);
+        return replies(Object.entries(value).flat().map(scriptReply));
+    }
+    return String(value);
+}
+
+// call() from a script: the command runs for the calling client, but
+// without its MULTI state or the BUSY check. A blocking command doesn't
+// wait, as in a transaction.
+function callFromScript(ctx, argv) {
+    const entry = commands[String(argv[0]).toLowerCase()];
+    if (entry && entry.flags.includes("noscript")) {
+        throw new Error("ERR This Redis command is not allowed from script");
+    }
+    const reply = executeCommand({ ...ctx, fromScript: true }, argv);
+    if (entry.flags.includes("write")) ctx.cluster.scripts.noteWrite();
+    if (!(reply instanceof Promise)) return reply;
+    reply.cancel();
+    return null;
+}
+
+// EVAL / EVALSHA: args are numkeys, the keys, then the other arguments. The
+// script's writes go out as one transaction, like EXEC.
+function evalScript(ctx, source, args) {
+    const numKeys = toInteger(args[0]);
+    if (numKeys < 0) throw new Error("ERR Number of keys can't be negative");
+    if (numKeys > args.length - 1) throw new Error("ERR Number of keys can't be greater than number of args");
+    const keys = args.slice(1, numKeys + 1);
+    const argv = args.slice(numKeys + 1);
+    const { scripts } = ctx.cluster;
+    return ctx.cluster.transaction(() => scripts.run(source, keys, argv, (call) => callFromScript(ctx, call)))
+        .then(scriptReply);
+}
+
+function script(ctx, args) {
+    const { scripts } = ctx.cluster;
+    const sub = String(args[0]).toLowerCase();
+    switch (sub) {
+        case "load":
+            if (args.length !== 2) break;
+            return scripts.load(args[1]);
+        case "exists":
+            if (args.length < 2) break;
+            return scripts.exists(args.slice(1)).map((exists) => (exists ? 1 : 0));
+        case "flush":
+            scripts.flush();
+            return OK;
+        case "kill":
+            scripts.kill();
+            return OK;
+        default:
+            throw new Error(`ERR unknown subcommand '${args[0]}'. Try SCRIPT HELP.`);
+    }
+    throw new Error(`ERR wrong number of arguments for 'script|${sub}' command`);
+}
+
+// =========================
+// Pub/Sub
+// =========================
+
+// channels plus patterns, the count Redis reports in (un)subscribe replies
+function subscriptionCount(client) {
+    return client.subscriptions.size + client.patternSubscriptions.size;
+}
+
+function subscribe(ctx, args) {
+    const { client } = ctx;
+    return replies(args.map((channel) => {
+        if (!client.subscriptions.has(channel)) {
+            const callback = (message) => {
+                client.write(push(["message", channel, message]));
+            };
+            nodeFor(ctx, channel).subscribe(channel, callback);
+            client.subscriptions.set(channel, callback);
+        }
+        return push(["subscribe", channel, subscriptionCount(client)]);
+    }));
+}
+
+function unsubscribe(ctx, args) {
+    const { client } = ctx;
+    const channels = args.length ? args : Array.from(client.subscriptions.keys());
+    if (channels.length === 0) {
+        return push(["unsubscribe", null, subscriptionCount(client)]);
+    }
+
+    return replies(channels.map((channel) => {
+        const callback = client.subscriptions.get(channel);
+        if (callback) {
+            nodeFor(ctx, channel).unsubscribe(channel, callback);
+            client.subscriptions.delete(channel);
+        }
+        return push(["unsubscribe", channel, subscriptionCount(client)]);
+    }));
+}
+
+function psubscribe(ctx, args) {
+    const { client } = ctx;
+    return replies(args.map((pattern) => {
+        if (!client.patternSubscriptions.has(pattern)) {
+            const callback = (message, channel) => {
+                client.write(push(["pmessage", pattern, channel, message]));
+            };
+            ctx.cluster.psubscribe(pattern, callback);
+            client.patternSubscriptions.set(pattern, callback);
+        }
+        return push(["psubscribe", pattern, subscriptionCount(client)]);
+    }));
+}
+
+function punsubscribe(ctx, args) {
+    const { client } = ctx;
+    const patterns = args.length ? args : Array.from(client.patternSubscriptions.keys());
+    if (patterns.length === 0) {
+        return push(["punsubscribe", null, subscriptionCount(client)]);
+    }
+
+    return replies(patterns.map((pattern) => {
+        const callback = client.patternSubscriptions.get(pattern);
+        if (callback) {
+            ctx.cluster.punsubscribe(pattern, callback);
+            client.patternSubscriptions.delete(pattern);
+        }
+        return push(["punsubscribe", pattern, subscriptionCount(client)]);
+    }));
+}
+
+
+// =========================
+// Command table
+// =========================
+// arity follows Redis: positive = exact argument count (including the
+// command name), negative = minimum count. keys = [first, last, step].
+
+const commands = {
+    // connection
+    ping: { arity: -1, flags: ["fast", "connection"], handler: ping },
+    echo: { arity: 2, flags: ["fast", "connection"], handler: (ctx, args) => args[0] },
+    quit: { arity: -1, flags: ["fast", "connection"], handler: (ctx) => { ctx.client.closing = true; return OK; } },
+    select: {
+        arity: 2, flags: ["fast", "connection"],
+        handler: (ctx, args) => {
+            if (toInteger(args[0]) !== 0) throw new Error("ERR DB index is out of range");
+            return OK;
+        },
+    },
+    hello: { arity: -1, flags: ["fast", "connection"], handler: hello },
+    client: { arity: -2, flags: ["connection"], handler: client },
+    reset: { arity: 1, flags: ["fast", "connection", "noscript"], handler: reset },
+    command: { arity: -1, flags: ["connection"], handler: command },
+
+    // server
+    info: { arity: -1, flags: ["admin"], handler: info },
+    cluster: { arity: -2, flags: ["admin"], handler: cluster },
+    dbsize: {
+        arity: 1, flags: ["readonly", "fast"],
+        handler: (ctx) => allNodes(ctx).reduce((sum, node) => sum + node.store.size, 0),
+    },
+    flushall: { arity: -1, flags: ["write"], handler: flushAll },
+    flushdb: { arity: -1, flags: ["write"], handler: flushAll },
+    bgrewriteaof: { arity: 1, flags: ["admin"], handler: bgRewriteAof },
+    save: {
+        arity: 1, flags: ["admin"],
+        handler: (ctx) => {
+            allNodes(ctx).forEach((node) => node.save());
+            return OK;
+        },
+    },
+    bgsave: { arity: -1, flags: ["admin"], handler: bgSave },
+    config: { arity: -2, flags: ["admin"], handler: config },
+    memory: { arity: -2, flags: ["readonly"], keys: [2, 2, 1], handler: memory },
+    lastsave: {
+        arity: 1, flags: ["fast"],
+        handler: (ctx) => {
+            const times = allNodes(ctx).map((node) => node.rdbStatus.lastSaveTime || 0);
+            return Math.floor(Math.min(...times) / 1000);
+        },
+    },
+
+    // keyspace
+    keys: { arity: 2, flags: ["readonly"], handler: keys },
+    scan: { arity: -2, flags: ["readonly"], handler: scan },
+    exists: {
+        arity: -2, flags: ["readonly", "fast"], keys: [1, -1, 1],
+        handler: (ctx, args) => args.reduce((sum, key) => sum + nodeFor(ctx, key).exists(key), 0),
+    },
+    type: {
+        arity: 2, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => simple(nodeFor(ctx, args[0]).type(args[0])),
+    },
+    del: {
+        arity: -2, flags: ["write"], keys: [1, -1, 1],
+        handler: (ctx, args) => args.reduce((sum, key) => sum + deleteKey(ctx, key), 0),
+    },
+    delete: {
+        arity: -2, flags: ["write"], keys: [1, -1, 1],
+        handler: (ctx, args) => args.reduce((sum, key) => sum + deleteKey(ctx, key), 0),
+    },
+    expire: {
+        arity: 3, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).expire(args[0], toInteger(args[1])),
+    },
+    ttl: {
+        arity: 2, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).ttl(args[0]),
+    },
+    pttl: {
+        arity: 2, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).pttl(args[0]),
+    },
+    rename: { arity: 3, flags: ["write"], keys: [1, 2, 1], handler: rename },
+    object: { arity: -2, flags: ["readonly"], keys: [2, 2, 1], handler: object },
+
+    // strings
+    get: {
+        arity: 2, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => toStringReply(nodeFor(ctx, args[0]).get(args[0])),
+    },
+    set: { arity: -3, flags: ["write"], keys: [1, 1, 1], handler: set },
+    setex: { arity: 4, flags: ["write"], keys: [1, 1, 1], handler: (ctx, args) => setWithExpiry(ctx, args, "setex", 1000) },
+    psetex: { arity: 4, flags: ["write"], keys: [1, 1, 1], handler: (ctx, args) => setWithExpiry(ctx, args, "psetex", 1) },
+    incr: {
+        arity: 2, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => numericOp(() => nodeFor(ctx, args[0]).incr(args[0])),
+    },
+    decr: {
+        arity: 2, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => numericOp(() => nodeFor(ctx, args[0]).decr(args[0])),
+    },
+
+    // lists
+    lpush: {
+        arity: -3, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).lpush(args[0], ...args.slice(1)),
+    },
+    rpush: {
+        arity: -3, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).rpush(args[0], ...args.slice(1)),
+    },
+    lpop: {
+        arity: 2, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).lpop(args[0]),
+    },
+    rpop: {
+        arity: 2, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).rpop(args[0]),
+    },
+    lmove: {
+        arity: 5, flags: ["write"], keys: [1, 2, 1],
+        handler: (ctx, args) => ctx.cluster.lmove(args[0], args[1], toDirection(args[2]), toDirection(args[3])),
+    },
+    blpop: { arity: -3, flags: ["write", "blocking"], keys: [1, -2, 1], handler: (ctx, args) => bpop(ctx, args, "left") },
+    brpop: { arity: -3, flags: ["write", "blocking"], keys: [1, -2, 1], handler: (ctx, args) => bpop(ctx, args, "right") },
+    blmove: { arity: 6, flags: ["write", "blocking"], keys: [1, 2, 1], handler: blmove },
+    lrange: {
+        arity: 4, flags: ["readonly"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).lrange(args[0], toInteger(args[1]), toInteger(args[2])),
+    },
+    llen: {
+        arity: 2, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).llen(args[0]),
+    },
+    lindex: {
+        arity: 3, flags: ["readonly"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).lindex(args[0], toInteger(args[1])),
+    },
+
+    // hashes
+    hset: {
+        arity: -4, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => {
+            if (args.length % 2 === 0) throw new Error("ERR wrong number of arguments for 'hset' command");
+            const [key, ...pairs] = args;
+            const node = nodeFor(ctx, key);
+            const existing = node.hgetall(key);
+            let added = 0;
+            for (let i = 0; i < pairs.length; i += 2) {
+                if (!(pairs[i] in existing)) added++;
+                node.hset(key, pairs[i], pairs[i + 1]);
+            }
+            return added;
+        },
+    },
+    hget: {
+        arity: 3, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).hget(args[0], args[1]),
+    },
+    hdel: {
+        arity: -3, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => {
+            const node = nodeFor(ctx, args[0]);
+            return args.slice(1).reduce((sum, field) => sum + node.hdel(args[0], field), 0);
+        },
+    },
+    hgetall: {
+        arity: 2, flags: ["readonly"], keys: [1, 1, 1],
+        handler: (ctx, args) => {
+            const hash = nodeFor(ctx, args[0]).hgetall(args[0]);
+            const result = {};
+            for (const [field, value] of Object.entries(hash)) {
+                result[field] = String(value);
+            }
+            return result;
+        },
+    },
+    hmget: {
+        arity: -3, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => {
+            const node = nodeFor(ctx, args[0]);
+            return args.slice(1).map((field) => node.hget(args[0], field));
+        },
+    },
+    hexists: {
+        arity: 3, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => (Object.prototype.hasOwnProperty.call(nodeFor(ctx, args[0]).hgetall(args[0]), args[1]) ? 1 : 0),
+    },
+    hlen: {
+        arity: 2, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => Object.keys(nodeFor(ctx, args[0]).hgetall(args[0])).length,
+    },
+    hkeys: {
+        arity: 2, flags: ["readonly"], keys: [1, 1, 1],
+        handler: (ctx, args) => Object.keys(nodeFor(ctx, args[0]).hgetall(args[0])),
+    },
+    hvals: {
+        arity: 2, flags: ["readonly"], keys: [1, 1, 1],
+        handler: (ctx, args) => Object.values(nodeFor(ctx, args[0]).hgetall(args[0])).map(String),
+    },
+    hincrby: {
+        arity: 4, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).hincrby(args[0], args[1], toInteger(args[2])),
+    },
+
+    // sets
+    sadd: {
+        arity: -3, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).sadd(args[0], ...args.slice(1)),
+    },
+    srem: {
+        arity: -3, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).srem(args[0], ...args.slice(1)),
+    },
+    smembers: {
+        arity: 2, flags: ["readonly"], keys: [1, 1, 1],
+        handler: (ctx, args) => new Set(nodeFor(ctx, args[0]).smembers(args[0])),
+    },
+    sismember: {
+        arity: 3, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).sismember(args[0], args[1]),
+    },
+    smismember: {
+        arity: -3, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => args.slice(1).map((member) => nodeFor(ctx, args[0]).sismember(args[0], member)),
+    },
+    scard: {
+        arity: 2, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).scard(args[0]),
+    },
+    spop: {
+        arity: -2, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => {
+            if (args.length > 2) throw new Error("ERR syntax error");
+            const count = args.length > 1 ? toInteger(args[1]) : null;
+            if (count !== null && count < 0) throw new Error("ERR value is out of range, must be positive");
+            return nodeFor(ctx, args[0]).spop(args[0], count);
+        },
+    },
+    srandmember: {
+        arity: -2, flags: ["readonly"], keys: [1, 1, 1],
+        handler: (ctx, args) => {
+            if (args.length > 2) throw new Error("ERR syntax error");
+            const count = args.length > 1 ? toInteger(args[1]) : null;
+            return nodeFor(ctx, args[0]).srandmember(args[0], count);
+        },
+    },
+    sinter: {
+        arity: -2, flags: ["readonly"], keys: [1, -1, 1],
+        handler: (ctx, args) => new Set(ctx.cluster.sinter(args)),
+    },
+    sunion: {
+        arity: -2, flags: ["readonly"], keys: [1, -1, 1],
+        handler: (ctx, args) => new Set(ctx.cluster.sunion(args)),
+    },
+    sdiff: {
+        arity: -2, flags: ["readonly"], keys: [1, -1, 1],
+        handler: (ctx, args) => new Set(ctx.cluster.sdiff(args)),
+    },
+
+    // sorted sets
+    zadd: { arity: -4, flags: ["write", "fast"], keys: [1, 1, 1], handler: zadd },
+    zincrby: {
+        arity: 4, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => double(nodeFor(ctx, args[0]).zincrby(args[0], args[1], args[2])),
+    },
+    zrem: {
+        arity: -3, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).zrem(args[0], ...args.slice(1)),
+    },
+    zscore: {
+        arity: 3, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => {
+            const score = nodeFor(ctx, args[0]).zscore(args[0], args[1]);
+            return score === "(nil)" ? null : double(score);
+        },
+    },
+    zcard: {
+        arity: 2, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).zcard(args[0]),
+    },
+    zcount: {
+        arity: 4, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).zcount(args[0], args[1], args[2]),
+    },
+    zrank: {
+        arity: 3, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).zrank(args[0], args[1]),
+    },
+    zrevrank: {
+        arity: 3, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).zrevrank(args[0], args[1]),
+    },
+    zrange: { arity: -4, flags: ["readonly"], keys: [1, 1, 1], handler: (ctx, args) => zrange(ctx, args, {}) },
+    zrevrange: { arity: -4, flags: ["readonly"], keys: [1, 1, 1], handler: (ctx, args) => zrange(ctx, args, { rev: true }) },
+    zrangebyscore: { arity: -4, flags: ["readonly"], keys: [1, 1, 1], handler: (ctx, args) => zrange(ctx, args, { byScore: true }) },
+    zrevrangebyscore: {
+        arity: -4, flags: ["readonly"], keys: [1, 1, 1],
+        handler: (ctx, args) => zrange(ctx, args, { byScore: true, rev: true }),
+    },
+
+    // streams
+    xadd: { arity: -5, flags: ["write", "fast"], keys: [1, 1, 1], handler: xadd },
+    xlen: {
+        arity: 2, flags: ["readonly", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).xlen(args[0]),
+    },
+    xrange: { arity: -4, flags: ["readonly"], keys: [1, 1, 1], handler: (ctx, args) => xrange(ctx, args, {}) },
+    xrevrange: { arity: -4, flags: ["readonly"], keys: [1, 1, 1], handler: (ctx, args) => xrange(ctx, args, { rev: true }) },
+    xread: { arity: -4, flags: ["readonly", "blocking"], handler: xread },
+    xreadgroup: { arity: -7, flags: ["write", "blocking"], handler: xreadgroup },
+    xgroup: { arity: -2, flags: ["write"], keys: [2, 2, 1], handler: xgroup },
+    xack: {
+        arity: -4, flags: ["write", "fast"], keys: [1, 1, 1],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).xack(args[0], args[1], ...args.slice(2)),
+    },
+    xpending: { arity: -3, flags: ["readonly"], keys: [1, 1, 1], handler: xpending },
+    xclaim: { arity: -6, flags: ["write", "fast"], keys: [1, 1, 1], handler: xclaim },
+    xinfo: { arity: -3, flags: ["readonly"], keys: [2, 2, 1], handler: xinfo },
+
+    // pub/sub
+    publish: {
+        arity: 3, flags: ["pubsub", "fast"],
+        handler: (ctx, args) => nodeFor(ctx, args[0]).publish(args[0], args[1]),
+    },
+    subscribe: { arity: -2, flags: ["pubsub", "noscript"], handler: subscribe },
+    unsubscribe: { arity: -1, flags: ["pubsub", "noscript"], handler: unsubscribe },
+    psubscribe: { arity: -2, flags: ["pubsub", "noscript"], handler: psubscribe },
+    punsubscribe: { arity: -1, flags: ["pubsub", "noscript"], handler: punsubscribe },
+
+    // transactions
+    multi: { arity: 1, flags: ["fast", "noscript"], handler: multi },
+    exec: { arity: 1, flags: ["noscript"], handler: exec },
+    discard: { arity: 1, flags: ["fast", "noscript"], handler: discard },
+    watch: { arity: -2, flags: ["fast", "noscript"], keys: [1, -1, 1], handler: watch },
+    unwatch: { arity: 1, flags: ["fast", "noscript"], handler: unwatch },
+
+    // scripting ("no-multi": a script runs asynchronously, so not inside EXEC)
+    eval: {
+        arity: -3, flags: ["noscript", "no-multi"],
+        handler: (ctx, args) => evalScript(ctx, args[0], args.slice(1)),
+    },
+    evalsha: {
+        arity: -3, flags: ["noscript", "no-multi"],
+        handler: (ctx, args) => evalScript(ctx, ctx.cluster.scripts.get(args[0]), args.slice(1)),
+    },
+    script: { arity: -2, flags: ["noscript"], handler: script },
+};
+
+
+// Look up and run one command. Throws on unknown commands, bad arity and
+// anything the handler rejects; the caller turns errors into RESP error replies.
+function executeCommand(ctx, argv) {
+    const name = String(argv[0]).toLowerCase();
+    const args = argv.slice(1);
+    const entry = commands[name];
+
+    let rejected = null;
+    if (!entry) {
+        const preview = args.slice(0, 3).map((arg) => `'${arg}'`).join(" ");
+        rejected = new Error(`ERR unknown command '${argv[0]}', with args beginning with: ${preview}`);
+    } else if ((entry.arity > 0 && argv.length !== entry.arity) || (entry.arity < 0 && argv.length < -entry.arity)) {
+        rejected = new Error(`ERR wrong number of arguments for '${name}' command`);
+    }
+    if (rejected) {
+        // a command MULTI can't queue dooms the whole transaction
+        if (ctx.client.multi) ctx.client.multi.aborted = true;
+        throw rejected;
+    }
+
+    if (subscriptionCount(ctx.client) > 0 && ctx.client.protocol === 2 && !SUBSCRIBE_MODE_COMMANDS.has(name)) {
+        throw new Error(`ERR Can't execute '${name}': only (P|S)SUBSCRIBE / (P|S)UNSUBSCRIBE / PING / QUIT / RESET are allowed in this context`);
+    }
+
+    // while a script runs it is the only client served (SCRIPT KILL aside)
+    if (ctx.cluster.scripts.running && !ctx.fromScript && !(name === "script" && String(args[0]).toLowerCase() === "kill")) {
+        throw new Error(BUSY);
+    }
+
+    if (ctx.client.multi && !TRANSACTION_COMMANDS.has(name)) {
+        if (entry.flags.includes("no-multi")) {
+            ctx.client.multi.aborted = true;
+            throw new Error("ERR Command not allowed inside a transaction");
+        }
+        ctx.client.multi.commands.push(argv);
+        return QUEUED;
+    }
+
+    return entry.handler(ctx, args);
+}
+
+module.exports = { commands, executeCommand, execBatch };
@@ -0,0 +1,89 @@
+// maxmemory-policy: which key a node drops when a write comes in while the
+// node uses more than maxmemory, as in Redis:
+//   noeviction       nothing is dropped, the write fails with OOM
+//   allkeys-lru      the least recently used key
+//   volatile-lru     the least recently used key with a TTL
+//   allkeys-random   any key
+//   volatile-random  any key with a TTL
+//   volatile-ttl     the key with a TTL that expires soonest
+//   allkeys-lfu      the least frequently used key
+//   volatile-lfu     the least frequently used key with a TTL
+// A volatile-* policy with no TTL keys left behaves like noeviction.
+//
+// The node keeps its store in access order (RedisClone._updateLRU moves a
+// key to the end) and an LFU counter per key (keyMeta, see
+// accessFrequency.js), which is all the policies below read.
+
+const { LFU_INIT_VAL, decayedCounter } = require("./accessFrequency");
+
+const DEFAULT_POLICY = "allkeys-lru";
+
+function randomItem(items) {
+    return items.length === 0 ? null : items[Math.floor(Math.random() * items.length)];
+}
+
+// first of keys (in LRU order) with the lowest LFU counter, decay applied
+function leastFrequent(keys, node) {
+    const now = Date.now();
+    let victim = null;
+    let fewest = Infinity;
+    for (const key of keys) {
+        const meta = node.keyMeta.get(key);
+        const count = meta ? decayedCounter(meta, node.lfuSettings.decayTime, now) : LFU_INIT_VAL;
+        if (count < fewest) {
+            victim = key;
+            fewest = count;
+        }
+    }
+    return victim;
+}
+
+// keys with a TTL, in LRU order
+function* volatileKeys(node) {
+    for (const key of node.store.keys()) {
+        if (node.expiry.has(key)) yield key;
+    }
+}
+
+const POLICIES = {
+    "noeviction": () => null,
+    "allkeys-lru": (node) => {
+        const first = node.store.keys().next();
+        return first.done ? null : first.value;
+    },
+    "volatile-lru": (node) => {
+        const first = volatileKeys(node).next();
+        return first.done ? null : first.value;
+    },
+    "allkeys-random": (node) => randomItem(Array.from(node.store.keys())),
+    "volatile-random": (node) => randomItem(Array.from(volatileKeys(node))),
+    "volatile-ttl": (node) => {
+        let victim = null;
+        node.expiry.forEach((expireAt, key) => {
+            if (victim === null || expireAt < node.expiry.get(victim)) victim = key;
+        });
+        return victim;
+    },
+    "allkeys-lfu": (node) => leastFrequent(node.store.keys(), node),
+    "volatile-lfu": (node) => leastFrequent(volatileKeys(node), node),
+};
+
+function isValidPolicy(policy) {
+    return Object.prototype.hasOwnProperty.call(POLICIES, policy);
+}
+
+// canonical form of a policy name, like CONFIG GET returns it
+function parsePolicy(value) {
+    const policy = String(value).toLowerCase();
+    if (!isValidPolicy(policy)) {
+        throw new Error(`ERR Invalid argument '${value}' for CONFIG SET 'maxmemory-policy'`);
+    }
+    return policy;
+}
+
+// the key node should drop under policy, or null when there is none
+function selectVictim(policy, node) {
+    return POLICIES[policy](node);
+}
+
+module.exports = { DEFAULT_POLICY, POLICY_NAMES: Object.keys(POLICIES), isValidPolicy, parsePolicy, selectVictim };
@@ -0,0 +1,104 @@
+// Keyspace notifications (notify-keyspace-events), as in Redis. A write is
+// announced on __keyspace@<db>__:<key> with the event name as the message,
+// and/or on __keyevent@<db>__:<event> with the key as the message. The
+// flags pick what is announced:
+//   K  keyspace channel         E  keyevent channel
+//   g  generic (del, expire, rename, restore)
+//   $  strings   l  lists   s  sets   h  hashes   z  sorted sets
+//   t  streams   x  expired   e  evicted
+//   A  alias for g$lshzxet
+// "" (the default) turns notifications off.
+//
+// Events come from the entries every write propagates (see
+// RedisClone.propagate), so a key changed by a replicated or replayed
+// entry is announced the same way.
+
+const CLASS_FLAGS = "g$lshzxet";
+const CHANNEL_FLAGS = "KE";
+const DB = 0;
+
+// canonical form of a flags string, like CONFIG GET returns it
+function parseFlags(value) {
+    const flags = new Set();
+    for (const ch of String(value)) {
+        if (ch === "A") {
+            CLASS_FLAGS.split("").forEach((flag) => flags.add(flag));
+        } else if (CLASS_FLAGS.includes(ch) || CHANNEL_FLAGS.includes(ch)) {
+            flags.add(ch);
+        } else {
+            throw new Error(`ERR Invalid argument '${value}' for CONFIG SET 'notify-keyspace-events'`);
+        }
+    }
+
+    const classes = CLASS_FLAGS.split("").every((flag) => flags.has(flag))
+        ? "A"
+        : CLASS_FLAGS.split("").filter((flag) => flags.has(flag)).join("");
+    return classes + CHANNEL_FLAGS.split("").filter((flag) => flags.has(flag)).join("");
+}
+
+// [{ type, event, key }] announced by one propagated entry; deleteEvent
+// replaces "del" for keys that expired or were evicted
+function eventsForEntry(command, args, deleteEvent = null) {
+    const key = args[0];
+    switch (command) {
+        case "set":
+            return args[2]
+                ? [{ type: "$", event: "set", key }, { type: "g", event: "expire", key }]
+                : [{ type: "$", event: "set", key }];
+        case "incr":
+            return [{ type: "$", event: "incrby", key }];
+        case "decr":
+            return [{ type: "$", event: "decrby", key }];
+        case "del":
+            if (deleteEvent === "expired") return [{ type: "x", event: "expired", key }];
+            if (deleteEvent === "evicted") return [{ type: "e", event: "evicted", key }];
+            return [{ type: "g", event: "del", key }];
+        case "pexpireat":
+            return [{ type: "g", event: "expire", key }];
+        case "restore":
+            return [{ type: "g", event: "restore", key }];
+        case "rename":
+            return [{ type: "g", event: "rename_from", key }, { type: "g", event: "rename_to", key: args[1] }];
+        case "lpush":
+        case "rpush":
+        case "lpop":
+        case "rpop":
+            return [{ type: "l", event: command, key }];
+        case "hset":
+        case "hdel":
+        case "hincrby":
+            return [{ type: "h", event: command, key }];
+        case "sadd":
+        case "srem":
+            return [{ type: "s", event: command, key }];
+        case "zadd":
+        case "zrem":
+            return [{ type: "z", event: command, key }];
+        case "xadd":
+            return [{ type: "t", event: "xadd", key }];
+        case "xgroupcreate":
+        case "xgroupsetid":
+        case "xgroupdestroy":
+        case "xgroupcreateconsumer":
+        case "xgroupdelconsumer":
+            return [{ type: "t", event: `xgroup-${command.slice("xgroup".length)}`, key }];
+        case "exec":
+            return args[0].flatMap((entry) => eventsForEntry(entry.command, entry.args));
+        default:
+            return []; // flushall, deliveries and acks announce nothing
+    }
+}
+
+// [{ channel, message }] to publish for one entry under the given flags
+function notificationsFor(flags, command, args, deleteEvent = null) {
+    if (!flags) return [];
+    const notifications = [];
+    eventsForEntry(command, args, deleteEvent).forEach(({ type, event, key }) => {
+        if (!flags.includes(type) && !(flags.startsWith("A") && CLASS_FLAGS.includes(type))) return;
+        if (flags.includes("K")) notifications.push({ channel: `__keyspace@${DB}__:${key}`, message: event });
+        if (flags.includes("E")) notifications.push({ channel: `__keyevent@${DB}__:${event}`, message: String(key) });
+    });
+    return notifications;
+}
+
+module.exports = { parseFlags, eventsForEntry, notificationsFor };
@@ -0,0 +1,114 @@
+// Approximate memory accounting, in bytes, for MEMORY USAGE, MEMORY STATS and
+// the maxmemory limit, and the encodings OBJECT ENCODING reports. The sizes
+// follow Redis on a 64-bit build (a dict entry plus object header per key,
+// sds strings, a node or entry per element), not what V8 spends on the
+// JavaScript objects. They are good
+// enough to compare keys and to tell when a node is full, not to predict
+// process memory.
+
+const SortedSet = require("./SortedSet");
+const Stream = require("./Stream");
+
+const KEY_OVERHEAD = 56; // dict entry + robj + sds header of the key name
+const EXPIRY_OVERHEAD = 32; // entry in the expires dict
+const STRING_HEADER = 9; // sds header + terminator
+const INTEGER_SIZE = 8; // strings holding an integer are stored in the pointer
+const CONTAINER_OVERHEAD = 48; // quicklist / dict / skiplist header
+const LIST_ELEMENT = 11; // listpack entry header and back-length
+const HASH_FIELD = 40; // dict entry + two sds headers
+const SET_MEMBER = 32; // dict entry + sds header
+const ZSET_MEMBER = 64; // skiplist node (with its level pointers) + dict entry + score
+const STREAM_ENTRY = 32; // ID and listpack headers of one entry
+const STREAM_GROUP = 64;
+const PENDING_ENTRY = 48; // PEL entry in the group and in the consumer
+
+const byteLength = (value) => Buffer.byteLength(String(value));
+
+const isInteger = (value) => Number.isInteger(Number(value)) && String(value).trim() !== "" && Math.abs(Number(value)) < 2 ** 63;
+
+function stringSize(value) {
+    return isInteger(value) ? INTEGER_SIZE : STRING_HEADER + byteLength(value);
+}
+
+const sum = (items, size) => {
+    let total = 0;
+    for (const item of items) total += size(item);
+    return total;
+};
+
+// bytes used by a value of any type
+function valueSize(value) {
+    if (Array.isArray(value)) {
+        return CONTAINER_OVERHEAD + sum(value, (element) => LIST_ELEMENT + byteLength(element));
+    }
+    if (value instanceof Set) {
+        return CONTAINER_OVERHEAD + sum(value, (member) => SET_MEMBER + byteLength(member));
+    }
+    if (value instanceof SortedSet) {
+        return CONTAINER_OVERHEAD + sum(value.scores.keys(), (member) => ZSET_MEMBER + byteLength(member));
+    }
+    if (value instanceof Stream) {
+        const entries = sum(value.entries, (entry) => STREAM_ENTRY + sum(entry.fields, byteLength));
+        const groups = sum(value.groups.entries(), ([name, group]) => STREAM_GROUP + byteLength(name)
+            + sum(group.consumers.keys(), (consumer) => STRING_HEADER + byteLength(consumer))
+            + group.pending.size * PENDING_ENTRY);
+        return CONTAINER_OVERHEAD + entries + groups;
+    }
+    if (typeof value === "object" && value !== null) {
+        return CONTAINER_OVERHEAD + sum(Object.entries(value), ([field, fieldValue]) => HASH_FIELD + byteLength(field) + byteLength(fieldValue));
+    }
+    return stringSize(value);
+}
+
+// MEMORY USAGE: the key name, its value and its expiry entry
+function keySize(key, value, hasExpiry = false) {
+    return KEY_OVERHEAD + byteLength(key) + valueSize(value) + (hasExpiry ? EXPIRY_OVERHEAD : 0);
+}
+
+// OBJECT ENCODING: the representation Redis 7.0 would pick for the value
+// with its default *-max-listpack-* and set-max-intset-entries settings
+const LISTPACK_MAX_ENTRIES = 128;
+const LISTPACK_MAX_VALUE = 64;
+const INTSET_MAX_ENTRIES = 512;
+const EMBSTR_MAX = 44;
+
+const fitsListpack = (count, items) => count <= LISTPACK_MAX_ENTRIES
+    && Array.from(items).every((item) => byteLength(item) <= LISTPACK_MAX_VALUE);
+
+function objectEncoding(value) {
+    if (Array.isArray(value)) return "quicklist";
+    if (value instanceof Set) {
+        return value.size <= INTSET_MAX_ENTRIES && Array.from(value).every(isInteger) ? "intset" : "hashtable";
+    }
+    if (value instanceof SortedSet) {
+        return fitsListpack(value.scores.size, value.scores.keys()) ? "listpack" : "skiplist";
+    }
+    if (value instanceof Stream) return "stream";
+    if (typeof value === "object" && value !== null) {
+        const fields = Object.entries(value);
+        return fitsListpack(fields.length, fields.flat()) ? "listpack" : "hashtable";
+    }
+    if (isInteger(value)) return "int";
+    return byteLength(value) <= EMBSTR_MAX ? "embstr" : "raw";
+}
+
+const UNITS = { b: 1, k: 1000, kb: 1024, m: 1000 ** 2, mb: 1024 ** 2, g: 1000 ** 3, gb: 1024 ** 3 };
+
+// "100mb", "2gb", "1048576" -> bytes, like the maxmemory directive
+function parseBytes(value) {
+    const match = /^\s*(\d+)\s*([a-z]*)\s*$/i.exec(String(value));
+    const unit = match ? match[2].toLowerCase() || "b" : null;
+    if (!match || !UNITS[unit]) throw new Error(`ERR Invalid argument '${value}' for CONFIG SET 'maxmemory'`);
+    return Number(match[1]) * UNITS[unit];
+}
+
+// bytes as INFO's *_human fields show them: 1.50M, 512.00K, 100B
+function formatBytes(bytes) {
+    const units = [["G", 1024 ** 3], ["M", 1024 ** 2], ["K", 1024]];
+    for (const [unit, size] of units) {
+        if (bytes >= size) return `${(bytes / size).toFixed(2)}${unit}`;
+    }
+    return `${bytes}B`;
+}
+
+module.exports = { keySize, valueSize, objectEncoding, parseBytes, formatBytes };
@@ -0,0 +1,57 @@
+// Redis-style glob matching (KEYS, SCAN MATCH, PSUBSCRIBE)
+//   *      any sequence of characters
+//   ?      exactly one character
+//   [abc]  one of the listed characters ([^a] / [!a] negates, [a-z] ranges)
+//   \x     escape a special character
+
+const regexCache = new Map();
+
+function globToRegExp(pattern) {
+    if (regexCache.has(pattern)) return regexCache.get(pattern);
+
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i];
+
+        if (ch === "\\" && i + 1 < pattern.length) {
+            source += escapeRegExp(pattern[++i]);
+        } else if (ch === "*") {
+            source += "[\\s\\S]*";
+        } else if (ch === "?") {
+            source += "[\\s\\S]";
+        } else if (ch === "[") {
+            const close = pattern.indexOf("]", i + 1);
+            if (close === -1) {
+                source += "\\[";
+                continue;
+            }
+            let body = pattern.slice(i + 1, close);
+            let negate = false;
+            if (body[0] === "^" || body[0] === "!") {
+                negate = true;
+                body = body.slice(1);
+            }
+            const cls = body.replace(/[\]\\^]/g, "\\$&");
+            source += negate ? `[^${cls}]` : `[${cls}]`;
+            i = close;
+        } else {
+            source += escapeRegExp(ch);
+        }
+    }
+
+    const regex = new RegExp(`^${source}$`);
+    if (regexCache.size > 1000) regexCache.clear();
+    regexCache.set(pattern, regex);
+    return regex;
+}
+
+function escapeRegExp(ch) {
+    return ch.replace(/[.*+?^${}()|[\]\\/-]/g, "\\$&");
+}
+
+function matchesPattern(pattern, str) {
+    if (pattern === "*") return true;
+    return globToRegExp(pattern).test(str);
+}
+
+module.exports = { matchesPattern, globToRegExp };
@@ -1,11 +1,13 @@
 const SampleDataGenerator = require('./sampleDataGenerator');
 const RedisClone = require('./redis');
+const HashSlotMap = require('./HashSlotMap');
 
 class SampleDataPopulator {
   constructor() {
     this.generator = new SampleDataGenerator();
     this.redisInstances = new Map();
     this.ttlSchedulerInterval = null; // For storing the TTL scheduler interval
+    this.slotMap = new HashSlotMap(['node1', 'node2', 'node3']);
   }
 
   // Initialize Redis instances for different nodes
@@ -22,13 +24,9 @@ class SampleDataPopulator {
     });
   }
 
-  // Determine which node a key should be stored on (consistent hashing simulation)
+  // Determine which node a key should be stored on (same hash slots as ClusterRedis)
   getNodeForKey(key) {
-    const { createHash } = require('crypto');
-    const hash = createHash('sha256').update(key).digest('hex');
-    const nodeIndex = parseInt(hash.substr(0, 8), 16) % 3;
-    const nodeNames = ['node1', 'node2', 'node3'];
-    return nodeNames[nodeIndex];
+    return this.slotMap.getNode(key);
   }
 
   // Populate all Redis instances with sample data
@@ -0,0 +1,127 @@
+// Pub/sub channel history: every published message gets an ID from one
+// monotonically increasing sequence, and channels with a retention policy
+// keep their recent messages so a client that subscribes late or reconnects
+// can ask for everything after the last ID it saw.
+//
+// Retention is per channel and off by default: the last `maxLen` messages,
+// messages younger than `maxAgeMs`, or both. The retained messages and the
+// ID sequence are saved to a JSON file (written shortly after each change,
+// through a temp file like the cluster config) so they survive a restart.
+
+const fs = require("fs");
+const path = require("path");
+
+const SAVE_DELAY_MS = 1000;
+
+class PubSubHistory {
+    constructor(filePath = path.join(process.env.DATA_DIR || __dirname, "pubsub_history.json")) {
+        this.filePath = filePath;
+        this.lastId = 0;
+        this.channels = new Map(); // channel -> { retention: { maxLen, maxAgeMs }, messages: [] }
+        this.saveTimer = null;
+        this._load();
+    }
+
+    // null for both limits turns retention (and the stored messages) off
+    setRetention(channel, { maxLen = null, maxAgeMs = null } = {}) {
+        [["maxLen", maxLen], ["maxAgeMs", maxAgeMs]].forEach(([name, value]) => {
+            if (value !== null && (!Number.isInteger(value) || value <= 0)) {
+                throw new Error(`invalid channel retention, ${name} must be a positive integer`);
+            }
+        });
+
+        if (maxLen === null && maxAgeMs === null) {
+            this.channels.delete(channel);
+        } else {
+            const existing = this.channels.get(channel);
+            const entry = { retention: { maxLen, maxAgeMs }, messages: existing ? existing.messages : [] };
+            this.channels.set(channel, entry);
+            this._trim(entry);
+        }
+        this._scheduleSave();
+        return this.getRetention(channel);
+    }
+
+    getRetention(channel) {
+        const entry = this.channels.get(channel);
+        return entry ? { ...entry.retention } : null;
+    }
+
+    // Assign the next ID to a published message; it is kept only when the
+    // channel has a retention policy
+    record(channel, message) {
+        const record = { id: ++this.lastId, channel, message, timestamp: new Date().toISOString() };
+        const entry = this.channels.get(channel);
+        if (entry) {
+            entry.messages.push(record);
+            this._trim(entry);
+        }
+        this._scheduleSave();
+        return record;
+    }
+
+    // retained messages with an ID greater than afterId, oldest first
+    since(channel, afterId = 0) {
+        const entry = this.channels.get(channel);
+        if (!entry) return [];
+        this._trim(entry);
+        return entry.messages.filter((record) => record.id > afterId);
+    }
+
+    listChannels() {
+        return Array.from(this.channels.entries(), ([channel, entry]) => {
+            this._trim(entry);
+            return { channel, retention: { ...entry.retention }, retained: entry.messages.length };
+        });
+    }
+
+    _trim(entry) {
+        const { maxLen, maxAgeMs } = entry.retention;
+        if (maxAgeMs !== null) {
+            const cutoff = Date.now() - maxAgeMs;
+            const firstKept = entry.messages.findIndex((record) => Date.parse(record.timestamp) >= cutoff);
+            entry.messages.splice(0, firstKept === -1 ? entry.messages.length : firstKept);
+        }
+        if (maxLen !== null && entry.messages.length > maxLen) {
+            entry.messages.splice(0, entry.messages.length - maxLen);
+        }
+    }
+
+    _load() {
+        if (!fs.existsSync(this.filePath)) return;
+        try {
+            const saved = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+            this.lastId = saved.lastId || 0;
+            (saved.channels || []).forEach(({ channel, retention, messages }) => {
+                this.channels.set(channel, { retention, messages });
+            });
+        } catch (error) {
+            console.error(`Ignoring unreadable pub/sub history ${this.filePath}:`, error.message);
+        }
+    }
+
+    _scheduleSave() {
+        if (this.saveTimer) return;
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null;
+            this.save();
+        }, SAVE_DELAY_MS);
+        this.saveTimer.unref();
+    }
+
+    save() {
+        const channels = Array.from(this.channels.entries(), ([channel, entry]) => {
+            this._trim(entry);
+            return { channel, retention: entry.retention, messages: entry.messages };
+        });
+        const tempPath = `${this.filePath}.tmp`;
+        try {
+            fs.writeFileSync(tempPath, JSON.stringify({ lastId: this.lastId, channels }));
+            fs.renameSync(tempPath, this.filePath);
+        } catch (error) {
+            console.error("Failed to save pub/sub history:", error.message);
+        }
+    }
+}
+
+module.exports = PubSubHistory;
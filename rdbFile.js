@@ -0,0 +1,158 @@
+// RDB snapshot files: crash-safe writes and verified reads.
+// Shared by RedisClone.saveToFile (SAVE) and rdbWorker.js (BGSAVE, which only
+// writes the temp file; the node commits it so it can't race a newer SAVE).
+//
+// A snapshot is written to a temp file, fsynced and renamed into place, so a
+// crash mid-write never leaves a truncated data_<node>.json behind. The file
+// being replaced is kept as <file>.prev, the previous good generation.
+//
+// File layout:
+//   { "header": { format, version, createdAt, keyCount, checksum }, "store": [...], "expiry": [...] }
+// checksum is the SHA-256 of JSON.stringify({ store, expiry }). Files written
+// before headers existed (no "header") are still accepted.
+
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+
+const RDB_FORMAT = "redisclone-rdb";
+const RDB_VERSION = 1;
+
+class RdbFileError extends Error {
+    constructor(filePath, reason) {
+        super(`${path.basename(filePath)}: ${reason}`);
+        this.name = "RdbFileError";
+        this.filePath = filePath;
+        this.reason = reason;
+    }
+}
+
+function checksum(store, expiry) {
+    return crypto.createHash("sha256").update(JSON.stringify({ store, expiry })).digest("hex");
+}
+
+function previousGenerationPath(filePath) {
+    return `${filePath}.prev`;
+}
+
+// fsync the directory so the rename itself survives a power loss
+function syncDirectory(dirPath) {
+    let fd;
+    try {
+        fd = fs.openSync(dirPath, "r");
+        fs.fsyncSync(fd);
+    } catch (error) {
+        // not supported on every platform (e.g. Windows); the rename is still atomic
+    } finally {
+        if (fd !== undefined) fs.closeSync(fd);
+    }
+}
+
+// Write { store, expiry } to a fsynced temp file next to filePath. Nothing is
+// visible until commitSnapshot() renames it into place.
+function writeTempSnapshot(filePath, data) {
+    const { store, expiry } = data;
+    const header = {
+        format: RDB_FORMAT,
+        version: RDB_VERSION,
+        createdAt: Date.now(),
+        keyCount: store.length,
+        checksum: checksum(store, expiry),
+    };
+    const content = JSON.stringify({ header, store, expiry }, null, 2);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    const fd = fs.openSync(tempPath, "w");
+    try {
+        fs.writeSync(fd, content);
+        fs.fsyncSync(fd);
+    } catch (error) {
+        fs.closeSync(fd);
+        fs.rmSync(tempPath, { force: true });
+        throw error;
+    }
+    fs.closeSync(fd);
+
+    return { tempPath, header, bytes: Buffer.byteLength(content) };
+}
+
+// Publish a temp snapshot: the current file becomes <file>.prev, the temp file becomes the current one
+function commitSnapshot(filePath, tempPath) {
+    if (fs.existsSync(filePath)) {
+        fs.renameSync(filePath, previousGenerationPath(filePath));
+    }
+    fs.renameSync(tempPath, filePath);
+    syncDirectory(path.dirname(filePath));
+}
+
+// Write { store, expiry } atomically. Returns the header and the byte size written.
+function writeSnapshot(filePath, data) {
+    const { tempPath, header, bytes } = writeTempSnapshot(filePath, data);
+    commitSnapshot(filePath, tempPath);
+    return { header, bytes };
+}
+
+// Read and verify one snapshot file. Throws RdbFileError when it is empty,
+// truncated, not JSON, or the checksum / key count don't match.
+function readSnapshot(filePath) {
+    const content = fs.readFileSync(filePath, "utf-8");
+    if (!content.trim()) {
+        throw new RdbFileError(filePath, "file is empty");
+    }
+
+    let data;
+    try {
+        data = JSON.parse(content);
+    } catch (error) {
+        throw new RdbFileError(filePath, `not valid JSON (${error.message})`);
+    }
+    if (!data || !Array.isArray(data.store) || !Array.isArray(data.expiry)) {
+        throw new RdbFileError(filePath, "missing store or expiry section");
+    }
+
+    const header = data.header || null;
+    if (header) {
+        if (header.format !== RDB_FORMAT || header.version > RDB_VERSION) {
+            throw new RdbFileError(filePath, `unsupported format ${header.format} v${header.version}`);
+        }
+        if (header.keyCount !== data.store.length) {
+            throw new RdbFileError(filePath, `header says ${header.keyCount} keys, found ${data.store.length}`);
+        }
+        if (header.checksum !== checksum(data.store, data.expiry)) {
+            throw new RdbFileError(filePath, "checksum mismatch");
+        }
+    }
+
+    return { store: data.store, expiry: data.expiry, header };
+}
+
+// Load the newest good generation: the primary file, or <file>.prev when the
+// primary is damaged. Returns null when there is no snapshot at all.
+// { store, expiry, header, source, errors } where errors lists rejected files.
+function loadSnapshot(filePath) {
+    const errors = [];
+    for (const candidate of [filePath, previousGenerationPath(filePath)]) {
+        if (!fs.existsSync(candidate)) continue;
+        try {
+            return { ...readSnapshot(candidate), source: candidate, errors };
+        } catch (error) {
+            errors.push(error);
+        }
+    }
+    if (errors.length > 0) {
+        return { store: [], expiry: [], header: null, source: null, errors };
+    }
+    return null;
+}
+
+module.exports = {
+    RDB_FORMAT,
+    RDB_VERSION,
+    RdbFileError,
+    writeTempSnapshot,
+    commitSnapshot,
+    writeSnapshot,
+    readSnapshot,
+    loadSnapshot,
+    previousGenerationPath,
+};
@@ -1,13 +1,33 @@
-const fs = require("fs");
-const path = require("path");
+// Background snapshotter for BGSAVE. Each RedisClone node forks one of these;
+// the node sends a point-in-time copy of its dataset together with its own
+// RDB file path, and gets the outcome and timing back. The worker does the
+// slow part (serialize, write, fsync a temp file); the node renames the temp
+// file into place, so a SAVE made in the meantime is never overwritten.
 
-const filePath = path.join(__dirname, "data.json");
+const { writeTempSnapshot } = require("./rdbFile");
 
-process.on("message", (data) => {
+process.on("message", (message) => {
+    if (!message || message.type !== "save") return;
+
+    const startedAt = Date.now();
     try {
-        fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
-        process.send({ status: "success" });
+        const { tempPath, header, bytes } = writeTempSnapshot(message.filePath, message.data);
+        process.send({
+            type: "saved",
+            status: "success",
+            filePath: message.filePath,
+            tempPath,
+            header,
+            bytes,
+            durationMs: Date.now() - startedAt,
+        });
     } catch (error) {
-        process.send({ status: "error", error: error.message });
+        process.send({
+            type: "saved",
+            status: "error",
+            filePath: message.filePath,
+            error: error.message,
+            durationMs: Date.now() - startedAt,
+        });
     }
-});
\ No newline at end of file
+});
@@ -13,6 +13,7 @@ import MasterSlaveReplication from './components/MasterSlaveReplication/MasterSl
 import CLIConsole from './components/CLIConsole/CLIConsole';
 import RDBPersistence from './components/RDBPersistence/RDBPersistence';
 import ProcessMonitor from './components/ProcessMonitor/ProcessMonitor';
+import StreamBrowser from './components/StreamBrowser/StreamBrowser';
 
 function App() {
   const { theme } = useAppStore();
@@ -38,6 +39,7 @@ function App() {
             <Route path="/ttl" element={<TTLPlayground />} />
             <Route path="/lru" element={<LRUDemo />} />
             <Route path="/pubsub" element={<PubSubViewer />} />
+            <Route path="/streams" element={<StreamBrowser />} />
             <Route path="/replication" element={<MasterSlaveReplication />} />
             <Route path="/cli" element={<CLIConsole />} />
             <Route path="/persistence" element={<RDBPersistence />} />
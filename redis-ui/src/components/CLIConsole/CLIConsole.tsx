@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Terminal, Copy, RotateCcw, HelpCircle, Clock, AlertCircle } from 'lucide-react';
+import { Terminal, Copy, RotateCcw, HelpCircle, Clock, AlertCircle, FileCode } from 'lucide-react';
 import { apiService } from '../../services/api';
+import { ApiResponse } from '../../types';
+import ScriptEditor from './ScriptEditor';
 
 interface CommandHistory {
   id: string;
@@ -17,6 +19,58 @@ interface CommandSuggestion {
   syntax: string;
 }
 
+// Split a command line like redis-cli: whitespace separates arguments,
+// except inside "double" or 'single' quotes (\" and \n work in double quotes)
+const tokenize = (line: string): string[] => {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let inToken = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === quote) {
+        quote = null;
+      } else if (ch === '\\' && quote === '"' && i + 1 < line.length) {
+        const next = line[++i];
+        current += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+      inToken = true;
+    } else if (/\s/.test(ch)) {
+      if (inToken) tokens.push(current);
+      current = '';
+      inToken = false;
+    } else {
+      current += ch;
+      inToken = true;
+    }
+  }
+  if (quote) throw new Error('unbalanced quotes in request');
+  if (inToken) tokens.push(current);
+  return tokens;
+};
+
+// A script's reply the way redis-cli prints it
+const formatReply = (value: any, indent = ''): string => {
+  if (value === null || value === undefined) return '(nil)';
+  if (typeof value === 'number') return `(integer) ${value}`;
+  if (typeof value === 'string') return `"${value}"`;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '(empty array)';
+    const width = String(value.length).length;
+    return value.map((item, index) => {
+      const prefix = `${String(index + 1).padStart(width)}) `;
+      return `${index === 0 ? '' : indent}${prefix}${formatReply(item, indent + ' '.repeat(prefix.length))}`;
+    }).join('\n');
+  }
+  if (typeof value === 'object' && typeof value.error === 'string') return `(error) ${value.error}`;
+  return formatReply(Object.entries(value).flat(), indent);
+};
+
 const CLIConsole: React.FC = () => {
   const [currentCommand, setCurrentCommand] = useState('');
   const [commandHistory, setCommandHistory] = useState<CommandHistory[]>([]);
@@ -25,6 +79,7 @@ const CLIConsole: React.FC = () => {
   const [showHelp, setShowHelp] = useState(false);
   const [suggestions, setSuggestions] = useState<CommandSuggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [showScriptEditor, setShowScriptEditor] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const consoleRef = useRef<HTMLDivElement>(null);
 
@@ -36,6 +91,9 @@ const CLIConsole: React.FC = () => {
     { command: 'KEYS', description: 'List all keys', syntax: 'KEYS' },
     { command: 'INFO', description: 'Get server info', syntax: 'INFO' },
     { command: 'PING', description: 'Test connection', syntax: 'PING' },
+    { command: 'EVAL', description: 'Run a JavaScript script atomically', syntax: 'EVAL script numkeys [key ...] [arg ...]' },
+    { command: 'EVALSHA', description: 'Run a cached script by its SHA1', syntax: 'EVALSHA sha1 numkeys [key ...] [arg ...]' },
+    { command: 'SCRIPT', description: 'Manage the script cache', syntax: 'SCRIPT LOAD script | EXISTS sha1 [sha1 ...] | FLUSH | KILL' },
     { command: 'HELP', description: 'Show available commands', syntax: 'HELP' },
     { command: 'CLEAR', description: 'Clear console', syntax: 'CLEAR' },
   ];
@@ -46,7 +104,7 @@ const CLIConsole: React.FC = () => {
       id: 'welcome',
       command: 'SYSTEM',
       response: `Redis CLI Console - Limited API Mode
-Available commands: SET, GET, DELETE, KEYS, INFO, PING, HELP, CLEAR
+Available commands: SET, GET, DELETE, KEYS, INFO, PING, EVAL, EVALSHA, SCRIPT, HELP, CLEAR
 Type 'HELP' for detailed information.
 
 Note: This console only supports basic Redis commands available in the current API.`,
@@ -147,6 +205,27 @@ Note: This console only supports basic Redis commands available in the current A
     }
   };
 
+  const addHistoryEntry = (command: string, response: string, status: 'success' | 'error', executionTime: number) => {
+    const historyEntry: CommandHistory = {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+      command,
+      response,
+      timestamp: new Date(),
+      status,
+      executionTime
+    };
+    setCommandHistory(prev => [...prev, historyEntry]);
+  };
+
+  // Script runs from the editor show up in the history like typed commands
+  const addScriptResult = (command: string, result: ApiResponse<any>, executionTime: number) => {
+    if (result.success) {
+      addHistoryEntry(command, formatReply(result.data), 'success', executionTime);
+    } else {
+      addHistoryEntry(command, `Error: ${result.error}`, 'error', executionTime);
+    }
+  };
+
   const executeCommand = async (command: string) => {
     const startTime = Date.now();
     const trimmedCommand = command.trim();
@@ -335,13 +414,61 @@ api_endpoint: http://localhost:3001`;
           }
           break;
 
+        case 'EVAL':
+        case 'EVALSHA': {
+          const tokens = tokenize(trimmedCommand);
+          const numKeys = Number(tokens[2]);
+          if (tokens.length < 3 || !Number.isInteger(numKeys) || numKeys < 0 || numKeys > tokens.length - 3) {
+            response = `Error: ${cmd} requires a ${cmd === 'EVAL' ? 'script' : 'SHA1'}, numkeys and that many keys`;
+            status = 'error';
+            break;
+          }
+          const keys = tokens.slice(3, 3 + numKeys);
+          const args = tokens.slice(3 + numKeys);
+          const evalResult = cmd === 'EVAL'
+            ? await apiService.evalScript(tokens[1], keys, args)
+            : await apiService.evalSha(tokens[1], keys, args);
+          if (evalResult.success) {
+            response = formatReply(evalResult.data);
+          } else {
+            response = `Error: ${evalResult.error}`;
+            status = 'error';
+          }
+          break;
+        }
+
+        case 'SCRIPT': {
+          const tokens = tokenize(trimmedCommand);
+          const sub = (tokens[1] || '').toUpperCase();
+          let scriptResult;
+          if (sub === 'LOAD' && tokens.length === 3) {
+            scriptResult = await apiService.scriptLoad(tokens[2]);
+            if (scriptResult.success) response = `"${scriptResult.data?.sha}"`;
+          } else if (sub === 'EXISTS' && tokens.length > 2) {
+            scriptResult = await apiService.scriptExists(tokens.slice(2));
+            if (scriptResult.success) response = formatReply((scriptResult.data || []).map(exists => (exists ? 1 : 0)));
+          } else if (sub === 'FLUSH' || sub === 'KILL') {
+            scriptResult = sub === 'FLUSH' ? await apiService.scriptFlush() : await apiService.scriptKill();
+            if (scriptResult.success) response = 'OK';
+          } else {
+            response = 'Error: Usage: SCRIPT LOAD script | SCRIPT EXISTS sha1 [sha1 ...] | SCRIPT FLUSH | SCRIPT KILL';
+            status = 'error';
+            break;
+          }
+          if (!scriptResult.success) {
+            response = `Error: ${scriptResult.error}`;
+            status = 'error';
+          }
+          break;
+        }
+
         // Unsupported commands
         case 'EXISTS':
         case 'INCR':
         case 'DECR':
         case 'PUBLISH':
         case 'SUBSCRIBE':
-          response = `Error: Command '${cmd}' is not supported in the current API. Available commands: SET, GET, DELETE, KEYS, INFO, PING`;
+          response = `Error: Command '${cmd}' is not supported in the current API. Available commands: SET, GET, DELETE, KEYS, INFO, PING, EVAL, EVALSHA, SCRIPT`;
           status = 'error';
           break;
 
@@ -354,18 +481,7 @@ api_endpoint: http://localhost:3001`;
       status = 'error';
     }
 
-    const executionTime = Date.now() - startTime;
-
-    const historyEntry: CommandHistory = {
-      id: Date.now().toString(),
-      command: trimmedCommand,
-      response,
-      timestamp: new Date(),
-      status,
-      executionTime
-    };
-
-    setCommandHistory(prev => [...prev, historyEntry]);
+    addHistoryEntry(trimmedCommand, response, status, Date.now() - startTime);
     setCurrentCommand('');
     setHistoryIndex(-1);
     setShowSuggestions(false);
@@ -387,7 +503,7 @@ api_endpoint: http://localhost:3001`;
           <AlertCircle className="h-4 w-4 text-yellow-400 mr-2" />
           <div>
             <p className="text-sm text-yellow-700 dark:text-yellow-200">
-              <strong>Limited API Mode:</strong> Only basic Redis commands are supported (SET, GET, DELETE, KEYS, INFO, PING).
+              <strong>Limited API Mode:</strong> Only basic Redis commands and scripting are supported (SET, GET, DELETE, KEYS, INFO, PING, EVAL, EVALSHA, SCRIPT).
             </p>
           </div>
         </div>
@@ -405,6 +521,13 @@ api_endpoint: http://localhost:3001`;
         </div>
         
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowScriptEditor(!showScriptEditor)}
+            className={`p-2 transition-colors ${showScriptEditor ? 'text-white' : 'text-gray-400 hover:text-white'}`}
+            title="Script Editor (EVAL)"
+          >
+            <FileCode size={16} />
+          </button>
           <button
             onClick={() => setShowHelp(!showHelp)}
             className="p-2 text-gray-400 hover:text-white transition-colors"
@@ -458,6 +581,8 @@ api_endpoint: http://localhost:3001`;
         ))}
       </div>
 
+      {showScriptEditor && <ScriptEditor onResult={addScriptResult} />}
+
       {/* Command Input */}
       <div className="relative">
         {showSuggestions && (
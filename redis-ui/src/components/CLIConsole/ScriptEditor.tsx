@@ -0,0 +1,167 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Play, Upload, Square, Trash2 } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { ApiResponse, CachedScript, ScriptStatus } from '../../types';
+
+interface ScriptEditorProps {
+  onResult: (command: string, result: ApiResponse<any>, executionTime: number) => void;
+}
+
+const EXAMPLE_SCRIPT = `// KEYS and ARGV are arrays; call() runs a command, pcall() returns { err } instead of throwing
+const current = Number(call('GET', KEYS[0]) || 0);
+call('SET', KEYS[0], String(current + Number(ARGV[0])));
+return current + Number(ARGV[0]);`;
+
+const splitList = (text: string): string[] => text.split(/[\s,]+/).filter(Boolean);
+
+const shortSha = (sha: string) => `${sha.slice(0, 12)}…`;
+
+// Write a script, run it with EVAL or cache it with SCRIPT LOAD and run it
+// again by SHA1; results go to the console history
+const ScriptEditor: React.FC<ScriptEditorProps> = ({ onResult }) => {
+  const [source, setSource] = useState(EXAMPLE_SCRIPT);
+  const [keys, setKeys] = useState('counter');
+  const [args, setArgs] = useState('1');
+  const [scripts, setScripts] = useState<CachedScript[]>([]);
+  const [status, setStatus] = useState<ScriptStatus | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const fetchScripts = useCallback(async () => {
+    const response = await apiService.getScripts();
+    if (response.success && response.data) {
+      setScripts(response.data.scripts);
+      setStatus(response.data.status);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchScripts();
+  }, [fetchScripts]);
+
+  const describe = (command: string) => {
+    const keyList = splitList(keys);
+    return `${command} ${keyList.length}${[...keyList, ...splitList(args)].map(arg => ` ${arg}`).join('')}`;
+  };
+
+  const run = async (command: string, execute: () => Promise<ApiResponse<any>>) => {
+    const startTime = Date.now();
+    setRunning(true);
+    const result = await execute();
+    setRunning(false);
+    onResult(command, result, Date.now() - startTime);
+    fetchScripts();
+  };
+
+  const handleEval = () => run(
+    describe('EVAL <script>'),
+    () => apiService.evalScript(source, splitList(keys), splitList(args))
+  );
+
+  const handleEvalSha = (sha: string) => run(
+    describe(`EVALSHA ${shortSha(sha)}`),
+    () => apiService.evalSha(sha, splitList(keys), splitList(args))
+  );
+
+  const handleLoad = () => run('SCRIPT LOAD <script>', async () => {
+    const result = await apiService.scriptLoad(source);
+    return result.success ? { ...result, data: result.data?.sha } : result;
+  });
+
+  const handleFlush = () => run('SCRIPT FLUSH', () => apiService.scriptFlush());
+
+  // sent while a script is running; the EVAL request then fails with the kill error
+  const handleKill = async () => {
+    const startTime = Date.now();
+    onResult('SCRIPT KILL', await apiService.scriptKill(), Date.now() - startTime);
+    fetchScripts();
+  };
+
+  return (
+    <div className="p-4 bg-gray-800 border-t border-gray-700 space-y-3">
+      <textarea
+        value={source}
+        onChange={(e) => setSource(e.target.value)}
+        rows={6}
+        spellCheck={false}
+        className="w-full bg-gray-900 text-white text-sm p-2 rounded border border-gray-700 outline-none focus:border-green-500"
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={keys}
+          onChange={(e) => setKeys(e.target.value)}
+          placeholder="KEYS (space separated)"
+          className="flex-1 min-w-32 bg-gray-900 text-white text-sm p-2 rounded border border-gray-700 outline-none"
+        />
+        <input
+          type="text"
+          value={args}
+          onChange={(e) => setArgs(e.target.value)}
+          placeholder="ARGV (space separated)"
+          className="flex-1 min-w-32 bg-gray-900 text-white text-sm p-2 rounded border border-gray-700 outline-none"
+        />
+        <button
+          onClick={handleEval}
+          disabled={running}
+          className="flex items-center gap-1 px-3 py-2 text-sm rounded bg-green-700 text-white hover:bg-green-600 disabled:opacity-50"
+        >
+          <Play size={14} />
+          EVAL
+        </button>
+        <button
+          onClick={handleLoad}
+          disabled={running}
+          className="flex items-center gap-1 px-3 py-2 text-sm rounded bg-gray-700 text-white hover:bg-gray-600 disabled:opacity-50"
+          title="SCRIPT LOAD: cache the script and get its SHA1"
+        >
+          <Upload size={14} />
+          Load
+        </button>
+        <button
+          onClick={handleKill}
+          disabled={!running}
+          className="flex items-center gap-1 px-3 py-2 text-sm rounded bg-red-700 text-white hover:bg-red-600 disabled:opacity-50"
+          title="SCRIPT KILL: stop a script that has not written anything yet"
+        >
+          <Square size={14} />
+          Kill
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between items-center text-xs text-gray-400">
+          <span>
+            Cached scripts ({scripts.length})
+            {status && ` • time limit ${status.timeLimitMs}ms`}
+          </span>
+          {scripts.length > 0 && (
+            <button onClick={handleFlush} disabled={running} className="flex items-center gap-1 hover:text-white" title="SCRIPT FLUSH">
+              <Trash2 size={12} />
+              Flush
+            </button>
+          )}
+        </div>
+        <div className="max-h-24 overflow-y-auto">
+          {scripts.map(script => (
+            <div key={script.sha} className="flex items-center gap-2 text-xs py-1">
+              <button
+                onClick={() => handleEvalSha(script.sha)}
+                disabled={running}
+                className="text-green-400 hover:text-green-300 disabled:opacity-50"
+                title="EVALSHA with the keys and arguments above"
+              >
+                <Play size={12} />
+              </button>
+              <button onClick={() => setSource(script.source)} className="text-blue-400 hover:text-blue-300" title="Open in the editor">
+                {shortSha(script.sha)}
+              </button>
+              <span className="text-gray-500 truncate">{script.source.split('\n')[0]}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptEditor;
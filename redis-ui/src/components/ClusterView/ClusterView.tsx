@@ -1,6 +1,9 @@
 import React, { useState, useEffect } from 'react';
-import { Server, Activity, Database, AlertCircle, CheckCircle, RefreshCw } from 'lucide-react';
+import { Server, Activity, Database, AlertCircle, CheckCircle, RefreshCw, Hash, Search, Plus, Trash2, Shuffle } from 'lucide-react';
 import { apiService } from '../../services/api';
+import { listenToServerEvents } from '../../services/websocket';
+import { useAppStore } from '../../store';
+import { ClusterSlotMap, KeySlotInfo, SlotRange, ReshardProgress } from '../../types';
 
 interface ClusterNode {
   id: string;
@@ -10,59 +13,66 @@ interface ClusterNode {
   role: 'master' | 'slave';
   status: 'connected' | 'disconnected' | 'syncing';
   slots: string;
+  slotCount: number;
+  ranges: SlotRange[];
   connections: number;
   keyCount: number;
 }
 
+// Every node is served by the RESP server on this port (see server.js)
+const RESP_HOST = '127.0.0.1';
+const RESP_PORT = 6379;
+
+const NODE_COLORS = ['bg-primary-500', 'bg-secondary-500', 'bg-accent-500', 'bg-success-500', 'bg-warning-500'];
+
+const formatRanges = (ranges: SlotRange[]): string =>
+  ranges.length === 0
+    ? 'no slots'
+    : ranges.map(({ start, end }) => (start === end ? `${start}` : `${start}-${end}`)).join(', ');
+
 const ClusterView: React.FC = () => {
   const [selectedNode, setSelectedNode] = useState<string | null>(null);
-  const [totalKeys, setTotalKeys] = useState(0);
+  const [slotMap, setSlotMap] = useState<ClusterSlotMap | null>(null);
   const [loading, setLoading] = useState(true);
+  const [lookupKey, setLookupKey] = useState('');
+  const [keySlot, setKeySlot] = useState<KeySlotInfo | null>(null);
+  const [newNodeName, setNewNodeName] = useState('');
+  const [reshard, setReshard] = useState<ReshardProgress | null>(null);
+  const { addNotification } = useAppStore();
 
-  // Real cluster data based on the actual 3 nodes
-  const [nodes] = useState<ClusterNode[]>([
-    {
-      id: 'node1',
-      name: 'node1',
-      host: '127.0.0.1',
-      port: 6379,
-      role: 'master',
-      status: 'connected',
-      slots: '0-5460',
-      connections: 0,
-      keyCount: 0
-    },
-    {
-      id: 'node2',
-      name: 'node2',
-      host: '127.0.0.1',
-      port: 6380,
-      role: 'master',
-      status: 'connected',
-      slots: '5461-10922',
-      connections: 0,
-      keyCount: 0
-    },
-    {
-      id: 'node3',
-      name: 'node3',
-      host: '127.0.0.1',
-      port: 6381,
-      role: 'master',
-      status: 'connected',
-      slots: '10923-16383',
-      connections: 0,
-      keyCount: 0
-    }
-  ]);
+  useEffect(() => {
+    apiService.getReshardStatus().then((response) => {
+      if (response.success && response.data) {
+        setReshard(response.data.current || response.data.last);
+      }
+    });
+
+    // Live migration progress; the slot map is refetched whenever a range has been handed over
+    let finishedRanges = 0;
+    return listenToServerEvents({
+      cluster_reshard_progress: (progress: ReshardProgress) => {
+        setReshard(progress);
+        const done = progress.ranges.filter((range) => range.done).length;
+        if (done !== finishedRanges) {
+          finishedRanges = done;
+          apiService.getClusterSlots().then((response) => {
+            if (response.success && response.data) setSlotMap(response.data);
+          });
+        }
+      },
+      cluster_topology_changed: (map: ClusterSlotMap) => {
+        finishedRanges = 0;
+        setSlotMap(map);
+      }
+    });
+  }, []);
 
   useEffect(() => {
     const fetchClusterData = async () => {
       try {
-        setLoading(true);
-        const response = await apiService.getKeys();
+        const response = await apiService.getClusterSlots();
         if (response.success && response.data) {
-          setTotalKeys(response.data.length);
+          setSlotMap(response.data);
         }
       } catch (error) {
         console.error('Failed to fetch cluster data:', error);
@@ -77,6 +87,65 @@ const ClusterView: React.FC = () => {
     return () => clearInterval(interval);
   }, []);
 
+  const nodes: ClusterNode[] = (slotMap?.nodes || []).map((node) => ({
+    id: node.name,
+    name: node.name,
+    host: RESP_HOST,
+    port: RESP_PORT,
+    role: 'master',
+    status: 'connected',
+    slots: formatRanges(node.ranges),
+    slotCount: node.slots,
+    ranges: node.ranges,
+    connections: 0,
+    keyCount: node.keyCount
+  }));
+  const totalKeys = nodes.reduce((sum, node) => sum + node.keyCount, 0);
+  const slotCount = slotMap?.slotCount || 16384;
+
+  const nodeColor = (name: string | null): string => {
+    const index = nodes.findIndex(node => node.name === name);
+    return index === -1 ? 'bg-gray-300 dark:bg-gray-600' : NODE_COLORS[index % NODE_COLORS.length];
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lookupKey) return;
+    const response = await apiService.getKeySlot(lookupKey);
+    setKeySlot(response.success && response.data ? response.data : null);
+  };
+
+  const resharding = reshard?.state === 'running';
+
+  const handleAddNode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newNodeName.trim();
+    if (!name) return;
+    const response = await apiService.addClusterNode(name);
+    if (response.success) {
+      setNewNodeName('');
+      if (response.data?.current) setReshard(response.data.current);
+    } else {
+      addNotification({ type: 'error', title: 'Add Node Failed', message: response.error || 'Unknown error' });
+    }
+  };
+
+  const handleRemoveNode = async (name: string) => {
+    if (!window.confirm(`Move all slots and keys off ${name} and remove it from the cluster?`)) return;
+    const response = await apiService.removeClusterNode(name);
+    if (response.success) {
+      if (selectedNode === name) setSelectedNode(null);
+      if (response.data?.current) setReshard(response.data.current);
+    } else {
+      addNotification({ type: 'error', title: 'Remove Node Failed', message: response.error || 'Unknown error' });
+    }
+  };
+
+  const isMigrating = (range: SlotRange): boolean =>
+    Boolean(resharding && reshard?.ranges.some((move, index) =>
+      !move.done && index === reshard.currentRange && move.start <= range.end && move.end >= range.start
+    ));
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'connected':
@@ -146,6 +215,175 @@ const ClusterView: React.FC = () => {
         </div>
       </div>
 
+      {/* Slot Map */}
+      <div className="card">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+            <Hash className="w-5 h-5" />
+            Hash Slots
+            <span className="text-sm font-normal text-gray-500 dark:text-gray-400">
+              {slotCount.toLocaleString()} slots, CRC16(key) mod {slotCount}
+            </span>
+          </h2>
+
+          <form onSubmit={handleLookup} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={lookupKey}
+              onChange={(e) => setLookupKey(e.target.value)}
+              placeholder="Key, e.g. {user:1}.profile"
+              className="w-64 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+            />
+            <button type="submit" disabled={!lookupKey} className="btn-secondary flex items-center gap-2">
+              <Search className="w-4 h-4" />
+              KEYSLOT
+            </button>
+          </form>
+        </div>
+
+        {/* One bar, each range sized by its share of the slots */}
+        <div className="relative">
+          <div className="flex h-8 w-full rounded-lg overflow-hidden">
+            {(slotMap?.ranges || []).map((range) => (
+              <div
+                key={range.start}
+                className={`${nodeColor(range.node)} h-full cursor-pointer transition-all duration-500 ${
+                  selectedNode && selectedNode !== range.node ? 'opacity-40' : ''
+                } ${isMigrating(range) ? 'animate-pulse' : ''}`}
+                style={{ width: `${((range.end - range.start + 1) / slotCount) * 100}%` }}
+                title={`${range.start}-${range.end} → ${range.node || 'unassigned'}`}
+                onClick={() => range.node && setSelectedNode(range.node)}
+              />
+            ))}
+          </div>
+          {keySlot && (
+            <div
+              className="absolute -top-1 h-10 w-0.5 bg-gray-900 dark:bg-white"
+              style={{ left: `${(keySlot.slot / slotCount) * 100}%` }}
+              title={`slot ${keySlot.slot}`}
+            />
+          )}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1 font-mono">
+          <span>0</span>
+          <span>{slotCount - 1}</span>
+        </div>
+
+        <div className="flex flex-wrap gap-4 mt-3 text-sm">
+          {nodes.map((node) => (
+            <div key={node.id} className="flex items-center gap-2">
+              <span className={`w-3 h-3 rounded ${nodeColor(node.name)}`}></span>
+              <span className="text-gray-900 dark:text-gray-100">{node.name}</span>
+              <span className="font-mono text-gray-500 dark:text-gray-400">{node.slots}</span>
+              <span className="text-gray-500 dark:text-gray-400">({node.slotCount.toLocaleString()} slots)</span>
+            </div>
+          ))}
+        </div>
+
+        {keySlot && (
+          <div className="mt-4 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm text-gray-700 dark:text-gray-300">
+            <span className="font-mono">{keySlot.key}</span> → slot <strong>{keySlot.slot}</strong> on <strong>{keySlot.node}</strong>
+            {keySlot.hashTag !== keySlot.key && (
+              <span className="text-gray-500 dark:text-gray-400">
+                {' '}(only the hash tag <span className="font-mono">{`{${keySlot.hashTag}}`}</span> is hashed)
+              </span>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Resharding */}
+      <div className="card">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+            <Shuffle className="w-5 h-5" />
+            Resharding
+          </h2>
+
+          <form onSubmit={handleAddNode} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newNodeName}
+              onChange={(e) => setNewNodeName(e.target.value)}
+              placeholder="New node name, e.g. node4"
+              className="w-56 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+            />
+            <button type="submit" disabled={!newNodeName.trim() || resharding} className="btn-primary flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              Add Node
+            </button>
+          </form>
+        </div>
+
+        {!reshard ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Adding or removing a node moves hash slots (and their keys) between nodes while the cluster keeps serving requests.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="text-gray-900 dark:text-gray-100">
+                {reshard.operation.type === 'add' ? 'Adding' : 'Removing'} <strong>{reshard.operation.node}</strong>
+                {' '}— {reshard.movedSlots.toLocaleString()} / {reshard.totalSlots.toLocaleString()} slots,
+                {' '}{reshard.movedKeys.toLocaleString()} / {reshard.totalKeys.toLocaleString()} keys
+              </span>
+              <span className={`font-medium ${
+                reshard.state === 'running' ? 'text-warning-500' : reshard.state === 'failed' ? 'text-error-500' : 'text-success-500'
+              }`}>
+                {reshard.state === 'running' && <RefreshCw className="w-4 h-4 inline mr-1 animate-spin" />}
+                {reshard.state.toUpperCase()}
+              </span>
+            </div>
+
+            <div className="h-2 w-full bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-primary-500 transition-all duration-300"
+                style={{ width: `${reshard.totalSlots ? (reshard.movedSlots / reshard.totalSlots) * 100 : 100}%` }}
+              />
+            </div>
+
+            {reshard.error && (
+              <div className="p-3 bg-error-50 dark:bg-error-900/20 rounded-lg text-sm text-error-600 dark:text-error-400">
+                {reshard.error}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {reshard.ranges.map((range, index) => (
+                <div key={`${range.start}-${range.to}`} className="grid grid-cols-12 items-center gap-2 text-sm">
+                  <span className="col-span-3 font-mono text-gray-900 dark:text-gray-100">
+                    {range.start === range.end ? range.start : `${range.start}-${range.end}`}
+                  </span>
+                  <span className="col-span-3 flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                    <span className={`w-2 h-2 rounded ${nodeColor(range.from)}`}></span>
+                    {range.from || 'unassigned'} → <span className={`w-2 h-2 rounded ${nodeColor(range.to)}`}></span>
+                    {range.to}
+                  </span>
+                  <div className="col-span-4 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full transition-all duration-300 ${range.done ? 'bg-success-500' : 'bg-warning-500'} ${
+                        index === reshard.currentRange && !range.done ? 'animate-pulse' : ''
+                      }`}
+                      style={{ width: `${range.done ? 100 : range.keys ? (range.movedKeys / range.keys) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <span className="col-span-2 text-right text-gray-500 dark:text-gray-400">
+                    {range.movedKeys}/{range.keys} keys
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {reshard.recentKeys.length > 0 && (
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                Recently moved:{' '}
+                <span className="font-mono">{reshard.recentKeys.join(', ')}</span>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Cluster Topology */}
       <div className="card">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-6">
@@ -157,11 +395,21 @@ const ClusterView: React.FC = () => {
             <div key={node.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4">
               <div className="flex items-center justify-between mb-4">
                 <h3 className="font-semibold text-gray-900 dark:text-gray-100">
-                  Shard: {node.slots}
+                  Slots: {node.slots}
                 </h3>
-                <span className="text-sm text-gray-500 dark:text-gray-400">
-                  {node.name}
-                </span>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-500 dark:text-gray-400">
+                    {node.name}
+                  </span>
+                  <button
+                    onClick={() => handleRemoveNode(node.name)}
+                    disabled={resharding || nodes.length <= 1}
+                    className="text-gray-400 hover:text-error-500 disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Remove node"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
               
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -191,7 +439,7 @@ const ClusterView: React.FC = () => {
                       {node.host}:{node.port}
                     </div>
                     <div className="text-gray-500 dark:text-gray-400">
-                      Keys: {loading ? '...' : Math.floor(totalKeys / 3).toLocaleString()}
+                      Keys: {loading ? '...' : node.keyCount.toLocaleString()}
                     </div>
                     <div className="text-gray-500 dark:text-gray-400">
                       Connections: {node.connections}
@@ -213,7 +461,8 @@ const ClusterView: React.FC = () => {
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {(() => {
-              const node = nodes.find(n => n.id === selectedNode)!;
+              const node = nodes.find(n => n.id === selectedNode);
+              if (!node) return null;
               return (
                 <>
                   <div>
@@ -249,9 +498,15 @@ const ClusterView: React.FC = () => {
                         <span className="text-gray-500 dark:text-gray-400">Slots:</span>
                         <span className="font-mono text-gray-900 dark:text-gray-100">{node.slots}</span>
                       </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500 dark:text-gray-400">Slot Count:</span>
+                        <span className="text-gray-900 dark:text-gray-100">
+                          {node.slotCount.toLocaleString()} ({((node.slotCount / slotCount) * 100).toFixed(1)}%)
+                        </span>
+                      </div>
                       <div className="flex justify-between">
                         <span className="text-gray-500 dark:text-gray-400">Keys:</span>
-                        <span className="text-gray-900 dark:text-gray-100">{loading ? '...' : Math.floor(totalKeys / 3).toLocaleString()}</span>
+                        <span className="text-gray-900 dark:text-gray-100">{loading ? '...' : node.keyCount.toLocaleString()}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-500 dark:text-gray-400">Connections:</span>
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Plus, RefreshCw, Key, Trash2, X, Info, Edit3, Calculator, Eye, EyeOff, Clock, Copy, List, Hash, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Search, Plus, RefreshCw, Key, Trash2, X, Info, Edit3, Calculator, Eye, EyeOff, Clock, Copy, List, Hash, Layers, ChevronLeft, ChevronRight } from 'lucide-react';
 import { apiService } from '../../services/api';
 
 interface RedisKeyData {
@@ -11,7 +11,8 @@ interface RedisKeyData {
 }
 
 interface OperationModal {
-  type: 'set' | 'expire' | 'rename' | 'incr' | 'decr' | 'lpush' | 'rpush' | 'lpop' | 'rpop' | 'hset' | 'hget' | 'hdel' | 'hgetall' | null;
+  type: 'set' | 'expire' | 'rename' | 'incr' | 'decr' | 'lpush' | 'rpush' | 'lpop' | 'rpop' | 'hset' | 'hget' | 'hdel' | 'hgetall' |
+    'sadd' | 'srem' | 'sismember' | 'spop' | 'sinter' | 'sunion' | 'sdiff' | null;
   key?: string;
 }
 
@@ -32,7 +33,7 @@ const KeyExplorer: React.FC = () => {
   const [newKey, setNewKey] = useState<string>('');
   const [newValue, setNewValue] = useState<string>('');
   const [newTTL, setNewTTL] = useState<string>('');
-  const [newKeyType, setNewKeyType] = useState<'string' | 'list' | 'hash'>('string');
+  const [newKeyType, setNewKeyType] = useState<'string' | 'list' | 'hash' | 'set'>('string');
   const [newHashField, setNewHashField] = useState<string>('');
   const [addingKey, setAddingKey] = useState<boolean>(false);
 
@@ -45,6 +46,10 @@ const KeyExplorer: React.FC = () => {
   
   // View options
   const [viewMode, setViewMode] = useState<'json' | 'raw'>('json');
+
+  // Set editor
+  const [newSetMember, setNewSetMember] = useState<string>('');
+  const [updatingSet, setUpdatingSet] = useState<boolean>(false);
   
   // Flush operations
   const [flushing, setFlushing] = useState<boolean>(false);
@@ -92,6 +97,20 @@ const KeyExplorer: React.FC = () => {
         } catch (ttlError) {
           console.log('TTL not available for key:', key);
         }
+
+        // MEMORY USAGE: approximate bytes of the key, its value and expiry
+        const memoryResponse = await apiService.getKeyMemory(key);
+        if (memoryResponse.success && memoryResponse.data) {
+          const { bytes } = memoryResponse.data;
+          setSelectedKeyData((prev: any) => ({ ...prev, memory: bytes }));
+        }
+
+        // OBJECT ENCODING / IDLETIME / FREQ
+        const objectResponse = await apiService.getKeyObject(key);
+        if (objectResponse.success && objectResponse.data) {
+          const { encoding, idleSeconds, freq } = objectResponse.data;
+          setSelectedKeyData((prev: any) => ({ ...prev, encoding, idleSeconds, freq }));
+        }
       }
     } catch (error) {
       console.error('Failed to fetch key data:', error);
@@ -272,6 +291,10 @@ const KeyExplorer: React.FC = () => {
       alert('Please enter both field and value for the hash key');
       return;
     }
+    if (newKeyType === 'set' && splitMembers(newValue).length === 0) {
+      alert('Please enter at least one member for the set');
+      return;
+    }
 
     setAddingKey(true);
     try {
@@ -298,6 +321,14 @@ const KeyExplorer: React.FC = () => {
             await apiService.setExpire(newKey, ttl);
           }
           break;
+
+        case 'set':
+          // Create set using sadd (duplicates are ignored by the server)
+          response = await apiService.sadd(newKey, splitMembers(newValue));
+          if (response.success && ttl) {
+            await apiService.setExpire(newKey, ttl);
+          }
+          break;
         
         default:
           throw new Error('Invalid key type');
@@ -321,6 +352,10 @@ const KeyExplorer: React.FC = () => {
     }
   };
 
+  // Comma-separated input -> trimmed, non-empty members
+  const splitMembers = (input: string): string[] =>
+    input.split(',').map(member => member.trim()).filter(member => member.length > 0);
+
   const resetAddModal = () => {
     setShowAddModal(false);
     setNewKey('');
@@ -404,6 +439,33 @@ const KeyExplorer: React.FC = () => {
           response = await apiService.hgetall(operationModal.key);
           setOperationResult(response.success ? JSON.stringify(response.data || {}, null, 2) : `Error: ${response.error || 'Failed'}`);
           break;
+
+        case 'sadd':
+          response = await apiService.sadd(operationModal.key, splitMembers(operationValue));
+          setOperationResult(response.success ? `Members added: ${response.data ?? 0}` : `Error: ${response.error || 'Failed'}`);
+          break;
+
+        case 'srem':
+          response = await apiService.srem(operationModal.key, splitMembers(operationValue));
+          setOperationResult(response.success ? `Members removed: ${response.data ?? 0}` : `Error: ${response.error || 'Failed'}`);
+          break;
+
+        case 'sismember':
+          response = await apiService.sismember(operationModal.key, operationValue);
+          setOperationResult(response.success ? (response.data ? 'Is a member' : 'Not a member') : `Error: ${response.error || 'Failed'}`);
+          break;
+
+        case 'spop':
+          response = await apiService.spop(operationModal.key, operationValue ? parseInt(operationValue) : undefined);
+          setOperationResult(response.success ? `Popped: ${JSON.stringify(response.data ?? null)}` : `Error: ${response.error || 'Failed'}`);
+          break;
+
+        case 'sinter':
+        case 'sunion':
+        case 'sdiff':
+          response = await apiService.setOperation(operationModal.type, [operationModal.key, ...splitMembers(operationValue)]);
+          setOperationResult(response.success ? JSON.stringify(response.data || [], null, 2) : `Error: ${response.error || 'Failed'}`);
+          break;
           
         default:
           setOperationResult('Operation not implemented');
@@ -424,6 +486,41 @@ const KeyExplorer: React.FC = () => {
     }
   };
 
+  const handleAddSetMember = async () => {
+    if (!selectedKey || !newSetMember.trim()) return;
+
+    setUpdatingSet(true);
+    try {
+      const response = await apiService.sadd(selectedKey, splitMembers(newSetMember));
+      if (response.success) {
+        setNewSetMember('');
+        await fetchKeyData(selectedKey);
+      } else {
+        alert(`Error: ${response.error || 'Failed to add member'}`);
+      }
+    } finally {
+      setUpdatingSet(false);
+    }
+  };
+
+  const handleRemoveSetMember = async (member: string) => {
+    if (!selectedKey) return;
+
+    setUpdatingSet(true);
+    try {
+      const response = await apiService.srem(selectedKey, member);
+      if (response.success) {
+        // Removing the last member deletes the key
+        await fetchKeys();
+        await fetchKeyData(selectedKey);
+      } else {
+        alert(`Error: ${response.error || 'Failed to remove member'}`);
+      }
+    } finally {
+      setUpdatingSet(false);
+    }
+  };
+
   const resetOperationModal = () => {
     setOperationModal({ type: null });
     setOperationValue('');
@@ -631,6 +728,63 @@ const KeyExplorer: React.FC = () => {
           <Hash className="w-3 h-3" />
           HGETALL
         </button>
+
+        {/* Set Operations */}
+        <button
+          onClick={() => setOperationModal({ type: 'sadd', key: selectedKey! })}
+          className="btn-secondary text-sm flex items-center gap-2"
+        >
+          <Layers className="w-3 h-3" />
+          SADD
+        </button>
+
+        <button
+          onClick={() => setOperationModal({ type: 'srem', key: selectedKey! })}
+          className="btn-secondary text-sm flex items-center gap-2"
+        >
+          <Layers className="w-3 h-3" />
+          SREM
+        </button>
+
+        <button
+          onClick={() => setOperationModal({ type: 'sismember', key: selectedKey! })}
+          className="btn-secondary text-sm flex items-center gap-2"
+        >
+          <Layers className="w-3 h-3" />
+          SISMEMBER
+        </button>
+
+        <button
+          onClick={() => setOperationModal({ type: 'spop', key: selectedKey! })}
+          className="btn-secondary text-sm flex items-center gap-2"
+        >
+          <Layers className="w-3 h-3" />
+          SPOP
+        </button>
+
+        <button
+          onClick={() => setOperationModal({ type: 'sinter', key: selectedKey! })}
+          className="btn-secondary text-sm flex items-center gap-2"
+        >
+          <Layers className="w-3 h-3" />
+          SINTER
+        </button>
+
+        <button
+          onClick={() => setOperationModal({ type: 'sunion', key: selectedKey! })}
+          className="btn-secondary text-sm flex items-center gap-2"
+        >
+          <Layers className="w-3 h-3" />
+          SUNION
+        </button>
+
+        <button
+          onClick={() => setOperationModal({ type: 'sdiff', key: selectedKey! })}
+          className="btn-secondary text-sm flex items-center gap-2"
+        >
+          <Layers className="w-3 h-3" />
+          SDIFF
+        </button>
       </div>
     </div>
   );
@@ -651,7 +805,14 @@ const KeyExplorer: React.FC = () => {
       hset: 'Hash Set',
       hget: 'Hash Get',
       hdel: 'Hash Delete',
-      hgetall: 'Hash Get All'
+      hgetall: 'Hash Get All',
+      sadd: 'Set Add',
+      srem: 'Set Remove',
+      sismember: 'Set Membership',
+      spop: 'Set Pop',
+      sinter: 'Set Intersection',
+      sunion: 'Set Union',
+      sdiff: 'Set Difference'
     };
 
     return (
@@ -790,6 +951,54 @@ const KeyExplorer: React.FC = () => {
               </>
             )}
 
+            {(operationModal.type === 'sadd' || operationModal.type === 'srem' || operationModal.type === 'sismember') && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  {operationModal.type === 'sismember' ? 'Member' : 'Members (comma separated)'}
+                </label>
+                <input
+                  type="text"
+                  value={operationValue}
+                  onChange={(e) => setOperationValue(e.target.value)}
+                  placeholder={operationModal.type === 'sismember' ? 'Enter member' : 'e.g. red, green, blue'}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+              </div>
+            )}
+
+            {operationModal.type === 'spop' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Count - Optional
+                </label>
+                <input
+                  type="number"
+                  value={operationValue}
+                  onChange={(e) => setOperationValue(e.target.value)}
+                  placeholder="Leave empty to pop a single member"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+              </div>
+            )}
+
+            {(operationModal.type === 'sinter' || operationModal.type === 'sunion' || operationModal.type === 'sdiff') && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Other Keys (comma separated)
+                </label>
+                <input
+                  type="text"
+                  value={operationValue}
+                  onChange={(e) => setOperationValue(e.target.value)}
+                  placeholder="e.g. tags:post:2, tags:post:3"
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Keys may live on different nodes; members are gathered from each owning node.
+                </p>
+              </div>
+            )}
+
             {operationModal.type === 'hgetall' && (
               <div className="p-3 bg-gray-100 dark:bg-gray-700 rounded-lg">
                 <p className="text-sm text-gray-600 dark:text-gray-300">
@@ -838,9 +1047,64 @@ const KeyExplorer: React.FC = () => {
     );
   };
 
+  const renderSetEditor = () => {
+    const members: string[] = Array.isArray(selectedKeyData?.value) ? selectedKeyData.value : [];
+
+    return (
+      <div className="space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {members.length === 0 && (
+            <span className="text-gray-500 dark:text-gray-400">Set is empty</span>
+          )}
+          {members.map(member => (
+            <span
+              key={member}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded bg-primary-100 dark:bg-primary-900/30 text-primary-800 dark:text-primary-200"
+            >
+              {member}
+              <button
+                onClick={() => handleRemoveSetMember(member)}
+                disabled={updatingSet}
+                className="hover:text-red-600 disabled:opacity-50"
+                title={`Remove "${member}"`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newSetMember}
+            onChange={(e) => setNewSetMember(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddSetMember()}
+            placeholder="Add member(s), comma separated"
+            className="flex-1 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+          />
+          <button
+            onClick={handleAddSetMember}
+            disabled={updatingSet || !newSetMember.trim()}
+            className="btn-primary text-sm flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" />
+            Add
+          </button>
+        </div>
+        <div className="text-xs text-gray-500 dark:text-gray-400">
+          {members.length} member(s)
+        </div>
+      </div>
+    );
+  };
+
   const renderValueDisplay = () => {
     if (!selectedKeyData) return null;
 
+    if (selectedKeyData.type === 'set') {
+      return renderSetEditor();
+    }
+
     const value = selectedKeyData.value;
     
     try {
@@ -976,7 +1240,7 @@ const KeyExplorer: React.FC = () => {
                   <div className="flex justify-between">
                     <span className="text-gray-500 dark:text-gray-400">Type:</span>
                     <span className="text-gray-900 dark:text-gray-100">
-                      {keys.find(k => k.key === selectedKey)?.type || 'string'}
+                      {selectedKeyData?.type || keys.find(k => k.key === selectedKey)?.type || 'string'}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -988,11 +1252,27 @@ const KeyExplorer: React.FC = () => {
                     </span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-500 dark:text-gray-400">Size:</span>
+                    <span className="text-gray-500 dark:text-gray-400">Memory:</span>
                     <span className="text-gray-900 dark:text-gray-100">
-                      {keys.find(k => k.key === selectedKey)?.size || 0} bytes
+                      {selectedKeyData?.memory ?? keys.find(k => k.key === selectedKey)?.size ?? 0} bytes
                     </span>
                   </div>
+                  {selectedKeyData?.encoding && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500 dark:text-gray-400">Encoding:</span>
+                        <span className="text-gray-900 dark:text-gray-100">{selectedKeyData.encoding}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500 dark:text-gray-400">Idle:</span>
+                        <span className="text-gray-900 dark:text-gray-100">{selectedKeyData.idleSeconds}s</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500 dark:text-gray-400">LFU Counter:</span>
+                        <span className="text-gray-900 dark:text-gray-100">{selectedKeyData.freq}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
 
@@ -1052,17 +1332,19 @@ const KeyExplorer: React.FC = () => {
                 </label>
                 <select
                   value={newKeyType}
-                  onChange={(e) => setNewKeyType(e.target.value as 'string' | 'list' | 'hash')}
+                  onChange={(e) => setNewKeyType(e.target.value as 'string' | 'list' | 'hash' | 'set')}
                   className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
                 >
                   <option value="string">String</option>
                   <option value="list">List</option>
                   <option value="hash">Hash Set</option>
+                  <option value="set">Set</option>
                 </select>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                   {newKeyType === 'string' && 'Simple key-value pair'}
                   {newKeyType === 'list' && 'Ordered collection of values (arrays)'}
                   {newKeyType === 'hash' && 'Collection of field-value pairs (objects)'}
+                  {newKeyType === 'set' && 'Unordered collection of unique members'}
                 </p>
               </div>
 
@@ -1099,6 +1381,7 @@ const KeyExplorer: React.FC = () => {
                   {newKeyType === 'string' && 'Value'}
                   {newKeyType === 'list' && 'Initial Value'}
                   {newKeyType === 'hash' && 'Field Value'}
+                  {newKeyType === 'set' && 'Members'}
                 </label>
                 <textarea
                   value={newValue}
@@ -1106,6 +1389,7 @@ const KeyExplorer: React.FC = () => {
                   placeholder={
                     newKeyType === 'string' ? 'Enter key value' :
                     newKeyType === 'list' ? 'Enter first list item' :
+                    newKeyType === 'set' ? 'e.g. red, green, blue' :
                     'Enter field value'
                   }
                   rows={newKeyType === 'string' ? 4 : 2}
@@ -1121,6 +1405,11 @@ const KeyExplorer: React.FC = () => {
                     This will be the first field-value pair in your hash. You can add more fields later.
                   </p>
                 )}
+                {newKeyType === 'set' && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Separate members with commas. Duplicate members are stored only once.
+                  </p>
+                )}
               </div>
 
               <div>
@@ -0,0 +1,62 @@
+import React, { useCallback, useState } from 'react';
+import { TrendingDown } from 'lucide-react';
+import KeyspaceEventsNotice from '../Layout/KeyspaceEventsNotice';
+import { useKeyspaceEvents, KeyspaceEvent } from '../../hooks/useKeyspaceEvents';
+
+const EVICTION_FLAGS = 'Ee';
+const MAX_SHOWN = 20;
+
+// Keys the cluster itself evicted, pushed by keyevent notifications
+const ClusterEvictions: React.FC = () => {
+  const [evictions, setEvictions] = useState<KeyspaceEvent[]>([]);
+  const [total, setTotal] = useState(0);
+
+  const handleEviction = useCallback((event: KeyspaceEvent) => {
+    setEvictions(prev => [event, ...prev].slice(0, MAX_SHOWN));
+    setTotal(prev => prev + 1);
+  }, []);
+  const keyspaceEvents = useKeyspaceEvents(['evicted'], EVICTION_FLAGS, handleEviction);
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+          <TrendingDown className="text-red-500" size={20} />
+          Live Evictions from the Cluster
+        </h2>
+        <div className="text-sm text-gray-600 dark:text-gray-400">
+          {total} since this page opened
+        </div>
+      </div>
+
+      <KeyspaceEventsNotice
+        flags={keyspaceEvents.flags}
+        enabled={keyspaceEvents.enabled}
+        requiredFlags={EVICTION_FLAGS}
+        onEnable={keyspaceEvents.enable}
+      />
+
+      {evictions.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          No keys evicted yet. Evictions happen when a node goes over its memory limit.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {evictions.map((eviction, index) => (
+            <div
+              key={`${eviction.key}-${eviction.timestamp.getTime()}-${index}`}
+              className="flex items-center justify-between p-2 bg-red-50 dark:bg-red-900/20 rounded-lg"
+            >
+              <span className="font-mono text-sm text-gray-900 dark:text-gray-100">{eviction.key}</span>
+              <span className="text-xs text-gray-600 dark:text-gray-400">
+                {eviction.timestamp.toLocaleTimeString()}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClusterEvictions;
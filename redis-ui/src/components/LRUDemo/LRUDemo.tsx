@@ -1,22 +1,81 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { useAppStore } from '../../store';
-import { LRUStats } from '../../types';
-import { Layers, Plus, Eye, Trash2, RotateCcw, TrendingDown, TrendingUp } from 'lucide-react';
+import { LRUEntry } from '../../types';
+import { apiService } from '../../services/api';
+import { Layers, Plus, Eye, Trash2, RotateCcw, TrendingDown, TrendingUp, RefreshCw } from 'lucide-react';
+import ClusterEvictions from './ClusterEvictions';
+import NodeEvictionStats from './NodeEvictionStats';
 
+const REFRESH_MS = 5000;
+
+// Sample keys and how many times each is read after it is written, so their
+// LFU counters start out apart
+const SAMPLE_ITEMS = [
+  { key: 'user:1001', value: 'John Doe', reads: 20 },
+  { key: 'user:1002', value: 'Jane Smith', reads: 8 },
+  { key: 'product:501', value: 'Laptop', reads: 3 },
+  { key: 'session:abc123', value: 'Active Session', reads: 1 },
+  { key: 'config:theme', value: 'dark', reads: 0 },
+];
+
+type Order = 'lru' | 'lfu';
+
+// most recently / most frequently used first, so the keys a policy would
+// evict next are at the bottom
+const sortEntries = (entries: LRUEntry[], order: Order) => [...entries].sort((a, b) => (
+  order === 'lfu' ? b.freq - a.freq || b.lastAccess - a.lastAccess : b.lastAccess - a.lastAccess
+));
+
+const formatIdle = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+// Keys as the cluster tracks them for eviction: the last access (LRU) and
+// the logarithmic access counter (LFU) of every key, read from the engine.
+// Accessing a key sends a real GET; hits and misses are counted here.
 const LRUDemo: React.FC = () => {
   const { lruStats, setLRUStats, addNotification } = useAppStore();
   const [newKey, setNewKey] = useState('');
   const [newValue, setNewValue] = useState('');
-  const [maxCapacity, setMaxCapacity] = useState(lruStats.maxSize);
+  const [order, setOrder] = useState<Order>('lru');
+  const [loading, setLoading] = useState(false);
 
-  useEffect(() => {
+  const fetchEntries = useCallback(async () => {
+    const [accessResponse, evictionResponse] = await Promise.all([
+      apiService.getAccessList(),
+      apiService.getEvictionStatus(),
+    ]);
+    const current = useAppStore.getState().lruStats;
     setLRUStats({
-      ...lruStats,
-      maxSize: maxCapacity,
+      ...current,
+      entries: accessResponse.success && accessResponse.data
+        ? accessResponse.data.flatMap(({ node, entries }) => entries.map(entry => ({ ...entry, node })))
+        : current.entries,
+      evictionCount: evictionResponse.success && evictionResponse.data
+        ? evictionResponse.data.reduce((sum, status) => sum + status.evictedKeys, 0)
+        : current.evictionCount,
     });
-  }, [maxCapacity]);
+  }, [setLRUStats]);
 
-  const handleAddItem = () => {
+  useEffect(() => {
+    fetchEntries();
+    const interval = setInterval(fetchEntries, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchEntries]);
+
+  const entries = sortEntries(lruStats.entries, order);
+  const totalBytes = lruStats.entries.reduce((sum, entry) => sum + entry.bytes, 0);
+
+  const recordLookup = (hit: boolean) => {
+    const current = useAppStore.getState().lruStats;
+    const hitCount = current.hitCount + (hit ? 1 : 0);
+    const missCount = current.missCount + (hit ? 0 : 1);
+    setLRUStats({ ...current, hitCount, missCount, hitRate: (hitCount / (hitCount + missCount)) * 100 });
+  };
+
+  const handleAddItem = async () => {
     if (!newKey.trim()) {
       addNotification({
         type: 'error',
@@ -26,190 +85,67 @@ const LRUDemo: React.FC = () => {
       return;
     }
 
-    const newEntry = {
-      key: newKey,
-      value: newValue || 'Sample value',
-      accessCount: 1,
-      lastAccessed: new Date(),
-      position: 0, // Will be at the front
-      isEvicted: false,
-    };
-
-    let updatedEntries = [...lruStats.entries];
-    let newHitCount = lruStats.hitCount;
-    let newMissCount = lruStats.missCount;
-    let newEvictionCount = lruStats.evictionCount;
-    let currentSize = lruStats.currentSize;
-    
-    // Check if key already exists
-    const existingIndex = updatedEntries.findIndex(entry => entry.key === newKey);
-    if (existingIndex !== -1) {
-      // Move to front and update
-      const existingEntry = updatedEntries[existingIndex];
-      updatedEntries.splice(existingIndex, 1);
-      updatedEntries.unshift({
-        ...existingEntry,
-        value: newValue || existingEntry.value,
-        accessCount: existingEntry.accessCount + 1,
-        lastAccessed: new Date(),
-        position: 0,
-      });
-      
-      newHitCount = lruStats.hitCount + 1;
-      
-      addNotification({
-        type: 'info',
-        title: 'Key Updated',
-        message: `Key "${newKey}" moved to front of cache`,
-      });
-    } else {
-      // Add new entry
-      updatedEntries.unshift(newEntry);
-      newMissCount = lruStats.missCount + 1;
-      
-      // Check if we exceed capacity
-      if (updatedEntries.length > maxCapacity) {
-        const evicted = updatedEntries.slice(maxCapacity);
-        updatedEntries = updatedEntries.slice(0, maxCapacity);
-        newEvictionCount = lruStats.evictionCount + evicted.length;
-        currentSize = maxCapacity;
-        
-        evicted.forEach(entry => {
-          addNotification({
-            type: 'warning',
-            title: 'Item Evicted',
-            message: `Key "${entry.key}" was evicted from cache (LRU)`,
-          });
-        });
-      } else {
-        currentSize = updatedEntries.length;
-      }
-      
+    const response = await apiService.setKey(newKey, newValue || 'Sample value');
+    if (response.success) {
       addNotification({
         type: 'success',
         title: 'Item Added',
-        message: `Key "${newKey}" added to cache`,
-      });
-    }
-
-    // Update positions for all entries
-    updatedEntries = updatedEntries.map((entry, index) => ({
-      ...entry,
-      position: index,
-    }));
-
-    // Calculate hit rate
-    const newHitRate = newHitCount + newMissCount > 0 ? (newHitCount / (newHitCount + newMissCount)) * 100 : 0;
-    
-    // Single state update with all changes
-    setLRUStats({
-      ...lruStats,
-      currentSize,
-      hitCount: newHitCount,
-      missCount: newMissCount,
-      evictionCount: newEvictionCount,
-      hitRate: newHitRate,
-      entries: updatedEntries,
-    });
-
-    setNewKey('');
-    setNewValue('');
-  };
-
-  const handleAccessItem = (key: string) => {
-    const updatedEntries = [...lruStats.entries];
-    const index = updatedEntries.findIndex(entry => entry.key === key);
-    
-    if (index !== -1) {
-      const item = updatedEntries[index];
-      updatedEntries.splice(index, 1);
-      updatedEntries.unshift({
-        ...item,
-        accessCount: item.accessCount + 1,
-        lastAccessed: new Date(),
-        position: 0,
+        message: `Key "${newKey}" written to the cluster`,
       });
-      
-      const newHitCount = lruStats.hitCount + 1;
-      const newHitRate = (newHitCount / (newHitCount + lruStats.missCount)) * 100;
-      
-      setLRUStats({
-        ...lruStats,
-        hitCount: newHitCount,
-        hitRate: newHitRate,
-        entries: updatedEntries.map((entry, index) => ({
-          ...entry,
-          position: index,
-        })),
-      });
-      
+      setNewKey('');
+      setNewValue('');
+    } else {
+      // an OOM under noeviction ends up here
       addNotification({
-        type: 'info',
-        title: 'Cache Hit',
-        message: `Key "${key}" accessed, moved to front`,
+        type: 'error',
+        title: 'Write Refused',
+        message: response.error || `Failed to set "${newKey}"`,
       });
     }
+    fetchEntries();
   };
 
-  const handleDeleteItem = (key: string) => {
-    const updatedEntries = lruStats.entries.filter(entry => entry.key !== key);
-    setLRUStats({
-      ...lruStats,
-      currentSize: updatedEntries.length,
-      entries: updatedEntries.map((entry, index) => ({
-        ...entry,
-        position: index,
-      })),
-    });
-    
+  const handleAccessItem = async (key: string) => {
+    const response = await apiService.getKey(key);
+    const hit = response.success && response.data?.type !== 'none';
+    recordLookup(hit);
     addNotification({
-      type: 'info',
-      title: 'Item Deleted',
-      message: `Key "${key}" manually removed from cache`,
+      type: hit ? 'info' : 'warning',
+      title: hit ? 'Cache Hit' : 'Cache Miss',
+      message: hit ? `Key "${key}" read, its idle time restarts` : `Key "${key}" is gone (expired or evicted)`,
     });
+    fetchEntries();
   };
 
-  const handleClearCache = () => {
-    setLRUStats({
-      ...lruStats,
-      currentSize: 0,
-      entries: [],
-    });
-    
+  const handleDeleteItem = async (key: string) => {
+    await apiService.deleteKey(key);
     addNotification({
       type: 'info',
-      title: 'Cache Cleared',
-      message: 'All items removed from LRU cache',
+      title: 'Item Deleted',
+      message: `Key "${key}" deleted from the cluster`,
     });
+    fetchEntries();
   };
 
-  const addSampleData = () => {
-    const sampleItems = [
-      { key: 'user:1001', value: 'John Doe' },
-      { key: 'user:1002', value: 'Jane Smith' },
-      { key: 'product:501', value: 'Laptop' },
-      { key: 'session:abc123', value: 'Active Session' },
-      { key: 'config:theme', value: 'dark' },
-    ];
-    
-    const newEntries = sampleItems.map((item, index) => ({
-      ...item,
-      accessCount: Math.floor(Math.random() * 10) + 1,
-      lastAccessed: new Date(Date.now() - Math.random() * 86400000), // Random time in last 24h
-      position: index,
-      isEvicted: false,
-    }));
-    
-    setLRUStats({
-      ...lruStats,
-      currentSize: Math.min(newEntries.length, maxCapacity),
-      entries: newEntries.slice(0, maxCapacity),
-    });
-    
+  const handleResetCounters = () => {
+    setLRUStats({ ...lruStats, hitCount: 0, missCount: 0, hitRate: 0 });
+  };
+
+  const addSampleData = async () => {
+    setLoading(true);
+    for (const item of SAMPLE_ITEMS) {
+      await apiService.setKey(item.key, item.value);
+      for (let i = 0; i < item.reads; i++) {
+        await apiService.getKey(item.key);
+      }
+    }
+    setLoading(false);
+    fetchEntries();
+
     addNotification({
       type: 'success',
       title: 'Sample Data Added',
-      message: `Added ${Math.min(newEntries.length, maxCapacity)} sample items to cache`,
+      message: `Wrote ${SAMPLE_ITEMS.length} keys and read them a different number of times`,
     });
   };
 
@@ -220,15 +156,15 @@ const LRUDemo: React.FC = () => {
         <div>
           <h1 className="text-3xl font-bold text-gray-900 dark:text-white flex items-center gap-3">
             <Layers className="text-purple-500" size={32} />
-            LRU Cache Demo
+            LRU / LFU Demo
           </h1>
           <p className="text-gray-600 dark:text-gray-400 mt-1">
-            Interactive demonstration of Least Recently Used (LRU) cache eviction policy
+            Last access time and access frequency of every key, as the cluster tracks them for eviction
           </p>
         </div>
         <div className="flex items-center space-x-3">
           <div className="text-sm text-gray-600 dark:text-gray-400">
-            Cache: {lruStats.currentSize}/{lruStats.maxSize}
+            Keys: {lruStats.entries.length}
           </div>
           <div className="text-sm text-gray-600 dark:text-gray-400">
             Hit Rate: {lruStats.hitRate.toFixed(1)}%
@@ -241,10 +177,11 @@ const LRUDemo: React.FC = () => {
         <div className="card">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600 dark:text-gray-400">Cache Size</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">Keys</p>
               <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                {lruStats.currentSize}/{lruStats.maxSize}
+                {lruStats.entries.length}
               </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">{totalBytes} bytes</p>
             </div>
             <div className="p-3 bg-purple-100 dark:bg-purple-900/20 rounded-lg">
               <Layers className="text-purple-600 dark:text-purple-400" size={24} />
@@ -298,7 +235,7 @@ const LRUDemo: React.FC = () => {
       {/* Controls */}
       <div className="card">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
-          LRU Cache Controls
+          Cache Controls
         </h2>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
           <div>
@@ -327,16 +264,16 @@ const LRUDemo: React.FC = () => {
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-              Max Capacity
+              Order By
             </label>
-            <input
-              type="number"
-              value={maxCapacity}
-              onChange={(e) => setMaxCapacity(Number(e.target.value))}
-              min={1}
-              max={20}
+            <select
+              value={order}
+              onChange={(e) => setOrder(e.target.value as Order)}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
-            />
+            >
+              <option value="lru">Last access (LRU)</option>
+              <option value="lfu">Access frequency (LFU)</option>
+            </select>
           </div>
           <div className="flex items-end">
             <button onClick={handleAddItem} className="btn-primary w-full flex items-center justify-center gap-2">
@@ -346,30 +283,34 @@ const LRUDemo: React.FC = () => {
           </div>
         </div>
         <div className="flex gap-3">
-          <button onClick={addSampleData} className="btn-secondary flex items-center gap-2">
+          <button onClick={addSampleData} disabled={loading} className="btn-secondary flex items-center gap-2">
             <Layers className="w-4 h-4" />
-            Add Samples
+            {loading ? 'Adding...' : 'Add Samples'}
           </button>
-          <button onClick={handleClearCache} className="btn-secondary flex items-center gap-2 text-red-600">
-            <Trash2 className="w-4 h-4" />
-            Clear Cache
+          <button onClick={handleResetCounters} className="btn-secondary flex items-center gap-2">
+            <RotateCcw className="w-4 h-4" />
+            Reset Hit Counters
+          </button>
+          <button onClick={fetchEntries} className="btn-secondary flex items-center gap-2">
+            <RefreshCw className="w-4 h-4" />
+            Refresh
           </button>
         </div>
       </div>
 
-      {/* LRU Visualizer */}
+      {/* LRU / LFU Visualizer */}
       <div className="card">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 mb-4">
           Cache Visualization
         </h2>
-        <div className="space-y-2">
-          {lruStats.entries.map((entry, index) => (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {entries.map((entry, index) => (
             <div
-              key={entry.key}
+              key={`${entry.node}-${entry.key}`}
               className={`flex items-center justify-between p-3 rounded-lg border-2 transition-all ${
-                index === 0 
-                  ? 'border-green-500 bg-green-50 dark:bg-green-900/20' 
-                  : index < 3 
+                index === 0
+                  ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                  : index < entries.length - 3
                   ? 'border-yellow-500 bg-yellow-50 dark:bg-yellow-900/20'
                   : 'border-red-500 bg-red-50 dark:bg-red-900/20'
               }`}
@@ -383,7 +324,10 @@ const LRUDemo: React.FC = () => {
                     {entry.key}
                   </div>
                   <div className="text-sm text-gray-600 dark:text-gray-400">
-                    {entry.value} • {entry.accessCount} accesses
+                    {entry.node} • {entry.type} ({entry.encoding}) • {entry.bytes} bytes
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    idle {formatIdle(entry.idleSeconds)} • LFU counter {entry.freq}
                   </div>
                 </div>
               </div>
@@ -391,7 +335,7 @@ const LRUDemo: React.FC = () => {
                 <button
                   onClick={() => handleAccessItem(entry.key)}
                   className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
-                  title="Access (move to front)"
+                  title="Access (GET)"
                 >
                   <Eye className="w-4 h-4" />
                 </button>
@@ -408,6 +352,10 @@ const LRUDemo: React.FC = () => {
         </div>
       </div>
 
+      <NodeEvictionStats />
+
+      <ClusterEvictions />
+
       {/* Performance Insights */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <div className="card">
@@ -415,11 +363,11 @@ const LRUDemo: React.FC = () => {
             Access Patterns
           </h3>
           <div className="space-y-3">
-            {lruStats.entries.slice(0, 5).map((entry, index) => (
-              <div key={entry.key} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
+            {sortEntries(lruStats.entries, 'lfu').slice(0, 5).map((entry, index) => (
+              <div key={`${entry.node}-${entry.key}`} className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-700 rounded-lg">
                 <div className="flex items-center space-x-3">
                   <div className={`w-2 h-2 rounded-full ${
-                    index === 0 ? 'bg-green-500' : 
+                    index === 0 ? 'bg-green-500' :
                     index < 3 ? 'bg-yellow-500' : 'bg-red-500'
                   }`}></div>
                   <div>
@@ -427,12 +375,12 @@ const LRUDemo: React.FC = () => {
                       {entry.key}
                     </div>
                     <div className="text-sm text-gray-600 dark:text-gray-400">
-                      {entry.accessCount} accesses
+                      LFU counter {entry.freq}
                     </div>
                   </div>
                 </div>
                 <div className="text-sm text-gray-500 dark:text-gray-400">
-                  Position {entry.position + 1}
+                  Idle {formatIdle(entry.idleSeconds)}
                 </div>
               </div>
             ))}
@@ -448,7 +396,7 @@ const LRUDemo: React.FC = () => {
               <span className="text-gray-600 dark:text-gray-400">Hit Rate</span>
               <div className="flex items-center space-x-2">
                 <div className="w-24 h-2 bg-gray-200 dark:bg-gray-700 rounded-full">
-                  <div 
+                  <div
                     className="h-full bg-green-500 rounded-full transition-all duration-300"
                     style={{ width: `${lruStats.hitRate}%` }}
                   />
@@ -456,7 +404,7 @@ const LRUDemo: React.FC = () => {
                 <span className="text-sm font-medium">{lruStats.hitRate.toFixed(1)}%</span>
               </div>
             </div>
-            
+
             <div className="grid grid-cols-2 gap-4">
               <div className="text-center p-3 bg-green-50 dark:bg-green-900/20 rounded-lg">
                 <div className="text-2xl font-bold text-green-600 dark:text-green-400">
@@ -471,7 +419,7 @@ const LRUDemo: React.FC = () => {
                 <div className="text-sm text-red-700 dark:text-red-300">Misses</div>
               </div>
             </div>
-            
+
             <div className="text-center p-3 bg-orange-50 dark:bg-orange-900/20 rounded-lg">
               <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">
                 {lruStats.evictionCount}
@@ -487,10 +435,10 @@ const LRUDemo: React.FC = () => {
         <div className="text-center py-12">
           <Layers className="mx-auto text-gray-400 dark:text-gray-600 mb-4" size={64} />
           <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
-            LRU Cache is Empty
+            The Cluster is Empty
           </h3>
           <p className="text-gray-600 dark:text-gray-400 mb-4">
-            Add some items to see how LRU eviction works
+            Add some keys to see how their access data drives eviction
           </p>
           <button
             onClick={addSampleData}
@@ -504,4 +452,4 @@ const LRUDemo: React.FC = () => {
   );
 };
 
-export default LRUDemo; 
\ No newline at end of file
+export default LRUDemo;
@@ -0,0 +1,103 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Server, RefreshCw } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { NodeEvictionStatus } from '../../types';
+
+const REFRESH_MS = 5000;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// Each node's maxmemory-policy and what it has done about it: keys evicted
+// to make room, and writes refused with OOM (noeviction, or a volatile-*
+// policy with no TTL keys left). The policy and limit are changed in Settings.
+const NodeEvictionStats: React.FC = () => {
+  const [nodes, setNodes] = useState<NodeEvictionStatus[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    const response = await apiService.getEvictionStatus();
+    if (response.success && response.data) {
+      setNodes(response.data);
+      setError(null);
+    } else {
+      setError(response.error || 'Failed to get eviction status');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+    const interval = setInterval(fetchStatus, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [fetchStatus]);
+
+  return (
+    <div className="card space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 dark:text-gray-100 flex items-center gap-2">
+          <Server className="text-blue-500" size={20} />
+          Eviction per Node
+        </h2>
+        <button onClick={fetchStatus} className="btn-secondary flex items-center gap-2">
+          <RefreshCw size={16} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {nodes.map(node => {
+          const fill = node.maxMemory > 0 ? Math.min(100, (node.usedMemory / node.maxMemory) * 100) : 0;
+          return (
+            <div key={node.node} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+              <div className="flex justify-between items-center">
+                <span className="font-medium text-gray-900 dark:text-white">{node.node}</span>
+                <span className="font-mono text-xs px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded">
+                  {node.policy}
+                </span>
+              </div>
+
+              <div>
+                <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400 mb-1">
+                  <span>
+                    {formatBytes(node.usedMemory)} / {node.maxMemory > 0 ? formatBytes(node.maxMemory) : 'no limit'}
+                  </span>
+                  <span>{node.keys} keys, {node.volatileKeys} with TTL</span>
+                </div>
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full ${fill >= 100 ? 'bg-red-500' : 'bg-blue-500'}`}
+                    style={{ width: `${fill}%` }}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-center">
+                <div className="p-2 bg-orange-50 dark:bg-orange-900/20 rounded">
+                  <div className="text-lg font-bold text-orange-600 dark:text-orange-400">{node.evictedKeys}</div>
+                  <div className="text-xs text-orange-700 dark:text-orange-300">Evicted</div>
+                </div>
+                <div className="p-2 bg-red-50 dark:bg-red-900/20 rounded">
+                  <div className="text-lg font-bold text-red-600 dark:text-red-400">{node.rejectedWrites}</div>
+                  <div className="text-xs text-red-700 dark:text-red-300">OOM rejections</div>
+                </div>
+              </div>
+
+              {node.lastEvictedKey && node.lastEvictedAt && (
+                <p className="text-xs text-gray-600 dark:text-gray-400">
+                  Last evicted <span className="font-mono">{node.lastEvictedKey}</span> at{' '}
+                  {new Date(node.lastEvictedAt).toLocaleTimeString()}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NodeEvictionStats;
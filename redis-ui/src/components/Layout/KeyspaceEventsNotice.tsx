@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { Radio, BellOff } from 'lucide-react';
+
+interface KeyspaceEventsNoticeProps {
+  flags: string | null;
+  enabled: boolean;
+  requiredFlags: string;
+  onEnable: () => Promise<{ success: boolean; error?: string }>;
+}
+
+// Shows whether the page gets live keyspace notifications, with a button
+// to turn on the notify-keyspace-events flags it needs
+const KeyspaceEventsNotice: React.FC<KeyspaceEventsNoticeProps> = ({ flags, enabled, requiredFlags, onEnable }) => {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (flags === null) return null;
+
+  if (enabled) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-300">
+        <Radio size={16} />
+        Live via keyspace notifications (notify-keyspace-events "{flags}")
+      </div>
+    );
+  }
+
+  const handleEnable = async () => {
+    setBusy(true);
+    try {
+      const response = await onEnable();
+      setError(response.success ? null : response.error || 'Failed to enable keyspace notifications');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg flex flex-wrap items-center gap-3 text-sm text-yellow-800 dark:text-yellow-200">
+      <BellOff size={16} />
+      <span>
+        Keyspace notifications are off for this page (notify-keyspace-events "{flags}"), so changes are not pushed live.
+      </span>
+      <button
+        onClick={handleEnable}
+        disabled={busy}
+        className="px-3 py-1 bg-yellow-500 text-white rounded hover:bg-yellow-600 disabled:opacity-50"
+      >
+        Enable "{requiredFlags}"
+      </button>
+      {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default KeyspaceEventsNotice;
@@ -13,7 +13,8 @@ import {
   Database,
   Cpu,
   MessageSquare,
-  Server
+  Server,
+  ListOrdered
 } from 'lucide-react';
 
 const Sidebar: React.FC = () => {
@@ -28,6 +29,7 @@ const Sidebar: React.FC = () => {
     { id: 'ttl', label: 'TTL Playground', icon: Timer, path: '/ttl' },
     { id: 'lru', label: 'LRU Demo', icon: Layers, path: '/lru' },
     { id: 'pubsub', label: 'Pub/Sub Viewer', icon: Radio, path: '/pubsub' },
+    { id: 'streams', label: 'Stream Browser', icon: ListOrdered, path: '/streams' },
     { id: 'replication', label: 'Master-Slave Replication', icon: Server, path: '/replication' },
     { id: 'cli', label: 'CLI Console', icon: Terminal, path: '/cli' },
     { id: 'persistence', label: 'RDB Persistence', icon: Database, path: '/persistence' },
@@ -17,13 +17,35 @@ import {
   WifiOff
 } from 'lucide-react';
 import { apiService } from '../../services/api';
-import { ReplicationEvent, SlaveNode, MasterNode, ReplicationStatus, ReplicationKeyComparison } from '../../types';
+import { ReplicationEvent, MasterNode, ReplicationStatus, ReplicationKeyComparison, ReplicationConsistencyReport } from '../../types';
 import { useWebSocket } from '../../hooks/useWebSocket';
+import SentinelPanel from './SentinelPanel';
+import ReplicaReadPanel from './ReplicaReadPanel';
 
 interface ReplicationLog extends Omit<ReplicationEvent, 'timestamp'> {
   timestamp: string;
 }
 
+// Extra arguments (after the key) of the test commands that take any, as a placeholder
+const COMMAND_ARGUMENTS: Record<string, string> = {
+  expire: 'seconds',
+  rename: 'newkey',
+  lpush: 'value [value ...]',
+  rpush: 'value [value ...]',
+  hset: 'field value',
+  hdel: 'field',
+  hincrby: 'field increment',
+  sadd: 'member [member ...]',
+  srem: 'member [member ...]',
+  zadd: 'score member',
+  zrem: 'member [member ...]',
+  wait: 'numreplicas timeout'
+};
+
+// Values come back as DUMP encodings; sets and sorted sets are objects
+const formatValue = (value: any): string =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+
 const MasterSlaveReplication: React.FC = () => {
   // State management
   const [masterData, setMasterData] = useState<MasterNode | null>(null);
@@ -31,6 +53,8 @@ const MasterSlaveReplication: React.FC = () => {
   const [replicationLog, setReplicationLog] = useState<ReplicationLog[]>([]);
   const [replicationStatus, setReplicationStatus] = useState<ReplicationStatus | null>(null);
   const [keyComparisons, setKeyComparisons] = useState<ReplicationKeyComparison[]>([]);
+  const [consistency, setConsistency] = useState<ReplicationConsistencyReport | null>(null);
+  const [repairing, setRepairing] = useState(false);
   
   // UI State
   const [loading, setLoading] = useState(false);
@@ -43,6 +67,10 @@ const MasterSlaveReplication: React.FC = () => {
   const [testKey, setTestKey] = useState('test:key');
   const [testValue, setTestValue] = useState('hello world');
   const [testTTL, setTestTTL] = useState('');
+  const [testArgs, setTestArgs] = useState('');
+  const [waitReplicas, setWaitReplicas] = useState('');
+  const [waitTimeout, setWaitTimeout] = useState('1000');
+  const [commandResult, setCommandResult] = useState<string | null>(null);
   const [commandLoading, setCommandLoading] = useState(false);
 
   // Slave Management State
@@ -70,12 +98,13 @@ const MasterSlaveReplication: React.FC = () => {
   const fetchReplicationData = useCallback(async () => {
     try {
       setError(null);
-      const [statusRes, masterRes, slavesRes, logRes, processesRes] = await Promise.all([
+      const [statusRes, masterRes, slavesRes, logRes, processesRes, consistencyRes] = await Promise.all([
         apiService.getReplicationStatus(),
         apiService.getMasterKeys(),
         apiService.getSlaves(),
         apiService.getReplicationLog(50),
-        apiService.getSlaveProcesses()
+        apiService.getSlaveProcesses(),
+        apiService.checkReplicationConsistency()
       ]);
 
       if (statusRes.success) setReplicationStatus(statusRes.data);
@@ -142,9 +171,10 @@ const MasterSlaveReplication: React.FC = () => {
         })));
       }
 
-      // Generate key comparisons
-      if (masterRes.success && slavesRes.success) {
-        generateKeyComparisons(masterRes.data, slavesRes.data);
+      // Key comparisons come from the slaves themselves (digests over their read ports)
+      if (consistencyRes.success && consistencyRes.data) {
+        setConsistency(consistencyRes.data);
+        setKeyComparisons(consistencyRes.data.comparisons);
       }
     } catch (err) {
       setError('Failed to fetch replication data');
@@ -152,57 +182,19 @@ const MasterSlaveReplication: React.FC = () => {
     }
   }, []);
 
-  // Generate key comparison data
-  const generateKeyComparisons = (master: MasterNode, slaveNodes: SlaveNode[]) => {
-    const allKeys = new Set([
-      ...Object.keys(master.keys || {}),
-      ...slaveNodes.flatMap(slave => Object.keys(slave.keys || {}))
-    ]);
-
-    const comparisons: ReplicationKeyComparison[] = Array.from(allKeys).map(key => {
-      const masterEntry = master.keys?.[key];
-      const masterExists = !!masterEntry;
-      
-      const slaveEntries: Record<string, { exists: boolean; value?: any; synced: boolean }> = {};
-      let syncedCount = 0;
-      
-      slaveNodes.forEach(slave => {
-        const slaveValue = slave.keys?.[key];
-        const exists = slaveValue !== undefined;
-        const synced = exists && masterExists && slaveValue === masterEntry?.value;
-        
-        slaveEntries[slave.id] = {
-          exists,
-          value: slaveValue,
-          synced: synced
-        };
-        
-        // Only count slaves as synced if they actually have the key with the correct value
-        if (synced) syncedCount++;
-      });
-
-      let status: 'synced' | 'partial' | 'out_of_sync';
-      if (syncedCount === slaveNodes.length) {
-        status = 'synced';
-      } else if (syncedCount > 0) {
-        status = 'partial';
+  // Resend keys that are not synced on every slave
+  const handleRepair = async () => {
+    setRepairing(true);
+    try {
+      const response = await apiService.repairReplication();
+      if (response.success) {
+        setTimeout(fetchReplicationData, 500);
       } else {
-        status = 'out_of_sync';
+        setError(response.error || 'Failed to repair replication');
       }
-
-      return {
-        key,
-        master: {
-          exists: masterExists,
-          value: masterEntry?.value,
-          ttl: masterEntry?.ttl
-        },
-        slaves: slaveEntries,
-        status
-      };
-    });
-
-    setKeyComparisons(comparisons);
+    } finally {
+      setRepairing(false);
+    }
   };
 
   // Start master server
@@ -232,6 +224,7 @@ const MasterSlaveReplication: React.FC = () => {
         setSlaves([]);
         setReplicationStatus(null);
         setKeyComparisons([]);
+        setConsistency(null);
       } else {
         setError(response.error || 'Failed to stop master server');
       }
@@ -244,18 +237,32 @@ const MasterSlaveReplication: React.FC = () => {
 
   // Execute test command
   const handleExecuteCommand = async () => {
-    if (!testKey.trim()) return;
+    const keyless = testCommand === 'wait';
+    if (!keyless && !testKey.trim()) return;
     
     setCommandLoading(true);
+    setCommandResult(null);
     try {
-      const args = [testKey];
+      const args = keyless ? [] : [testKey];
       if (testCommand === 'set') {
         args.push(testValue);
         if (testTTL) args.push(testTTL);
+      } else if (COMMAND_ARGUMENTS[testCommand]) {
+        args.push(...testArgs.trim().split(/\s+/).filter(Boolean));
       }
 
-      const response = await apiService.executeReplicationCommand(testCommand, args);
+      // writes can block until enough slaves acknowledged them
+      const wait = waitReplicas && !keyless && testCommand !== 'get'
+        ? { numreplicas: Number(waitReplicas), timeout: Number(waitTimeout) || 0 }
+        : undefined;
+      const response = await apiService.executeReplicationCommand(testCommand, args, wait);
       if (response.success) {
+        const { result, replicasAcked } = response.data;
+        setCommandResult(
+          testCommand === 'wait'
+            ? `Acknowledged by ${result} replica(s)`
+            : `${JSON.stringify(result)}${replicasAcked !== undefined ? ` · acknowledged by ${replicasAcked}/${wait?.numreplicas} replica(s)` : ''}`
+        );
         // Refresh data after command execution
         setTimeout(fetchReplicationData, 500);
       } else {
@@ -646,6 +653,15 @@ This action cannot be undone.`,
               <span>Port: {replicationStatus.masterPort}</span>
               <span>Connected Slaves: {replicationStatus.connectedSlaves}</span>
               <span>Total Events: {replicationStatus.totalReplicationEvents}</span>
+              {replicationStatus.replication?.replId && (
+                <>
+                  <span className="font-mono" title={replicationStatus.replication.replId}>
+                    Repl ID: {replicationStatus.replication.replId.slice(0, 8)}…
+                  </span>
+                  <span>Offset: {replicationStatus.replication.offset.toLocaleString()}</span>
+                  <span>Backlog: {replicationStatus.replication.histlen.toLocaleString()} bytes</span>
+                </>
+              )}
             </div>
           )}
         </div>
@@ -758,6 +774,30 @@ This action cannot be undone.`,
                             Keys: {typeof slave.keys === 'object' ? Object.keys(slave.keys).length : slave.keys}
                           </span>
                         )}
+                        {slave.syncMode && (
+                          <span
+                            className="bg-purple-100 text-purple-700 px-2 py-1 rounded"
+                            title={slave.syncMode === 'partial' ? 'Resumed from the replication backlog' : 'Received the whole dataset'}
+                          >
+                            {slave.syncMode === 'partial' ? 'Partial resync' : 'Full resync'}
+                          </span>
+                        )}
+                        {slave.status === 'connected' && slave.hasConnection && (
+                          <span
+                            className={`px-2 py-1 rounded ${
+                              slave.ackOffset === null ? 'bg-gray-100 text-gray-700' :
+                              slave.commandLag === 0 ? 'bg-green-100 text-green-700' :
+                              'bg-orange-100 text-orange-700'
+                            }`}
+                            title={slave.lastAckAt ? `Acknowledged offset ${slave.ackOffset} at ${new Date(slave.lastAckAt).toLocaleTimeString()}` : 'No ACK received yet'}
+                          >
+                            {slave.ackOffset === null
+                              ? 'Awaiting ACK'
+                              : slave.commandLag === 0
+                                ? 'In sync'
+                                : `Lag: ${slave.commandLag} cmd / ${slave.byteLag} B`}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-2">
@@ -954,6 +994,12 @@ This action cannot be undone.`,
                 )}
               </div>
             </div>
+
+            {/* Sentinel */}
+            <SentinelPanel
+              masterRunning={Boolean(replicationStatus?.masterRunning)}
+              onTopologyChange={fetchReplicationData}
+            />
           </div>
         )}
 
@@ -961,8 +1007,24 @@ This action cannot be undone.`,
         {activeTab === 'keys' && (
           <div className="space-y-4">
             <div className="flex items-center justify-between">
-              <h3 className="font-semibold text-gray-900 dark:text-white">Real-time Key Synchronization</h3>
+              <div>
+                <h3 className="font-semibold text-gray-900 dark:text-white">Real-time Key Synchronization</h3>
+                {consistency && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Compared with digests from the slaves at {new Date(consistency.checkedAt).toLocaleTimeString()} (master offset {consistency.masterOffset})
+                  </p>
+                )}
+              </div>
               <div className="flex items-center gap-2 text-sm text-gray-500">
+                <button
+                  onClick={handleRepair}
+                  disabled={repairing || !consistency || consistency.summary.synced === consistency.comparisons.length}
+                  className="px-3 py-1 bg-orange-500 text-white rounded-lg hover:bg-orange-600 disabled:opacity-50 transition-colors flex items-center gap-1 mr-2"
+                  title="Resend every key that is not synced to the slaves"
+                >
+                  <RefreshCw className={`w-3 h-3 ${repairing ? 'animate-spin' : ''}`} />
+                  Repair
+                </button>
                 <div className="flex items-center gap-1">
                   <div className="w-3 h-3 bg-green-500 rounded"></div>
                   Synced
@@ -978,6 +1040,13 @@ This action cannot be undone.`,
               </div>
             </div>
 
+            {consistency && consistency.slaves.some(slave => !slave.reachable) && (
+              <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg text-sm text-yellow-800 dark:text-yellow-200">
+                Not compared (read port unreachable):{' '}
+                {consistency.slaves.filter(slave => !slave.reachable).map(slave => `${slave.id} (${slave.error})`).join(', ')}
+              </div>
+            )}
+
             {keyComparisons.length > 0 ? (
               <div className="overflow-x-auto">
                 <table className="w-full">
@@ -1001,8 +1070,8 @@ This action cannot be undone.`,
                           {comparison.master.exists ? (
                             <div className="flex items-center gap-1">
                               <CheckCircle className="w-4 h-4 text-green-500" />
-                              <span className="text-sm truncate max-w-20" title={String(comparison.master.value)}>
-                                {String(comparison.master.value)}
+                              <span className="text-sm truncate max-w-20" title={formatValue(comparison.master.value)}>
+                                {formatValue(comparison.master.value)}
                               </span>
                             </div>
                           ) : (
@@ -1020,8 +1089,8 @@ This action cannot be undone.`,
                                   ) : (
                                     <AlertTriangle className="w-4 h-4 text-yellow-500" />
                                   )}
-                                  <span className="text-sm truncate max-w-20" title={String(slaveData.value)}>
-                                    {String(slaveData.value)}
+                                  <span className="text-sm truncate max-w-20" title={formatValue(slaveData.value)}>
+                                    {formatValue(slaveData.value)}
                                   </span>
                                 </div>
                               ) : (
@@ -1115,21 +1184,55 @@ This action cannot be undone.`,
                       <option value="get">GET</option>
                       <option value="delete">DELETE</option>
                       <option value="flushall">FLUSHALL</option>
+                      <option value="incr">INCR</option>
+                      <option value="decr">DECR</option>
+                      <option value="expire">EXPIRE</option>
+                      <option value="rename">RENAME</option>
+                      <option value="lpush">LPUSH</option>
+                      <option value="rpush">RPUSH</option>
+                      <option value="lpop">LPOP</option>
+                      <option value="rpop">RPOP</option>
+                      <option value="hset">HSET</option>
+                      <option value="hdel">HDEL</option>
+                      <option value="hincrby">HINCRBY</option>
+                      <option value="sadd">SADD</option>
+                      <option value="srem">SREM</option>
+                      <option value="spop">SPOP</option>
+                      <option value="zadd">ZADD</option>
+                      <option value="zrem">ZREM</option>
+                      <option value="wait">WAIT</option>
                     </select>
                   </div>
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      Key
-                    </label>
-                    <input
-                      type="text"
-                      value={testKey}
-                      onChange={(e) => setTestKey(e.target.value)}
-                      placeholder="Enter key name"
-                      className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                    />
-                  </div>
+                  {testCommand !== 'wait' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Key
+                      </label>
+                      <input
+                        type="text"
+                        value={testKey}
+                        onChange={(e) => setTestKey(e.target.value)}
+                        placeholder="Enter key name"
+                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                    </div>
+                  )}
+
+                  {COMMAND_ARGUMENTS[testCommand] && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                        Arguments
+                      </label>
+                      <input
+                        type="text"
+                        value={testArgs}
+                        onChange={(e) => setTestArgs(e.target.value)}
+                        placeholder={COMMAND_ARGUMENTS[testCommand]}
+                        className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono"
+                      />
+                    </div>
+                  )}
 
                   {testCommand === 'set' && (
                     <>
@@ -1161,9 +1264,40 @@ This action cannot be undone.`,
                     </>
                   )}
 
+                  {testCommand !== 'wait' && testCommand !== 'get' && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Wait for replicas (optional)
+                        </label>
+                        <input
+                          type="number"
+                          min={0}
+                          value={waitReplicas}
+                          onChange={(e) => setWaitReplicas(e.target.value)}
+                          placeholder="Don't wait"
+                          className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Wait timeout (ms, 0 = forever)
+                        </label>
+                        <input
+                          type="number"
+                          min={0}
+                          value={waitTimeout}
+                          onChange={(e) => setWaitTimeout(e.target.value)}
+                          disabled={!waitReplicas}
+                          className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white disabled:opacity-50"
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   <button
                     onClick={handleExecuteCommand}
-                    disabled={commandLoading || !replicationStatus?.masterRunning || !testKey.trim()}
+                    disabled={commandLoading || !replicationStatus?.masterRunning || (testCommand !== 'wait' && !testKey.trim())}
                     className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"
                   >
                     {commandLoading ? (
@@ -1173,6 +1307,12 @@ This action cannot be undone.`,
                     )}
                     Execute Command
                   </button>
+
+                  {commandResult && (
+                    <p className="text-sm font-mono text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-800 rounded-lg p-2">
+                      {commandResult}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -1213,6 +1353,10 @@ This action cannot be undone.`,
                 </div>
               </div>
             </div>
+
+            <ReplicaReadPanel
+              slaveIds={slaves.filter(slave => slave.hasProcess && slave.status === 'connected').map(slave => slave.id)}
+            />
           </div>
         )}
       </div>
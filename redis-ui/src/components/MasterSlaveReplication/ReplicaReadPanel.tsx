@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { BookOpen, RefreshCw } from 'lucide-react';
+import { apiService } from '../../services/api';
+
+interface ReplicaReadPanelProps {
+  slaveIds: string[];
+}
+
+interface ReplicaReply {
+  slaveId: string;
+  line: string;
+  reply: string;
+  isError: boolean;
+}
+
+const EXAMPLES = ['KEYS *', 'SCAN 0 COUNT 10', 'TTL user:1', 'LRANGE mylist 0 -1', 'HGETALL user:1', 'TYPE user:1', 'SET user:1 nope'];
+
+// quoted "words with spaces" stay one argument, like redis-cli
+const splitCommandLine = (line: string): string[] =>
+  (line.match(/"[^"]*"|\S+/g) || []).map((part) => part.replace(/^"(.*)"$/, '$1'));
+
+const ReplicaReadPanel: React.FC<ReplicaReadPanelProps> = ({ slaveIds }) => {
+  const [slaveId, setSlaveId] = useState('');
+  const [commandLine, setCommandLine] = useState('KEYS *');
+  const [history, setHistory] = useState<ReplicaReply[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const target = slaveIds.includes(slaveId) ? slaveId : slaveIds[0];
+
+  const handleRun = async () => {
+    const [command, ...args] = splitCommandLine(commandLine.trim());
+    if (!target || !command) return;
+
+    setLoading(true);
+    try {
+      const response = await apiService.executeSlaveCommand(target, command, args);
+      const reply = response.success ? response.data.reply : response.error || 'Request failed';
+      const isError = !response.success || /^(ERR|WRONGTYPE|READONLY) /.test(reply);
+      setHistory((prev) => [{ slaveId: target, line: commandLine.trim(), reply, isError }, ...prev].slice(0, 20));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3">
+      <h4 className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+        <BookOpen className="w-4 h-4" />
+        Read from a Replica
+      </h4>
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Slaves serve every read-only command on their read port; writes are refused with a READONLY error.
+      </p>
+
+      {slaveIds.length === 0 ? (
+        <p className="text-sm text-gray-500">Start a slave to send it reads.</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={target}
+              onChange={(e) => setSlaveId(e.target.value)}
+              className="p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+            >
+              {slaveIds.map((id) => (
+                <option key={id} value={id}>{id}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={commandLine}
+              onChange={(e) => setCommandLine(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRun()}
+              placeholder="LRANGE mylist 0 -1"
+              className="flex-1 min-w-48 p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono text-sm"
+            />
+            <button
+              onClick={handleRun}
+              disabled={loading || !commandLine.trim()}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors flex items-center gap-2"
+            >
+              {loading && <RefreshCw className="w-4 h-4 animate-spin" />}
+              Run
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-1">
+            {EXAMPLES.map((example) => (
+              <button
+                key={example}
+                onClick={() => setCommandLine(example)}
+                className="px-2 py-1 text-xs font-mono bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+              >
+                {example}
+              </button>
+            ))}
+          </div>
+
+          {history.length > 0 && (
+            <div className="max-h-60 overflow-y-auto space-y-2 font-mono text-xs">
+              {history.map((entry, index) => (
+                <div key={index} className="p-2 bg-gray-50 dark:bg-gray-800 rounded">
+                  <div className="text-gray-500 dark:text-gray-400">
+                    {entry.slaveId.slice(-8)}&gt; {entry.line}
+                  </div>
+                  <div className={`break-all ${entry.isError ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+                    {entry.reply}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReplicaReadPanel;
@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Eye, Play, Square, Skull, Crown, AlertTriangle, CheckCircle, RefreshCw } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { listenToServerEvents } from '../../services/websocket';
+import { SentinelEvent, SentinelStatus } from '../../types';
+
+interface SentinelPanelProps {
+  masterRunning: boolean;
+  onTopologyChange: () => void;
+}
+
+// Events that move the failover forward, highlighted in the timeline
+const FAILOVER_STEPS = ['+odown', '+elected-leader', '+selected-slave', '+promoted-slave', '+switch-master'];
+
+const eventColor = (type: string): string => {
+  if (type === '+switch-master') return 'text-green-600 dark:text-green-400';
+  if (type.startsWith('-failover')) return 'text-red-600 dark:text-red-400';
+  if (type === '+sdown' || type === '+odown') return 'text-orange-600 dark:text-orange-400';
+  if (FAILOVER_STEPS.includes(type)) return 'text-blue-600 dark:text-blue-400';
+  return 'text-gray-600 dark:text-gray-300';
+};
+
+const describeEvent = (event: SentinelEvent): string => {
+  const { details } = event;
+  switch (event.type) {
+    case '+sdown':
+    case '-sdown':
+      return `${details.master?.id} (${details.master?.host}:${details.master?.port})`;
+    case '+odown':
+      return `${details.agreed}/${details.quorum} sentinels agree the master is down`;
+    case '+elected-leader':
+    case '-failover-abort-not-elected':
+      return `${details.votes} votes, ${details.needed} needed`;
+    case '+vote-for-leader':
+      return `for ${details.leader}`;
+    case '+selected-slave':
+      return `${details.slave} at offset ${details.offset}`;
+    case '+promoted-slave':
+      return `${details.slave} is now master`;
+    case '+slave-reconf-sent':
+      return `${details.slave} → ${details.master?.host}:${details.master?.port}`;
+    case '+switch-master':
+      return `${details.from?.id} → ${details.to?.id} (${details.to?.host}:${details.to?.port})`;
+    default:
+      return details.error || '';
+  }
+};
+
+const SentinelPanel: React.FC<SentinelPanelProps> = ({ masterRunning, onTopologyChange }) => {
+  const [status, setStatus] = useState<SentinelStatus | null>(null);
+  const [events, setEvents] = useState<SentinelEvent[]>([]);
+  const [sentinelCount, setSentinelCount] = useState(3);
+  const [quorum, setQuorum] = useState(2);
+  const [downAfterMs, setDownAfterMs] = useState(3000);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    const response = await apiService.getSentinelStatus();
+    if (response.success) {
+      setStatus(response.data || null);
+      setEvents(response.data ? response.data.events : []);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+    const interval = setInterval(fetchStatus, 2000);
+
+    const stopListening = listenToServerEvents({
+      sentinel_event: (event: SentinelEvent) => setEvents((prev) => [event, ...prev].slice(0, 100)),
+      replication_topology_changed: (next: SentinelStatus) => {
+        setStatus(next);
+        onTopologyChange();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      stopListening();
+    };
+  }, [fetchStatus, onTopologyChange]);
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await action();
+      if (!response.success) setError(response.error || 'Request failed');
+      await fetchStatus();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = () => run(() => apiService.startSentinel({ sentinels: sentinelCount, quorum, downAfterMs }));
+  const handleStop = () => run(() => apiService.stopSentinel());
+  const handleKillMaster = () => run(async () => {
+    const response = await apiService.killMaster();
+    onTopologyChange();
+    return response;
+  });
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Eye className="w-5 h-5" />
+          Sentinel
+        </h2>
+        {status && (
+          <span className={`px-2 py-1 rounded-full text-sm ${
+            status.state === 'ok'
+              ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
+              : status.state === 'odown'
+                ? 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200'
+                : 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
+          }`}>
+            {status.state === 'failover' && <RefreshCw className="w-3 h-3 inline mr-1 animate-spin" />}
+            {status.state.toUpperCase()} · epoch {status.epoch}
+          </span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg text-sm text-red-700 dark:text-red-300 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <label className="text-sm text-gray-600 dark:text-gray-300">
+          Sentinels
+          <input
+            type="number"
+            min={1}
+            max={7}
+            value={sentinelCount}
+            onChange={(e) => setSentinelCount(Number(e.target.value))}
+            disabled={Boolean(status)}
+            className="block w-20 mt-1 p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="text-sm text-gray-600 dark:text-gray-300">
+          Quorum
+          <input
+            type="number"
+            min={1}
+            max={sentinelCount}
+            value={quorum}
+            onChange={(e) => setQuorum(Number(e.target.value))}
+            disabled={Boolean(status)}
+            className="block w-20 mt-1 p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="text-sm text-gray-600 dark:text-gray-300">
+          Down after (ms)
+          <input
+            type="number"
+            min={500}
+            step={500}
+            value={downAfterMs}
+            onChange={(e) => setDownAfterMs(Number(e.target.value))}
+            disabled={Boolean(status)}
+            className="block w-28 mt-1 p-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          />
+        </label>
+
+        {!status ? (
+          <button
+            onClick={handleStart}
+            disabled={busy || !masterRunning}
+            className="px-4 py-2 bg-green-500 text-white rounded-lg hover:bg-green-600 disabled:opacity-50 transition-colors flex items-center gap-2"
+          >
+            <Play className="w-4 h-4" />
+            Start Sentinel
+          </button>
+        ) : (
+          <button
+            onClick={handleStop}
+            disabled={busy}
+            className="px-4 py-2 bg-gray-500 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors flex items-center gap-2"
+          >
+            <Square className="w-4 h-4" />
+            Stop Sentinel
+          </button>
+        )}
+
+        <button
+          onClick={handleKillMaster}
+          disabled={busy || !masterRunning}
+          className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:opacity-50 transition-colors flex items-center gap-2"
+          title="Drop the master's listener and all slave links, as if it crashed"
+        >
+          <Skull className="w-4 h-4" />
+          Kill Master
+        </button>
+      </div>
+
+      {status && (
+        <>
+          {/* Current master and sentinels */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-1">Current master ({status.masterName})</p>
+              <p className="font-mono text-sm text-gray-900 dark:text-white flex items-center gap-2">
+                <Crown className="w-4 h-4 text-yellow-500" />
+                {status.master.id} · {status.master.host}:{status.master.port}
+              </p>
+              {status.lastFailover && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  Failed over from {status.lastFailover.from.id} in epoch {status.lastFailover.epoch} (leader {status.lastFailover.leader})
+                  {' '}at {new Date(status.lastFailover.at).toLocaleTimeString()}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {status.sentinels.map((sentinel) => (
+                <div key={sentinel.id} className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded-lg text-sm">
+                  <span className="flex items-center gap-2 text-gray-900 dark:text-white">
+                    {sentinel.sdown
+                      ? <AlertTriangle className="w-4 h-4 text-orange-500" />
+                      : <CheckCircle className="w-4 h-4 text-green-500" />}
+                    {sentinel.id}
+                  </span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {sentinel.sdown ? 'SDOWN' : `pong ${Math.round(sentinel.lastPongAgoMs / 100) / 10}s ago`}
+                    {sentinel.votedFor && ` · voted ${sentinel.votedFor} (epoch ${sentinel.votedEpoch})`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Event timeline */}
+          <h3 className="text-md font-medium text-gray-900 dark:text-white mb-2">Events</h3>
+          <div className="max-h-72 overflow-y-auto space-y-1 font-mono text-xs">
+            {events.length === 0 ? (
+              <p className="text-gray-500 dark:text-gray-400">No events yet</p>
+            ) : (
+              events.map((event, index) => (
+                <div key={`${event.timestamp}-${event.type}-${index}`} className="flex gap-3">
+                  <span className="text-gray-400">{new Date(event.timestamp).toLocaleTimeString()}</span>
+                  <span className={`w-48 shrink-0 font-semibold ${eventColor(event.type)}`}>{event.type}</span>
+                  <span className="text-gray-500 dark:text-gray-400 w-24 shrink-0">{event.sentinel || ''}</span>
+                  <span className="text-gray-700 dark:text-gray-300 truncate">{describeEvent(event)}</span>
+                </div>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SentinelPanel;
@@ -9,16 +9,15 @@ interface MonitoringStats {
   connectedClients: number;
   commandsExecuted: number;
   uptime: number;
-  memoryUsage: {
-    rss: number;
-    heapTotal: number;
-    heapUsed: number;
-    external: number;
-  };
+  datasetBytes: number;
+  rss: number;
   cpuUsage: number;
   nodeDistribution: Record<string, {
     keyCount: number;
     ttlKeys: number;
+    datasetBytes: number;
+    peakBytes: number;
+    maxMemory: number;
     status: string;
   }>;
   totalNodes: number;
@@ -310,20 +309,33 @@ const Monitoring: React.FC = () => {
           </h3>
           <div className="space-y-2 text-sm">
             <div className="flex justify-between">
-              <span className="text-gray-500 dark:text-gray-400">RSS:</span>
-              <span className="text-gray-900 dark:text-white">{formatBytes(stats.memoryUsage.rss)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-500 dark:text-gray-400">Heap Total:</span>
-              <span className="text-gray-900 dark:text-white">{formatBytes(stats.memoryUsage.heapTotal)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-gray-500 dark:text-gray-400">Heap Used:</span>
-              <span className="text-gray-900 dark:text-white">{formatBytes(stats.memoryUsage.heapUsed)}</span>
+              <span className="text-gray-500 dark:text-gray-400">Dataset:</span>
+              <span className="text-gray-900 dark:text-white">{formatBytes(stats.datasetBytes)}</span>
             </div>
+            {/* per node: dataset bytes against its maxmemory (0 = no limit) */}
+            {Object.entries(stats.nodeDistribution).map(([nodeName, nodeData]) => {
+              const fill = nodeData.maxMemory > 0 ? Math.min(100, (nodeData.datasetBytes / nodeData.maxMemory) * 100) : 0;
+              return (
+                <div key={nodeName}>
+                  <div className="flex justify-between">
+                    <span className="text-gray-500 dark:text-gray-400">{nodeName}:</span>
+                    <span className="text-gray-900 dark:text-white">
+                      {formatBytes(nodeData.datasetBytes)}
+                      {nodeData.maxMemory > 0 && ` / ${formatBytes(nodeData.maxMemory)}`}
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-1.5 mt-1">
+                    <div
+                      className={`h-1.5 rounded-full ${fill >= 100 ? 'bg-red-500' : 'bg-blue-500'}`}
+                      style={{ width: `${fill}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
             <div className="flex justify-between">
-              <span className="text-gray-500 dark:text-gray-400">External:</span>
-              <span className="text-gray-900 dark:text-white">{formatBytes(stats.memoryUsage.external)}</span>
+              <span className="text-gray-500 dark:text-gray-400">Process RSS:</span>
+              <span className="text-gray-900 dark:text-white">{formatBytes(stats.rss)}</span>
             </div>
           </div>
         </div>
@@ -375,7 +387,7 @@ const Monitoring: React.FC = () => {
                 <div>
                   <h4 className="font-semibold text-gray-900 dark:text-white">{nodeName}</h4>
                   <p className="text-sm text-gray-500 dark:text-gray-400">
-                    {nodeData.keyCount} keys
+                    {nodeData.keyCount} keys • {formatBytes(nodeData.datasetBytes)}
                   </p>
                 </div>
                 <div className="flex items-center gap-2">
@@ -371,7 +371,7 @@ const ProcessMonitor: React.FC = () => {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-500 dark:text-gray-400">Last Save:</span>
-                  <span className="font-medium">{new Date(worker.lastSave).toLocaleTimeString()}</span>
+                  <span className="font-medium">{worker.lastSave ? new Date(worker.lastSave).toLocaleTimeString() : 'Never'}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-500 dark:text-gray-400">Saves Count:</span>
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Archive } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { ChannelRetention } from '../../types';
+
+interface ChannelRetentionControlProps {
+  channel: string;
+  retention: ChannelRetention | null;
+  onChange: (retention: ChannelRetention | null) => void;
+}
+
+// empty input = no limit of that kind
+const toLimit = (value: string, scale: number = 1): number | null =>
+  value.trim() && Number(value) > 0 ? Math.round(Number(value) * scale) : null;
+
+const ChannelRetentionControl: React.FC<ChannelRetentionControlProps> = ({ channel, retention, onChange }) => {
+  const [maxLen, setMaxLen] = useState('');
+  const [maxAgeMinutes, setMaxAgeMinutes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMaxLen(retention?.maxLen ? String(retention.maxLen) : '');
+    setMaxAgeMinutes(retention?.maxAgeMs ? String(retention.maxAgeMs / 60000) : '');
+    setError(null);
+  }, [channel, retention]);
+
+  const save = async (next: ChannelRetention) => {
+    setSaving(true);
+    try {
+      const response = await apiService.setChannelRetention(channel, next);
+      if (response.success && response.data) {
+        setError(null);
+        onChange(response.data.retention);
+      } else {
+        setError(response.error || 'Failed to save retention');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => save({ maxLen: toLimit(maxLen), maxAgeMs: toLimit(maxAgeMinutes, 60000) });
+  const handleDisable = () => save({ maxLen: null, maxAgeMs: null });
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-3 text-xs text-gray-600 dark:text-gray-300">
+      <Archive size={14} />
+      <span>History:</span>
+      <label className="flex items-center gap-1">
+        last
+        <input
+          type="number"
+          min={1}
+          value={maxLen}
+          onChange={(e) => setMaxLen(e.target.value)}
+          placeholder="∞"
+          className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+        />
+        messages
+      </label>
+      <label className="flex items-center gap-1">
+        for
+        <input
+          type="number"
+          min={1}
+          value={maxAgeMinutes}
+          onChange={(e) => setMaxAgeMinutes(e.target.value)}
+          placeholder="∞"
+          className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+        />
+        minutes
+      </label>
+      <button
+        onClick={handleSave}
+        disabled={saving || (!maxLen.trim() && !maxAgeMinutes.trim())}
+        className="px-2 py-1 bg-blue-100 text-blue-700 hover:bg-blue-200 rounded disabled:opacity-50"
+      >
+        {retention ? 'Update' : 'Keep history'}
+      </button>
+      {retention && (
+        <button
+          onClick={handleDisable}
+          disabled={saving}
+          className="px-2 py-1 bg-gray-100 text-gray-700 hover:bg-gray-200 rounded disabled:opacity-50"
+        >
+          Turn off
+        </button>
+      )}
+      {!retention && <span className="text-gray-400">off: late subscribers miss earlier messages</span>}
+      {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+    </div>
+  );
+};
+
+export default ChannelRetentionControl;
@@ -1,8 +1,19 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Send, MessageSquare, Users, Plus, Trash2, Radio, Volume2, VolumeX, Wifi, WifiOff, User, Edit3 } from 'lucide-react';
+import { Send, MessageSquare, Users, Plus, Trash2, Radio, Volume2, VolumeX, Wifi, WifiOff, User, Edit3, Filter } from 'lucide-react';
 import { apiService } from '../../services/api';
 import { WebSocketService, PubSubMessage, Channel } from '../../services/websocket';
 import { useAppStore } from '../../store';
+import { ChannelRetention } from '../../types';
+import ChannelRetentionControl from './ChannelRetentionControl';
+
+// Add messages not seen yet (live, replayed or loaded from a channel's
+// history may overlap), keeping the list in publish order
+const mergeMessages = (current: PubSubMessage[], incoming: PubSubMessage[]): PubSubMessage[] => {
+  const known = new Set(current.map(m => m.id));
+  const added = incoming.filter(m => !known.has(m.id));
+  if (added.length === 0) return current;
+  return [...current, ...added].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+};
 
 const PubSubViewer: React.FC = () => {
   const [channels, setChannels] = useState<Channel[]>([]);
@@ -62,6 +73,37 @@ const PubSubViewer: React.FC = () => {
   }, []);
   
   const webSocketService = getOrCreateWebSocketService();
+
+  // Pattern subscriptions (PSUBSCRIBE); selecting one shows what it matched
+  const [patterns, setPatterns] = useState<string[]>(() => webSocketService.getPatterns());
+  const [newPattern, setNewPattern] = useState('');
+  const [selectedPattern, setSelectedPattern] = useState<string>('');
+  const [retention, setRetention] = useState<ChannelRetention | null>(null);
+
+  // Load the retained history of a channel when it is opened
+  useEffect(() => {
+    if (!selectedChannel) return;
+    let cancelled = false;
+
+    apiService.getChannelHistory(selectedChannel).then((response) => {
+      if (cancelled || !response.success || !response.data) return;
+      const { retention: channelRetention, messages: retained } = response.data;
+      setRetention(channelRetention);
+      retained.forEach(entry => webSocketService.noteMessageId(entry.channel, entry.id));
+      setMessages(prev => mergeMessages(prev, retained.map(entry => ({
+        id: String(entry.id),
+        channel: entry.channel,
+        message: entry.message,
+        timestamp: new Date(entry.timestamp),
+        sender: 'system',
+        replayed: true
+      }))));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedChannel, webSocketService]);
   
   // Setup page close cleanup
   useEffect(() => {
@@ -201,7 +243,7 @@ const PubSubViewer: React.FC = () => {
   useEffect(() => {
     const handleNewMessage = (message: PubSubMessage) => {
       console.log('📨 Received message:', message);
-      setMessages(prev => [...prev, message]);
+      setMessages(prev => mergeMessages(prev, [message]));
       
       // Update channel last activity
       setChannels(prev => prev.map(ch => {
@@ -344,6 +386,39 @@ const PubSubViewer: React.FC = () => {
     }
   };
 
+  const handleAddPattern = async () => {
+    const pattern = newPattern.trim();
+    if (!pattern || patterns.includes(pattern) || loading) return;
+
+    setLoading(true);
+    try {
+      await webSocketService.psubscribe(pattern);
+      setPatterns(prev => [...prev, pattern]);
+      setNewPattern('');
+      setSelectedPattern(pattern);
+      setSelectedChannel('');
+    } catch (error) {
+      console.error('Failed to subscribe to pattern:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRemovePattern = async (pattern: string) => {
+    try {
+      await webSocketService.punsubscribe(pattern);
+    } catch (error) {
+      console.error('Failed to unsubscribe from pattern:', error);
+    }
+    setPatterns(prev => prev.filter(p => p !== pattern));
+    if (selectedPattern === pattern) setSelectedPattern('');
+  };
+
+  const selectChannel = (channelName: string) => {
+    setSelectedChannel(channelName);
+    setSelectedPattern('');
+  };
+
   const handlePublishMessage = async () => {
     if (!newMessage.trim() || !selectedChannel || !username) {
       return;
@@ -371,8 +446,11 @@ const PubSubViewer: React.FC = () => {
     }
   };
 
-  const filteredMessages = messages.filter(msg => msg.channel === selectedChannel);
-  const subscribedCount = channels.filter(c => c.subscribed).length;
+  // channel view shows channel deliveries, pattern view what the pattern matched
+  const filteredMessages = selectedPattern
+    ? messages.filter(msg => msg.pattern === selectedPattern)
+    : messages.filter(msg => msg.channel === selectedChannel && !msg.pattern);
+  const subscribedCount = channels.filter(c => c.subscribed).length + patterns.length;
 
   return (
     <div className="h-full flex flex-col">
@@ -519,6 +597,60 @@ const PubSubViewer: React.FC = () => {
                 Add
               </button>
             </div>
+
+            {/* Pattern Subscriptions */}
+            <div className="flex gap-2 mt-3">
+              <input
+                type="text"
+                placeholder="Pattern, e.g. orders.* or user:?:events"
+                value={newPattern}
+                onChange={(e) => setNewPattern(e.target.value)}
+                onKeyPress={(e) => e.key === 'Enter' && handleAddPattern()}
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-purple-500 focus:border-purple-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 font-mono text-sm"
+              />
+              <button
+                onClick={handleAddPattern}
+                disabled={!newPattern.trim() || loading || !connected}
+                className="px-3 py-2 text-sm bg-purple-500 text-white rounded-md hover:bg-purple-600 disabled:opacity-50 flex items-center gap-1"
+                title="PSUBSCRIBE: receive messages from every matching channel"
+              >
+                <Filter size={16} />
+                PSubscribe
+              </button>
+            </div>
+            {patterns.length > 0 && (
+              <div className="mt-2 space-y-1">
+                {patterns.map((pattern) => (
+                  <div
+                    key={pattern}
+                    onClick={() => {
+                      setSelectedPattern(pattern);
+                      setSelectedChannel('');
+                    }}
+                    className={`flex items-center justify-between px-3 py-1 rounded-md cursor-pointer text-sm ${
+                      selectedPattern === pattern
+                        ? 'bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-200'
+                        : 'bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <span className="font-mono flex items-center gap-2">
+                      <Filter size={12} />
+                      {pattern}
+                    </span>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleRemovePattern(pattern);
+                      }}
+                      className="p-1 text-red-500 hover:bg-red-100 rounded"
+                      title="PUNSUBSCRIBE"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Channels List */}
@@ -538,7 +670,7 @@ const PubSubViewer: React.FC = () => {
                       ? 'bg-blue-50 dark:bg-blue-900/20 border-l-4 border-blue-500' 
                       : ''
                   }`}
-                  onClick={() => setSelectedChannel(channel.name)}
+                  onClick={() => selectChannel(channel.name)}
                 >
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-3">
@@ -588,19 +720,26 @@ const PubSubViewer: React.FC = () => {
 
         {/* Messages Area */}
         <div className="flex-1 flex flex-col">
-          {selectedChannel ? (
+          {selectedChannel || selectedPattern ? (
             <>
               {/* Channel Header */}
               <div className="p-4 border-b border-gray-200 dark:border-gray-700">
                 <div className="flex items-center justify-between">
                   <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
-                    #{selectedChannel}
+                    {selectedPattern ? (
+                      <span className="flex items-center gap-2 font-mono">
+                        <Filter size={18} className="text-purple-500" />
+                        {selectedPattern}
+                      </span>
+                    ) : `#${selectedChannel}`}
                   </h3>
                   <div className="flex items-center gap-4">
-                    <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
-                      <Users size={16} />
-                      {channels.find(c => c.name === selectedChannel)?.subscriberCount || 0} subscribers
-                    </div>
+                    {!selectedPattern && (
+                      <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                        <Users size={16} />
+                        {channels.find(c => c.name === selectedChannel)?.subscriberCount || 0} subscribers
+                      </div>
+                    )}
                     
                     {username && (
                       <div className="flex items-center gap-2">
@@ -612,6 +751,9 @@ const PubSubViewer: React.FC = () => {
                     )}
                   </div>
                 </div>
+                {!selectedPattern && (
+                  <ChannelRetentionControl channel={selectedChannel} retention={retention} onChange={setRetention} />
+                )}
               </div>
 
               {/* Messages */}
@@ -619,9 +761,9 @@ const PubSubViewer: React.FC = () => {
                 {filteredMessages.length === 0 ? (
                   <div className="text-center text-gray-500 dark:text-gray-400 py-8">
                     <MessageSquare className="w-12 h-12 mx-auto mb-2 opacity-50" />
-                    <p>No messages in this channel</p>
+                    <p>{selectedPattern ? 'No channel has matched this pattern yet' : 'No messages in this channel'}</p>
                     <p className="text-sm">
-                      {channels.find(c => c.name === selectedChannel)?.subscribed 
+                      {selectedPattern || channels.find(c => c.name === selectedChannel)?.subscribed 
                         ? 'Listening for new messages...' 
                         : 'Subscribe to receive messages'}
                     </p>
@@ -666,6 +808,19 @@ const PubSubViewer: React.FC = () => {
                                 You
                               </span>
                             )}
+                            {message.replayed && (
+                              <span className="text-xs text-gray-400" title="Delivered from the channel's retained history">
+                                history
+                              </span>
+                            )}
+                            {message.pattern && (
+                              <span
+                                className="text-xs font-mono bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300 px-2 py-0.5 rounded"
+                                title="Channel it was published on, and the pattern that matched"
+                              >
+                                #{message.channel} ← {message.pattern}
+                              </span>
+                            )}
                           </div>
                           <p className="text-gray-800 dark:text-gray-200">
                             {displayMessage}
@@ -679,53 +834,60 @@ const PubSubViewer: React.FC = () => {
               </div>
 
               {/* Message Input */}
-              <div className="p-4 border-t border-gray-200 dark:border-gray-700">
-                {/* Subscription Status */}
-                {username && selectedChannel && (
-                  <div className="mb-2">
-                    {(() => {
-                      const channel = channels.find(c => c.name === selectedChannel);
-                      const isSubscribed = channel?.subscribed || false;
-                      return (
-                        <div className={`text-xs px-2 py-1 rounded ${
-                          isSubscribed 
-                            ? 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-300'
-                            : 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-300'
-                        }`}>
-                          {isSubscribed 
-                            ? `✅ ${username} is subscribed to #${selectedChannel}`
-                            : `❌ ${username} is not subscribed to #${selectedChannel} - cannot send messages`
-                          }
-                        </div>
-                      );
-                    })()}
+              {selectedPattern ? (
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+                  Messages published on any channel matching <span className="font-mono">{selectedPattern}</span> show up here.
+                  Select a channel to publish.
+                </div>
+              ) : (
+                <div className="p-4 border-t border-gray-200 dark:border-gray-700">
+                  {/* Subscription Status */}
+                  {username && selectedChannel && (
+                    <div className="mb-2">
+                      {(() => {
+                        const channel = channels.find(c => c.name === selectedChannel);
+                        const isSubscribed = channel?.subscribed || false;
+                        return (
+                          <div className={`text-xs px-2 py-1 rounded ${
+                            isSubscribed 
+                              ? 'bg-green-100 text-green-700 dark:bg-green-900/20 dark:text-green-300'
+                              : 'bg-red-100 text-red-700 dark:bg-red-900/20 dark:text-red-300'
+                          }`}>
+                            {isSubscribed 
+                              ? `✅ ${username} is subscribed to #${selectedChannel}`
+                              : `❌ ${username} is not subscribed to #${selectedChannel} - cannot send messages`
+                            }
+                          </div>
+                        );
+                      })()}
+                    </div>
+                  )}
+                  
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      placeholder={`Message as ${username}...`}
+                      value={newMessage}
+                      onChange={(e) => setNewMessage(e.target.value)}
+                      onKeyPress={(e) => {
+                        if (e.key === 'Enter') {
+                          handlePublishMessage();
+                        }
+                      }}
+                      disabled={!connected || !username}
+                      className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+                    />
+                    <button
+                      onClick={handlePublishMessage}
+                      disabled={!newMessage.trim() || !connected || !username}
+                      className="btn-primary flex items-center gap-2 disabled:opacity-50"
+                    >
+                      <Send size={16} />
+                      Send as {username}
+                    </button>
                   </div>
-                )}
-                
-                <div className="flex gap-2">
-                  <input
-                    type="text"
-                    placeholder={`Message as ${username}...`}
-                    value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
-                    onKeyPress={(e) => {
-                      if (e.key === 'Enter') {
-                        handlePublishMessage();
-                      }
-                    }}
-                    disabled={!connected || !username}
-                    className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50"
-                  />
-                  <button
-                    onClick={handlePublishMessage}
-                    disabled={!newMessage.trim() || !connected || !username}
-                    className="btn-primary flex items-center gap-2 disabled:opacity-50"
-                  >
-                    <Send size={16} />
-                    Send as {username}
-                  </button>
                 </div>
-              </div>
+              )}
             </>
           ) : (
             <div className="flex-1 flex items-center justify-center text-gray-500 dark:text-gray-400">
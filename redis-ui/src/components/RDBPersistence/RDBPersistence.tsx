@@ -10,7 +10,12 @@ import {
   RefreshCw,
   HardDrive,
   Activity,
-  Info
+  Info,
+  ScrollText,
+  Minimize2,
+  History,
+  GitCompare,
+  RotateCcw
 } from 'lucide-react';
 import { apiService } from '../../services/api';
 import { useAppStore } from '../../store';
@@ -23,14 +28,117 @@ interface RDBFile {
   lastModified: Date;
   keyCount: number;
   corrupted: boolean;
+  corruptionReason?: string | null;
+  formatVersion?: number | null;
+  hasPreviousGeneration?: boolean;
+  loadedFrom?: string | null;
   exists: boolean;
 }
 
+type FsyncPolicy = 'always' | 'everysec' | 'no';
+type SaveMode = 'save' | 'bgsave';
+
+interface NodeSaveResult {
+  node: string;
+  success: boolean;
+  durationMs: number;
+  error?: string;
+}
+
+interface RDBSaveStatus {
+  node: string;
+  lastSaveTime: number | null;
+  changesSinceLastSave: number;
+  bgsaveInProgress: boolean;
+  lastBgsaveStatus: 'ok' | 'err' | null;
+  lastBgsaveDurationMs: number | null;
+  lastBgsaveError: string | null;
+  bgsaveCount: number;
+  avgBgsaveMs: number | null;
+  workerAvailable: boolean;
+  workerPid: number | null;
+}
+
+interface AOFRewrite {
+  status: 'in_progress' | 'ok' | 'err';
+  startedAt: number;
+  durationMs: number | null;
+  error: string | null;
+}
+
+interface AOFStatus {
+  node: string;
+  enabled: boolean;
+  filePath: string;
+  fsyncPolicy: FsyncPolicy;
+  size: number;
+  sizeFormatted: string;
+  baseSize: number;
+  pendingFsync: boolean;
+  lastFsync: number | null;
+  rewriteInProgress: boolean;
+  lastRewrite: AOFRewrite | null;
+}
+
+interface SnapshotGeneration {
+  id: number;
+  createdAt: number;
+  keyCount: number | null;
+  bytes: number;
+  sizeFormatted: string;
+  manual: boolean;
+  corrupted: boolean;
+  error: string | null;
+  fileName: string;
+}
+
+interface NodeSnapshotHistory {
+  node: string;
+  retention: number;
+  interval: number;
+  count: number;
+  liveKeyCount: number;
+  generations: SnapshotGeneration[];
+}
+
+interface SnapshotHistoryData {
+  retention: number | null;
+  nodes: NodeSnapshotHistory[];
+}
+
+interface TimelineEntry extends SnapshotGeneration {
+  node: string;
+}
+
+interface NodeRestoreResult {
+  node: string;
+  skipped: boolean;
+  reason?: string;
+  generation?: SnapshotGeneration;
+  keyCount?: number;
+  added?: string[];
+  removed?: string[];
+  changed?: string[];
+  addedCount?: number;
+  removedCount?: number;
+  changedCount?: number;
+  unchanged?: number;
+}
+
+interface SnapshotSelection {
+  timestamp: number;
+  node: string;
+  wholeCluster: boolean;
+}
+
 interface PersistenceStatus {
   autoSaveEnabled: boolean;
   autoSaveInterval: number;
+  savePoints: { seconds: number; changes: number }[];
   lastSaveTime: Date | null;
   rdbFiles: RDBFile[];
+  rdb: RDBSaveStatus[];
+  aof: AOFStatus[];
   totalKeys: number;
 }
 
@@ -38,9 +146,15 @@ const RDBPersistence: React.FC = () => {
   const [persistenceStatus, setPersistenceStatus] = useState<PersistenceStatus | null>(null);
   const [rdbInfo, setRDBInfo] = useState<RDBFile[]>([]);
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState(false);
+  const [saving, setSaving] = useState<SaveMode | null>(null);
   const [loadingData, setLoadingData] = useState(false);
+  const [updatingAof, setUpdatingAof] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<SnapshotHistoryData | null>(null);
+  const [retentionInput, setRetentionInput] = useState('');
+  const [selection, setSelection] = useState<SnapshotSelection | null>(null);
+  const [diffResults, setDiffResults] = useState<NodeRestoreResult[] | null>(null);
+  const [historyBusy, setHistoryBusy] = useState<'diff' | 'restore' | 'retention' | null>(null);
   const { addNotification } = useAppStore();
 
   const fetchPersistenceData = async () => {
@@ -48,9 +162,10 @@ const RDBPersistence: React.FC = () => {
       setLoading(true);
       setError(null);
       
-      const [statusResponse, infoResponse] = await Promise.all([
+      const [statusResponse, infoResponse, historyResponse] = await Promise.all([
         apiService.getPersistenceStatus(),
-        apiService.getRDBInfo()
+        apiService.getRDBInfo(),
+        apiService.getSnapshotHistory()
       ]);
 
       if (statusResponse.success && statusResponse.data) {
@@ -61,6 +176,10 @@ const RDBPersistence: React.FC = () => {
         setRDBInfo(infoResponse.data);
       }
 
+      if (historyResponse.success && historyResponse.data) {
+        setHistory(historyResponse.data);
+      }
+
       if (!statusResponse.success || !infoResponse.success) {
         setError(statusResponse.error || infoResponse.error || 'Failed to fetch persistence data');
       }
@@ -72,16 +191,20 @@ const RDBPersistence: React.FC = () => {
     }
   };
 
-  const handleManualSave = async () => {
+  const handleManualSave = async (mode: SaveMode) => {
     try {
-      setSaving(true);
-      const response = await apiService.saveToDisk();
+      setSaving(mode);
+      const response = await apiService.saveToDisk(mode);
       
       if (response.success) {
+        const results: NodeSaveResult[] = response.data.results || [];
+        const timings = results
+          .map(result => result.success ? `${result.node} ${result.durationMs}ms` : `${result.node} failed: ${result.error}`)
+          .join(', ');
         addNotification({
-          type: 'success',
-          title: 'RDB Save Successful',
-          message: response.data.message || 'Data saved to disk successfully'
+          type: results.every(result => result.success) ? 'success' : 'error',
+          title: mode === 'bgsave' ? 'BGSAVE Finished' : 'RDB Save Successful',
+          message: `${response.data.message || 'Data saved to disk successfully'}${timings ? ` (${timings})` : ''}`
         });
         
         // Refresh the data after save
@@ -101,7 +224,7 @@ const RDBPersistence: React.FC = () => {
         message: 'An error occurred while saving to disk'
       });
     } finally {
-      setSaving(false);
+      setSaving(null);
     }
   };
 
@@ -138,6 +261,184 @@ const RDBPersistence: React.FC = () => {
     }
   };
 
+  // every node's generations on one timeline, newest first
+  const timeline: TimelineEntry[] = (history?.nodes || [])
+    .flatMap(node => node.generations.map(generation => ({ ...generation, node: node.node })))
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const selectGeneration = (entry: TimelineEntry) => {
+    setSelection(current => ({
+      timestamp: entry.createdAt,
+      node: entry.node,
+      wholeCluster: current?.wholeCluster ?? true
+    }));
+    setDiffResults(null);
+  };
+
+  const restoreOptions = (target: SnapshotSelection, dryRun: boolean) =>
+    target.wholeCluster ? { dryRun } : { node: target.node, dryRun };
+
+  const handlePreviewDiff = async () => {
+    if (!selection) return;
+    try {
+      setHistoryBusy('diff');
+      const response = await apiService.restoreSnapshot(selection.timestamp, restoreOptions(selection, true));
+      if (response.success) {
+        setDiffResults(response.data.results || []);
+      } else {
+        addNotification({
+          type: 'error',
+          title: 'Diff Failed',
+          message: response.error || 'Failed to compare the snapshot with the live data'
+        });
+      }
+    } finally {
+      setHistoryBusy(null);
+    }
+  };
+
+  const handleRestoreSnapshot = async () => {
+    if (!selection) return;
+    const scope = selection.wholeCluster ? 'every node' : selection.node;
+    if (!window.confirm(`Restore ${scope} to the snapshot from ${new Date(selection.timestamp).toLocaleString()}? The current data is kept as a new generation.`)) {
+      return;
+    }
+    try {
+      setHistoryBusy('restore');
+      const response = await apiService.restoreSnapshot(selection.timestamp, restoreOptions(selection, false));
+      if (response.success) {
+        const results: NodeRestoreResult[] = response.data.results || [];
+        const skipped = results.filter(result => result.skipped);
+        addNotification({
+          type: skipped.length === 0 ? 'success' : 'warning',
+          title: 'Snapshot Restored',
+          message: `${response.data.message}${skipped.length ? ` (skipped ${skipped.map(result => `${result.node}: ${result.reason}`).join(', ')})` : ''}`
+        });
+        setSelection(null);
+        setDiffResults(null);
+        await fetchPersistenceData();
+      } else {
+        addNotification({
+          type: 'error',
+          title: 'Restore Failed',
+          message: response.error || 'Failed to restore the snapshot'
+        });
+      }
+    } finally {
+      setHistoryBusy(null);
+    }
+  };
+
+  const handleSetRetention = async () => {
+    const retention = Number(retentionInput);
+    try {
+      setHistoryBusy('retention');
+      const response = await apiService.setSnapshotRetention(retention);
+      if (response.success) {
+        addNotification({
+          type: 'success',
+          title: 'Retention Updated',
+          message: `Keeping the newest ${retention} snapshot generations per node`
+        });
+        setRetentionInput('');
+        await fetchPersistenceData();
+      } else {
+        addNotification({
+          type: 'error',
+          title: 'Retention Update Failed',
+          message: response.error || 'Failed to update snapshot retention'
+        });
+      }
+    } finally {
+      setHistoryBusy(null);
+    }
+  };
+
+  const isSelected = (entry: TimelineEntry): boolean => {
+    if (!selection) return false;
+    if (!selection.wholeCluster) return entry.node === selection.node && entry.createdAt === selection.timestamp;
+    // the newest generation of each node at or before the selected time
+    const nodeEntries = timeline.filter(other => other.node === entry.node && other.createdAt <= selection.timestamp);
+    return nodeEntries.length > 0 && nodeEntries[0].createdAt === entry.createdAt;
+  };
+
+  const aofNodes = persistenceStatus?.aof || [];
+  const aofEnabled = aofNodes.some(node => node.enabled);
+  const aofFsyncPolicy: FsyncPolicy = aofNodes[0]?.fsyncPolicy || 'everysec';
+  const aofRewriting = aofNodes.some(node => node.rewriteInProgress);
+
+  const handleConfigureAof = async (enabled?: boolean, fsyncPolicy?: FsyncPolicy) => {
+    try {
+      setUpdatingAof(true);
+      const response = await apiService.configureAof(enabled, fsyncPolicy);
+
+      if (response.success) {
+        addNotification({
+          type: 'success',
+          title: 'AOF Updated',
+          message: enabled === undefined
+            ? `fsync policy set to ${fsyncPolicy}`
+            : `Append-only file ${enabled ? 'enabled' : 'disabled'}`
+        });
+        await fetchPersistenceData();
+      } else {
+        addNotification({
+          type: 'error',
+          title: 'AOF Update Failed',
+          message: response.error || 'Failed to update AOF settings'
+        });
+      }
+    } finally {
+      setUpdatingAof(false);
+    }
+  };
+
+  const handleRewriteAof = async () => {
+    const response = await apiService.rewriteAof();
+
+    if (response.success) {
+      addNotification({
+        type: 'info',
+        title: 'AOF Rewrite Started',
+        message: response.data.message || 'Background append only file rewriting started'
+      });
+      await fetchPersistenceData();
+    } else {
+      addNotification({
+        type: 'error',
+        title: 'AOF Rewrite Failed',
+        message: response.error || 'Failed to start AOF rewrite'
+      });
+    }
+  };
+
+  const formatRewriteStatus = (node: AOFStatus): string => {
+    if (node.rewriteInProgress) return 'Rewriting...';
+    if (!node.lastRewrite) return 'Never rewritten';
+    if (node.lastRewrite.status === 'err') return `Failed: ${node.lastRewrite.error}`;
+    return `OK in ${node.lastRewrite.durationMs}ms (${new Date(node.lastRewrite.startedAt).toLocaleTimeString()})`;
+  };
+
+  const getSaveStatus = (node: string): RDBSaveStatus | undefined =>
+    persistenceStatus?.rdb?.find(status => status.node === node);
+
+  const formatBgsaveStatus = (status: RDBSaveStatus): string => {
+    const parts: string[] = [];
+    if (status.bgsaveInProgress) {
+      parts.push('in progress');
+    } else if (status.lastBgsaveStatus === 'err') {
+      parts.push(`last run failed (${status.lastBgsaveError})`);
+    } else if (status.lastBgsaveStatus === 'ok') {
+      parts.push(`last run ok in ${status.lastBgsaveDurationMs}ms`);
+    } else {
+      parts.push('not run yet');
+    }
+    parts.push(`${status.bgsaveCount} saves, avg ${status.avgBgsaveMs ?? 0}ms`);
+    parts.push(`${status.changesSinceLastSave} unsaved changes`);
+    parts.push(status.workerAvailable ? `worker pid ${status.workerPid}` : 'worker unavailable (blocking saves)');
+    return parts.join(' · ');
+  };
+
   const formatLastSaveTime = (lastSaveTime: Date | null): string => {
     if (!lastSaveTime) return 'Never';
     const now = new Date();
@@ -170,6 +471,18 @@ const RDBPersistence: React.FC = () => {
     return () => clearInterval(interval);
   }, []);
 
+  // Follow a running AOF rewrite closely until it finishes
+  useEffect(() => {
+    if (!aofRewriting) return;
+    const interval = setInterval(async () => {
+      const response = await apiService.getPersistenceStatus();
+      if (response.success && response.data) {
+        setPersistenceStatus(response.data);
+      }
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [aofRewriting]);
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -225,7 +538,9 @@ const RDBPersistence: React.FC = () => {
                 {persistenceStatus?.autoSaveEnabled ? 'Enabled' : 'Disabled'}
               </h3>
               <p className="text-xs text-gray-500 dark:text-gray-400">
-                Every {persistenceStatus ? formatAutoSaveInterval(persistenceStatus.autoSaveInterval) : 'N/A'}
+                {persistenceStatus?.autoSaveEnabled
+                  ? persistenceStatus.savePoints.map(({ seconds, changes }) => `after ${seconds}s if ${changes}+ writes`).join(', ')
+                  : 'N/A'}
               </p>
             </div>
             <Activity className="w-8 h-8 text-blue-500 opacity-50" />
@@ -287,16 +602,29 @@ const RDBPersistence: React.FC = () => {
         
         <div className="flex flex-col sm:flex-row gap-4">
           <button
-            onClick={handleManualSave}
-            disabled={saving}
+            onClick={() => handleManualSave('save')}
+            disabled={saving !== null}
             className="btn-primary flex items-center gap-2"
           >
-            {saving ? (
+            {saving === 'save' ? (
               <RefreshCw className="w-4 h-4 animate-spin" />
             ) : (
               <Save className="w-4 h-4" />
             )}
-            {saving ? 'Saving...' : 'Save to Disk'}
+            {saving === 'save' ? 'Saving...' : 'Save to Disk (SAVE)'}
+          </button>
+
+          <button
+            onClick={() => handleManualSave('bgsave')}
+            disabled={saving !== null}
+            className="btn-secondary flex items-center gap-2"
+          >
+            {saving === 'bgsave' ? (
+              <RefreshCw className="w-4 h-4 animate-spin" />
+            ) : (
+              <Activity className="w-4 h-4" />
+            )}
+            {saving === 'bgsave' ? 'Saving in background...' : 'Background Save (BGSAVE)'}
           </button>
           
           <button
@@ -319,15 +647,292 @@ const RDBPersistence: React.FC = () => {
             <div className="text-sm text-gray-600 dark:text-gray-400">
               <p className="font-medium mb-1">Manual Operations:</p>
               <ul className="space-y-1 text-xs">
-                <li>• <strong>Save to Disk:</strong> Immediately saves current data to RDB files</li>
+                <li>• <strong>SAVE:</strong> Each node writes its RDB file in the server process, blocking other commands until it is done</li>
+                <li>• <strong>BGSAVE:</strong> Each node hands a point-in-time snapshot to its RDB child process, which writes the file and reports back how long it took</li>
                 <li>• <strong>Load from Disk:</strong> Loads data from existing RDB files (overwrites current data)</li>
-                <li>• Auto-save runs every {persistenceStatus ? formatAutoSaveInterval(persistenceStatus.autoSaveInterval) : 'N/A'} automatically</li>
+                <li>• Auto-save runs a BGSAVE once a save point is reached: at most every {persistenceStatus ? formatAutoSaveInterval(persistenceStatus.autoSaveInterval) : 'N/A'} while there are unsaved writes, sooner under heavy write load</li>
+              </ul>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Append-Only File */}
+      <div className="card">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <ScrollText className="w-5 h-5" />
+            Append-Only File (AOF)
+            <span className={`px-2 py-1 text-xs rounded ${
+              aofEnabled
+                ? 'bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
+            }`}>
+              {aofEnabled ? 'Enabled' : 'Disabled'}
+            </span>
+          </h2>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={aofFsyncPolicy}
+              onChange={(e) => handleConfigureAof(undefined, e.target.value as FsyncPolicy)}
+              disabled={updatingAof}
+              className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+              title="appendfsync"
+            >
+              <option value="always">fsync: always</option>
+              <option value="everysec">fsync: everysec</option>
+              <option value="no">fsync: no</option>
+            </select>
+            <button
+              onClick={() => handleConfigureAof(!aofEnabled)}
+              disabled={updatingAof}
+              className={aofEnabled ? 'btn-secondary' : 'btn-primary'}
+            >
+              {aofEnabled ? 'Disable AOF' : 'Enable AOF'}
+            </button>
+            <button
+              onClick={handleRewriteAof}
+              disabled={aofRewriting}
+              className="btn-secondary flex items-center gap-2"
+            >
+              {aofRewriting ? (
+                <RefreshCw className="w-4 h-4 animate-spin" />
+              ) : (
+                <Minimize2 className="w-4 h-4" />
+              )}
+              {aofRewriting ? 'Rewriting...' : 'BGREWRITEAOF'}
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {aofNodes.map((node) => (
+            <div
+              key={node.node}
+              className="border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+            >
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Node</p>
+                  <p className="font-medium text-gray-900 dark:text-white">{node.node}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">AOF Size</p>
+                  <p className="font-medium text-gray-900 dark:text-white">{node.sizeFormatted}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Growth Since Rewrite</p>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {node.baseSize > 0 ? `${Math.round(((node.size - node.baseSize) / node.baseSize) * 100)}%` : 'N/A'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Last fsync</p>
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {node.lastFsync ? new Date(node.lastFsync).toLocaleTimeString() : 'Never'}
+                    {node.pendingFsync && <span className="text-xs text-yellow-600 dark:text-yellow-400 ml-1">(pending)</span>}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500 dark:text-gray-400">Rewrite Status</p>
+                  <p className={`font-medium ${
+                    node.lastRewrite?.status === 'err' ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'
+                  }`}>
+                    {formatRewriteStatus(node)}
+                  </p>
+                </div>
+              </div>
+              <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                <strong>Path:</strong> {node.filePath}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <div className="flex items-start gap-3">
+            <Info className="w-5 h-5 text-blue-500 mt-0.5 flex-shrink-0" />
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              <ul className="space-y-1 text-xs">
+                <li>• With AOF enabled every write is appended to the log instead of rewriting the RDB file, and the log is replayed on startup</li>
+                <li>• <strong>always</strong> fsyncs after every write, <strong>everysec</strong> once per second, <strong>no</strong> leaves it to the OS</li>
+                <li>• <strong>BGREWRITEAOF</strong> compacts the log in the background; it also runs automatically once the log doubles in size</li>
               </ul>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Snapshot History */}
+      <div className="card">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Snapshot History
+            <span className="px-2 py-1 text-xs rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+              Keeping {history?.retention ?? 'N/A'} per node
+            </span>
+          </h2>
+
+          <div className="flex items-center gap-3">
+            <input
+              type="number"
+              min={1}
+              value={retentionInput}
+              onChange={(e) => setRetentionInput(e.target.value)}
+              placeholder={history?.retention ? String(history.retention) : 'Retention'}
+              className="w-28 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 text-sm"
+              title="Generations kept per node"
+            />
+            <button
+              onClick={handleSetRetention}
+              disabled={!retentionInput || historyBusy !== null}
+              className="btn-secondary"
+            >
+              Set Retention
+            </button>
+          </div>
+        </div>
+
+        {timeline.length === 0 ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400">
+            No snapshot generations yet. Every SAVE / BGSAVE is kept here, as well as an automatic save every few minutes.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Timeline */}
+            <div className="max-h-96 overflow-y-auto pr-2">
+              <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2">
+                {timeline.map((entry) => (
+                  <li key={`${entry.node}-${entry.id}`} className="mb-3 ml-4">
+                    <span className={`absolute -left-1.5 mt-2 w-3 h-3 rounded-full border border-white dark:border-gray-900 ${
+                      entry.corrupted ? 'bg-red-500' : entry.manual ? 'bg-blue-500' : 'bg-gray-400'
+                    }`}></span>
+                    <button
+                      onClick={() => selectGeneration(entry)}
+                      disabled={entry.corrupted}
+                      className={`w-full text-left p-2 rounded-lg border text-sm ${
+                        isSelected(entry)
+                          ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                          : 'border-transparent hover:bg-gray-50 dark:hover:bg-gray-800'
+                      }`}
+                    >
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900 dark:text-white">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </span>
+                        <span className="px-2 py-0.5 text-xs rounded bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+                          {entry.node}
+                        </span>
+                        <span className={`px-2 py-0.5 text-xs rounded ${
+                          entry.manual
+                            ? 'bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-200'
+                            : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'
+                        }`}>
+                          {entry.manual ? 'manual' : 'auto'}
+                        </span>
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {entry.corrupted
+                          ? `Corrupted: ${entry.error}`
+                          : `${(entry.keyCount ?? 0).toLocaleString()} keys · ${entry.sizeFormatted}`}
+                      </div>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {/* Selected generation: dry-run diff and restore */}
+            <div>
+              {selection ? (
+                <div className="space-y-4">
+                  <div className="text-sm text-gray-600 dark:text-gray-400">
+                    <p>
+                      <strong>Selected:</strong> {new Date(selection.timestamp).toLocaleString()} ({selection.node})
+                    </p>
+                    <label className="flex items-center gap-2 mt-2">
+                      <input
+                        type="checkbox"
+                        checked={selection.wholeCluster}
+                        onChange={(e) => {
+                          setSelection({ ...selection, wholeCluster: e.target.checked });
+                          setDiffResults(null);
+                        }}
+                      />
+                      Whole cluster at this point in time (each node's newest generation at or before it)
+                    </label>
+                  </div>
+
+                  <div className="flex gap-3">
+                    <button
+                      onClick={handlePreviewDiff}
+                      disabled={historyBusy !== null}
+                      className="btn-secondary flex items-center gap-2"
+                    >
+                      {historyBusy === 'diff' ? <RefreshCw className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+                      Preview Diff (dry run)
+                    </button>
+                    <button
+                      onClick={handleRestoreSnapshot}
+                      disabled={historyBusy !== null}
+                      className="btn-primary flex items-center gap-2"
+                    >
+                      {historyBusy === 'restore' ? <RefreshCw className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                      Restore
+                    </button>
+                  </div>
+
+                  {diffResults && (
+                    <div className="space-y-3">
+                      {diffResults.map((result) => (
+                        <div key={result.node} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 text-sm">
+                          <div className="flex items-center justify-between mb-2">
+                            <span className="font-medium text-gray-900 dark:text-white">{result.node}</span>
+                            {result.generation && (
+                              <span className="text-xs text-gray-500 dark:text-gray-400">
+                                vs {new Date(result.generation.createdAt).toLocaleString()}
+                              </span>
+                            )}
+                          </div>
+                          {result.skipped ? (
+                            <p className="text-xs text-yellow-600 dark:text-yellow-400">Skipped: {result.reason}</p>
+                          ) : (
+                            <>
+                              <div className="grid grid-cols-4 gap-2 text-xs mb-2">
+                                <span className="text-green-600 dark:text-green-400">+{result.addedCount} restored</span>
+                                <span className="text-red-600 dark:text-red-400">-{result.removedCount} removed</span>
+                                <span className="text-yellow-600 dark:text-yellow-400">~{result.changedCount} changed</span>
+                                <span className="text-gray-500 dark:text-gray-400">{result.unchanged} unchanged</span>
+                              </div>
+                              {[
+                                { label: 'Comes back', keys: result.added, total: result.addedCount, color: 'text-green-700 dark:text-green-300' },
+                                { label: 'Removed', keys: result.removed, total: result.removedCount, color: 'text-red-700 dark:text-red-300' },
+                                { label: 'Reverted', keys: result.changed, total: result.changedCount, color: 'text-yellow-700 dark:text-yellow-300' }
+                              ].filter(group => group.keys && group.keys.length > 0).map((group) => (
+                                <p key={group.label} className={`text-xs font-mono break-all ${group.color}`}>
+                                  <span className="font-sans font-medium">{group.label}:</span> {group.keys?.join(', ')}
+                                  {(group.total ?? 0) > (group.keys?.length ?? 0) && ` … and ${(group.total ?? 0) - (group.keys?.length ?? 0)} more`}
+                                </p>
+                              ))}
+                            </>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  Pick a generation on the timeline to compare it with the live data or restore it.
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* RDB Files Information */}
       <div className="card">
         <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
@@ -350,8 +955,21 @@ const RDBPersistence: React.FC = () => {
                     {file.node}
                   </h3>
                   {file.corrupted && (
-                    <span className="px-2 py-1 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-200 text-xs rounded">
-                      Corrupted
+                    <span
+                      className="px-2 py-1 bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-200 text-xs rounded"
+                      title={file.corruptionReason || undefined}
+                    >
+                      Corrupted{file.corruptionReason ? `: ${file.corruptionReason}` : ''}
+                    </span>
+                  )}
+                  {file.exists && !file.corrupted && (
+                    <span className="px-2 py-1 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 text-xs rounded">
+                      {file.formatVersion ? `v${file.formatVersion}, checksum verified` : 'legacy format (no checksum)'}
+                    </span>
+                  )}
+                  {file.loadedFrom && file.loadedFrom !== file.filePath && (
+                    <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900/20 text-yellow-800 dark:text-yellow-200 text-xs rounded">
+                      Recovered from previous generation
                     </span>
                   )}
                 </div>
@@ -394,6 +1012,12 @@ const RDBPersistence: React.FC = () => {
               <div className="mt-2 text-xs text-gray-500 dark:text-gray-400">
                 <strong>Path:</strong> {file.filePath}
               </div>
+
+              {getSaveStatus(file.node) && (
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  <strong>BGSAVE:</strong> {formatBgsaveStatus(getSaveStatus(file.node) as RDBSaveStatus)}
+                </div>
+              )}
             </div>
           ))}
         </div>
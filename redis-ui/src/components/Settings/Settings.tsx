@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   Save, 
   RefreshCw, 
@@ -14,10 +14,12 @@ import {
   AlertCircle
 } from 'lucide-react';
 import { useAppStore } from '../../store';
+import { apiService } from '../../services/api';
+import { EvictionPolicy } from '../../types';
 
 interface RedisConfig {
   maxMemory: string;
-  maxMemoryPolicy: string;
+  maxMemoryPolicy: EvictionPolicy;
   timeout: number;
   databases: number;
   port: number;
@@ -27,7 +29,7 @@ interface RedisConfig {
 }
 
 const Settings: React.FC = () => {
-  const { theme, setTheme } = useAppStore();
+  const { theme, setTheme, addNotification } = useAppStore();
   
   const toggleTheme = () => {
     setTheme(theme === 'dark' ? 'light' : 'dark');
@@ -35,7 +37,7 @@ const Settings: React.FC = () => {
   
   const [activeTab, setActiveTab] = useState<'redis' | 'app' | 'security' | 'monitoring'>('redis');
   const [redisConfig, setRedisConfig] = useState<RedisConfig>({
-    maxMemory: '2gb',
+    maxMemory: '1mb',
     maxMemoryPolicy: 'allkeys-lru',
     timeout: 300,
     databases: 16,
@@ -54,7 +56,28 @@ const Settings: React.FC = () => {
     maxKeysDisplay: 100
   });
 
-  const memoryPolicies = [
+  // maxmemory and maxmemory-policy are live: read from and applied to the
+  // cluster, on every node or only on policyNode
+  const [nodeNames, setNodeNames] = useState<string[]>([]);
+  const [policyNode, setPolicyNode] = useState('');
+
+  useEffect(() => {
+    apiService.getEvictionStatus().then(response => {
+      if (response.success && response.data) setNodeNames(response.data.map(status => status.node));
+    });
+  }, []);
+
+  useEffect(() => {
+    apiService.getConfig(policyNode || undefined).then(response => {
+      const config: Record<string, string> = response.success && response.data ? response.data : {};
+      const policy = config['maxmemory-policy'];
+      const maxMemory = config['maxmemory'];
+      if (policy) setRedisConfig(prev => ({ ...prev, maxMemoryPolicy: policy as EvictionPolicy }));
+      if (maxMemory) setRedisConfig(prev => ({ ...prev, maxMemory }));
+    });
+  }, [policyNode]);
+
+  const memoryPolicies: EvictionPolicy[] = [
     'noeviction',
     'allkeys-lru',
     'volatile-lru',
@@ -72,10 +95,25 @@ const Settings: React.FC = () => {
     { id: 'monitoring', label: 'Monitoring', icon: Bell }
   ];
 
-  const handleSaveRedisConfig = () => {
-    // In a real app, this would save to backend
+  const handleSaveRedisConfig = async () => {
+    // Only maxmemory and the eviction policy are applied to the server; the rest is local
     console.log('Saving Redis config:', redisConfig);
-    // Show success notification
+    const node = policyNode || undefined;
+    const memoryResponse = await apiService.setConfig({ parameter: 'maxmemory', value: redisConfig.maxMemory, node });
+    const response = memoryResponse.success
+      ? await apiService.setConfig({ parameter: 'maxmemory-policy', value: redisConfig.maxMemoryPolicy, node })
+      : memoryResponse;
+    addNotification({
+      type: response.success ? 'success' : 'error',
+      title: response.success ? 'Memory Limit Applied' : 'CONFIG SET Failed',
+      message: response.success
+        ? `maxmemory ${memoryResponse.data?.value} bytes, maxmemory-policy ${response.data?.value} on ${policyNode || 'all nodes'}`
+        : response.error || 'Failed to set maxmemory',
+    });
+    if (memoryResponse.success && memoryResponse.data) {
+      const { value } = memoryResponse.data;
+      setRedisConfig(prev => ({ ...prev, maxMemory: value }));
+    }
   };
 
   const handleSaveAppSettings = () => {
@@ -146,7 +184,7 @@ const Settings: React.FC = () => {
               type="text"
               value={redisConfig.maxMemory}
               onChange={(e) => setRedisConfig({ ...redisConfig, maxMemory: e.target.value })}
-              placeholder="e.g., 2gb, 1024mb"
+              placeholder="e.g., 2gb, 1024mb, 0 for no limit"
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
             />
           </div>
@@ -157,7 +195,7 @@ const Settings: React.FC = () => {
             </label>
             <select
               value={redisConfig.maxMemoryPolicy}
-              onChange={(e) => setRedisConfig({ ...redisConfig, maxMemoryPolicy: e.target.value })}
+              onChange={(e) => setRedisConfig({ ...redisConfig, maxMemoryPolicy: e.target.value as EvictionPolicy })}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
             >
               {memoryPolicies.map(policy => (
@@ -166,6 +204,22 @@ const Settings: React.FC = () => {
             </select>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Apply Policy To
+            </label>
+            <select
+              value={policyNode}
+              onChange={(e) => setPolicyNode(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            >
+              <option value="">All nodes</option>
+              {nodeNames.map(node => (
+                <option key={node} value={node}>{node}</option>
+              ))}
+            </select>
+          </div>
+
           <div className="border-t pt-4">
             <div className="flex items-center justify-between">
               <div>
@@ -0,0 +1,240 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ListOrdered, Plus, RefreshCw, Play, Pause } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAppStore } from '../../store';
+import { StreamEntry, StreamInfo, StreamSummary } from '../../types';
+import StreamGroups from './StreamGroups';
+import StreamEntryFields from './StreamEntryFields';
+
+const PAGE_SIZE = 50;
+const TAIL_BLOCK_MS = 5000;
+
+// "field=value" lines -> { field: value }
+const parseFields = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text.split('\n')
+      .map(line => line.trim())
+      .filter(line => line.includes('='))
+      .map(line => [line.slice(0, line.indexOf('=')).trim(), line.slice(line.indexOf('=') + 1).trim()])
+  );
+
+const StreamBrowser: React.FC = () => {
+  const { addNotification } = useAppStore();
+  const [streams, setStreams] = useState<StreamSummary[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [info, setInfo] = useState<StreamInfo | null>(null);
+  const [entries, setEntries] = useState<StreamEntry[]>([]);
+  const [tailing, setTailing] = useState(false);
+  const [newKey, setNewKey] = useState('');
+  const [newFields, setNewFields] = useState('');
+  const [maxLen, setMaxLen] = useState('');
+  const lastIdRef = useRef('0-0');
+
+  const fetchStreams = useCallback(async () => {
+    const response = await apiService.getStreams();
+    if (response.success && response.data) setStreams(response.data);
+  }, []);
+
+  const fetchStream = useCallback(async (key: string) => {
+    const [infoResponse, rangeResponse] = await Promise.all([
+      apiService.xinfo(key),
+      apiService.xrange(key, { rev: true, count: PAGE_SIZE }),
+    ]);
+    if (infoResponse.success && infoResponse.data) {
+      setInfo(infoResponse.data);
+      lastIdRef.current = infoResponse.data.lastGeneratedId;
+    }
+    if (rangeResponse.success && rangeResponse.data) setEntries(rangeResponse.data);
+  }, []);
+
+  useEffect(() => {
+    fetchStreams();
+  }, [fetchStreams]);
+
+  useEffect(() => {
+    if (selectedKey) fetchStream(selectedKey);
+  }, [selectedKey, fetchStream]);
+
+  // Live tail: a blocking XREAD after the newest ID seen, again and again
+  useEffect(() => {
+    if (!tailing || !selectedKey) return;
+    let active = true;
+    const tail = async () => {
+      while (active) {
+        const response = await apiService.xread(selectedKey, lastIdRef.current, { block: TAIL_BLOCK_MS });
+        if (!active) break;
+        if (response.success && response.data && response.data.length > 0) {
+          const added = response.data;
+          lastIdRef.current = added[added.length - 1].id;
+          setEntries(prev => [...added.slice().reverse(), ...prev].slice(0, PAGE_SIZE * 4));
+          setInfo(prev => prev && { ...prev, length: prev.length + added.length, lastGeneratedId: lastIdRef.current });
+        } else if (!response.success) {
+          await new Promise(resolve => setTimeout(resolve, 2000));
+        }
+      }
+    };
+    tail();
+    return () => {
+      active = false;
+    };
+  }, [tailing, selectedKey]);
+
+  const handleAdd = async () => {
+    const key = newKey.trim() || selectedKey;
+    const fields = parseFields(newFields);
+    if (!key || Object.keys(fields).length === 0) {
+      addNotification({ type: 'error', title: 'Invalid Entry', message: 'Enter a stream key and at least one field=value line' });
+      return;
+    }
+
+    const response = await apiService.xadd(key, fields, maxLen.trim() ? { maxLen: Number(maxLen) } : {});
+    if (response.success) {
+      setNewFields('');
+      addNotification({ type: 'success', title: 'Entry Added', message: `${key} ${response.data}` });
+      await fetchStreams();
+      if (key === selectedKey) {
+        if (!tailing) fetchStream(key);
+      } else {
+        setSelectedKey(key);
+      }
+    } else {
+      addNotification({ type: 'error', title: 'XADD Failed', message: response.error || 'Failed to add entry' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white flex items-center gap-3">
+            <ListOrdered className="text-purple-500" size={32} />
+            Stream Browser
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Append-only streams with consumer groups: entries, pending lists and acknowledgements
+          </p>
+        </div>
+        <button onClick={fetchStreams} className="btn-secondary flex items-center gap-2">
+          <RefreshCw size={16} />
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Stream list and XADD */}
+        <div className="space-y-6">
+          <div className="card">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-3">Streams</h2>
+            {streams.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">No streams yet. Add an entry to create one.</p>
+            ) : (
+              <div className="space-y-2">
+                {streams.map(stream => (
+                  <button
+                    key={stream.key}
+                    onClick={() => setSelectedKey(stream.key)}
+                    className={`w-full text-left p-2 rounded-lg border ${
+                      selectedKey === stream.key
+                        ? 'border-purple-500 bg-purple-50 dark:bg-purple-900/20'
+                        : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    }`}
+                  >
+                    <div className="font-mono text-sm text-gray-900 dark:text-white">{stream.key}</div>
+                    <div className="text-xs text-gray-600 dark:text-gray-400">
+                      {stream.length} entries • {stream.groups} groups • {stream.node}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="card space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Add Entry</h2>
+            <input
+              type="text"
+              value={newKey}
+              onChange={(e) => setNewKey(e.target.value)}
+              placeholder={selectedKey || 'Stream key'}
+              className="input-field w-full"
+            />
+            <textarea
+              value={newFields}
+              onChange={(e) => setNewFields(e.target.value)}
+              placeholder={'field=value\nother=value'}
+              rows={4}
+              className="input-field w-full font-mono text-sm"
+            />
+            <input
+              type="number"
+              min="0"
+              value={maxLen}
+              onChange={(e) => setMaxLen(e.target.value)}
+              placeholder="MAXLEN (optional)"
+              className="input-field w-full"
+            />
+            <button onClick={handleAdd} className="btn-primary w-full flex items-center justify-center gap-2">
+              <Plus size={16} />
+              XADD
+            </button>
+          </div>
+        </div>
+
+        {/* Selected stream */}
+        <div className="lg:col-span-3 space-y-6">
+          {!selectedKey || !info ? (
+            <div className="card text-center text-gray-600 dark:text-gray-400 py-12">
+              Select a stream to browse its entries and consumer groups
+            </div>
+          ) : (
+            <>
+              <div className="card">
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-xl font-semibold text-gray-900 dark:text-white font-mono">{selectedKey}</h2>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {info.length} entries • last ID {info.lastGeneratedId}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setTailing(!tailing)}
+                      className={`${tailing ? 'btn-primary' : 'btn-secondary'} flex items-center gap-2`}
+                      title="Follow new entries with a blocking XREAD"
+                    >
+                      {tailing ? <Pause size={16} /> : <Play size={16} />}
+                      {tailing ? 'Stop tail' : 'Live tail'}
+                    </button>
+                    <button onClick={() => fetchStream(selectedKey)} className="btn-secondary flex items-center gap-2">
+                      <RefreshCw size={16} />
+                    </button>
+                  </div>
+                </div>
+
+                <div className="space-y-1 max-h-96 overflow-y-auto">
+                  {entries.length === 0 ? (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">The stream is empty</p>
+                  ) : entries.map(entry => (
+                    <div key={entry.id} className="flex items-start gap-4 p-2 border-b border-gray-100 dark:border-gray-700">
+                      <span className="font-mono text-xs text-gray-600 dark:text-gray-400 w-40 shrink-0">{entry.id}</span>
+                      <StreamEntryFields fields={entry.fields} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <StreamGroups
+                streamKey={selectedKey}
+                groups={info.groups}
+                onChange={() => fetchStream(selectedKey)}
+              />
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StreamBrowser;
@@ -0,0 +1,19 @@
+import React from 'react';
+
+// an entry's [field, value, ...] list as field=value chips
+const StreamEntryFields: React.FC<{ fields: string[] | null }> = ({ fields }) => {
+  if (!fields) return <span className="text-gray-500 italic">deleted</span>;
+  const pairs = [];
+  for (let i = 0; i < fields.length; i += 2) pairs.push([fields[i], fields[i + 1]]);
+  return (
+    <span className="flex flex-wrap gap-2">
+      {pairs.map(([field, value], index) => (
+        <span key={index} className="px-2 py-0.5 bg-gray-100 dark:bg-gray-700 rounded font-mono text-xs">
+          <span className="text-purple-600 dark:text-purple-400">{field}</span>={value}
+        </span>
+      ))}
+    </span>
+  );
+};
+
+export default StreamEntryFields;
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, Plus, Trash2, Download, Check, UserCheck } from 'lucide-react';
+import { apiService } from '../../services/api';
+import { useAppStore } from '../../store';
+import { StreamEntry, StreamGroup, StreamPending } from '../../types';
+import StreamEntryFields from './StreamEntryFields';
+
+interface StreamGroupsProps {
+  streamKey: string;
+  groups: StreamGroup[];
+  onChange: () => void;
+}
+
+const formatIdle = (ms: number): string => (ms < 1000 ? `${ms}ms` : `${Math.round(ms / 1000)}s`);
+
+// Consumer groups of one stream: read as a consumer (XREADGROUP), then
+// acknowledge (XACK) or take over (XCLAIM) what is pending
+const StreamGroups: React.FC<StreamGroupsProps> = ({ streamKey, groups, onChange }) => {
+  const { addNotification } = useAppStore();
+  const [newGroup, setNewGroup] = useState('');
+  const [startId, setStartId] = useState('$');
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  const [consumer, setConsumer] = useState('consumer-1');
+  const [delivered, setDelivered] = useState<StreamEntry[]>([]);
+  const [pending, setPending] = useState<StreamPending | null>(null);
+
+  const fetchPending = useCallback(async (group: string) => {
+    const response = await apiService.xpending(streamKey, group);
+    if (response.success && response.data) setPending(response.data);
+  }, [streamKey]);
+
+  useEffect(() => {
+    setDelivered([]);
+    setPending(null);
+    if (selectedGroup && groups.some(group => group.name === selectedGroup)) {
+      fetchPending(selectedGroup);
+    } else {
+      setSelectedGroup(null);
+    }
+  }, [selectedGroup, groups, fetchPending]);
+
+  const report = (ok: boolean, title: string, message: string) => {
+    addNotification({ type: ok ? 'success' : 'error', title, message });
+  };
+
+  const handleCreate = async () => {
+    if (!newGroup.trim()) return;
+    const response = await apiService.xgroup(streamKey, 'create', { group: newGroup.trim(), id: startId.trim() || '$' });
+    report(response.success, response.success ? 'Group Created' : 'XGROUP CREATE Failed', response.success ? newGroup : response.error || '');
+    if (response.success) {
+      setSelectedGroup(newGroup.trim());
+      setNewGroup('');
+      onChange();
+    }
+  };
+
+  const handleDestroy = async (group: string) => {
+    const response = await apiService.xgroup(streamKey, 'destroy', { group });
+    report(response.success, response.success ? 'Group Destroyed' : 'XGROUP DESTROY Failed', response.success ? group : response.error || '');
+    if (response.success) onChange();
+  };
+
+  const handleRead = async (group: string) => {
+    const response = await apiService.xreadgroup(streamKey, group, consumer, { count: 10 });
+    if (!response.success || !response.data) {
+      report(false, 'XREADGROUP Failed', response.error || '');
+      return;
+    }
+    setDelivered(response.data);
+    if (response.data.length === 0) report(true, 'Nothing New', `No undelivered entries for group ${group}`);
+    fetchPending(group);
+    onChange();
+  };
+
+  const handleAck = async (group: string, ids: string[]) => {
+    const response = await apiService.xack(streamKey, group, ids);
+    report(response.success, response.success ? 'Acknowledged' : 'XACK Failed', response.success ? `${response.data} entries` : response.error || '');
+    setDelivered(prev => prev.filter(entry => !ids.includes(entry.id)));
+    fetchPending(group);
+    onChange();
+  };
+
+  const handleClaim = async (group: string, ids: string[]) => {
+    const response = await apiService.xclaim(streamKey, group, consumer, ids);
+    report(response.success, response.success ? 'Claimed' : 'XCLAIM Failed', response.success ? `${response.data?.length ?? 0} entries to ${consumer}` : response.error || '');
+    fetchPending(group);
+    onChange();
+  };
+
+  return (
+    <div className="card space-y-4">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+        <Users size={20} className="text-purple-500" />
+        Consumer Groups
+      </h2>
+
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={newGroup}
+          onChange={(e) => setNewGroup(e.target.value)}
+          placeholder="Group name"
+          className="input-field flex-1"
+        />
+        <input
+          type="text"
+          value={startId}
+          onChange={(e) => setStartId(e.target.value)}
+          placeholder="Start ID ($ = new only, 0 = all)"
+          title="Deliver entries after this ID: $ for new entries only, 0 for the whole stream"
+          className="input-field w-40 font-mono"
+        />
+        <button onClick={handleCreate} className="btn-primary flex items-center gap-2">
+          <Plus size={16} />
+          Create Group
+        </button>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No consumer groups on this stream</p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(group => (
+            <div key={group.name} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+              <div className="flex justify-between items-center p-3">
+                <button
+                  onClick={() => setSelectedGroup(selectedGroup === group.name ? null : group.name)}
+                  className="text-left"
+                >
+                  <div className="font-medium text-gray-900 dark:text-white">{group.name}</div>
+                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                    {group.consumers} consumers • {group.pending} pending • last delivered {group.lastDeliveredId}
+                  </div>
+                </button>
+                <button
+                  onClick={() => handleDestroy(group.name)}
+                  className="text-red-600 hover:text-red-700 dark:text-red-400"
+                  title="XGROUP DESTROY"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              {selectedGroup === group.name && (
+                <div className="border-t border-gray-200 dark:border-gray-700 p-3 space-y-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <input
+                      type="text"
+                      value={consumer}
+                      onChange={(e) => setConsumer(e.target.value)}
+                      placeholder="Consumer name"
+                      className="input-field w-48"
+                    />
+                    <button onClick={() => handleRead(group.name)} className="btn-secondary flex items-center gap-2">
+                      <Download size={16} />
+                      Read new as consumer
+                    </button>
+                  </div>
+
+                  {group.consumerList.length > 0 && (
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {group.consumerList.map(member => (
+                        <span key={member.name} className="px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded">
+                          {member.name}: {member.pending} pending, idle {formatIdle(member.idleMs)}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+
+                  {delivered.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Delivered to {consumer}</h4>
+                      {delivered.map(entry => (
+                        <div key={entry.id} className="flex items-center gap-3 p-2 border-b border-gray-100 dark:border-gray-700">
+                          <span className="font-mono text-xs text-gray-600 dark:text-gray-400 w-40 shrink-0">{entry.id}</span>
+                          <StreamEntryFields fields={entry.fields} />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  <div>
+                    <div className="flex justify-between items-center mb-2">
+                      <h4 className="text-sm font-medium text-gray-900 dark:text-white">
+                        Pending entries ({pending ? pending.summary.count : 0})
+                      </h4>
+                      {pending && pending.entries.length > 0 && (
+                        <button
+                          onClick={() => handleAck(group.name, pending.entries.map(entry => entry.id))}
+                          className="text-sm text-green-600 hover:text-green-700 dark:text-green-400"
+                        >
+                          Ack all shown
+                        </button>
+                      )}
+                    </div>
+                    {pending && pending.entries.length > 0 ? (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-600 dark:text-gray-400">
+                            <th className="py-1">ID</th>
+                            <th>Consumer</th>
+                            <th>Idle</th>
+                            <th>Deliveries</th>
+                            <th />
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {pending.entries.map(entry => (
+                            <tr key={entry.id} className="border-t border-gray-100 dark:border-gray-700 text-gray-900 dark:text-gray-100">
+                              <td className="py-1 font-mono text-xs">{entry.id}</td>
+                              <td>{entry.consumer}</td>
+                              <td>{formatIdle(entry.idleMs)}</td>
+                              <td>{entry.deliveries}</td>
+                              <td className="flex gap-2 justify-end py-1">
+                                <button
+                                  onClick={() => handleAck(group.name, [entry.id])}
+                                  className="text-green-600 hover:text-green-700 dark:text-green-400"
+                                  title="XACK"
+                                >
+                                  <Check size={16} />
+                                </button>
+                                {entry.consumer !== consumer && (
+                                  <button
+                                    onClick={() => handleClaim(group.name, [entry.id])}
+                                    className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
+                                    title={`XCLAIM for ${consumer}`}
+                                  >
+                                    <UserCheck size={16} />
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ) : (
+                      <p className="text-sm text-gray-600 dark:text-gray-400">Nothing pending</p>
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreamGroups;
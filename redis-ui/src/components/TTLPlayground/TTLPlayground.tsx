@@ -1,9 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useAppStore } from '../../store';
 import { Timer, RotateCcw, Plus, Trash2, Clock, Database, ChevronLeft, ChevronRight } from 'lucide-react';
 import { apiService } from '../../services/api';
 import { TTLEntry } from '../../types';
 import TTLKeyCard from './TTLKeyCard';
+import KeyspaceEventsNotice from '../Layout/KeyspaceEventsNotice';
+import { useKeyspaceEvents, KeyspaceEvent } from '../../hooks/useKeyspaceEvents';
+
+// keyevents that change which keys have a TTL, and the flags they need
+const TTL_EVENTS = ['set', 'expire', 'expired', 'del', 'rename_to', 'restore'];
+const TTL_EVENT_FLAGS = 'Eg$x';
 
 interface ApiTTLKey {
   key: string;
@@ -47,11 +53,33 @@ const TTLPlayground: React.FC = () => {
     }
   };
 
-  // Auto-refresh TTL keys every 30 seconds
   useEffect(() => {
     fetchTTLKeys();
-    const interval = setInterval(fetchTTLKeys, 30000);
-    return () => clearInterval(interval);
+  }, []);
+
+  // Keyspace notifications instead of polling: an expired key leaves the
+  // list at once, other TTL changes reload it (once per burst of events)
+  const reloadTimer = useRef<NodeJS.Timeout | null>(null);
+  const handleKeyspaceEvent = useCallback((event: KeyspaceEvent) => {
+    if (event.event === 'expired') {
+      setApiTTLKeys(prev => prev.filter(ttlKey => ttlKey.key !== event.key));
+      setLastFetch(event.timestamp);
+      return;
+    }
+    if (reloadTimer.current) return;
+    reloadTimer.current = setTimeout(async () => {
+      reloadTimer.current = null;
+      const response = await apiService.getTTLKeys();
+      if (response.success && response.data) {
+        setApiTTLKeys(response.data);
+        setLastFetch(new Date());
+      }
+    }, 500);
+  }, []);
+  const keyspaceEvents = useKeyspaceEvents(TTL_EVENTS, TTL_EVENT_FLAGS, handleKeyspaceEvent);
+
+  useEffect(() => () => {
+    if (reloadTimer.current) clearTimeout(reloadTimer.current);
   }, []);
 
   // Update TTL countdown
@@ -275,6 +303,13 @@ const TTLPlayground: React.FC = () => {
         </div>
       </div>
 
+      <KeyspaceEventsNotice
+        flags={keyspaceEvents.flags}
+        enabled={keyspaceEvents.enabled}
+        requiredFlags={TTL_EVENT_FLAGS}
+        onEnable={keyspaceEvents.enable}
+      />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <div className="card">
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiService } from '../services/api';
+import { listenToChannels } from '../services/websocket';
+
+export interface KeyspaceEvent {
+  event: string;
+  key: string;
+  timestamp: Date;
+}
+
+// notify-keyspace-events classes that the A flag stands for
+const ALL_CLASSES = 'g$lshzxet';
+
+const hasFlags = (current: string, required: string): boolean =>
+  required.split('').every(flag => current.includes(flag) || (current.includes('A') && ALL_CLASSES.includes(flag)));
+
+/**
+ * Subscribe to keyevent notifications (__keyevent@0__:<event>) for the given
+ * events instead of polling. requiredFlags are the notify-keyspace-events
+ * flags those events need; enable() adds whichever are missing.
+ */
+export const useKeyspaceEvents = (events: string[], requiredFlags: string, onEvent: (event: KeyspaceEvent) => void) => {
+  const [flags, setFlags] = useState<string | null>(null);
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  const eventList = events.join(' ');
+  useEffect(() => {
+    const patterns = eventList.split(' ').map(event => `__keyevent@0__:${event}`);
+    return listenToChannels(patterns, (message) => onEventRef.current({
+      event: message.channel.slice(message.channel.indexOf(':') + 1),
+      key: message.message,
+      timestamp: message.timestamp
+    }));
+  }, [eventList]);
+
+  useEffect(() => {
+    apiService.getConfig().then((response) => {
+      if (response.success && response.data) setFlags(response.data['notify-keyspace-events'] || '');
+    });
+  }, []);
+
+  const enable = useCallback(async () => {
+    const response = await apiService.setConfig({ parameter: 'notify-keyspace-events', value: `${flags || ''}${requiredFlags}` });
+    if (response.success && response.data) setFlags(response.data.value);
+    return response;
+  }, [flags, requiredFlags]);
+
+  return { flags, enabled: flags !== null && hasFlags(flags, requiredFlags), enable };
+};
@@ -1,5 +1,5 @@
 import axios from 'axios';
-import { RedisNode, ClusterStats, ApiResponse } from '../types';
+import { RedisNode, ClusterStats, ApiResponse, ZSetEntry, ClusterSlotMap, KeySlotInfo, ReshardStatus, SentinelStatus, ReplicationConsistencyReport, ChannelHistory, ChannelRetention, StreamEntry, StreamSummary, StreamInfo, StreamPending, ScriptList, NodeEvictionStatus, NodeMemoryStats, KeyMemoryUsage, NodeAccessList, KeyObjectInfo } from '../types';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:3001';
 
@@ -471,6 +471,593 @@ class ApiService {
     }
   }
 
+  // =========================
+  // Set Operations
+  // =========================
+
+  async sadd(key: string, members: string | string[]): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/sadd`, { members: ([] as string[]).concat(members) });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to sadd'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async srem(key: string, members: string | string[]): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/srem`, { members: ([] as string[]).concat(members) });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to srem'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async smembers(key: string): Promise<ApiResponse<string[]>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/smembers`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to smembers'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async sismember(key: string, member: string): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/sismember/${encodeURIComponent(member)}`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to sismember'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async scard(key: string): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/scard`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to scard'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async spop(key: string, count?: number): Promise<ApiResponse<string | string[]>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/spop`, { count });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to spop'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async srandmember(key: string, count?: number): Promise<ApiResponse<string | string[]>> {
+    try {
+      const url = count !== undefined
+        ? `/api/keys/${encodeURIComponent(key)}/srandmember?count=${count}`
+        : `/api/keys/${encodeURIComponent(key)}/srandmember`;
+      const response = await this.client.get(url);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to srandmember'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async setOperation(operation: 'sinter' | 'sunion' | 'sdiff', keys: string[]): Promise<ApiResponse<string[]>> {
+    try {
+      const response = await this.client.post(`/api/sets/${operation}`, { keys });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, `Failed to ${operation}`),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // =========================
+  // Sorted Set Operations
+  // =========================
+
+  async zadd(key: string, members: ZSetEntry | ZSetEntry[], options: { nx?: boolean; xx?: boolean; gt?: boolean; lt?: boolean; ch?: boolean } = {}): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/zadd`, { members: ([] as ZSetEntry[]).concat(members), ...options });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to add sorted set members'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async zincrby(key: string, member: string, increment: number): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/zincrby`, { member, increment });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to increment score'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async zrem(key: string, members: string | string[]): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/zrem`, { members: ([] as string[]).concat(members) });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to remove sorted set members'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async zrange(key: string, start = 0, stop = -1, rev = false): Promise<ApiResponse<ZSetEntry[]>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/zrange`, { params: { start, stop, rev } });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get sorted set range'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async zrangeByScore(key: string, min: string | number = '-inf', max: string | number = '+inf', options: { offset?: number; count?: number; rev?: boolean } = {}): Promise<ApiResponse<ZSetEntry[]>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/zrangebyscore`, { params: { min, max, ...options } });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get sorted set score range'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async zrank(key: string, member: string, rev = false): Promise<ApiResponse<number | null>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/zrank/${encodeURIComponent(member)}`, { params: { rev } });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get member rank'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async zscore(key: string, member: string): Promise<ApiResponse<number | null>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/zscore/${encodeURIComponent(member)}`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get member score'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async zcard(key: string): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/zcard`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get sorted set size'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // =========================
+  // Stream Operations
+  // =========================
+
+  async getStreams(): Promise<ApiResponse<StreamSummary[]>> {
+    try {
+      const response = await this.client.get('/api/streams');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get streams'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // fields as { field: value }; id defaults to "*" (generated)
+  async xadd(key: string, fields: Record<string, string>, options: { id?: string; maxLen?: number } = {}): Promise<ApiResponse<string>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/xadd`, { fields, ...options });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to add stream entry'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async xrange(key: string, options: { start?: string; end?: string; count?: number; rev?: boolean } = {}): Promise<ApiResponse<StreamEntry[]>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/xrange`, { params: options });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to read stream range'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // Entries after id; with block (ms) the server holds the request until
+  // entries arrive, so the request timeout is stretched to match
+  async xread(key: string, id: string, options: { count?: number; block?: number } = {}): Promise<ApiResponse<StreamEntry[]>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/xread`, {
+        params: { id, ...options },
+        timeout: options.block !== undefined ? options.block + 10000 : undefined,
+      });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to read stream'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async xinfo(key: string): Promise<ApiResponse<StreamInfo>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/xinfo`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get stream info'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async xgroup(key: string, action: 'create' | 'setid' | 'destroy' | 'createconsumer' | 'delconsumer', options: { group: string; id?: string; mkStream?: boolean; consumer?: string }): Promise<ApiResponse<string | number>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/xgroup`, { action, ...options });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to change consumer group'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async xreadgroup(key: string, group: string, consumer: string, options: { id?: string; count?: number; noAck?: boolean } = {}): Promise<ApiResponse<StreamEntry[]>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/xreadgroup`, { group, consumer, ...options });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to read from consumer group'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async xack(key: string, group: string, ids: string[]): Promise<ApiResponse<number>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/xack`, { group, ids });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to acknowledge entries'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async xpending(key: string, group: string, consumer?: string): Promise<ApiResponse<StreamPending>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/xpending`, { params: { group, consumer } });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get pending entries'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async xclaim(key: string, group: string, consumer: string, ids: string[], minIdleMs = 0): Promise<ApiResponse<StreamEntry[]>> {
+    try {
+      const response = await this.client.post(`/api/keys/${encodeURIComponent(key)}/xclaim`, { group, consumer, ids, minIdleMs });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to claim entries'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // =========================
+  // Scripting (EVAL)
+  // =========================
+
+  // The reply is what the script returned: null, a number, a string or a list
+  async evalScript(script: string, keys: string[] = [], args: string[] = []): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.post('/api/scripts/eval', { script, keys, args });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to run script'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async evalSha(sha: string, keys: string[] = [], args: string[] = []): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.post('/api/scripts/evalsha', { sha, keys, args });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to run script'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async scriptLoad(script: string): Promise<ApiResponse<{ sha: string }>> {
+    try {
+      const response = await this.client.post('/api/scripts/load', { script });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to load script'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async scriptExists(shas: string[]): Promise<ApiResponse<boolean[]>> {
+    try {
+      const response = await this.client.post('/api/scripts/exists', { shas });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to check scripts'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async scriptFlush(): Promise<ApiResponse<string>> {
+    try {
+      const response = await this.client.post('/api/scripts/flush');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to flush scripts'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async scriptKill(): Promise<ApiResponse<string>> {
+    try {
+      const response = await this.client.post('/api/scripts/kill');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to kill script'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async getScripts(): Promise<ApiResponse<ScriptList>> {
+    try {
+      const response = await this.client.get('/api/scripts');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get scripts'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
   // =========================
   // Pub/Sub Operations
   // =========================
@@ -509,6 +1096,43 @@ class ApiService {
     }
   }
 
+  // Retained messages of a channel, only those after `since` when given
+  async getChannelHistory(channel: string, since?: number): Promise<ApiResponse<ChannelHistory>> {
+    try {
+      const response = await this.client.get(`/api/pubsub/channels/${encodeURIComponent(channel)}/history`, {
+        params: since !== undefined ? { since } : undefined
+      });
+      return {
+        success: true,
+        data: response.data.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get channel history'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async setChannelRetention(channel: string, retention: ChannelRetention): Promise<ApiResponse<{ channel: string; retention: ChannelRetention | null }>> {
+    try {
+      const response = await this.client.put(`/api/pubsub/channels/${encodeURIComponent(channel)}/retention`, retention);
+      return {
+        success: true,
+        data: response.data.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to set channel retention'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
   // =========================
   // Server Information
   // =========================
@@ -605,9 +1229,96 @@ class ApiService {
     }
   }
 
-  async getClusterStats(): Promise<ApiResponse<ClusterStats>> {
+  async getClusterStats(): Promise<ApiResponse<ClusterStats>> {
+    try {
+      const response = await this.client.get('/api/cluster/stats');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get cluster stats'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async getClusterSlots(): Promise<ApiResponse<ClusterSlotMap>> {
+    try {
+      const response = await this.client.get('/api/cluster/slots');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get cluster slots'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async getKeySlot(key: string): Promise<ApiResponse<KeySlotInfo>> {
+    try {
+      const response = await this.client.get(`/api/cluster/keyslot/${encodeURIComponent(key)}`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get key slot'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // Adding or removing a node starts an online resharding; progress arrives
+  // over Socket.IO as 'cluster_reshard_progress'
+  async addClusterNode(name: string, options: { batchSize?: number; delayMs?: number } = {}): Promise<ApiResponse<ReshardStatus>> {
+    try {
+      const response = await this.client.post('/api/cluster/nodes', { name, ...options });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to add node'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async removeClusterNode(name: string): Promise<ApiResponse<ReshardStatus>> {
+    try {
+      const response = await this.client.delete(`/api/cluster/nodes/${encodeURIComponent(name)}`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to remove node'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async getReshardStatus(): Promise<ApiResponse<ReshardStatus>> {
     try {
-      const response = await this.client.get('/api/cluster/stats');
+      const response = await this.client.get('/api/cluster/reshard');
       return {
         success: true,
         data: response.data.success ? response.data.data : response.data,
@@ -616,7 +1327,7 @@ class ApiService {
     } catch (error) {
       return {
         success: false,
-        error: this.extractErrorMessage(error, 'Failed to get cluster stats'),
+        error: this.extractErrorMessage(error, 'Failed to get resharding status'),
         timestamp: new Date(),
       };
     }
@@ -745,9 +1456,11 @@ class ApiService {
     }
   }
 
-  async getConfig(): Promise<ApiResponse<any>> {
+  // CONFIG GET: runtime parameters such as notify-keyspace-events; with node,
+  // that node's own values
+  async getConfig(node?: string): Promise<ApiResponse<Record<string, string>>> {
     try {
-      const response = await this.client.get('/api/config');
+      const response = await this.client.get('/api/config', { params: { node } });
       return {
         success: true,
         data: response.data.success ? response.data.data : response.data,
@@ -762,12 +1475,13 @@ class ApiService {
     }
   }
 
-  async setConfig(config: any): Promise<ApiResponse<string>> {
+  // CONFIG SET on every node, or only on config.node; data.value is the value as CONFIG GET reports it
+  async setConfig(config: { parameter: string; value: string; node?: string }): Promise<ApiResponse<{ parameter: string; value: string }>> {
     try {
       const response = await this.client.post('/api/config', config);
       return {
         success: true,
-        data: response.data.success ? response.data.data : response.data.message || 'OK',
+        data: response.data.data,
         timestamp: new Date(),
       };
     } catch (error) {
@@ -779,6 +1493,96 @@ class ApiService {
     }
   }
 
+  // maxmemory-policy, memory used against maxmemory and eviction counters of every node
+  async getEvictionStatus(): Promise<ApiResponse<NodeEvictionStatus[]>> {
+    try {
+      const response = await this.client.get('/api/eviction');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get eviction status'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // every node's keys in LRU order with their idle time, LFU counter, encoding and size
+  async getAccessList(limit?: number): Promise<ApiResponse<NodeAccessList[]>> {
+    try {
+      const response = await this.client.get('/api/eviction/keys', { params: { limit } });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get key access data'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // OBJECT ENCODING / IDLETIME / FREQ key; data is null when the key doesn't exist
+  async getKeyObject(key: string): Promise<ApiResponse<KeyObjectInfo | null>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/object`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get key object info'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // MEMORY STATS of every node
+  async getMemoryStats(): Promise<ApiResponse<NodeMemoryStats[]>> {
+    try {
+      const response = await this.client.get('/api/memory');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get memory stats'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // MEMORY USAGE key
+  async getKeyMemory(key: string): Promise<ApiResponse<KeyMemoryUsage>> {
+    try {
+      const response = await this.client.get(`/api/keys/${encodeURIComponent(key)}/memory`);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get key memory usage'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
   async ping(): Promise<ApiResponse<string>> {
     try {
       const response = await this.client.get('/api/ping');
@@ -838,9 +1642,9 @@ class ApiService {
     }
   }
 
-  async saveToDisk(): Promise<ApiResponse<any>> {
+  async saveToDisk(mode: 'save' | 'bgsave' = 'save'): Promise<ApiResponse<any>> {
     try {
-      const response = await this.client.post('/api/persistence/save');
+      const response = await this.client.post('/api/persistence/save', { mode });
       return {
         success: true,
         data: response.data.success ? response.data.data : response.data,
@@ -889,6 +1693,92 @@ class ApiService {
     }
   }
 
+  async configureAof(enabled?: boolean, fsyncPolicy?: 'always' | 'everysec' | 'no'): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.post('/api/persistence/aof', { enabled, fsyncPolicy });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to configure AOF'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async rewriteAof(): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.post('/api/persistence/bgrewriteaof');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to rewrite AOF'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async getSnapshotHistory(): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.get('/api/persistence/history');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get snapshot history'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async setSnapshotRetention(retention: number): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.post('/api/persistence/history/config', { retention });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to update snapshot retention'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // Without node every node goes back to its newest generation at or before timestamp
+  async restoreSnapshot(timestamp: number, options: { node?: string; dryRun?: boolean } = {}): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.post('/api/persistence/history/restore', { timestamp, ...options });
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, options.dryRun ? 'Failed to diff snapshot' : 'Failed to restore snapshot'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
   // =========================
   // Process Monitoring Operations
   // =========================
@@ -945,6 +1835,75 @@ class ApiService {
     }
   }
 
+  // Simulates a master crash: the listener and every slave link go away at once
+  async killMaster(): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.post('/api/replication/kill-master');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to kill master server'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async startSentinel(options: { sentinels?: number; quorum?: number; downAfterMs?: number } = {}): Promise<ApiResponse<SentinelStatus>> {
+    try {
+      const response = await this.client.post('/api/sentinel/start', options);
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to start sentinel'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async stopSentinel(): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.post('/api/sentinel/stop');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to stop sentinel'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async getSentinelStatus(): Promise<ApiResponse<SentinelStatus | null>> {
+    try {
+      const response = await this.client.get('/api/sentinel/status');
+      return {
+        success: true,
+        data: response.data.success ? response.data.data : response.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to get sentinel status'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
   async stopMaster(): Promise<ApiResponse<any>> {
     try {
       const response = await this.client.post('/api/replication/stop-master');
@@ -996,9 +1955,14 @@ class ApiService {
     }
   }
 
-  async executeReplicationCommand(command: string, args: string[]): Promise<ApiResponse<any>> {
+  // `wait` blocks a write until that many slaves acknowledged it (WAIT numreplicas timeout)
+  async executeReplicationCommand(
+    command: string,
+    args: string[],
+    wait?: { numreplicas: number; timeout: number }
+  ): Promise<ApiResponse<any>> {
     try {
-      const response = await this.client.post('/api/replication/master/execute', { command, args });
+      const response = await this.client.post('/api/replication/master/execute', { command, args, wait });
       return {
         success: true,
         data: response.data.success ? response.data.data : response.data,
@@ -1013,6 +1977,59 @@ class ApiService {
     }
   }
 
+  // A command on one slave's read port; the reply is the slave's line (JSON for lists and hashes)
+  async executeSlaveCommand(slaveId: string, command: string, args: string[] = []): Promise<ApiResponse<any>> {
+    try {
+      const response = await this.client.post(`/api/replication/slaves/${encodeURIComponent(slaveId)}/command`, { command, args });
+      return {
+        success: true,
+        data: response.data.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to run command on slave'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  async checkReplicationConsistency(): Promise<ApiResponse<ReplicationConsistencyReport>> {
+    try {
+      const response = await this.client.get('/api/replication/consistency');
+      return {
+        success: true,
+        data: response.data.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to check replication consistency'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
+  // Resend the given keys, or every key that is not synced, to the slaves
+  async repairReplication(keys?: string[]): Promise<ApiResponse<{ repaired: Array<{ key: string; action: 'restore' | 'del' }> }>> {
+    try {
+      const response = await this.client.post('/api/replication/consistency/repair', { keys });
+      return {
+        success: true,
+        data: response.data.data,
+        timestamp: new Date(),
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: this.extractErrorMessage(error, 'Failed to repair replication'),
+        timestamp: new Date(),
+      };
+    }
+  }
+
   async getReplicationLog(limit?: number): Promise<ApiResponse<any>> {
     try {
       const url = limit ? `/api/replication/log?limit=${limit}` : '/api/replication/log';
@@ -50,6 +50,8 @@ export interface PubSubMessage {
   message: string;
   timestamp: Date;
   sender?: string;
+  pattern?: string; // the PSUBSCRIBE pattern it matched, for pattern deliveries
+  replayed?: boolean; // sent from the channel's history on (re)subscribe
 }
 
 export interface Channel {
@@ -66,6 +68,8 @@ class WebSocketService {
   private subscriptionHandlers: Map<string, (data: any) => void> = new Map();
   private connectionHandlers: Array<(connected: boolean) => void> = [];
   private channels: Map<string, Channel> = new Map();
+  private patterns: Set<string> = new Set();
+  private lastMessageIds: Map<string, number> = new Map(); // channel -> newest message ID seen
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
@@ -141,6 +145,13 @@ class WebSocketService {
       const username = localStorage.getItem('pubsub-username') || 'Anonymous';
       this.socket?.emit('identify', { username });
       console.log(`🔗 Socket.IO identified as: ${username}`);
+
+      // The server forgets a client's subscriptions when it disconnects:
+      // after a reconnect, subscribe again and replay what was missed
+      this.channels.forEach((channel) => {
+        if (channel.subscribed) this.socket?.emit('subscribe', channel.name, this.replayOptions(channel.name));
+      });
+      this.patterns.forEach((pattern) => this.socket?.emit('psubscribe', pattern));
     });
 
     this.socket.on('disconnect', () => {
@@ -151,12 +162,14 @@ class WebSocketService {
     this.socket.on('message', (data: any) => {
       console.log('📨 WebSocket received message:', data);
       const message: PubSubMessage = {
-        id: Date.now().toString(),
+        id: data.id !== undefined ? String(data.id) : Date.now().toString(),
         channel: data.channel,
         message: data.message,
         timestamp: new Date(data.timestamp),
-        sender: data.sender || 'system'
+        sender: data.sender || 'system',
+        replayed: data.replayed || false
       };
+      this.noteMessageId(data.channel, data.id);
 
       // Update channel info
       if (this.channels.has(data.channel)) {
@@ -175,6 +188,34 @@ class WebSocketService {
       }
     });
 
+    // Delivered through a pattern subscription, tagged with the pattern that matched
+    this.socket.on('pmessage', (data: any) => {
+      const message: PubSubMessage = {
+        id: `${data.id !== undefined ? data.id : Date.now()}_${data.pattern}`,
+        channel: data.channel,
+        message: data.message,
+        timestamp: new Date(data.timestamp),
+        sender: data.sender || 'system',
+        pattern: data.pattern
+      };
+
+      if (this.mainMessageHandler) {
+        this.mainMessageHandler(message);
+      }
+    });
+
+    this.socket.on('psubscribed', (data: any) => {
+      if (data.success) this.patterns.add(data.pattern);
+      const handler = this.subscriptionHandlers.get(`psubscribed_${data.pattern}`);
+      if (handler) handler(data);
+    });
+
+    this.socket.on('punsubscribed', (data: any) => {
+      this.patterns.delete(data.pattern);
+      const handler = this.subscriptionHandlers.get(`punsubscribed_${data.pattern}`);
+      if (handler) handler(data);
+    });
+
     this.socket.on('subscribed', (data: any) => {
       console.log('Subscribed to channel:', data.channel);
       if (this.channels.has(data.channel)) {
@@ -279,7 +320,7 @@ class WebSocketService {
 
       // Send subscription request
       console.log(`Sending subscription request for channel: ${channel}`);
-      this.socket.emit('subscribe', channel);
+      this.socket.emit('subscribe', channel, this.replayOptions(channel));
 
       // Timeout after 5 seconds
       setTimeout(() => {
@@ -336,6 +377,60 @@ class WebSocketService {
     });
   }
 
+  // Pattern subscriptions (PSUBSCRIBE / PUNSUBSCRIBE), e.g. orders.* or user:?:events
+  psubscribe(pattern: string): Promise<boolean> {
+    return this.requestPatternChange('psubscribe', pattern);
+  }
+
+  punsubscribe(pattern: string): Promise<boolean> {
+    return this.requestPatternChange('punsubscribe', pattern);
+  }
+
+  private requestPatternChange(event: 'psubscribe' | 'punsubscribe', pattern: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('WebSocket not connected'));
+        return;
+      }
+
+      const handlerKey = `${event}d_${pattern}`;
+      this.subscriptionHandlers.set(handlerKey, (data) => {
+        this.subscriptionHandlers.delete(handlerKey);
+        if (data.success) {
+          resolve(true);
+        } else {
+          reject(new Error(data.error || `Failed to ${event} ${pattern}`));
+        }
+      });
+
+      this.socket.emit(event, pattern);
+
+      // Timeout after 5 seconds
+      setTimeout(() => {
+        if (this.subscriptionHandlers.has(handlerKey)) {
+          this.subscriptionHandlers.delete(handlerKey);
+          reject(new Error(`${event} timeout`));
+        }
+      }, 5000);
+    });
+  }
+
+  // Record the newest message ID seen on a channel (live or from its history)
+  noteMessageId(channel: string, id: number | undefined) {
+    if (typeof id !== 'number') return;
+    if (id > (this.lastMessageIds.get(channel) || 0)) this.lastMessageIds.set(channel, id);
+  }
+
+  // ask for a replay from the last message seen, if any was
+  private replayOptions(channel: string): { since?: number } {
+    const since = this.lastMessageIds.get(channel);
+    return since !== undefined ? { since } : {};
+  }
+
+  getPatterns(): string[] {
+    return Array.from(this.patterns);
+  }
+
   // Message handling - only one main handler allowed to prevent duplicates
   onMessage(handler: (message: PubSubMessage) => void): () => void {
     // Clear any existing main handler
@@ -428,6 +523,48 @@ class WebSocketService {
   }
 }
 
+// Dedicated connection for events the server pushes to every client (cluster
+// resharding progress and the like), separate from the pub/sub instances.
+// Returns a function that closes it again.
+export function listenToServerEvents(handlers: Record<string, (data: any) => void>): () => void {
+  const apiUrl = process.env.REACT_APP_API_URL || 'http://localhost:3001';
+  const socket = io(apiUrl, {
+    transports: ['websocket'],
+    secure: apiUrl.startsWith('https://'),
+    forceNew: true
+  });
+  Object.entries(handlers).forEach(([event, handler]) => socket.on(event, handler));
+
+  return () => {
+    socket.disconnect();
+  };
+}
+
+// Dedicated connection subscribed to channel patterns (keyspace notifications
+// such as __keyevent@0__:expired, for instance); handler gets every message
+// that matches. Subscribes again after a reconnect. Returns a function that
+// closes it again.
+export function listenToChannels(patterns: string[], handler: (message: PubSubMessage) => void): () => void {
+  const apiUrl = process.env.REACT_APP_API_URL || 'http://localhost:3001';
+  const socket = io(apiUrl, {
+    transports: ['websocket'],
+    secure: apiUrl.startsWith('https://'),
+    forceNew: true
+  });
+  socket.on('connect', () => patterns.forEach(pattern => socket.emit('psubscribe', pattern)));
+  socket.on('pmessage', (data: any) => handler({
+    id: `${data.id}_${data.pattern}`,
+    channel: data.channel,
+    message: data.message,
+    timestamp: new Date(data.timestamp),
+    pattern: data.pattern
+  }));
+
+  return () => {
+    socket.disconnect();
+  };
+}
+
 // Export only the class, no global singleton to prevent multiple connections
 export { WebSocketService };
 export default WebSocketService; 
\ No newline at end of file
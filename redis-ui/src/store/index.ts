@@ -156,8 +156,6 @@ export const useAppStore = create<AppState>()(
     
     ttlEntries: [],
     lruStats: {
-      maxSize: 100,
-      currentSize: 0,
       hitCount: 0,
       missCount: 0,
       evictionCount: 0,
@@ -1,13 +1,18 @@
 export interface RedisKey {
   key: string;
   value: any;
-  type: 'string' | 'list' | 'hash' | 'set' | 'zset';
+  type: 'string' | 'list' | 'hash' | 'set' | 'zset' | 'stream';
   ttl?: number;
   size: number;
   lastAccessed?: Date;
   node?: string;
 }
 
+export interface ZSetEntry {
+  member: string;
+  score: number;
+}
+
 export interface RedisNode {
   id: string;
   name: string;
@@ -35,6 +40,63 @@ export interface ClusterStats {
   distribution: Record<string, number>;
 }
 
+export interface SlotRange {
+  start: number;
+  end: number;
+}
+
+export interface ClusterSlotNode {
+  name: string;
+  id: string;
+  slots: number;
+  ranges: SlotRange[];
+  keyCount: number;
+}
+
+export interface ClusterSlotMap {
+  slotCount: number;
+  ranges: Array<SlotRange & { node: string | null }>;
+  nodes: ClusterSlotNode[];
+}
+
+export interface KeySlotInfo {
+  key: string;
+  hashTag: string;
+  slot: number;
+  node: string;
+}
+
+export interface ReshardRange {
+  start: number;
+  end: number;
+  from: string | null;
+  to: string;
+  keys: number;
+  movedKeys: number;
+  done: boolean;
+}
+
+export interface ReshardProgress {
+  operation: { type: 'add' | 'remove'; node: string };
+  state: 'running' | 'done' | 'failed';
+  startedAt: number;
+  finishedAt: number | null;
+  ranges: ReshardRange[];
+  currentRange: number | null;
+  totalSlots: number;
+  movedSlots: number;
+  totalKeys: number;
+  movedKeys: number;
+  recentKeys: string[];
+  error: string | null;
+}
+
+export interface ReshardStatus {
+  inProgress: boolean;
+  current: ReshardProgress | null;
+  last: ReshardProgress | null;
+}
+
 export interface TTLEntry {
   key: string;
   value: any;
@@ -45,18 +107,27 @@ export interface TTLEntry {
   node?: string;
 }
 
+// A key with the access metadata its node keeps for eviction (GET /api/eviction/keys)
 export interface LRUEntry {
   key: string;
-  value: any;
-  accessCount: number;
-  lastAccessed: Date;
-  position: number;
-  isEvicted?: boolean;
+  node: string;
+  type: string;
+  encoding: string; // OBJECT ENCODING
+  bytes: number; // MEMORY USAGE
+  idleSeconds: number; // OBJECT IDLETIME
+  freq: number; // OBJECT FREQ: logarithmic access counter with decay
+  lastAccess: number;
 }
 
+// One node's keys, least recently used first
+export interface NodeAccessList {
+  node: string;
+  policy: EvictionPolicy;
+  entries: Omit<LRUEntry, 'node'>[];
+}
+
+// What the LRU/LFU demo shows; hits and misses are the GETs it sent
 export interface LRUStats {
-  maxSize: number;
-  currentSize: number;
   hitCount: number;
   missCount: number;
   evictionCount: number;
@@ -64,6 +135,60 @@ export interface LRUStats {
   entries: LRUEntry[];
 }
 
+// maxmemory-policy values a node accepts (CONFIG SET maxmemory-policy)
+export type EvictionPolicy =
+  | 'noeviction'
+  | 'allkeys-lru'
+  | 'volatile-lru'
+  | 'allkeys-random'
+  | 'volatile-random'
+  | 'volatile-ttl'
+  | 'allkeys-lfu'
+  | 'volatile-lfu';
+
+// One cluster node's eviction state and counters (GET /api/eviction)
+export interface NodeEvictionStatus {
+  node: string;
+  policy: EvictionPolicy;
+  maxMemory: number; // bytes, 0 = no limit
+  usedMemory: number;
+  keys: number;
+  volatileKeys: number;
+  evictedKeys: number;
+  rejectedWrites: number; // writes refused with OOM
+  lastEvictedKey: string | null;
+  lastEvictedAt: number | null;
+}
+
+// One cluster node's MEMORY STATS (GET /api/memory); sizes are approximate bytes
+export interface NodeMemoryStats {
+  node: string;
+  datasetBytes: number;
+  peakBytes: number;
+  maxMemory: number;
+  keys: number;
+  volatileKeys: number;
+  bytesPerKey: number;
+  largestKeys: { key: string; bytes: number }[];
+}
+
+// OBJECT ENCODING / IDLETIME / FREQ of one key (GET /api/keys/:key/object)
+export interface KeyObjectInfo {
+  key: string;
+  node: string;
+  encoding: string;
+  idleSeconds: number;
+  freq: number;
+  lastAccess: number;
+}
+
+// MEMORY USAGE of one key; bytes is null when the key doesn't exist
+export interface KeyMemoryUsage {
+  key: string;
+  node: string;
+  bytes: number | null;
+}
+
 export interface PerformanceMetrics {
   timestamp: Date;
   memory: number;
@@ -88,6 +213,98 @@ export interface PubSubMessage {
   message: string;
   timestamp: Date;
   sender?: string;
+  pattern?: string;
+}
+
+// Per-channel retention of published messages (null = no limit of that kind)
+export interface ChannelRetention {
+  maxLen: number | null;
+  maxAgeMs: number | null;
+}
+
+export interface ChannelHistoryEntry {
+  id: number;
+  channel: string;
+  message: string;
+  timestamp: string;
+}
+
+export interface ChannelHistory {
+  channel: string;
+  retention: ChannelRetention | null;
+  lastId: number;
+  messages: ChannelHistoryEntry[];
+}
+
+export interface StreamEntry {
+  id: string;
+  fields: string[] | null; // [field, value, ...]; null for a pending entry deleted since
+}
+
+export interface StreamSummary {
+  key: string;
+  node: string;
+  length: number;
+  lastGeneratedId: string;
+  groups: number;
+}
+
+export interface StreamConsumer {
+  name: string;
+  pending: number;
+  idleMs: number;
+}
+
+export interface StreamGroup {
+  name: string;
+  consumers: number;
+  pending: number;
+  lastDeliveredId: string;
+  consumerList: StreamConsumer[];
+}
+
+export interface StreamInfo {
+  length: number;
+  lastGeneratedId: string;
+  groups: StreamGroup[];
+  firstEntry: StreamEntry | null;
+  lastEntry: StreamEntry | null;
+}
+
+export interface StreamPendingEntry {
+  id: string;
+  consumer: string;
+  idleMs: number;
+  deliveries: number;
+}
+
+export interface StreamPending {
+  summary: {
+    count: number;
+    smallest: string | null;
+    largest: string | null;
+    consumers: { name: string; pending: number }[];
+  };
+  entries: StreamPendingEntry[];
+}
+
+// EVAL scripts cached on the server (SCRIPT LOAD) and the one running now
+export interface CachedScript {
+  sha: string;
+  source: string;
+}
+
+export interface ScriptStatus {
+  running: boolean;
+  timeLimitMs: number;
+  sha?: string;
+  elapsedMs?: number;
+  wrote?: boolean; // SCRIPT KILL is refused once a script has written
+}
+
+export interface ScriptList {
+  scripts: CachedScript[];
+  status: ScriptStatus;
 }
 
 export interface CommandHistory {
@@ -215,7 +432,15 @@ export interface ReplicationEvent {
   affectedSlaves: number;
 }
 
-export interface SlaveNode {
+// How far a slave is behind, from the offset it last acknowledged (null until its first ACK)
+export interface ReplicationLag {
+  ackOffset: number | null;
+  lastAckAt: Date | null;
+  byteLag: number | null;
+  commandLag: number | null;
+}
+
+export interface SlaveNode extends ReplicationLag {
   id: string;
   status: 'connected' | 'disconnected' | 'failed';
   keys: Record<string, any>;
@@ -236,30 +461,103 @@ export interface MasterNode {
   }>;
 }
 
+// PSYNC state of the master: replication ID, stream offset and backlog window
+export interface ReplicationInfo {
+  role: 'master';
+  connectedSlaves: number;
+  replId: string | null;
+  offset: number;
+  size: number | null;
+  firstOffset: number;
+  histlen: number;
+}
+
 export interface ReplicationStatus {
   masterRunning: boolean;
   connectedSlaves: number;
   totalReplicationEvents: number;
   masterPort: number;
   slavePort: number;
-  slaves: Array<{
+  replication?: ReplicationInfo;
+  currentMaster?: SentinelNodeAddress;
+  slaves: Array<ReplicationLag & {
     id: string;
     status: string;
     lastSync: Date;
+    syncMode?: 'full' | 'partial';
+    syncOffset?: number;
   }>;
 }
 
+export interface SentinelNodeAddress {
+  id: string;
+  host: string;
+  port: number;
+  commandPort?: number;
+}
+
+export interface SentinelEvent {
+  type: string; // +sdown, +odown, +elected-leader, +switch-master, ...
+  sentinel: string | null;
+  epoch: number;
+  masterName: string;
+  details: Record<string, any>;
+  timestamp: string;
+}
+
+export interface SentinelStatus {
+  masterName: string;
+  running: boolean;
+  master: SentinelNodeAddress;
+  state: 'ok' | 'odown' | 'failover';
+  epoch: number;
+  quorum: number;
+  downAfterMs: number;
+  sentinels: Array<{
+    id: string;
+    sdown: boolean;
+    lastPongAgoMs: number;
+    votedEpoch: number;
+    votedFor: string | null;
+  }>;
+  lastFailover: {
+    epoch: number;
+    leader: string;
+    from: SentinelNodeAddress;
+    to: SentinelNodeAddress;
+    at: string;
+  } | null;
+  events: SentinelEvent[];
+}
+
 export interface ReplicationKeyComparison {
   key: string;
   master: {
     exists: boolean;
     value?: any;
     ttl?: number;
+    digest?: string | null;
   };
   slaves: Record<string, {
     exists: boolean;
     value?: any;
     synced: boolean;
+    digest?: string | null;
   }>;
   status: 'synced' | 'partial' | 'out_of_sync';
+}
+
+// Result of comparing every slave's per-key digests with the master's
+export interface ReplicationConsistencyReport {
+  checkedAt: string;
+  masterOffset: number;
+  slaves: Array<{
+    id: string;
+    reachable: boolean;
+    offset: number | null;
+    keyCount: number;
+    error: string | null;
+  }>;
+  summary: Record<ReplicationKeyComparison['status'], number>;
+  comparisons: ReplicationKeyComparison[];
 } 
\ No newline at end of file
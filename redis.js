@@ -1,29 +1,151 @@
 const fs = require("fs");
 const path = require("path");
+const crypto = require("crypto");
 const {Worker} = require("worker_threads");
 const {fork} = require("child_process");
+const SortedSet = require("./SortedSet");
+const Stream = require("./Stream");
+const AppendOnlyFile = require("./appendOnlyFile");
+const SnapshotHistory = require("./snapshotHistory");
+const ReplicationBacklog = require("./replicationBacklog");
+const { writeSnapshot, commitSnapshot, loadSnapshot } = require("./rdbFile");
+const { matchesPattern } = require("./patternMatch");
+const { parseFlags, notificationsFor } = require("./keyspaceEvents");
+const { DEFAULT_POLICY, isValidPolicy, parsePolicy, selectVictim } = require("./evictionPolicy");
+const { keySize, parseBytes, objectEncoding } = require("./memoryUsage");
+const { DEFAULT_LOG_FACTOR, DEFAULT_DECAY_TIME, createMeta, decayedCounter, recordWrite, recordAccess } = require("./accessFrequency");
+
+const WRONGTYPE = "WRONGTYPE Operation against a key holding the wrong kind of value";
+
+const DEFAULT_MAXMEMORY = "1mb"; // per node; MAXMEMORY overrides it, 0 means no limit
+
+// RDB save points, like the save directive: "seconds changes" pairs, a
+// snapshot is due once any pair has both that many seconds since the last
+// save and at least that many writes. SAVE_POINTS overrides them, "" turns
+// automatic snapshots off.
+const DEFAULT_SAVE_POINTS = "30 1 10 100 1 10000";
+const SAVE_POINT_CHECK_MS = 1000;
+const BGSAVE_RETRY_DELAY_MS = 5000; // after a failed automatic save
+
+function parseSavePoints(value) {
+    const numbers = String(value).trim().split(/\s+/).filter(Boolean).map(Number);
+    if (numbers.length % 2 !== 0 || numbers.some((number) => !Number.isInteger(number) || number <= 0)) {
+        throw new Error(`ERR Invalid argument '${value}' for CONFIG SET 'save'`);
+    }
+    const points = [];
+    for (let i = 0; i < numbers.length; i += 2) points.push({ seconds: numbers[i], changes: numbers[i + 1] });
+    return points;
+}
+
+// JSON has no Set or skip list, so non-plain values are tagged when written to the RDB file
+function encodeValue(value) {
+    if (value instanceof Set) {
+        return { __type: "set", members: Array.from(value) };
+    }
+    if (value instanceof SortedSet) {
+        return { __type: "zset", entries: value.toEntries() };
+    }
+    if (value instanceof Stream) {
+        return { __type: "stream", ...value.toJSON() };
+    }
+    return value;
+}
+
+function decodeValue(value) {
+    if (value && value.__type === "set") {
+        return new Set(value.members);
+    }
+    if (value && value.__type === "zset") {
+        return SortedSet.fromEntries(value.entries);
+    }
+    if (value && value.__type === "stream") {
+        return Stream.fromJSON(value);
+    }
+    return value;
+}
 
 class RedisClone{
-    constructor(nodeName = "default", maxSize = 100){
+    constructor(nodeName = "default", maxMemory = parseBytes(process.env.MAXMEMORY || DEFAULT_MAXMEMORY)){
 
         this.slaves = [];
+        this.backlog = null; // replication ID, offset and backlog, created when the first slave syncs
+        this.slaveAcks = new Map(); // slave socket -> { offset, at } from its last ACK
+        this.waiters = []; // pending WAITs: { offset, numreplicas, resolve, timer }
+        this.replica = false; // set by slaveServer.js: expired keys stay until the master's del arrives
         this.nodeName = nodeName;
 
         this.store = new Map();
         this.expiry = new Map();
-        this.filePath = path.join(__dirname , `data_${nodeName}.json`);
+        // RDB, AOF and snapshot files go next to the code unless DATA_DIR names another directory
+        this.dataDir = process.env.DATA_DIR || __dirname;
+        this.filePath = path.join(this.dataDir, `data_${nodeName}.json`);
+
+        // AOF persistence (appendonly / appendfsync), off unless APPENDONLY=yes
+        const fsyncPolicy = process.env.APPENDFSYNC || "everysec";
+        this.aofPath = path.join(this.dataDir, `data_${nodeName}.aof`);
+        this.aof = new AppendOnlyFile(this.aofPath, AppendOnlyFile.isValidPolicy(fsyncPolicy) ? fsyncPolicy : "everysec");
+        this.appendOnly = process.env.APPENDONLY === "yes";
+        this.loading = false;
+        this.transactionEntries = null; // entries of the MULTI/EXEC running now, sent out as one
+        this.transactionSignals = new Set(); // keys whose blocked clients wake up at its end
+        this.watchers = new Map(); // key -> WATCH states ({ dirty }) of the clients watching it
+        this.keyWaiters = new Map(); // key -> callbacks of blocked reads (XREAD BLOCK, BLPOP)
+
+        // RDB snapshot bookkeeping (SAVE / BGSAVE / LASTSAVE)
+        this.rdbStatus = {
+            lastSaveTime: null,
+            loadedFrom: null,
+            changesSinceLastSave: 0,
+            bgsaveInProgress: false,
+            bgsaveStartedAt: null,
+            lastBgsaveStatus: null,
+            lastBgsaveDurationMs: null,
+            lastBgsaveError: null,
+            bgsaveCount: 0,
+            totalBgsaveMs: 0,
+        };
+        this.savePoints = parseSavePoints(process.env.SAVE_POINTS ?? DEFAULT_SAVE_POINTS);
+        this.savePointsSince = Date.now(); // counts as the last save until the first one
+        this._bgSavePending = null; // { resolve, reject, changes } for the BGSAVE in flight
+        this._rdbSaveQueued = false; // a write arrived while a BGSAVE was running
+
+        // retained snapshot generations (SNAPSHOT_RETENTION, SNAPSHOT_INTERVAL in ms)
+        this.history = new SnapshotHistory(nodeName, path.join(this.dataDir, "snapshots"), {
+            retention: parseInt(process.env.SNAPSHOT_RETENTION) || undefined,
+            interval: parseInt(process.env.SNAPSHOT_INTERVAL) || undefined,
+        });
+
+        // Eviction (see evictionPolicy.js): the policy applied once the
+        // dataset uses more than maxMemory bytes (see memoryUsage.js), per-key
+        // sizes and access metadata (see accessFrequency.js), and the
+        // counters the LRU demo shows
+        this.maxMemory = maxMemory;
+        this.keySizes = new Map();
+        this.usedMemory = 0;
+        this.peakMemory = 0;
+        this.maxMemoryPolicy = isValidPolicy(process.env.MAXMEMORY_POLICY) ? process.env.MAXMEMORY_POLICY : DEFAULT_POLICY;
+        this.keyMeta = new Map(); // key -> { lastAccess, counter }
+        this.lfuSettings = { logFactor: DEFAULT_LOG_FACTOR, decayTime: DEFAULT_DECAY_TIME };
+        this.evictionStats = { evictedKeys: 0, rejectedWrites: 0, lastEvictedKey: null, lastEvictedAt: null };
+
         this.loadFromFile();
-         this.autoSaveInterval = 30000; // Auto-save every 30 seconds (adjust as needed)
+        if (this.appendOnly) this._startAof();
          this.scheduleAutoSave();
-         this.maxSize = maxSize;
          this.channels = new Map();
+         this.patterns = new Map(); // glob pattern -> callbacks (PSUBSCRIBE)
+
+         // notify-keyspace-events flags ("" = off); notifications go through
+         // keyspacePublisher when set (a cluster routes them to the node that
+         // owns the channel), else through this node's own publish()
+         this.notifyKeyspaceEvents = "";
+         this.keyspacePublisher = null;
 
          // Initialize TTL Worker with error handling
          try {
              this.ttlWorker = new Worker(path.join(__dirname, "ttlWorker.js"));
              this.ttlWorker.on("message", (message) => {
                  if (message.type === "delete") {
-                     this.delete(message.key, false);
+                     this._expireIfDue(message.key, false);
                  }
              });
              
@@ -43,11 +165,31 @@ class RedisClone{
          try {
              this.rdbWorker = fork(path.join(__dirname, "rdbWorker.js"));
              this.rdbWorkerAvailable = true;
+
+             this.rdbWorker.on("message", (message) => {
+                 if (message.type === "saved") {
+                     this._onBgSaveResult(message);
+                 }
+             });
              
              this.rdbWorker.on("error", (error) => {
                  console.warn("RDB Worker error, falling back to synchronous saves:", error.message);
                  this.rdbWorkerAvailable = false;
              });
+
+             this.rdbWorker.on("exit", () => {
+                 this.rdbWorkerAvailable = false;
+                 if (this._bgSavePending) {
+                     this._onBgSaveResult({ status: "error", error: "RDB worker exited", durationMs: Date.now() - this.rdbStatus.bgsaveStartedAt });
+                 }
+             });
+
+             // a BGSAVE still in flight would be lost on exit, so finish with a blocking save
+             process.on("exit", () => {
+                 if (!this.rdbStatus.bgsaveInProgress && !this._rdbSaveQueued) return;
+                 this.rdbWorker.kill("SIGKILL");
+                 this.saveToFile();
+             });
          } catch (error) {
              console.warn("Child Process not available for RDB, using synchronous saves:", error.message);
              this.rdbWorker = null;
@@ -65,13 +207,122 @@ class RedisClone{
       
     }
 
-    //to send updates to slaves
+    unregisterSlave(slaveSocket)
+    {
+      this.slaves = this.slaves.filter((socket) => socket !== slaveSocket);
+      this.slaveAcks.delete(slaveSocket);
+    }
+
+    // REPLCONF ACK: the slave has applied the stream up to offset
+    acknowledge(slaveSocket, offset)
+    {
+      if (!Number.isInteger(offset)) return;
+      this.slaveAcks.set(slaveSocket, { offset, at: Date.now() });
+      this.waiters = this.waiters.filter((waiter) => {
+        if (this.countAcked(waiter.offset) < waiter.numreplicas) return true;
+        clearTimeout(waiter.timer);
+        waiter.resolve(this.countAcked(waiter.offset));
+        return false;
+      });
+    }
+
+    // slaves that have acknowledged the stream up to offset
+    countAcked(offset)
+    {
+      return this.slaves.filter((socket) => {
+        const ack = this.slaveAcks.get(socket);
+        return ack && ack.offset >= offset;
+      }).length;
+    }
+
+    // How far one slave is behind, from its last ACK: bytes and stream
+    // entries it has not confirmed yet, and when it last confirmed anything
+    slaveLag(slaveSocket)
+    {
+      const ack = this.slaveAcks.get(slaveSocket);
+      if (!ack) return { ackOffset: null, lastAckAt: null, byteLag: null, commandLag: null };
+      const offset = this.backlog ? this.backlog.offset : 0;
+      return {
+        ackOffset: ack.offset,
+        lastAckAt: new Date(ack.at),
+        byteLag: Math.max(0, offset - ack.offset),
+        commandLag: this.backlog ? this.backlog.countSince(ack.offset) : 0,
+      };
+    }
+
+    // WAIT numreplicas timeout: resolves with the number of slaves that have
+    // acknowledged every write made so far, as soon as numreplicas of them did
+    // or when timeoutMs runs out (0 waits forever). Slaves are asked for an
+    // ACK right away instead of waiting for their next periodic one.
+    wait(numreplicas, timeoutMs)
+    {
+      if (!Number.isInteger(numreplicas) || numreplicas < 0 || !Number.isInteger(timeoutMs) || timeoutMs < 0) {
+        return Promise.reject(new Error("ERR value is not an integer or out of range"));
+      }
+      const offset = this.backlog ? this.backlog.offset : 0;
+      const acked = this.countAcked(offset);
+      if (acked >= numreplicas) return Promise.resolve(acked);
+
+      const getack = JSON.stringify({ type: "getack" }) + "\n";
+      this.slaves.forEach((socket) => socket.write(getack));
+      return new Promise((resolve) => {
+        const waiter = { offset, numreplicas, resolve, timer: null };
+        if (timeoutMs > 0) {
+          waiter.timer = setTimeout(() => {
+            this.waiters = this.waiters.filter((pending) => pending !== waiter);
+            resolve(this.countAcked(offset));
+          }, timeoutMs);
+        }
+        this.waiters.push(waiter);
+      });
+    }
+
+    // PSYNC: attach a slave that last saw the stream up to (replId, offset).
+    // It is sent only the entries it missed while the backlog still has them,
+    // otherwise the whole dataset (full resync). Returns { mode, offset, missed }.
+    syncSlave(slaveSocket, replId = null, offset = -1)
+    {
+      if (!this.backlog) {
+        this.backlog = new ReplicationBacklog(parseInt(process.env.REPL_BACKLOG_SIZE) || undefined);
+      }
+      const { replId: currentId, offset: currentOffset } = this.backlog;
+
+      let result;
+      if (this.backlog.canContinue(replId, offset)) {
+        const missed = this.backlog.since(offset);
+        slaveSocket.write(JSON.stringify({ type: "continue", replId: currentId, offset: currentOffset }) + "\n" + missed.join(""));
+        result = { mode: "partial", offset: currentOffset, missed: missed.length };
+      } else {
+        const entries = this.syncEntries();
+        slaveSocket.write(JSON.stringify({ type: "fullresync", replId: currentId, offset: currentOffset, entries }) + "\n");
+        result = { mode: "full", offset: currentOffset, missed: null };
+      }
+
+      if (!this.slaves.includes(slaveSocket)) this.registerSlave(slaveSocket);
+      // a continuing slave has confirmed everything up to its own offset
+      if (result.mode === "partial") this.acknowledge(slaveSocket, offset);
+      return result;
+    }
+
+    getReplicationInfo() {
+      return {
+        role: "master",
+        connectedSlaves: this.slaves.length,
+        ...(this.backlog
+          ? this.backlog.getStatus()
+          : { replId: null, offset: 0, replId2: null, secondOffset: -1, size: null, firstOffset: 0, histlen: 0 }),
+      };
+    }
+
+    //to send updates to slaves (entries come from propagate()); every line
+    //advances the replication offset and is kept in the backlog
 
     replicate(command , args)
     {
-      const payload = JSON.stringify({ command, args });
+      const payload = JSON.stringify({ command, args }) + "\n";
+      if (this.backlog) this.backlog.append(payload);
       this.slaves.forEach((socket)=>{
-        socket.write(payload + "\n");
+        socket.write(payload);
       })
     }
 
@@ -79,14 +330,20 @@ class RedisClone{
 
     publish(channel , message)
     {
-      if(!this.channels.has(channel)) return 0;
-
-      const subscribers = this.channels.get(channel);
+      const subscribers = this.channels.get(channel) || new Set();
       subscribers.forEach((callback) => {
         callback(message);
     });
 
-    return subscribers.length; // Return the number of subscribers notified
+    // pattern subscribers hear it too, once per matching pattern
+    let patternReceivers = 0;
+    this.patterns.forEach((callbacks, pattern) => {
+      if (!matchesPattern(pattern, channel)) return;
+      callbacks.forEach((callback) => callback(message, channel, pattern));
+      patternReceivers += callbacks.size;
+    });
+
+    return subscribers.size + patternReceivers; // Return the number of subscribers notified
     }
 
 
@@ -112,108 +369,856 @@ class RedisClone{
         }
     }
 
-    // save data to file
-    saveToFile(){
+    // subscribe to every channel matching a glob pattern (PSUBSCRIBE);
+    // the callback gets (message, channel, pattern)
+    psubscribe(pattern, callback) {
+        if (!this.patterns.has(pattern)) {
+            this.patterns.set(pattern, new Set());
+        }
+        this.patterns.get(pattern).add(callback);
+    }
+
+    punsubscribe(pattern, callback) {
+        const callbacks = this.patterns.get(pattern);
+        if (!callbacks) return;
+        callbacks.delete(callback);
+        if (callbacks.size === 0) this.patterns.delete(pattern);
+    }
+
+    // Blocking reads (XREAD BLOCK, BLPOP): callback runs after every write
+    // that can wake one up, until the returned function is called. Callbacks
+    // run in the order they were added, so the client that blocked first is
+    // served first.
+    waitForKey(key, callback) {
+        if (!this.keyWaiters.has(key)) {
+            this.keyWaiters.set(key, new Set());
+        }
+        this.keyWaiters.get(key).add(callback);
+        return () => {
+            const callbacks = this.keyWaiters.get(key);
+            if (!callbacks) return;
+            callbacks.delete(callback);
+            if (callbacks.size === 0) this.keyWaiters.delete(key);
+        };
+    }
+
+    _signalKey(key) {
+        if (this.transactionEntries) {
+            this.transactionSignals.add(key);
+            return;
+        }
+        const callbacks = this.keyWaiters.get(key);
+        if (callbacks) Array.from(callbacks).forEach((callback) => callback());
+    }
+
+    // point-in-time copy of the dataset in the RDB file layout
+    _rdbSnapshot() {
+        return {
+            store: Array.from(this.store.entries(), ([key, value]) => [key, encodeValue(value)]),
+            expiry: Array.from(this.expiry.entries()),
+        };
+    }
+
+    // save data to file (blocking, returns false when the write failed)
+    saveToFile(manual = false){
         try {
-            const data = {
-                store: Array.from(this.store.entries()),
-                expiry: Array.from(this.expiry.entries()),
-            };
-           fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
-           // this.rdbWorker.send(data);
+           const { header } = writeSnapshot(this.filePath, this._rdbSnapshot());
+           this.rdbStatus.lastSaveTime = Date.now();
+           this.rdbStatus.changesSinceLastSave = 0;
+           this._archiveSnapshot(header, manual);
+           return true;
           } catch (error) {
             console.error("Error saving RDB file:", error);
+            return false;
         }
     }
 
-    // load data from file
+    // SAVE: blocking snapshot in this process. A BGSAVE still running is
+    // older than this snapshot, so its file is discarded instead of committed.
+    save() {
+        if (this._bgSavePending) {
+            this._bgSavePending.superseded = true;
+        }
+        if (!this.saveToFile(true)) {
+            throw new Error("ERR Failed to save the RDB file, check the server log");
+        }
+        return "OK";
+    }
 
-    loadFromFile() {
-        if (fs.existsSync(this.filePath)) {
+    // BGSAVE: hand a snapshot to the RDB worker, which writes this node's file.
+    // Resolves with { durationMs, bytes } once the worker reports back.
+    // manual is false for the saves the server schedules itself.
+    bgSave({ manual = true } = {}) {
+        if (this.rdbStatus.bgsaveInProgress) {
+            return Promise.reject(new Error("ERR Background save already in progress"));
+        }
+        if (!this.rdbWorker || !this.rdbWorkerAvailable) {
+            // no child process: fall back to a blocking save
+            const startedAt = Date.now();
+            return this.saveToFile(manual)
+                ? Promise.resolve({ durationMs: Date.now() - startedAt, bytes: null, background: false })
+                : Promise.reject(new Error("ERR Failed to save the RDB file, check the server log"));
+        }
+
+        this.rdbStatus.bgsaveInProgress = true;
+        this.rdbStatus.bgsaveStartedAt = Date.now();
+
+        return new Promise((resolve, reject) => {
+            this._bgSavePending = { resolve, reject, manual, changes: this.rdbStatus.changesSinceLastSave };
+            try {
+                this.rdbWorker.send({ type: "save", filePath: this.filePath, data: this._rdbSnapshot() });
+            } catch (error) {
+                this.rdbWorkerAvailable = false;
+                this._onBgSaveResult({ status: "error", error: error.message, durationMs: 0 });
+            }
+        });
+    }
+
+    _onBgSaveResult(message) {
+        const pending = this._bgSavePending;
+        this._bgSavePending = null;
+        this.rdbStatus.bgsaveInProgress = false;
+        this.rdbStatus.lastBgsaveDurationMs = message.durationMs;
+
+        if (message.status === "success") {
             try {
-                const fileContent = fs.readFileSync(this.filePath, "utf-8");
-                
-                // Check if file is empty or only whitespace
-                if (!fileContent.trim()) {
-                    console.log(`RDB file ${this.filePath} is empty, starting with fresh data`);
-                    return;
+                if (pending && pending.superseded) {
+                    fs.rmSync(message.tempPath, { force: true });
+                } else {
+                    commitSnapshot(this.filePath, message.tempPath);
+                    this._archiveSnapshot(message.header, Boolean(pending && pending.manual));
                 }
-                
-                const data = JSON.parse(fileContent);
-
-                this.store = new Map(data.store);
-                this.expiry = new Map(data.expiry);
-
-                // Restart expiration timers
-                this.expiry.forEach((expireAt, key) => {
-                    const timeLeft = expireAt - Date.now();
-                    if (timeLeft > 0) {
-                        // Try to use worker, fallback to setTimeout
-                        if (this.ttlWorker && this.workerAvailable) {
-                            try {
-                                this.ttlWorker.postMessage({ type: "setTTL", key, ttl: timeLeft / 1000 });
-                            } catch (error) {
-                                console.warn("Worker not available, using setTimeout fallback");
-                                setTimeout(() => this.delete(key), timeLeft);
-                            }
-                        } else {
-                            // Fallback to setTimeout
-                            setTimeout(() => this.delete(key), timeLeft);
-                        }
-                    } else {
-                        this.delete(key);
-                    }
-                });
             } catch (error) {
-                console.error("Error loading RDB file:", error.message);
-                console.log(`Corrupted RDB file ${this.filePath}, starting with fresh data`);
-                // Initialize with empty data structures
-                this.store = new Map();
-                this.expiry = new Map();
+                message = { status: "error", error: error.message, durationMs: message.durationMs };
+            }
+        }
+
+        if (message.status === "success") {
+            this.rdbStatus.lastBgsaveStatus = "ok";
+            this.rdbStatus.lastBgsaveError = null;
+            this.rdbStatus.lastSaveTime = Date.now();
+            this.rdbStatus.bgsaveCount++;
+            this.rdbStatus.totalBgsaveMs += message.durationMs;
+            // writes made after the snapshot was taken are still unsaved
+            this.rdbStatus.changesSinceLastSave = Math.max(0, this.rdbStatus.changesSinceLastSave - (pending ? pending.changes : 0));
+            if (pending) pending.resolve({ durationMs: message.durationMs, bytes: message.bytes, background: true });
+        } else {
+            console.error(`Background save for ${this.nodeName} failed:`, message.error);
+            this.rdbStatus.lastBgsaveStatus = "err";
+            this.rdbStatus.lastBgsaveError = message.error;
+            if (pending) pending.reject(new Error(`ERR Background save failed: ${message.error}`));
+        }
+
+        if (this._rdbSaveQueued) {
+            this._rdbSaveQueued = false;
+            this.scheduleBgSave();
+        }
+    }
+
+    // BGSAVE SCHEDULE: snapshot now, or right after the BGSAVE in progress
+    // (requests made during one BGSAVE are coalesced into a single follow-up
+    // save). Writes don't come through here: they wait for a save point.
+    scheduleBgSave() {
+        if (this.rdbStatus.bgsaveInProgress) {
+            this._rdbSaveQueued = true;
+            return;
+        }
+        this.bgSave({ manual: false }).catch(() => {});
+    }
+
+    // keep a copy of the snapshot just committed in the history
+    _archiveSnapshot(header, manual) {
+        if (!manual && !this.history.isDue()) return;
+        try {
+            this.history.archive(this.filePath, header, { manual });
+        } catch (error) {
+            console.error(`Error archiving snapshot for ${this.nodeName}:`, error.message);
+        }
+    }
+
+    // Compare a history generation with the live dataset (dry run of a restore).
+    // Key lists are capped at `limit`, the counts are exact.
+    diffSnapshot(id, limit = 100) {
+        const snapshot = this.history.read(id);
+        const snapshotKeys = new Set();
+        const diff = { added: [], removed: [], changed: [], addedCount: 0, removedCount: 0, changedCount: 0, unchanged: 0 };
+        const note = (list, countField, key) => {
+            diff[countField]++;
+            if (diff[list].length < limit) diff[list].push(key);
+        };
+
+        snapshot.store.forEach(([key, value]) => {
+            snapshotKeys.add(key);
+            if (!this.store.has(key)) {
+                note("added", "addedCount", key);
+            } else if (JSON.stringify(encodeValue(this.store.get(key))) !== JSON.stringify(value)) {
+                note("changed", "changedCount", key);
+            } else {
+                diff.unchanged++;
             }
+        });
+        this.store.forEach((value, key) => {
+            if (!snapshotKeys.has(key)) note("removed", "removedCount", key);
+        });
+
+        return { generation: this.history.get(id), ...diff };
+    }
+
+    // Replace the live dataset with a history generation. The result is
+    // written out right away (RDB file, and a fresh AOF base when appendonly
+    // is on) so a restart doesn't bring the old data back.
+    restoreSnapshot(id) {
+        const snapshot = this.history.read(id);
+        const generation = this.history.get(id);
+        // the data being replaced becomes a generation of its own, so a restore can be undone
+        this.saveToFile(true);
+
+        this.loading = true;
+        try {
+            this.store = new Map(snapshot.store.map(([key, value]) => [key, decodeValue(value)]));
+            this.expiry = new Map();
+            snapshot.expiry.forEach(([key, expireAt]) => this._restoreExpiry(key, expireAt));
+            this._recountKeys();
+        } finally {
+            this.loading = false;
+        }
+
+        if (this.appendOnly) {
+            this.aof.writeBase(this._aofSnapshot());
+        }
+        this.syncEntries().forEach(({ command, args }) => this.replicate(command, args));
+        if (this._bgSavePending) {
+            this._bgSavePending.superseded = true;
+        }
+        this._rdbSaveQueued = false;
+        if (!this.saveToFile()) {
+            throw new Error("ERR Restored the snapshot but failed to save the RDB file, check the server log");
+        }
+        return { generation, keyCount: this.store.size };
+    }
+
+    getRdbStatus() {
+        const { bgsaveCount, totalBgsaveMs } = this.rdbStatus;
+        return {
+            filePath: this.filePath,
+            ...this.rdbStatus,
+            avgBgsaveMs: bgsaveCount > 0 ? Math.round(totalBgsaveMs / bgsaveCount) : null,
+            workerAvailable: Boolean(this.rdbWorker && this.rdbWorkerAvailable),
+            workerPid: this.rdbWorker ? this.rdbWorker.pid : null,
+        };
+    }
+
+    // load data from file: the AOF when appendonly is on, otherwise the RDB snapshot
+
+    loadFromFile() {
+        if (this.appendOnly && fs.existsSync(this.aofPath)) {
+            if (this._loadFromAof()) return;
+            this._loadFromRdb();
+            this._startAof(); // fresh log from the snapshot we fell back to
+            return;
         }
+        this._loadFromRdb();
+    }
+
+    _loadFromRdb() {
+        const snapshot = loadSnapshot(this.filePath);
+        if (!snapshot) return;
+
+        snapshot.errors.forEach((error) => console.error("Rejected RDB file", error.message));
+        if (snapshot.errors.some((error) => error.filePath === this.filePath)) {
+            // keep the damaged primary aside so the next save can't rotate it over the good generation
+            fs.renameSync(this.filePath, `${this.filePath}.corrupt`);
+            console.log(`Moved damaged RDB file to ${this.filePath}.corrupt`);
+        }
+        if (!snapshot.source) {
+            console.log(`No usable RDB file for ${this.nodeName}, starting with fresh data`);
+        } else if (snapshot.source !== this.filePath) {
+            console.log(`Loaded previous RDB generation ${snapshot.source}`);
+        }
+        this.rdbStatus.loadedFrom = snapshot.source;
+
+        this.store = new Map(snapshot.store.map(([key, value]) => [key, decodeValue(value)]));
+        this.expiry = new Map(snapshot.expiry);
+        this._recountKeys();
+
+        // Restart expiration timers
+        this.expiry.forEach((expireAt, key) => this._restoreExpiry(key, expireAt));
+    }
+
+
+    // set an absolute expiry (from a file) and start its timer, or drop the key if it already passed
+
+    _restoreExpiry(key, expireAt) {
+        const timeLeft = expireAt - Date.now();
+        this.expiry.set(key, expireAt);
+        if (timeLeft <= 0) {
+            if (!this.replica) this.delete(key, true, "expired");
+            return;
+        }
+
+        // Try to use worker, fallback to setTimeout
+        if (this.ttlWorker && this.workerAvailable) {
+            try {
+                this.ttlWorker.postMessage({ type: "setTTL", key, ttl: timeLeft / 1000 });
+            } catch (error) {
+                console.warn("Worker not available, using setTimeout fallback");
+                setTimeout(() => this._expireIfDue(key), timeLeft);
+            }
+        } else {
+            // Fallback to setTimeout
+            setTimeout(() => this._expireIfDue(key), timeLeft);
+        }
+    }
+
+
+    // Expiry timers can outlive their key's TTL (the dataset was reloaded or
+    // restored, or the key got a later expiry), so they only delete a key
+    // whose recorded expiry has actually passed. The slack covers timers
+    // firing a few milliseconds before Date.now() reaches expireAt. A replica
+    // leaves the key to the master, whose del comes through replication.
+    _expireIfDue(key, notifyWorker = true) {
+        const expireAt = this.expiry.get(key);
+        if (this.replica || expireAt === undefined || expireAt > Date.now() + 10) return;
+        this.delete(key, notifyWorker, "expired");
+    }
+
+    // whether key's TTL has passed. Until the key is deleted (by its timer,
+    // or on a replica by the master's del) reads treat it as missing
+    isExpired(key) {
+        const expireAt = this.expiry.get(key);
+        return expireAt !== undefined && Date.now() >= expireAt;
+    }
+
+
+    // ----- Command propagation -----
+
+    // Every write ends in propagate(): the entry goes to the AOF (or queues an
+    // RDB snapshot) and to the slaves. Entries describe the effect of the
+    // write, not the call that made it: absolute expiry times (set, pexpireat,
+    // restore), the members that were really removed, final zadd scores. So
+    // replaying one with applyCommand() gives the same result on any node,
+    // whenever it is replayed.
+    //
+    // It is also where per-key sizes and access times are kept (even while
+    // loading) and where keyspace notifications go out; deleteEvent names
+    // the event of a del entry for a key that "expired" or was "evicted".
+    // Inside a transaction the entry waits for endTransaction().
+    propagate(command, args, deleteEvent = null) {
+        this._trackWrite(command, args);
+        if (this.loading) return;
+        if (this.transactionEntries) {
+            this.transactionEntries.push({ command, args });
+        } else {
+            this.persist(command, args);
+            this.replicate(command, args);
+        }
+        this._touchWatched(command, args);
+        this._notifyKeyspace(command, args, deleteEvent);
+    }
+
+    // ----- Transactions (MULTI/EXEC) -----
+
+    // Writes between beginTransaction() and endTransaction() reach the AOF
+    // and the slaves as one "exec" entry, so a crash or a slave never sees
+    // half of them. Blocked clients are woken up at the end too, so none of
+    // them runs in between (a script waits for its replies asynchronously).
+    beginTransaction() {
+        this.transactionEntries = [];
+    }
+
+    endTransaction() {
+        const entries = this.transactionEntries;
+        this.transactionEntries = null;
+        if (entries && entries.length > 0) {
+            const [command, args] = entries.length === 1 ? [entries[0].command, entries[0].args] : ["exec", [entries]];
+            this.persist(command, args);
+            this.replicate(command, args);
+        }
+        const signals = Array.from(this.transactionSignals);
+        this.transactionSignals.clear();
+        signals.forEach((key) => this._signalKey(key));
+    }
+
+    // run fn as one transaction and return its result
+    transaction(fn) {
+        this.beginTransaction();
+        try {
+            return fn();
+        } finally {
+            this.endTransaction();
+        }
+    }
+
+    // WATCH: state.dirty is set by the next write to key; call the returned
+    // function to stop watching
+    watchKey(key, state) {
+        if (!this.watchers.has(key)) {
+            this.watchers.set(key, new Set());
+        }
+        this.watchers.get(key).add(state);
+        return () => {
+            const states = this.watchers.get(key);
+            if (!states) return;
+            states.delete(state);
+            if (states.size === 0) this.watchers.delete(key);
+        };
+    }
+
+    // mark the watchers of every key the entry changed
+    _touchWatched(command, args) {
+        if (this.watchers.size === 0) return;
+        if (command === "exec") {
+            args[0].forEach((entry) => this._touchWatched(entry.command, entry.args));
+            return;
+        }
+        let keys = [args[0]];
+        if (command === "flushall") keys = Array.from(this.watchers.keys());
+        if (command === "rename") keys = [args[0], args[1]];
+        keys.forEach((key) => {
+            const states = this.watchers.get(key);
+            if (states) states.forEach((state) => { state.dirty = true; });
+        });
+    }
+
+    _notifyKeyspace(command, args, deleteEvent) {
+        notificationsFor(this.notifyKeyspaceEvents, command, args, deleteEvent).forEach(({ channel, message }) => {
+            if (this.keyspacePublisher) {
+                this.keyspacePublisher(channel, message);
+            } else {
+                this.publish(channel, message);
+            }
+        });
+    }
+
+    // CONFIG SET notify-keyspace-events; returns the flags in canonical form
+    setNotifyKeyspaceEvents(flags) {
+        this.notifyKeyspaceEvents = parseFlags(flags);
+        return this.notifyKeyspaceEvents;
+    }
+
+    // Apply one propagated entry (AOF replay, or a write received from the
+    // master). Nested writes stay quiet; outside AOF loading the entry itself is
+    // then persisted and passed on unchanged, so slaves of this node see it too.
+    applyCommand(command, args) {
+        this._withoutPropagation(() => this._applyEntry(command, args));
+        this.propagate(command, args);
+    }
+
+    // run fn without propagating the writes it makes
+    _withoutPropagation(fn) {
+        const loading = this.loading;
+        this.loading = true;
+        try {
+            return fn();
+        } finally {
+            this.loading = loading;
+        }
+    }
+
+    // entries that rebuild this node's dataset from scratch (initial sync of a slave)
+    syncEntries() {
+        return [{ command: "flushall", args: [] }, ...this._aofSnapshot()];
+    }
+
+
+    // ----- AOF persistence -----
+
+    // Appends an entry to the AOF when appendonly is on, otherwise counts
+    // it towards the next save point
+    persist(command, args) {
+        if (this.loading) return;
+        this.rdbStatus.changesSinceLastSave++;
+        if (!this.appendOnly) {
+            this._checkSavePoints();
+            return;
+        }
+
+        this.aof.append(command, args);
+        if (this.aof.needsRewrite()) {
+            this.bgRewriteAof().catch(() => {});
+        }
+    }
+
+    // the dataset as AOF entries, one restore per key (the base of a rewrite)
+    _aofSnapshot() {
+        return Array.from(this.store.entries(), ([key, value]) => ({
+            command: "restore",
+            args: [key, encodeValue(value), this.expiry.has(key) ? this.expiry.get(key) : null],
+        }));
+    }
+
+    _startAof() {
+        if (!fs.existsSync(this.aofPath)) {
+            this.aof.writeBase(this._aofSnapshot());
+        }
+        this.aof.open();
+    }
+
+    // returns false when the log can't be read, so the caller can fall back to the RDB file
+    _loadFromAof() {
+        this.store = new Map();
+        this.expiry = new Map();
+        this.loading = true;
+        try {
+            const { commands, truncated } = this.aof.replay((command, args) => this.applyCommand(command, args));
+            console.log(`Loaded ${commands} commands from AOF ${this.aofPath}${truncated ? " (ignored truncated last entry)" : ""}`);
+            return true;
+        } catch (error) {
+            console.error("Error loading AOF file:", error.message);
+            console.log(`Moving corrupted AOF to ${this.aofPath}.corrupt, loading RDB snapshot instead`);
+            this.aof.close();
+            fs.renameSync(this.aofPath, `${this.aofPath}.corrupt`);
+            this.store = new Map();
+            this.expiry = new Map();
+            this._recountKeys();
+            return false;
+        } finally {
+            this.loading = false;
+        }
+    }
+
+    _applyEntry(command, args) {
+        switch (command) {
+            case "set": {
+                const [key, value, expireAt] = args;
+                this.set(key, value);
+                if (expireAt) this._restoreExpiry(key, expireAt);
+                break;
+            }
+            case "restore":
+                this.restore(...args);
+                break;
+            case "del":
+                this.delete(args[0], false);
+                break;
+            case "pexpireat":
+                if (this.store.has(args[0])) this._restoreExpiry(args[0], args[1]);
+                break;
+            case "flushall":
+                this.flushAll();
+                break;
+            case "exec":
+                args[0].forEach((entry) => this._applyEntry(entry.command, entry.args));
+                break;
+            case "rename":
+                this.rename(args[0], args[1]);
+                break;
+            case "zadd":
+                this.zadd(args[0], args[1]);
+                break;
+            case "xadd":
+                this.xadd(args[0], args[1], args[2], { maxLen: args[3] });
+                break;
+            case "xgroupcreate":
+                this.xgroupCreate(args[0], args[1], args[2], true);
+                break;
+            case "xclaim":
+                this._deliver(...args);
+                break;
+            case "xgroupsetid":
+                this.xgroupSetId(...args);
+                break;
+            case "xgroupdestroy":
+                this.xgroupDestroy(...args);
+                break;
+            case "xgroupcreateconsumer":
+                this.xgroupCreateConsumer(...args);
+                break;
+            case "xgroupdelconsumer":
+                this.xgroupDelConsumer(...args);
+                break;
+            case "xack":
+                this.xack(...args);
+                break;
+            case "incr":
+            case "decr":
+            case "lpush":
+            case "rpush":
+            case "lpop":
+            case "rpop":
+            case "hset":
+            case "hdel":
+            case "hincrby":
+            case "sadd":
+            case "srem":
+            case "zrem":
+                this[command](...args);
+                break;
+            default:
+                console.warn(`Unknown propagated command: ${command}`);
+        }
+    }
+
+    // BGREWRITEAOF: compact the log down to one entry per key in the background
+    bgRewriteAof() {
+        return this.aof.rewrite(this._aofSnapshot()).then(
+            (result) => {
+                console.log(`AOF rewrite for ${this.nodeName} finished in ${result.durationMs}ms`);
+                return result;
+            },
+            (error) => {
+                console.error(`AOF rewrite for ${this.nodeName} failed:`, error.message);
+                throw error;
+            }
+        );
+    }
+
+    // CONFIG SET appendonly / appendfsync equivalent
+    setAppendOnly(enabled, fsyncPolicy = null) {
+        if (fsyncPolicy) this.aof.setFsyncPolicy(fsyncPolicy);
+
+        if (enabled && !this.appendOnly) {
+            // the log starts from the current dataset
+            this.aof.writeBase(this._aofSnapshot());
+            this.aof.open();
+            this.appendOnly = true;
+        } else if (!enabled && this.appendOnly) {
+            this.aof.close();
+            this.appendOnly = false;
+            this.scheduleBgSave(); // the RDB file is the only copy again
+        }
+        return this.getAofStatus();
+    }
+
+    getAofStatus() {
+        return { enabled: this.appendOnly, ...this.aof.getStatus() };
     }
 
 
     scheduleAutoSave() {
-        setInterval(() => {
-            this.saveToFile();
-        }, this.autoSaveInterval);
+        this.autoSaveTimer = setInterval(() => this._checkSavePoints(), SAVE_POINT_CHECK_MS);
+    }
+
+    // CONFIG SET save
+    setSavePoints(value) {
+        this.savePoints = parseSavePoints(value);
+    }
+
+    // start a BGSAVE when a save point is reached; called on every write
+    // (without AOF) and every second, so a snapshot covers many writes
+    _checkSavePoints() {
+        const { changesSinceLastSave, bgsaveInProgress, lastSaveTime, lastBgsaveStatus, bgsaveStartedAt } = this.rdbStatus;
+        if (changesSinceLastSave === 0 || bgsaveInProgress) return;
+        const now = Date.now();
+        if (lastBgsaveStatus === "err" && now - bgsaveStartedAt < BGSAVE_RETRY_DELAY_MS) return;
+
+        const elapsedSeconds = (now - (lastSaveTime || this.savePointsSince)) / 1000;
+        const due = this.savePoints.some(({ seconds, changes }) => elapsedSeconds >= seconds && changesSinceLastSave >= changes);
+        if (due) this.bgSave({ manual: false }).catch(() => {});
+    }
+
+
+    // Stop this node's timers, workers and AOF after a final blocking save
+    // (used when a node is removed from the cluster)
+    shutdown() {
+        clearInterval(this.autoSaveTimer);
+        this._rdbSaveQueued = false;
+        if (this.rdbWorker) {
+            this.rdbWorker.removeAllListeners("exit");
+            this.rdbWorker.kill();
+            this.rdbWorkerAvailable = false;
+        }
+        if (this._bgSavePending) {
+            this._bgSavePending.reject(new Error("ERR node shut down during background save"));
+            this._bgSavePending = null;
+        }
+        this.rdbStatus.bgsaveInProgress = false;
+        if (this.ttlWorker) {
+            this.ttlWorker.terminate();
+            this.ttlWorker = null;
+            this.workerAvailable = false;
+        }
+        this.saveToFile();
+        if (this.appendOnly) this.aof.close();
     }
 
 
+    // ----- Eviction (maxmemory-policy) -----
+
     /*** LRU Mechanism: Move item to end when accessed ***/
+    // and count the lookup in the key's LFU counter
     _updateLRU(key){
       if(this.store.has(key))
       {
         const value = this.store.get(key);
         this.store.delete(key);
         this.store.set(key , value);
+        const meta = this.keyMeta.get(key);
+        if (meta) recordAccess(meta, this.lfuSettings);
       }
     }
 
-     /*** LRU Eviction: Remove least recently used item if needed ***/
-     _evictLRU() {
-      if(this.store.size > this.maxSize)
-      {
-        const oldestKey = this.store.keys().next().value;
-        this.delete(oldestKey);
+    // Called before a write that can grow the dataset, as Redis does before
+    // a denyoom command: while the node uses more than maxmemory, drop the
+    // key the policy picks. The write itself may then go over the limit, the
+    // next one evicts. Returns false when nothing can go (noeviction, or a
+    // volatile-* policy without TTL keys).
+    _freeMemory() {
+      if (this.loading || this.maxMemory === 0) return true;
+      while (this.usedMemory > this.maxMemory) {
+        const victim = selectVictim(this.maxMemoryPolicy, this);
+        if (victim === null) return false;
+        this.delete(victim, true, "evicted");
+        this.evictionStats.evictedKeys++;
+        this.evictionStats.lastEvictedKey = victim;
+        this.evictionStats.lastEvictedAt = Date.now();
       }
-     }
+      return true;
+    }
 
-    set(key,value,ttl=null)
+    // like _freeMemory, but a write that finds no room fails with OOM
+    // Callers check the type (and anything else that can fail) first, so a
+    // command that is going to fail evicts nothing
+    _reserveMemory() {
+      if (this._freeMemory()) return;
+      this.evictionStats.rejectedWrites++;
+      throw new Error("OOM command not allowed when used memory > 'maxmemory'.");
+    }
+
+    // room for a write whose data comes from another node (LMOVE across
+    // nodes), made before that node gives anything up
+    makeRoom() {
+      this._reserveMemory();
+    }
+
+    // CONFIG SET maxmemory; takes bytes or a size like "2mb", returns bytes
+    setMaxMemory(value) {
+      this.maxMemory = parseBytes(value);
+      return this.maxMemory;
+    }
+
+    // CONFIG SET maxmemory-policy; returns the policy in canonical form
+    setMaxMemoryPolicy(policy) {
+      this.maxMemoryPolicy = parsePolicy(policy);
+      return this.maxMemoryPolicy;
+    }
+
+    getEvictionStatus() {
+      return {
+        policy: this.maxMemoryPolicy,
+        maxMemory: this.maxMemory,
+        usedMemory: this.usedMemory,
+        keys: this.store.size,
+        volatileKeys: this.expiry.size,
+        ...this.evictionStats,
+      };
+    }
+
+
+    // ----- Per-key bookkeeping (MEMORY USAGE / MEMORY STATS / OBJECT) -----
+
+    // propagate() hands every write entry here, also while loading. The keys
+    // it touched are sized again (see memoryUsage.js; usedMemory is the sum
+    // of keySizes) and their idle time restarts; a key the write created
+    // gets fresh access metadata. Datasets replaced wholesale are recounted.
+    _trackWrite(command, args) {
+      if (command === "exec") {
+        args[0].forEach((entry) => this._trackWrite(entry.command, entry.args));
+        return;
+      }
+      if (command === "flushall") {
+        this._recountKeys();
+        return;
+      }
+      const keys = command === "rename" ? [args[0], args[1]] : [args[0]];
+      keys.forEach((key) => {
+        this._resizeKey(key);
+        if (!this.store.has(key)) return;
+        const meta = this.keyMeta.get(key);
+        if (meta) {
+          recordWrite(meta, this.lfuSettings);
+        } else {
+          this.keyMeta.set(key, createMeta());
+        }
+      });
+    }
+
+    _resizeKey(key) {
+      const size = this.store.has(key) ? keySize(key, this.store.get(key), this.expiry.has(key)) : 0;
+      this.usedMemory += size - (this.keySizes.get(key) || 0);
+      if (size > 0) {
+        this.keySizes.set(key, size);
+      } else {
+        this.keySizes.delete(key);
+      }
+      this.peakMemory = Math.max(this.peakMemory, this.usedMemory);
+    }
+
+    _recountKeys() {
+      this.keySizes.clear();
+      this.usedMemory = 0;
+      const keyMeta = new Map();
+      this.store.forEach((value, key) => {
+        this._resizeKey(key);
+        keyMeta.set(key, this.keyMeta.get(key) || createMeta());
+      });
+      this.keyMeta = keyMeta;
+    }
+
+    // MEMORY USAGE: bytes of key, its value and expiry, or null when it doesn't exist
+    memoryUsage(key) {
+      if (this.expiry.has(key) && Date.now() >= this.expiry.get(key)) return null;
+      return this.store.has(key) ? this.keySizes.get(key) : null;
+    }
+
+    memoryStats(topKeys = 5) {
+      const keys = this.store.size;
+      const largestKeys = Array.from(this.keySizes.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, topKeys)
+        .map(([key, bytes]) => ({ key, bytes }));
+      return {
+        datasetBytes: this.usedMemory,
+        peakBytes: this.peakMemory,
+        maxMemory: this.maxMemory,
+        keys,
+        volatileKeys: this.expiry.size,
+        bytesPerKey: keys === 0 ? 0 : Math.round(this.usedMemory / keys),
+        largestKeys,
+      };
+    }
+
+    // OBJECT ENCODING / IDLETIME / FREQ of key without touching it, or null
+    // when it doesn't exist. Both the idle time and the LFU counter are kept
+    // whatever the policy, so unlike Redis neither needs a matching policy.
+    objectInfo(key) {
+      if (this.expiry.has(key) && Date.now() >= this.expiry.get(key)) return null;
+      if (!this.store.has(key)) return null;
+      const meta = this.keyMeta.get(key) || createMeta();
+      return {
+        encoding: objectEncoding(this.store.get(key)),
+        idleSeconds: Math.floor((Date.now() - meta.lastAccess) / 1000),
+        freq: decayedCounter(meta, this.lfuSettings.decayTime),
+        lastAccess: meta.lastAccess,
+      };
+    }
+
+    // keys in LRU order (least recently used first, only the limit most
+    // recent ones) with their access metadata and size, for the LRU/LFU demo
+    accessList(limit = 100) {
+      const entries = [];
+      for (const key of Array.from(this.store.keys()).slice(-limit)) {
+        const info = this.objectInfo(key);
+        if (info) entries.push({ key, type: this.type(key), bytes: this.keySizes.get(key) || 0, ...info });
+      }
+      return entries;
+    }
+
+    // a plain SET drops any TTL the key had; keepTtl (SET ... KEEPTTL) keeps it
+    set(key,value,ttl=null,keepTtl=false)
     {
+        this._reserveMemory();
         if (this.store.has(key)) {
           this.store.delete(key); // Remove old instance to update LRU order
         }
+        if (!keepTtl) this.expiry.delete(key);
         this.store.set(key, value);
-        this._evictLRU(); // Ensure maxSize limit
         
         // Handle TTL if provided
         if (ttl && ttl > 0) {
             const expireAt = Date.now() + ttl * 1000; // Convert seconds to milliseconds
             this.expiry.set(key, expireAt);
-            setTimeout(() => this.delete(key), ttl * 1000); // Auto-delete key when TTL expires
+            setTimeout(() => this._expireIfDue(key), ttl * 1000); // Auto-delete key when TTL expires
             
             // Also notify TTL worker for additional handling if available
             if (this.ttlWorker && this.workerAvailable) {
@@ -226,8 +1231,7 @@ class RedisClone{
             }
         }
         
-        this.saveToFile(); 
-        this.replicate("set", [key, value, ttl]);
+        this.propagate("set", [key, value, this.expiry.has(key) ? this.expiry.get(key) : null]);
         return "OK";
     }
 
@@ -240,8 +1244,9 @@ class RedisClone{
         // }
         // return this.store.has(key)? this.store.get(key):null;
 
-        if (this.expiry.has(key) && Date.now() >= this.expiry.get(key)) {
-          this.delete(key);
+        if (this.isExpired(key)) {
+          // a replica reports the key missing but doesn't delete it itself
+          if (!this.replica) this.delete(key, true, "expired");
           return "(nil)";
       }
       if (this.store.has(key)) {
@@ -259,9 +1264,11 @@ class RedisClone{
     //     return deleted ? "1" : "0";
     // }
 
-    delete(key, notifyWorker = true) {
+    // deleteEvent: the keyspace event announced instead of "del" ("expired", "evicted")
+    delete(key, notifyWorker = true, deleteEvent = null) {
       const deleted = this.store.delete(key);
       this.expiry.delete(key);
+      this.keyMeta.delete(key);
       
       // Only notify worker if it's available and notifyWorker is true
       if (notifyWorker && this.ttlWorker && this.workerAvailable) {
@@ -273,8 +1280,7 @@ class RedisClone{
           }
       }
       
-      this.replicate("delete", [key]);
-      this.saveToFile();
+      if (deleted) this.propagate("del", [key], deleteEvent);
       return deleted ? "1" : "0";
   }
 
@@ -282,7 +1288,8 @@ class RedisClone{
     {
         this.store.clear();
         this.expiry.clear();
-        this.saveToFile(); 
+        this.keyMeta.clear();
+        this.propagate("flushall", []);
         return "Flushed"
     }
 
@@ -296,6 +1303,20 @@ class RedisClone{
         return this.store.has(key) ? 1:0;
     }
 
+    // name of the data type stored at key
+    type(key)
+    {
+        if(!this.store.has(key)) return "none";
+
+        const value = this.store.get(key);
+        if (Array.isArray(value)) return "list";
+        if (value instanceof Set) return "set";
+        if (value instanceof SortedSet) return "zset";
+        if (value instanceof Stream) return "stream";
+        if (typeof value === "object" && value !== null) return "hash";
+        return "string";
+    }
+
     expire(key , ttl)
     {
         if(!this.store.has(key)) return 0;
@@ -304,9 +1325,9 @@ class RedisClone{
         this.expiry.set(key , expireAt);
 
         setTimeout(() => {
-            this.delete(key)
+            this._expireIfDue(key)
         }, ttl*1000);
-        this.saveToFile();
+        this.propagate("pexpireat", [key, expireAt]);
         return 1;
     }
 
@@ -316,33 +1337,35 @@ class RedisClone{
     
       incr(key)
       {
+        if (this.store.has(key) && isNaN(this.store.get(key))) throw new Error("Value is not a number");
+        this._reserveMemory();
         if(!this.store.has(key))
         {
             this.store.set(key , 1);
+            this.propagate("incr", [key]);
             return 1;
         }
 
         let value = this.store.get(key);
-        if (isNaN(value)) throw new Error("Value is not a number");
-
         value = Number(value) + 1;
         this.store.set(key, value);
-        this.saveToFile();
+        this.propagate("incr", [key]);
         return value;
       }
 
       decr(key) {
+        if (this.store.has(key) && isNaN(this.store.get(key))) throw new Error("Value is not a number");
+        this._reserveMemory();
         if (!this.store.has(key)) {
           this.store.set(key, -1);
+          this.propagate("decr", [key]);
           return -1;
         }
       
         let value = this.store.get(key);
-        if (isNaN(value)) throw new Error("Value is not a number");
-      
         value = Number(value) - 1;
         this.store.set(key, value);
-        this.saveToFile();
+        this.propagate("decr", [key]);
         return value;
       }
 
@@ -355,43 +1378,103 @@ class RedisClone{
         const timeLeft = Math.ceil((this.expiry.get(key) - Date.now()) / 1000);
         return timeLeft > 0 ? timeLeft : -2; // -2 if expired
       }
+
+      // like ttl, in milliseconds
+      pttl(key) {
+        if (!this.store.has(key)) return -2;
+        if (!this.expiry.has(key)) return -1;
+
+        const timeLeft = this.expiry.get(key) - Date.now();
+        return timeLeft > 0 ? timeLeft : -2;
+      }
         
+      // DUMP / RESTORE: a key as its encoded value plus absolute expiry, so it
+      // can be moved to another node unchanged
+      dump(key) {
+        if (!this.store.has(key)) return null;
+        return { value: encodeValue(this.store.get(key)), expireAt: this.expiry.has(key) ? this.expiry.get(key) : null };
+      }
+
+      // DEBUG DIGEST-VALUE: a short hash of a key's value and absolute expiry;
+      // equal on two nodes exactly when a DUMP of the key would be
+      digest(key) {
+        const dumped = this.dump(key);
+        if (!dumped) return null;
+        return crypto.createHash("sha1").update(JSON.stringify(dumped)).digest("hex");
+      }
+
+      // { key: digest } for every key that has not expired yet
+      digests() {
+        const now = Date.now();
+        const digests = {};
+        this.store.forEach((value, key) => {
+          if (this.expiry.has(key) && this.expiry.get(key) <= now) return;
+          digests[key] = this.digest(key);
+        });
+        return digests;
+      }
+
+      // a key moved here by resharding is never refused, even under noeviction
+      restore(key, value, expireAt = null) {
+        this._freeMemory();
+        if (this.store.has(key)) this.store.delete(key);
+        this.expiry.delete(key);
+        this.store.set(key, decodeValue(value));
+        this.propagate("restore", [key, value, expireAt]);
+        if (expireAt) this._restoreExpiry(key, expireAt);
+        this._signalKey(key);
+        return "OK";
+      }
+
       rename(oldKey, newKey) {
         if (!this.store.has(oldKey)) throw new Error("No such key");
       
         const value = this.store.get(oldKey);
         this.store.set(newKey, value);
-        this.delete(oldKey); // Remove old key
-        this.saveToFile();
+        this.keyMeta.set(newKey, this.keyMeta.get(oldKey)); // the access history moves with the value
+        this._withoutPropagation(() => this.delete(oldKey)); // Remove old key
+        this.propagate("rename", [oldKey, newKey]); // one entry, not a set plus a del
+        this._signalKey(newKey);
         return "OK";
       }
       
-      // adding to left and right
+      // adding to left and right; clients blocked in BLPOP & co. are
+      // served once every value is in, the length returned is from before
 
-      lpush(key, value) {
+      lpush(key, ...values) {
+        if (this.store.has(key) && !Array.isArray(this.store.get(key))) {
+          throw new Error("Key is not a list");
+        }
+        this._reserveMemory();
         if (!this.store.has(key)) {
           this.store.set(key, []);
-        } else if (!Array.isArray(this.store.get(key))) {
-          throw new Error("Key is not a list");
         }
       
-        this.store.get(key).unshift(value); // Add to front
-        this.saveToFile();
-        this.replicate("lpush", [key, value]);
-        return this.store.get(key).length;
+        values.forEach((value) => {
+          this.store.get(key).unshift(value); // Add to front
+          this.propagate("lpush", [key, value]);
+        });
+        const length = this.store.get(key).length;
+        this._signalKey(key);
+        return length;
       }
       
-      rpush(key, value) {
+      rpush(key, ...values) {
+        if (this.store.has(key) && !Array.isArray(this.store.get(key))) {
+          throw new Error("Key is not a list");
+        }
+        this._reserveMemory();
         if (!this.store.has(key)) {
           this.store.set(key, []);
-        } else if (!Array.isArray(this.store.get(key))) {
-          throw new Error("Key is not a list");
         }
       
-        this.store.get(key).push(value); // Add to end
-        this.saveToFile();
-        this.replicate("rpush", [key, value]);
-        return this.store.get(key).length;
+        values.forEach((value) => {
+          this.store.get(key).push(value); // Add to end
+          this.propagate("rpush", [key, value]);
+        });
+        const length = this.store.get(key).length;
+        this._signalKey(key);
+        return length;
       }
 
 
@@ -407,8 +1490,9 @@ class RedisClone{
         if (this.store.get(key).length === 0) {
           return "(nil)";
         }
-        this.saveToFile();
-        return this.store.get(key).shift(); // Remove first element
+        const value = this.store.get(key).shift(); // Remove first element
+        this.propagate("lpop", [key]);
+        return value;
       }
         
       rpop(key) {
@@ -421,8 +1505,57 @@ class RedisClone{
         if (this.store.get(key).length === 0) {
           return "(nil)";
         }
-        this.saveToFile();
-        return this.store.get(key).pop(); // Remove last element
+        const value = this.store.get(key).pop(); // Remove last element
+        this.propagate("rpop", [key]);
+        return value;
+      }
+
+
+      // reading lists; negative indexes count from the end (-1 is the last element)
+
+      _getList(key) {
+        if (!this.store.has(key)) return null;
+        if (!Array.isArray(this.store.get(key))) throw new Error(WRONGTYPE);
+        this._updateLRU(key);
+        return this.store.get(key);
+      }
+
+      lrange(key, start, stop) {
+        const list = this._getList(key);
+        if (!list) return [];
+        const from = start < 0 ? Math.max(list.length + start, 0) : start;
+        const to = stop < 0 ? list.length + stop : Math.min(stop, list.length - 1);
+        return from > to ? [] : list.slice(from, to + 1);
+      }
+
+      llen(key) {
+        const list = this._getList(key);
+        return list ? list.length : 0;
+      }
+
+      lindex(key, index) {
+        const list = this._getList(key);
+        if (!list) return "(nil)";
+        const value = list[index < 0 ? list.length + index : index];
+        return value === undefined ? "(nil)" : value;
+      }
+
+      // LMOVE: pop from one end ("left" or "right") of source and push onto
+      // one end of destination, which may be the same list; replicated as
+      // the pop and the push
+      // Both types are checked and room is made before anything is popped, as
+      // Redis refuses a denyoom command up front: a move that fails (WRONGTYPE,
+      // OOM) leaves source as it was
+      lmove(source, destination, whereFrom, whereTo) {
+        this._getList(source);
+        this._getList(destination);
+        this._reserveMemory();
+        const list = this._getList(source); // eviction may have taken it
+        if (!list || list.length === 0) return "(nil)";
+        const value = whereFrom === "left" ? this.lpop(source) : this.rpop(source);
+        if (whereTo === "left") this.lpush(destination, value);
+        else this.rpush(destination, value);
+        return value;
       }
         
       
@@ -430,16 +1563,16 @@ class RedisClone{
 
       hset(key , field , value)
       {
+        if (this.store.has(key) && this.type(key) !== "hash") {
+            throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
+        }
+        this._reserveMemory();
         if(!this.store.has(key))
         {
              this.store.set(key , {})
         }
-        else if (typeof this.store.get(key) !== "object" || Array.isArray(this.store.get(key))) {
-            throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
-          }
           this.store.get(key)[field] = value;
-          this.saveToFile();
-          this.replicate("hset", [key, field, value]);
+          this.propagate("hset", [key, field, value]);
           return 1;
       }
 
@@ -455,9 +1588,10 @@ class RedisClone{
         }
            
 
-        else if (typeof this.store.get(key) !== "object" || Array.isArray(this.store.get(key))) {
+        else if (this.type(key) !== "hash") {
             throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
           }
+          this._updateLRU(key);
           return this.store.get(key)[field]!== undefined ? this.store.get(key)[field] : "(nil)";     
          }
       
@@ -470,14 +1604,14 @@ class RedisClone{
             {
                 return 0;
             }
-            else if (typeof this.store.get(key) !== "object" || Array.isArray(this.store.get(key))) {
+            else if (this.type(key) !== "hash") {
                 throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
               }
               const hash = this.store.get(key);
               if(hash[field] !== undefined)
               {
                 delete hash[field];
-                this.saveToFile();
+                this.propagate("hdel", [key, field]);
                 return 1;
               }
               return 0;
@@ -490,10 +1624,11 @@ class RedisClone{
          hgetall(key) {
             if (!this.store.has(key)) {
               return {}; // Return an empty object if the key doesn't exist
-            } else if (typeof this.store.get(key) !== "object" || Array.isArray(this.store.get(key))) {
+            } else if (this.type(key) !== "hash") {
               throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
             }
           
+            this._updateLRU(key);
             return this.store.get(key); // Return all fields and values
           }
 
@@ -503,13 +1638,17 @@ class RedisClone{
 
           hincrby(key , field , increment)
           {
+            if (this.store.has(key) && this.type(key) !== "hash") {
+                throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
+            }
+            if (this.store.has(key) && field in this.store.get(key) && isNaN(this.store.get(key)[field])) {
+                throw new Error("ERR hash value is not an integer");
+            }
+            this._reserveMemory();
             if(!this.store.has(key))
             {
                 this.store.set(key, {});
             }
-            else if (typeof this.store.get(key) !== "object" || Array.isArray(this.store.get(key))) {
-                throw new Error("WRONGTYPE Operation against a key holding the wrong kind of value");
-              }
 
               const hash = this.store.get(key);
 
@@ -517,21 +1656,561 @@ class RedisClone{
               {
                 hash[field] = increment;
               }
-              else if (typeof hash[field] !== "number") {
-                throw new Error("ERR hash value is not an integer");
-              }
               else{
-                hash[field]+=increment;
+                hash[field] = Number(hash[field]) + increment;
               }
-              this.saveToFile();
+              this.propagate("hincrby", [key, field, increment]);
               return hash[field];
           }
 
 
+    // ----- Sets -----
+
+    // get the set stored at key, or null when there is none
+    _getSet(key) {
+        if (this.store.has(key) && this.type(key) !== "set") throw new Error(WRONGTYPE);
+        if (!this.store.has(key)) return null;
+        this._updateLRU(key);
+        return this.store.get(key);
+    }
+
+    // add members to a set, returns how many were new; the key is only
+    // created once a member is actually added, never as an empty set
+
+    sadd(key, ...members) {
+        const existing = this._getSet(key);
+        const fresh = members.map(String).filter((member) => !existing || !existing.has(member));
+        if (fresh.length === 0) return 0;
+
+        this._reserveMemory();
+        let set = this._getSet(key); // eviction may have taken it
+        if (!set) {
+            set = new Set();
+            this.store.set(key, set);
+            this._updateLRU(key);
+        }
+        let added = 0;
+        members.forEach((member) => {
+            member = String(member);
+            if (!set.has(member)) {
+                set.add(member);
+                added++;
+            }
+        });
+        this.propagate("sadd", [key, ...members]);
+        return added;
+    }
+
+    // remove members from a set, the key goes away with its last member
+
+    srem(key, ...members) {
+        const set = this._getSet(key);
+        if (!set) return 0;
+
+        let removed = 0;
+        members.forEach((member) => {
+            if (set.delete(String(member))) removed++;
+        });
+        if (set.size === 0) {
+            this.delete(key);
+        } else if (removed > 0) {
+            this.propagate("srem", [key, ...members]);
+        }
+        return removed;
+    }
+
+    smembers(key) {
+        const set = this._getSet(key);
+        return set ? Array.from(set) : [];
+    }
+
+    sismember(key, member) {
+        const set = this._getSet(key);
+        return set && set.has(String(member)) ? 1 : 0;
+    }
+
+    scard(key) {
+        const set = this._getSet(key);
+        return set ? set.size : 0;
+    }
+
+    // remove and return random members (one member, or an array when count is given)
+
+    spop(key, count = null) {
+        const set = this._getSet(key);
+        if (!set) return count === null ? "(nil)" : [];
+
+        const popped = this._randomMembers(set, count === null ? 1 : count, false);
+        popped.forEach((member) => set.delete(member));
+        // propagate the members actually removed so slaves stay identical
+        if (set.size === 0) {
+            this.delete(key);
+        } else if (popped.length > 0) {
+            this.propagate("srem", [key, ...popped]);
+        }
+        return count === null ? popped[0] : popped;
+    }
+
+    // random members without removing them; a negative count allows repeats
+
+    srandmember(key, count = null) {
+        const set = this._getSet(key);
+        if (!set) return count === null ? "(nil)" : [];
+
+        if (count === null) return this._randomMembers(set, 1, false)[0];
+        return count < 0
+            ? this._randomMembers(set, -count, true)
+            : this._randomMembers(set, count, false);
+    }
+
+    _randomMembers(set, count, allowRepeats) {
+        const members = Array.from(set);
+        if (allowRepeats) {
+            return Array.from({ length: count }, () => members[Math.floor(Math.random() * members.length)]);
+        }
+        // partial Fisher-Yates shuffle
+        const n = Math.min(count, members.length);
+        for (let i = 0; i < n; i++) {
+            const j = i + Math.floor(Math.random() * (members.length - i));
+            [members[i], members[j]] = [members[j], members[i]];
+        }
+        return members.slice(0, n);
+    }
+
+    sinter(...keys) {
+        return RedisClone.intersectMembers(keys.map((key) => this.smembers(key)));
+    }
+
+    sunion(...keys) {
+        return RedisClone.unionMembers(keys.map((key) => this.smembers(key)));
+    }
+
+    sdiff(...keys) {
+        return RedisClone.diffMembers(keys.map((key) => this.smembers(key)));
+    }
+
+    // set algebra over member lists (ClusterRedis reuses these for keys on different shards)
+
+    static intersectMembers(lists) {
+        if (lists.length === 0) return [];
+        const [first, ...rest] = lists;
+        const others = rest.map((list) => new Set(list));
+        return first.filter((member) => others.every((set) => set.has(member)));
+    }
+
+    static unionMembers(lists) {
+        return Array.from(new Set(lists.flat()));
+    }
+
+    static diffMembers(lists) {
+        if (lists.length === 0) return [];
+        const [first, ...rest] = lists;
+        const excluded = new Set(rest.flat());
+        return first.filter((member) => !excluded.has(member));
+    }
+
+      // ----- Sorted sets -----
+
+      _getZSet(key, create = false) {
+        if (this.store.has(key) && this.type(key) !== "zset") throw new Error(WRONGTYPE);
+        if (create) this._reserveMemory();
+        if (!this.store.has(key)) {
+          if (!create) return null;
+          this.store.set(key, new SortedSet());
+        }
+        this._updateLRU(key);
+        return this.store.get(key);
+      }
+
+      // add or update members given as [score, member] pairs
+      // options: nx (only add), xx (only update), gt / lt (only move score up / down),
+      // ch (count changed instead of added), incr (add the score to the current one)
+      // returns the number added (or changed), or the new score with incr
+
+      zadd(key, pairs, options = {}) {
+        const { nx = false, xx = false, gt = false, lt = false, ch = false, incr = false } = options;
+        if (nx && xx) throw new Error("ERR XX and NX options at the same time are not compatible");
+        if ((gt && lt) || (nx && (gt || lt))) throw new Error("ERR GT, LT, and/or NX options at the same time are not compatible");
+        if (incr && pairs.length !== 1) throw new Error("ERR INCR option supports a single increment-element pair");
+
+        const parsed = pairs.map(([score, member]) => [SortedSet.parseScore(score), String(member)]);
+        if (xx && !this.store.has(key)) return incr ? "(nil)" : 0;
+
+        const zset = this._getZSet(key, true);
+        const changedPairs = [];
+        let added = 0;
+        let changed = 0;
+        let result = null;
+
+        parsed.forEach(([score, member]) => {
+          const current = zset.score(member);
+          const exists = current !== undefined;
+          if ((nx && exists) || (xx && !exists)) return;
+
+          const next = incr && exists ? current + score : score;
+          if (Number.isNaN(next)) throw new Error("ERR resulting score is not a number (NaN)");
+          if (exists && ((gt && next <= current) || (lt && next >= current))) return;
+
+          if (zset.add(member, next)) added++;
+          if (!exists || next !== current) {
+            changed++;
+            changedPairs.push([next, member]);
+          }
+          result = next;
+        });
+
+        if (zset.size === 0) {
+          this.store.delete(key);
+        }
+        if (changedPairs.length > 0) {
+          // absolute scores, so a replay never re-applies NX/GT/INCR logic
+          this.propagate("zadd", [key, changedPairs]);
+        }
+
+        if (incr) return result === null ? "(nil)" : result;
+        return ch ? changed : added;
+      }
+
+      zincrby(key, increment, member) {
+        return this.zadd(key, [[increment, member]], { incr: true });
+      }
+
+      zrem(key, ...members) {
+        const zset = this._getZSet(key);
+        if (!zset) return 0;
+
+        let removed = 0;
+        members.forEach((member) => {
+          if (zset.remove(String(member))) removed++;
+        });
+        if (removed === 0) return 0;
+
+        if (zset.size === 0) {
+          this.delete(key);
+        } else {
+          this.propagate("zrem", [key, ...members]);
+        }
+        return removed;
+      }
+
+      zscore(key, member) {
+        const zset = this._getZSet(key);
+        const score = zset ? zset.score(String(member)) : undefined;
+        return score === undefined ? "(nil)" : score;
+      }
+
+      zcard(key) {
+        const zset = this._getZSet(key);
+        return zset ? zset.size : 0;
+      }
+
+      // 0-based position in score order ("(nil)" when missing)
+
+      zrank(key, member) {
+        const zset = this._getZSet(key);
+        const rank = zset ? zset.rank(String(member)) : null;
+        return rank === null ? "(nil)" : rank;
+      }
+
+      zrevrank(key, member) {
+        const zset = this._getZSet(key);
+        const rank = zset ? zset.rank(String(member), true) : null;
+        return rank === null ? "(nil)" : rank;
+      }
+
+      // members by rank; withScores returns {member, score} objects
+
+      zrange(key, start, stop, withScores = false) {
+        const zset = this._getZSet(key);
+        if (!zset) return [];
+        const entries = zset.rangeByRank(Number(start), Number(stop));
+        return withScores ? entries : entries.map((entry) => entry.member);
+      }
+
+      zrevrange(key, start, stop, withScores = false) {
+        const zset = this._getZSet(key);
+        if (!zset) return [];
+        const entries = zset.rangeByRank(Number(start), Number(stop), true);
+        return withScores ? entries : entries.map((entry) => entry.member);
+      }
+
+      // members by score; min/max accept "-inf", "+inf" and "(" for exclusive bounds
+
+      zrangebyscore(key, min, max, options = {}) {
+        const { withScores = false, offset = 0, count = -1 } = options;
+        const zset = this._getZSet(key);
+        if (!zset) return [];
+        const entries = zset.rangeByScore(SortedSet.parseBound(min), SortedSet.parseBound(max), { offset, count });
+        return withScores ? entries : entries.map((entry) => entry.member);
+      }
+
+      zrevrangebyscore(key, max, min, options = {}) {
+        const { withScores = false, offset = 0, count = -1 } = options;
+        const zset = this._getZSet(key);
+        if (!zset) return [];
+        const entries = zset.rangeByScore(SortedSet.parseBound(min), SortedSet.parseBound(max), { reverse: true, offset, count });
+        return withScores ? entries : entries.map((entry) => entry.member);
+      }
+
+      zcount(key, min, max) {
+        const zset = this._getZSet(key);
+        if (!zset) return 0;
+        return zset.countInRange(SortedSet.parseBound(min), SortedSet.parseBound(max));
+      }
+
+      // ----- Streams -----
+
+      _getStream(key) {
+        if (!this.store.has(key)) return null;
+        if (this.type(key) !== "stream") throw new Error(WRONGTYPE);
+        this._updateLRU(key);
+        return this.store.get(key);
+      }
+
+      _getGroup(key, group) {
+        const stream = this._getStream(key);
+        const found = stream && stream.groups.get(group);
+        if (!found) throw new Error(`NOGROUP No such key '${key}' or consumer group '${group}'`);
+        return { stream, group: found };
+      }
+
+      // append an entry (fields is a flat [field, value, ...] list) and return
+      // its ID; maxLen trims the oldest entries, noMkStream skips a missing key
+      xadd(key, id = "*", fields, { maxLen = null, noMkStream = false } = {}) {
+        if (fields.length === 0 || fields.length % 2 !== 0) {
+          throw new Error("ERR wrong number of arguments for 'xadd' command");
+        }
+        if (this.store.has(key) && this.type(key) !== "stream") throw new Error(WRONGTYPE);
+        if (!this.store.has(key) && noMkStream) return null;
+        (this.store.get(key) || new Stream()).nextId(String(id)); // a bad ID fails before anything is evicted
+        this._reserveMemory();
+        const existing = this._getStream(key);
+        if (!existing && noMkStream) return null;
+
+        const stream = existing || new Stream();
+        const entryId = stream.nextId(String(id));
+        if (!existing) this.store.set(key, stream);
+        stream.add(entryId, fields);
+        if (maxLen !== null) stream.trim(maxLen);
+
+        // the generated ID, so a replay adds the very same entry
+        this.propagate("xadd", [key, entryId, fields.map(String), maxLen]);
+        this._signalKey(key);
+        return entryId;
+      }
+
+      xlen(key) {
+        const stream = this._getStream(key);
+        return stream ? stream.length : 0;
+      }
+
+      // entries as { id, fields } objects
+
+      xrange(key, start, end, count = null) {
+        const stream = this._getStream(key);
+        return stream ? stream.range(start, end, { count }) : [];
+      }
+
+      xrevrange(key, end, start, count = null) {
+        const stream = this._getStream(key);
+        return stream ? stream.range(start, end, { reverse: true, count }) : [];
+      }
+
+      // entries after id (one stream of an XREAD)
+      xread(key, id, count = null) {
+        const stream = this._getStream(key);
+        return stream ? stream.after(id, count) : [];
+      }
+
+      // the ID "$" stands for in XREAD and XGROUP
+      streamLastId(key) {
+        const stream = this._getStream(key);
+        return stream ? stream.lastId : "0-0";
+      }
+
+      xgroupCreate(key, group, id = "$", mkStream = false) {
+        let stream = this._getStream(key);
+        if (!stream && !mkStream) {
+          throw new Error("ERR The XGROUP subcommand requires the key to exist. Note that for CREATE you may want to use the MKSTREAM option to create an empty stream automatically.");
+        }
+        const lastDeliveredId = id === "$" ? this.streamLastId(key) : Stream.formatId(Stream.parseId(id));
+        if (stream && stream.groups.has(group)) throw new Error("BUSYGROUP Consumer Group name already exists");
+
+        this._reserveMemory();
+        stream = this._getStream(key);
+        if (!stream) {
+          stream = new Stream();
+          this.store.set(key, stream);
+        }
+        stream.createGroup(group, lastDeliveredId);
+        this.propagate("xgroupcreate", [key, group, lastDeliveredId]);
+        return "OK";
+      }
+
+      xgroupSetId(key, group, id) {
+        const found = this._getGroup(key, group);
+        found.group.lastDeliveredId = id === "$" ? found.stream.lastId : Stream.formatId(Stream.parseId(id));
+        this.propagate("xgroupsetid", [key, group, found.group.lastDeliveredId]);
+        return "OK";
+      }
+
+      xgroupDestroy(key, group) {
+        const stream = this._getStream(key);
+        if (!stream || !stream.groups.delete(group)) return 0;
+        this.propagate("xgroupdestroy", [key, group]);
+        return 1;
+      }
+
+      xgroupCreateConsumer(key, group, consumer, seenAt = Date.now()) {
+        const found = this._getGroup(key, group);
+        if (!found.stream.addConsumer(found.group, consumer, seenAt)) return 0;
+        this.propagate("xgroupcreateconsumer", [key, group, consumer, seenAt]);
+        return 1;
+      }
+
+      // returns how many entries the consumer still had pending
+      xgroupDelConsumer(key, group, consumer) {
+        const found = this._getGroup(key, group);
+        if (!found.group.consumers.has(consumer)) return 0;
+        const pending = found.stream.removeConsumer(found.group, consumer);
+        this.propagate("xgroupdelconsumer", [key, group, consumer]);
+        return pending;
+      }
+
+      // One stream of an XREADGROUP. ">" hands out entries no consumer of
+      // the group has seen and makes them pending for this one (unless
+      // noAck); any other ID re-reads the consumer's own pending entries
+      // after it, with fields null for entries deleted since.
+      xreadgroup(key, group, consumer, id, { count = null, noAck = false } = {}) {
+        const found = this._getGroup(key, group);
+        const now = Date.now();
+
+        if (id !== ">") {
+          const ids = found.stream.pendingOf(found.group, consumer, Stream.formatId(Stream.parseId(id)), count);
+          if (!found.group.consumers.has(consumer)) this.xgroupCreateConsumer(key, group, consumer, now);
+          return ids.map((pendingId) => {
+            const entry = found.stream.get(pendingId);
+            return { id: pendingId, fields: entry ? entry.fields : null };
+          });
+        }
+
+        const entries = found.stream.after(found.group.lastDeliveredId, count);
+        if (entries.length === 0) {
+          if (!found.group.consumers.has(consumer)) this.xgroupCreateConsumer(key, group, consumer, now);
+          return [];
+        }
+        const ids = noAck ? [] : entries.map((entry) => entry.id);
+        this._deliver(key, group, consumer, ids, now, true, entries[entries.length - 1].id);
+        return entries;
+      }
+
+      // Delivery of ids to a consumer, propagated as an XCLAIM-like entry with
+      // the delivery time so every node keeps the same pending entries list
+      _deliver(key, group, consumer, ids, deliveredAt, countDelivery, lastDeliveredId = null) {
+        const found = this._getGroup(key, group);
+        found.stream.deliver(found.group, consumer, ids, deliveredAt, { countDelivery, lastDeliveredId });
+        this.propagate("xclaim", [key, group, consumer, ids, deliveredAt, countDelivery, lastDeliveredId]);
+      }
+
+      // acknowledge entries, returns how many were pending
+      xack(key, group, ...ids) {
+        const stream = this._getStream(key);
+        const found = stream && stream.groups.get(group);
+        if (!found) return 0;
+        const acked = stream.ack(found, ids.map(String));
+        if (acked.length > 0) this.propagate("xack", [key, group, ...acked]);
+        return acked.length;
+      }
+
+      // XPENDING without a range: { count, smallest, largest, consumers: [{ name, pending }] }
+      xpendingSummary(key, group) {
+        const { group: found } = this._getGroup(key, group);
+        const ids = Array.from(found.pending.keys()).sort(Stream.compareIds);
+        const perConsumer = new Map();
+        found.pending.forEach(({ consumer }) => perConsumer.set(consumer, (perConsumer.get(consumer) || 0) + 1));
+        return {
+          count: ids.length,
+          smallest: ids.length ? ids[0] : null,
+          largest: ids.length ? ids[ids.length - 1] : null,
+          consumers: Array.from(perConsumer.entries(), ([name, pending]) => ({ name, pending })),
+        };
+      }
+
+      // XPENDING with a range: [{ id, consumer, idleMs, deliveries }] in ID order
+      xpending(key, group, { start = "-", end = "+", count = 10, consumer = null, minIdleMs = 0 } = {}) {
+        const { group: found } = this._getGroup(key, group);
+        const from = Stream.parseBound(start, false);
+        const to = Stream.parseBound(end, true);
+        const now = Date.now();
+        return Array.from(found.pending.entries())
+          .filter(([id, info]) => {
+            const afterStart = from.exclusive ? Stream.compareIds(id, from.id) > 0 : Stream.compareIds(id, from.id) >= 0;
+            const beforeEnd = to.exclusive ? Stream.compareIds(id, to.id) < 0 : Stream.compareIds(id, to.id) <= 0;
+            return afterStart && beforeEnd && (!consumer || info.consumer === consumer) && now - info.deliveredAt >= minIdleMs;
+          })
+          .sort(([a], [b]) => Stream.compareIds(a, b))
+          .slice(0, count)
+          .map(([id, info]) => ({ id, consumer: info.consumer, idleMs: now - info.deliveredAt, deliveries: info.deliveries }));
+      }
+
+      // Take over pending entries idle for at least minIdleMs (a consumer
+      // that died). Entries deleted from the stream are dropped from the
+      // pending list. Returns the claimed entries, or only their IDs.
+      xclaim(key, group, consumer, minIdleMs, ids, { justId = false } = {}) {
+        const found = this._getGroup(key, group);
+        const now = Date.now();
+        const claimable = ids.map(String).filter((id) => {
+          const info = found.group.pending.get(id);
+          return info && now - info.deliveredAt >= minIdleMs;
+        });
+        const deleted = claimable.filter((id) => !found.stream.get(id));
+        const claimed = claimable.filter((id) => found.stream.get(id));
+
+        if (deleted.length > 0) this.xack(key, group, ...deleted);
+        if (claimed.length > 0) this._deliver(key, group, consumer, claimed, now, !justId);
+        return justId ? claimed : claimed.map((id) => found.stream.get(id));
+      }
+
+      // XINFO STREAM
+      xinfoStream(key) {
+        const stream = this._getStream(key);
+        if (!stream) throw new Error("ERR no such key");
+        return {
+          length: stream.length,
+          lastGeneratedId: stream.lastId,
+          groups: stream.groups.size,
+          firstEntry: stream.length ? stream.entries[0] : null,
+          lastEntry: stream.length ? stream.entries[stream.length - 1] : null,
+        };
+      }
+
+      // XINFO GROUPS
+      xinfoGroups(key) {
+        const stream = this._getStream(key);
+        if (!stream) throw new Error("ERR no such key");
+        return Array.from(stream.groups.entries(), ([name, group]) => ({
+          name,
+          consumers: group.consumers.size,
+          pending: group.pending.size,
+          lastDeliveredId: group.lastDeliveredId,
+        }));
+      }
+
+      // XINFO CONSUMERS
+      xinfoConsumers(key, group) {
+        const { group: found } = this._getGroup(key, group);
+        const now = Date.now();
+        return Array.from(found.consumers.entries(), ([name, seenAt]) => ({
+          name,
+          pending: Array.from(found.pending.values()).filter((info) => info.consumer === name).length,
+          idleMs: now - seenAt,
+        }));
+      }
+
           // set a time to live ttl
 
 
 
       
 }
-module.exports =  RedisClone;
\ No newline at end of file
+module.exports =  RedisClone;
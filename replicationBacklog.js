@@ -0,0 +1,96 @@
+// PSYNC bookkeeping for a master: the replication stream is the sequence of
+// newline-delimited JSON entries sent to slaves, and the replication offset
+// counts its bytes. The backlog keeps the newest entries (up to `size` bytes)
+// so a slave that reconnects with (replId, offset) can be sent just what it
+// missed; when the gap is older than the backlog it needs a full resync.
+//
+// A slave keeps a backlog of the stream it receives too. When it is promoted
+// it takes a new replication ID but remembers the old one up to the promotion
+// offset (replId2 / secondOffset), so the other slaves of the old master can
+// continue from it without a full resync.
+
+const crypto = require("crypto");
+
+const DEFAULT_BACKLOG_SIZE = 1024 * 1024;
+
+class ReplicationBacklog {
+    constructor(size = DEFAULT_BACKLOG_SIZE) {
+        this.replId = ReplicationBacklog.newReplId();
+        this.size = size;
+        this.offset = 0; // master_repl_offset: bytes of stream produced so far
+        this.entries = []; // oldest first: { start, line }, start = offset before the line
+        this.bytes = 0;
+        this.replId2 = null;
+        this.secondOffset = -1;
+    }
+
+    static newReplId() {
+        return crypto.randomBytes(20).toString("hex");
+    }
+
+    // a slave after a full resync: the master's stream continues at offset
+    reset(replId, offset) {
+        this.replId = replId;
+        this.offset = offset;
+        this.entries = [];
+        this.bytes = 0;
+        this.replId2 = null;
+        this.secondOffset = -1;
+    }
+
+    // a slave being promoted: new history from here, the old one stays valid up to now
+    shiftReplId() {
+        this.replId2 = this.replId;
+        this.secondOffset = this.offset;
+        this.replId = ReplicationBacklog.newReplId();
+    }
+
+    // add one stream line (including its "\n"); returns the new offset
+    append(line) {
+        const length = Buffer.byteLength(line);
+        this.entries.push({ start: this.offset, line });
+        this.offset += length;
+        this.bytes += length;
+        while (this.bytes > this.size && this.entries.length > 1) {
+            this.bytes -= Buffer.byteLength(this.entries.shift().line);
+        }
+        return this.offset;
+    }
+
+    // first offset that can still be served
+    firstOffset() {
+        return this.entries.length > 0 ? this.entries[0].start : this.offset;
+    }
+
+    // true when a slave at (replId, offset) can continue from the backlog
+    canContinue(replId, offset) {
+        const sameHistory = replId === this.replId || (replId === this.replId2 && offset <= this.secondOffset);
+        if (!sameHistory || !Number.isInteger(offset)) return false;
+        if (offset === this.offset) return true;
+        return offset >= this.firstOffset() && offset < this.offset && this.entries.some((entry) => entry.start === offset);
+    }
+
+    // the lines after offset, in order (offset must pass canContinue)
+    since(offset) {
+        return this.entries.filter((entry) => entry.start >= offset).map((entry) => entry.line);
+    }
+
+    // stream entries from offset on; a lower bound when offset is older than the backlog
+    countSince(offset) {
+        return this.entries.filter((entry) => entry.start >= offset).length;
+    }
+
+    getStatus() {
+        return {
+            replId: this.replId,
+            offset: this.offset,
+            replId2: this.replId2,
+            secondOffset: this.secondOffset,
+            size: this.size,
+            firstOffset: this.firstOffset(),
+            histlen: this.offset - this.firstOffset(),
+        };
+    }
+}
+
+module.exports = ReplicationBacklog;
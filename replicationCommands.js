@@ -0,0 +1,196 @@
+// Commands of the replication demo, by name: (redis, args) => result, args
+// as strings the way the testing panel and the slave command port get them.
+// Writes are used by the in-process master in apiServer.js and by a promoted
+// slaveServer.js; every one of them reaches the slaves through propagate().
+// Reads never change the dataset, so any slave can serve them. A slave keeps
+// a key whose TTL has passed until the master's del arrives, so every read
+// goes through onKey() / liveKeys() and sees such a key as missing.
+
+const { matchesPattern } = require("./patternMatch");
+
+const WRONGTYPE = "WRONGTYPE Operation against a key holding the wrong kind of value";
+
+// GET only reads strings (numbers from INCR count as strings)
+function getString(redis, key) {
+    const type = redis.type(key);
+    if (type !== "string" && type !== "none") throw new Error(WRONGTYPE);
+    return redis.get(key);
+}
+
+function toInteger(value) {
+    const num = Number(value);
+    if (value === undefined || !Number.isInteger(num)) throw new Error("ERR value is not an integer or out of range");
+    return num;
+}
+
+// LEFT | RIGHT
+function toDirection(value) {
+    const direction = String(value).toLowerCase();
+    if (direction !== "left" && direction !== "right") throw new Error("ERR syntax error, use LMOVE source destination LEFT|RIGHT LEFT|RIGHT");
+    return direction;
+}
+
+function optionalCount(count) {
+    return count === undefined ? null : toInteger(count);
+}
+
+const WRITE_COMMANDS = {
+    set: (redis, [key, value, ttl]) => redis.set(key, value, ttl ? Number(ttl) : null),
+    setex: (redis, [key, seconds, value]) => {
+        const ttl = toInteger(seconds);
+        if (ttl <= 0) throw new Error("ERR invalid expire time in 'setex' command");
+        return redis.set(key, value, ttl);
+    },
+    delete: (redis, [key]) => redis.delete(key),
+    del: (redis, [key]) => redis.delete(key),
+    flushall: (redis) => redis.flushAll(),
+    incr: (redis, [key]) => redis.incr(key),
+    decr: (redis, [key]) => redis.decr(key),
+    expire: (redis, [key, seconds]) => redis.expire(key, Number(seconds)),
+    rename: (redis, [key, newKey]) => redis.rename(key, newKey),
+    lpush: (redis, [key, ...values]) => redis.lpush(key, ...values),
+    rpush: (redis, [key, ...values]) => redis.rpush(key, ...values),
+    lpop: (redis, [key]) => redis.lpop(key),
+    rpop: (redis, [key]) => redis.rpop(key),
+    lmove: (redis, [source, destination, whereFrom, whereTo]) =>
+        redis.lmove(source, destination, toDirection(whereFrom), toDirection(whereTo)),
+    hset: (redis, [key, field, value]) => redis.hset(key, field, value),
+    hdel: (redis, [key, field]) => redis.hdel(key, field),
+    hincrby: (redis, [key, field, increment]) => redis.hincrby(key, field, Number(increment)),
+    sadd: (redis, [key, ...members]) => redis.sadd(key, ...members),
+    srem: (redis, [key, ...members]) => redis.srem(key, ...members),
+    spop: (redis, [key]) => redis.spop(key),
+    zadd: (redis, [key, score, member]) => redis.zadd(key, [[score, member]]),
+    zrem: (redis, [key, ...members]) => redis.zrem(key, ...members),
+    xadd: (redis, [key, id, ...fields]) => redis.xadd(key, id, fields),
+    xgroup: (redis, [sub, key, group, id, mkStream]) => {
+        switch (String(sub).toUpperCase()) {
+            case "CREATE": return redis.xgroupCreate(key, group, id, String(mkStream).toUpperCase() === "MKSTREAM");
+            case "DESTROY": return redis.xgroupDestroy(key, group);
+            default: throw new Error("ERR syntax error, use XGROUP CREATE key group id [MKSTREAM] | XGROUP DESTROY key group");
+        }
+    },
+    // XREADGROUP group consumer key [id] [count] (one stream, ">" by default)
+    xreadgroup: (redis, [group, consumer, key, id = ">", count]) =>
+        redis.xreadgroup(key, group, consumer, id, { count: optionalCount(count) }),
+    xack: (redis, [key, group, ...ids]) => redis.xack(key, group, ...ids),
+};
+
+// the keys a read can see: those whose TTL hasn't passed
+function liveKeys(redis) {
+    return redis.keys().filter((key) => !redis.isExpired(key));
+}
+
+// a read of the key in args[0]: when that key has expired, missing(args)
+// answers the way the command does for a key that doesn't exist
+function onKey(missing, read) {
+    return (redis, args) => (redis.isExpired(args[0]) ? missing(args) : read(redis, args));
+}
+
+const always = (value) => () => value;
+const empty = () => [];
+
+// SCAN cursor [MATCH pattern] [COUNT count] [TYPE type]; the cursor is a
+// position in the key list, 0 again once every key has been returned
+function scan(redis, [cursor, ...options]) {
+    let pattern = "*";
+    let count = 10;
+    let type = null;
+    for (let i = 0; i < options.length; i += 2) {
+        const option = String(options[i]).toUpperCase();
+        if (options[i + 1] === undefined) throw new Error("ERR syntax error");
+        if (option === "MATCH") pattern = options[i + 1];
+        else if (option === "COUNT") count = toInteger(options[i + 1]);
+        else if (option === "TYPE") type = String(options[i + 1]).toLowerCase();
+        else throw new Error("ERR syntax error");
+    }
+    if (count < 1) throw new Error("ERR syntax error");
+
+    const keys = liveKeys(redis);
+    const start = toInteger(cursor);
+    const end = Math.min(start + count, keys.length);
+    const matched = keys.slice(start, end)
+        .filter((key) => matchesPattern(pattern, key) && (!type || redis.type(key) === type));
+    return [end >= keys.length ? "0" : String(end), matched];
+}
+
+function withScores(options) {
+    return options.some((option) => String(option).toUpperCase() === "WITHSCORES");
+}
+
+const READ_COMMANDS = {
+    // keyspace
+    exists: (redis, keys) => keys.reduce((sum, key) => sum + (redis.isExpired(key) ? 0 : redis.exists(key)), 0),
+    type: onKey(always("none"), (redis, [key]) => redis.type(key)),
+    ttl: onKey(always(-2), (redis, [key]) => redis.ttl(key)),
+    pttl: onKey(always(-2), (redis, [key]) => redis.pttl(key)),
+    keys: (redis, [pattern = "*"]) => liveKeys(redis).filter((key) => matchesPattern(pattern, key)),
+    scan,
+    dbsize: (redis) => liveKeys(redis).length,
+    randomkey: (redis) => {
+        const keys = liveKeys(redis);
+        return keys.length > 0 ? keys[Math.floor(Math.random() * keys.length)] : null;
+    },
+
+    // strings
+    get: onKey(always(null), (redis, [key]) => getString(redis, key)),
+    mget: (redis, keys) => keys.map((key) => (!redis.isExpired(key) && ["string", "none"].includes(redis.type(key)) ? redis.get(key) : null)),
+    strlen: onKey(always(0), (redis, [key]) => {
+        const value = getString(redis, key);
+        return value === null || value === "(nil)" ? 0 : String(value).length;
+    }),
+
+    // lists
+    lrange: onKey(empty, (redis, [key, start, stop]) => redis.lrange(key, toInteger(start), toInteger(stop))),
+    llen: onKey(always(0), (redis, [key]) => redis.llen(key)),
+    lindex: onKey(always("(nil)"), (redis, [key, index]) => redis.lindex(key, toInteger(index))),
+
+    // hashes
+    hget: onKey(always("(nil)"), (redis, [key, field]) => redis.hget(key, field)),
+    hgetall: onKey(() => ({}), (redis, [key]) => redis.hgetall(key)),
+    hmget: onKey(([, ...fields]) => fields.map(() => "(nil)"), (redis, [key, ...fields]) => fields.map((field) => redis.hget(key, field))),
+    hexists: onKey(always(0), (redis, [key, field]) => (field in redis.hgetall(key) ? 1 : 0)),
+    hlen: onKey(always(0), (redis, [key]) => Object.keys(redis.hgetall(key)).length),
+    hkeys: onKey(empty, (redis, [key]) => Object.keys(redis.hgetall(key))),
+    hvals: onKey(empty, (redis, [key]) => Object.values(redis.hgetall(key))),
+
+    // sets
+    smembers: onKey(empty, (redis, [key]) => redis.smembers(key)),
+    sismember: onKey(always(0), (redis, [key, member]) => redis.sismember(key, member)),
+    scard: onKey(always(0), (redis, [key]) => redis.scard(key)),
+    srandmember: onKey(([, count]) => (count === undefined ? "(nil)" : []),
+        (redis, [key, count]) => redis.srandmember(key, count === undefined ? null : toInteger(count))),
+    sinter: (redis, keys) => (keys.some((key) => redis.isExpired(key)) ? [] : redis.sinter(...keys)),
+    sunion: (redis, keys) => redis.sunion(...keys.filter((key) => !redis.isExpired(key))),
+    sdiff: onKey(empty, (redis, [key, ...others]) => redis.sdiff(key, ...others.filter((other) => !redis.isExpired(other)))),
+
+    // sorted sets
+    zscore: onKey(always("(nil)"), (redis, [key, member]) => redis.zscore(key, member)),
+    zcard: onKey(always(0), (redis, [key]) => redis.zcard(key)),
+    zcount: onKey(always(0), (redis, [key, min, max]) => redis.zcount(key, min, max)),
+    zrank: onKey(always("(nil)"), (redis, [key, member]) => redis.zrank(key, member)),
+    zrevrank: onKey(always("(nil)"), (redis, [key, member]) => redis.zrevrank(key, member)),
+    zrange: onKey(empty, (redis, [key, start, stop, ...options]) => redis.zrange(key, toInteger(start), toInteger(stop), withScores(options))),
+    zrevrange: onKey(empty, (redis, [key, start, stop, ...options]) => redis.zrevrange(key, toInteger(start), toInteger(stop), withScores(options))),
+    zrangebyscore: onKey(empty, (redis, [key, min, max, ...options]) => redis.zrangebyscore(key, min, max, { withScores: withScores(options) })),
+    zrevrangebyscore: onKey(empty, (redis, [key, max, min, ...options]) => redis.zrevrangebyscore(key, max, min, { withScores: withScores(options) })),
+
+    // streams (XREAD takes one stream: XREAD key id [count])
+    xlen: onKey(always(0), (redis, [key]) => redis.xlen(key)),
+    xrange: onKey(empty, (redis, [key, start = "-", end = "+", count]) => redis.xrange(key, start, end, optionalCount(count))),
+    xrevrange: onKey(empty, (redis, [key, end = "+", start = "-", count]) => redis.xrevrange(key, end, start, optionalCount(count))),
+    xread: onKey(empty, (redis, [key, id = "0", count]) => redis.xread(key, id === "$" ? redis.streamLastId(key) : id, optionalCount(count))),
+    xpending: onKey(([key, group]) => { throw new Error(`NOGROUP No such key '${key}' or consumer group '${group}'`); },
+        (redis, [key, group]) => redis.xpendingSummary(key, group)),
+    xinfo: onKey(() => { throw new Error("ERR no such key"); }, (redis, [key]) => redis.xinfoStream(key)),
+};
+
+function isWriteCommand(name) {
+    return Object.prototype.hasOwnProperty.call(WRITE_COMMANDS, String(name).toLowerCase());
+}
+
+function isReadCommand(name) {
+    return Object.prototype.hasOwnProperty.call(READ_COMMANDS, String(name).toLowerCase());
+}
+
+module.exports = { WRITE_COMMANDS, READ_COMMANDS, isWriteCommand, isReadCommand };
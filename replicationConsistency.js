@@ -0,0 +1,119 @@
+// Replication consistency checker: asks every slave for per-key digests over
+// its read port (DIGEST) and compares them with the master's. A key is
+// synced when every reachable slave has the master's digest, partial when
+// some do and out_of_sync when none do. Values (DUMP) are only fetched for
+// keys that differ.
+//
+// Repair resends the divergent keys through the replication stream, as a
+// restore of the master's value or a del when the master no longer has the
+// key, so the slaves' offsets stay in step with the master's.
+
+const { inlineCommand } = require("./sentinel");
+
+const DEFAULT_TIMEOUT_MS = 2000;
+
+// the master running in this process
+function localNode(redis) {
+    return {
+        digests: async () => ({ offset: redis.backlog ? redis.backlog.offset : 0, keys: redis.digests() }),
+        dump: async (key) => redis.dump(key),
+    };
+}
+
+// a node reached over its read port (a slave, or a slave promoted by the sentinel)
+function remoteNode({ host, port }, timeoutMs = DEFAULT_TIMEOUT_MS) {
+    return {
+        digests: async () => JSON.parse(await inlineCommand(host, port, ["DIGEST"], timeoutMs)),
+        dump: async (key) => JSON.parse(await inlineCommand(host, port, ["DUMP", key], timeoutMs)),
+    };
+}
+
+// seconds left like TTL, from an absolute expiry
+function ttlOf(dumped) {
+    if (!dumped) return -2;
+    if (!dumped.expireAt) return -1;
+    return Math.max(0, Math.ceil((dumped.expireAt - Date.now()) / 1000));
+}
+
+// master: localNode/remoteNode; slaves: [{ id, host, port }]
+async function checkConsistency(master, slaves, { timeoutMs = DEFAULT_TIMEOUT_MS } = {}) {
+    const masterDigests = await master.digests();
+    const slaveReports = await Promise.all(slaves.map(async (slave) => {
+        const node = remoteNode(slave, timeoutMs);
+        try {
+            const { offset, keys } = await node.digests();
+            return { id: slave.id, node, reachable: true, offset, keys, error: null };
+        } catch (error) {
+            return { id: slave.id, node, reachable: false, offset: null, keys: {}, error: error.message };
+        }
+    }));
+    const reachable = slaveReports.filter((report) => report.reachable);
+
+    const allKeys = new Set(Object.keys(masterDigests.keys));
+    reachable.forEach((report) => Object.keys(report.keys).forEach((key) => allKeys.add(key)));
+
+    const comparisons = await Promise.all(Array.from(allKeys).sort().map(async (key) => {
+        const masterDigest = masterDigests.keys[key] || null;
+        const matching = reachable.filter((report) => (report.keys[key] || null) === masterDigest);
+        const status = matching.length === reachable.length ? "synced" : matching.length > 0 ? "partial" : "out_of_sync";
+        const masterDump = masterDigest ? await master.dump(key) : null;
+
+        const slaveEntries = {};
+        await Promise.all(reachable.map(async (report) => {
+            const digest = report.keys[key] || null;
+            const synced = digest === masterDigest;
+            const entry = { exists: digest !== null, digest, synced };
+            if (digest !== null) {
+                // equal digests mean equal values, so only divergent ones are fetched
+                const dumped = synced ? masterDump : await report.node.dump(key).catch(() => null);
+                entry.value = dumped ? dumped.value : undefined;
+            }
+            slaveEntries[report.id] = entry;
+        }));
+
+        return {
+            key,
+            master: {
+                exists: masterDigest !== null,
+                value: masterDump ? masterDump.value : undefined,
+                ttl: ttlOf(masterDump),
+                digest: masterDigest,
+            },
+            slaves: slaveEntries,
+            status,
+        };
+    }));
+
+    const summary = { synced: 0, partial: 0, out_of_sync: 0 };
+    comparisons.forEach((comparison) => summary[comparison.status]++);
+
+    return {
+        checkedAt: new Date(),
+        masterOffset: masterDigests.offset,
+        slaves: slaveReports.map(({ id, reachable: ok, offset, keys, error }) => ({
+            id,
+            reachable: ok,
+            offset,
+            keyCount: Object.keys(keys).length,
+            error,
+        })),
+        summary,
+        comparisons,
+    };
+}
+
+// Resend keys through the replication stream of an in-process master.
+// Returns [{ key, action }] with action "restore" or "del".
+function repairKeys(redis, keys) {
+    return keys.map((key) => {
+        const dumped = redis.dump(key);
+        if (dumped) {
+            redis.replicate("restore", [key, dumped.value, dumped.expireAt]);
+            return { key, action: "restore" };
+        }
+        redis.replicate("del", [key]);
+        return { key, action: "del" };
+    });
+}
+
+module.exports = { checkConsistency, repairKeys, localNode, remoteNode };
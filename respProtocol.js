@@ -0,0 +1,341 @@
+// RESP2 / RESP3 wire protocol: incremental parser and reply serializer
+
+const CRLF = "\r\n";
+
+class RespProtocolError extends Error {
+    constructor(message) {
+        super(`ERR Protocol error: ${message}`);
+        this.name = "RespProtocolError";
+    }
+}
+
+// Marker types so command handlers can pick the exact reply encoding
+
+class SimpleString {
+    constructor(value) {
+        this.value = value;
+    }
+}
+
+class PushReply {
+    constructor(items) {
+        this.items = items;
+    }
+}
+
+class MultiReply {
+    constructor(replies) {
+        this.replies = replies;
+    }
+}
+
+// Floating point reply (sorted set scores): a RESP3 double, a bulk string on RESP2
+class DoubleReply {
+    constructor(value) {
+        this.value = value;
+    }
+}
+
+// The null array: *-1 on RESP2, where some clients tell it apart from a nil
+// bulk string (BLPOP timeout, EXEC aborted by WATCH); the one null on RESP3
+class NullArray {}
+
+const simple = (value) => new SimpleString(value);
+const push = (items) => new PushReply(items);
+const replies = (list) => new MultiReply(list);
+const double = (value) => new DoubleReply(value);
+
+const OK = simple("OK");
+const NULL_ARRAY = new NullArray();
+
+
+// Split an inline command ("SET name \"John Doe\"") into arguments,
+// honouring single and double quotes like redis-cli does
+
+function splitInlineArgs(line) {
+    const args = [];
+    let current = "";
+    let inArg = false;
+    let quote = null;
+
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+
+        if (quote) {
+            if (ch === "\\" && quote === '"' && i + 1 < line.length) {
+                const next = line[++i];
+                current += next === "n" ? "\n" : next === "r" ? "\r" : next === "t" ? "\t" : next;
+            } else if (ch === quote) {
+                quote = null;
+            } else {
+                current += ch;
+            }
+            continue;
+        }
+
+        if (ch === '"' || ch === "'") {
+            quote = ch;
+            inArg = true;
+        } else if (ch === " " || ch === "\t") {
+            if (inArg) {
+                args.push(current);
+                current = "";
+                inArg = false;
+            }
+        } else {
+            current += ch;
+            inArg = true;
+        }
+    }
+
+    if (quote) throw new RespProtocolError("unbalanced quotes in request");
+    if (inArg) args.push(current);
+    return args;
+}
+
+
+class RespParser {
+    constructor() {
+        this.buffer = Buffer.alloc(0);
+    }
+
+    // Append a TCP chunk and return every complete value it finished.
+    // Incomplete frames stay buffered until the next chunk arrives.
+    feed(chunk) {
+        this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+        const values = [];
+        while (this.buffer.length > 0) {
+            const result = this.buffer[0] === 0x2a || this._isTypedFrame()
+                ? this._readValue(0)
+                : this._readInline();
+            if (!result) break;
+
+            this.buffer = this.buffer.subarray(result.offset);
+            if (result.value !== undefined) values.push(result.value);
+        }
+        return values;
+    }
+
+    // Command requests always start with '*'; anything else typed is a reply
+    // (used when this parser reads from another server, e.g. a slave port)
+    _isTypedFrame() {
+        return "+-:$_#,%~>(|!=".includes(String.fromCharCode(this.buffer[0]));
+    }
+
+    _readLine(offset) {
+        const end = this.buffer.indexOf(CRLF, offset);
+        if (end === -1) return null;
+        return { line: this.buffer.toString("utf8", offset, end), offset: end + 2 };
+    }
+
+    _readInline() {
+        const end = this.buffer.indexOf("\n");
+        if (end === -1) {
+            if (this.buffer.length > 64 * 1024) throw new RespProtocolError("too big inline request");
+            return null;
+        }
+
+        const line = this.buffer.toString("utf8", 0, end).replace(/\r$/, "");
+        const args = splitInlineArgs(line);
+        return { value: args.length ? args : undefined, offset: end + 1 };
+    }
+
+    _readValue(offset) {
+        if (offset >= this.buffer.length) return null;
+
+        const type = String.fromCharCode(this.buffer[offset]);
+        const header = this._readLine(offset + 1);
+        if (!header) return null;
+        const { line } = header;
+
+        switch (type) {
+            case "+":
+                return { value: line, offset: header.offset };
+
+            case "-":
+            case "!":
+                return { value: new Error(line), offset: header.offset };
+
+            case ":":
+                return { value: Number(line), offset: header.offset };
+
+            case ",":
+                return { value: line === "inf" ? Infinity : line === "-inf" ? -Infinity : Number(line), offset: header.offset };
+
+            case "(":
+                return { value: BigInt(line), offset: header.offset };
+
+            case "#":
+                return { value: line === "t", offset: header.offset };
+
+            case "_":
+                return { value: null, offset: header.offset };
+
+            case "$":
+            case "=": {
+                const length = this._parseLength(line, "bulk");
+                if (length === -1) return { value: null, offset: header.offset };
+                if (header.offset + length + 2 > this.buffer.length) return null;
+                const value = this.buffer.toString("utf8", header.offset, header.offset + length);
+                return { value, offset: header.offset + length + 2 };
+            }
+
+            case "*":
+            case "~":
+            case ">": {
+                const count = this._parseLength(line, "multibulk");
+                if (count === -1) return { value: null, offset: header.offset };
+                const items = [];
+                let next = header.offset;
+                for (let i = 0; i < count; i++) {
+                    const item = this._readValue(next);
+                    if (!item) return null;
+                    items.push(item.value);
+                    next = item.offset;
+                }
+                return { value: items, offset: next };
+            }
+
+            case "%":
+            case "|": {
+                const count = this._parseLength(line, "map");
+                const map = {};
+                let next = header.offset;
+                for (let i = 0; i < count; i++) {
+                    const field = this._readValue(next);
+                    if (!field) return null;
+                    const value = this._readValue(field.offset);
+                    if (!value) return null;
+                    map[field.value] = value.value;
+                    next = value.offset;
+                }
+                return { value: map, offset: next };
+            }
+
+            default:
+                throw new RespProtocolError(`expected '$', got '${type}'`);
+        }
+    }
+
+    _parseLength(line, kind) {
+        const length = Number(line);
+        if (!Number.isInteger(length) || length < -1) {
+            throw new RespProtocolError(`invalid ${kind} length`);
+        }
+        return length;
+    }
+}
+
+
+// Errors are sent as "-PREFIX message"; plain JS errors get the generic ERR prefix
+function formatError(error) {
+    const message = (error.message || String(error)).replace(/[\r\n]+/g, " ");
+    return /^[A-Z]+ /.test(message) ? message : `ERR ${message}`;
+}
+
+function formatDouble(value) {
+    if (value === Infinity) return "inf";
+    if (value === -Infinity) return "-inf";
+    return String(value);
+}
+
+function encodeBulk(value) {
+    const str = String(value);
+    return `$${Buffer.byteLength(str)}${CRLF}${str}${CRLF}`;
+}
+
+// Serialize a command result. RedisClone uses "(nil)" for missing values,
+// so that maps onto the protocol's null reply.
+function encode(value, protocol = 2) {
+    if (value instanceof MultiReply) {
+        return value.replies.map((reply) => encode(reply, protocol)).join("");
+    }
+    if (value instanceof Error) {
+        return `-${formatError(value)}${CRLF}`;
+    }
+    if (value === null || value === undefined || value === "(nil)") {
+        return protocol === 3 ? `_${CRLF}` : `$-1${CRLF}`;
+    }
+    if (value instanceof NullArray) {
+        return protocol === 3 ? `_${CRLF}` : `*-1${CRLF}`;
+    }
+    if (value instanceof SimpleString) {
+        return `+${value.value}${CRLF}`;
+    }
+    if (value instanceof DoubleReply) {
+        return protocol === 3 ? `,${formatDouble(value.value)}${CRLF}` : encodeBulk(formatDouble(value.value));
+    }
+    if (value instanceof PushReply) {
+        const prefix = protocol === 3 ? ">" : "*";
+        return `${prefix}${value.items.length}${CRLF}` + value.items.map((item) => encode(item, protocol)).join("");
+    }
+    if (typeof value === "boolean") {
+        return protocol === 3 ? `#${value ? "t" : "f"}${CRLF}` : `:${value ? 1 : 0}${CRLF}`;
+    }
+    if (typeof value === "number") {
+        if (Number.isInteger(value)) return `:${value}${CRLF}`;
+        return protocol === 3 ? `,${value}${CRLF}` : encodeBulk(value);
+    }
+    if (typeof value === "bigint") {
+        return protocol === 3 ? `(${value}${CRLF}` : `:${value}${CRLF}`;
+    }
+    if (typeof value === "string" || Buffer.isBuffer(value)) {
+        return encodeBulk(value);
+    }
+    if (Array.isArray(value)) {
+        return `*${value.length}${CRLF}` + value.map((item) => encode(item, protocol)).join("");
+    }
+    if (value instanceof Set) {
+        const items = Array.from(value);
+        const prefix = protocol === 3 ? "~" : "*";
+        return `${prefix}${items.length}${CRLF}` + items.map((item) => encode(item, protocol)).join("");
+    }
+    if (typeof value === "object") {
+        const entries = value instanceof Map ? Array.from(value.entries()) : Object.entries(value);
+        if (protocol === 3) {
+            return `%${entries.length}${CRLF}` + entries.map(([k, v]) => encode(k, protocol) + encode(v, protocol)).join("");
+        }
+        return `*${entries.length * 2}${CRLF}` + entries.map(([k, v]) => encode(k, protocol) + encode(v, protocol)).join("");
+    }
+    return encodeBulk(value);
+}
+
+// A command reply as plain JSON data (REST responses, script call()
+// results): status replies and doubles become their values, errors
+// { error }, maps objects, "(nil)" null
+function replyToJSON(reply) {
+    if (reply instanceof Error) return { error: reply.message };
+    if (reply instanceof SimpleString || reply instanceof DoubleReply) return reply.value;
+    if (reply === undefined || reply === "(nil)" || reply instanceof NullArray) return null;
+    if (typeof reply === "bigint") return Number(reply);
+    if (Array.isArray(reply) || reply instanceof Set) return Array.from(reply, replyToJSON);
+    if (reply instanceof Map) return Object.fromEntries(Array.from(reply, ([key, value]) => [key, replyToJSON(value)]));
+    return reply;
+}
+
+// Encode a request the way client libraries send it (array of bulk strings)
+function encodeCommand(args) {
+    return `*${args.length}${CRLF}` + args.map(encodeBulk).join("");
+}
+
+module.exports = {
+    RespParser,
+    RespProtocolError,
+    SimpleString,
+    PushReply,
+    MultiReply,
+    DoubleReply,
+    NullArray,
+    OK,
+    NULL_ARRAY,
+    simple,
+    push,
+    replies,
+    double,
+    encode,
+    encodeCommand,
+    formatError,
+    splitInlineArgs,
+    replyToJSON,
+};
@@ -0,0 +1,94 @@
+// Runs EVAL scripts for ScriptEngine (scripting.js), one at a time. Each run
+// gets a fresh vm context without eval or new Function, whose global object
+// has no prototype from this realm: a lookup it doesn't have falls through
+// to the context's own builtins, so globalThis.constructor is the context's
+// Object, not ours. KEYS, ARGV, call() and pcall() are created inside the
+// context; the one function of this realm it holds, hostCall, stays in the
+// bootstrap closure, takes and returns strings and never throws, so no
+// object of this realm (and with it require or process) reaches a script.
+
+const vm = require("vm");
+const { parentPort, workerData, receiveMessageOnPort } = require("worker_threads");
+const ScriptEngine = require("./scripting");
+
+const { signal, replies } = workerData;
+const compiled = new Map(); // SHA1 -> vm.Script
+
+// KEYS, ARGV, call() and pcall() built inside the context around hostCall
+const BOOTSTRAP = `(function (hostCall, keys, argv) {
+    "use strict";
+    const send = (args) => {
+        if (args.length === 0) throw new Error("Please specify at least one argument for call()");
+        const request = JSON.stringify(args.map(String));
+        let reply;
+        try {
+            reply = hostCall(request);
+        } catch (_) {
+            // e.g. a stack overflow inside hostCall: the error belongs to
+            // the worker's realm, so it must not reach the script
+            throw new Error("ERR call() failed");
+        }
+        return JSON.parse(reply);
+    };
+    const call = (...args) => {
+        const reply = send(args);
+        if ("error" in reply) throw new Error(reply.error);
+        return JSON.parse(reply.value);
+    };
+    const pcall = (...args) => {
+        const reply = send(args);
+        return "error" in reply ? { err: reply.error } : JSON.parse(reply.value);
+    };
+    return [JSON.parse(keys), JSON.parse(argv), call, pcall];
+})`;
+
+// send one command to the main thread and wait for the reply (a JSON
+// string). Strict, so a script's stack trace can't hand it out through
+// CallSite.getFunction()
+function hostCall(argsJson) {
+    "use strict";
+    try {
+        parentPort.postMessage({ type: "call", argv: JSON.parse(argsJson) });
+        Atomics.wait(signal, 0, 0);
+        Atomics.store(signal, 0, 0);
+        return JSON.stringify(receiveMessageOnPort(replies).message);
+    } catch (error) {
+        return JSON.stringify({ error: `ERR ${error.message}` });
+    }
+}
+
+// errors that already carry a code (a failed call(), or a script's own
+// "ERR ..." / "LIMIT ...") are the reply as they are
+function errorReply(sha, error) {
+    let message;
+    try {
+        message = String(error && error.message !== undefined ? error.message : error);
+    } catch (_) {
+        message = "unknown error";
+    }
+    return /^[A-Z]+ /.test(message) ? message : `ERR Error running script ${sha}: ${message}`;
+}
+
+function run({ sha, source, keys, argv }) {
+    if (!compiled.has(sha)) {
+        try {
+            compiled.set(sha, new vm.Script(ScriptEngine.wrap(source), { filename: `script_${sha}.js` }));
+        } catch (error) {
+            return { type: "error", message: `ERR Error compiling script: ${error.message}` };
+        }
+    }
+
+    const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+    const toJSON = vm.runInContext("(value) => JSON.stringify(value)", context);
+    try {
+        const globals = vm.runInContext(BOOTSTRAP, context)(hostCall, JSON.stringify(keys), JSON.stringify(argv));
+        const result = compiled.get(sha).runInContext(context)(...globals);
+        return { type: "done", result: toJSON(result) };
+    } catch (error) {
+        return { type: "error", message: errorReply(sha, error) };
+    }
+}
+
+parentPort.on("message", (message) => {
+    if (message.type === "run") parentPort.postMessage(run(message));
+});
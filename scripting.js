@@ -0,0 +1,168 @@
+// Server-side scripting (EVAL / EVALSHA / SCRIPT), with JavaScript where
+// Redis has Lua. A script is the body of a function that gets KEYS, ARGV,
+// call() and pcall(); it runs in a worker thread (scriptWorker.js), in a vm
+// context with no timers or eval whose global object and helpers are all
+// created inside it, so require and process can't be reached from its
+// builtins (testScriptSandbox.js tries the known ways out). A vm context is
+// not a process boundary: the worker shares the server's process. call()
+// sends the command to the main thread and waits for its reply, so a script
+// reads like a sequence of synchronous commands.
+//
+// While a script runs the server answers every other client with BUSY, so
+// nothing else happens between its commands. A script is stopped when it
+// runs past the time limit (SCRIPT_TIME_LIMIT ms), or by SCRIPT KILL as long
+// as it hasn't written anything; the writes of a script that was stopped
+// stay, as they would after a failing command.
+
+const crypto = require("crypto");
+const path = require("path");
+const vm = require("vm");
+const { Worker, MessageChannel } = require("worker_threads");
+const { replyToJSON, formatError } = require("./respProtocol");
+
+const DEFAULT_TIME_LIMIT_MS = 5000;
+const BUSY = "BUSY Redis is busy running a script. You can only call SCRIPT KILL or SHUTDOWN NOSAVE.";
+
+class ScriptEngine {
+    constructor(timeLimitMs = parseInt(process.env.SCRIPT_TIME_LIMIT) || DEFAULT_TIME_LIMIT_MS) {
+        this.timeLimitMs = timeLimitMs;
+        this.scripts = new Map(); // SHA1 -> source, of every script loaded or run
+        this.worker = null; // started with the first script, replaced after a kill
+        this.running = null; // { sha, startedAt, wrote, call, resolve, reject, timer }
+    }
+
+    // the function a script's source becomes, shared with the worker
+    static wrap(source) {
+        return `(function (KEYS, ARGV, call, pcall) {\n"use strict";\n${source}\n})`;
+    }
+
+    // SCRIPT LOAD: cache a script (a syntax error is reported now) and
+    // return its SHA1 for EVALSHA
+    load(source) {
+        try {
+            new vm.Script(ScriptEngine.wrap(source));
+        } catch (error) {
+            throw new Error(`ERR Error compiling script: ${error.message}`);
+        }
+        const sha = crypto.createHash("sha1").update(source).digest("hex");
+        this.scripts.set(sha, source);
+        return sha;
+    }
+
+    get(sha) {
+        const source = this.scripts.get(String(sha).toLowerCase());
+        if (source === undefined) throw new Error("NOSCRIPT No matching script. Please use EVAL.");
+        return source;
+    }
+
+    exists(shas) {
+        return shas.map((sha) => this.scripts.has(String(sha).toLowerCase()));
+    }
+
+    list() {
+        return Array.from(this.scripts, ([sha, source]) => ({ sha, source }));
+    }
+
+    flush() {
+        this.scripts.clear();
+    }
+
+    // Run a script. call(argv) runs one of its commands and returns the
+    // reply; the promise resolves with what the script returned, as JSON data.
+    run(source, keys, argv, call) {
+        if (this.running) throw new Error(BUSY);
+        const sha = this.load(source);
+        const worker = this._getWorker();
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this._stop(`ERR Script ${sha} killed after running for more than ${this.timeLimitMs} ms`);
+            }, this.timeLimitMs);
+            this.running = { sha, startedAt: Date.now(), wrote: false, call, resolve, reject, timer };
+            worker.postMessage({ type: "run", sha, source, keys: keys.map(String), argv: argv.map(String) });
+        });
+    }
+
+    // the running script made a write: SCRIPT KILL can no longer stop it
+    noteWrite() {
+        if (this.running) this.running.wrote = true;
+    }
+
+    // SCRIPT KILL
+    kill() {
+        if (!this.running) throw new Error("NOTBUSY No scripts in execution right now.");
+        if (this.running.wrote) {
+            throw new Error("UNKILLABLE Sorry the script already executed write commands against the dataset. You can either wait the script termination or kill the server in a hard way using the SHUTDOWN NOSAVE command.");
+        }
+        this._stop("ERR Script killed by user with SCRIPT KILL...");
+    }
+
+    // what is running now, for the REST API
+    status() {
+        if (!this.running) return { running: false, timeLimitMs: this.timeLimitMs };
+        const { sha, startedAt, wrote } = this.running;
+        return { running: true, sha, elapsedMs: Date.now() - startedAt, wrote, timeLimitMs: this.timeLimitMs };
+    }
+
+    _finish(error, value) {
+        const running = this.running;
+        this.running = null;
+        clearTimeout(running.timer);
+        if (error) running.reject(error);
+        else running.resolve(value);
+    }
+
+    // a script can't be interrupted from inside the worker: the worker goes,
+    // and the next script gets a new one
+    _stop(message) {
+        this.worker.terminate();
+        this.worker = null;
+        this._finish(new Error(message));
+    }
+
+    // The worker blocks on signal (Atomics.wait) after posting a call; the
+    // reply goes to its port, then signal wakes it up
+    _getWorker() {
+        if (this.worker) return this.worker;
+        const signal = new Int32Array(new SharedArrayBuffer(4));
+        const { port1, port2 } = new MessageChannel();
+        const worker = new Worker(path.join(__dirname, "scriptWorker.js"), {
+            workerData: { signal, replies: port2 },
+            transferList: [port2],
+        });
+
+        worker.on("message", (message) => {
+            if (worker !== this.worker || !this.running) return;
+            if (message.type === "call") {
+                port1.postMessage(this._call(message.argv));
+                Atomics.store(signal, 0, 1);
+                Atomics.notify(signal, 0);
+            } else if (message.type === "done") {
+                this._finish(null, message.result === undefined ? null : JSON.parse(message.result));
+            } else if (message.type === "error") {
+                this._finish(new Error(message.message));
+            }
+        });
+        worker.on("error", (error) => {
+            if (worker !== this.worker) return;
+            this.worker = null;
+            if (this.running) this._finish(new Error(`ERR Script worker failed: ${error.message}`));
+        });
+        worker.unref();
+        port1.unref();
+        this.worker = worker;
+        return worker;
+    }
+
+    // one command for the script: { value } with the reply as a JSON string, or { error }
+    _call(argv) {
+        try {
+            const reply = this.running.call(argv);
+            if (reply instanceof Error) return { error: formatError(reply) };
+            return { value: JSON.stringify(replyToJSON(reply)) };
+        } catch (error) {
+            return { error: formatError(error) };
+        }
+    }
+}
+
+module.exports = ScriptEngine;
@@ -0,0 +1,248 @@
+// Sentinel-like monitor for the replication demo.
+// A few sentinels heartbeat the master independently. One that gets no pong
+// for downAfterMs marks it subjectively down (+sdown); when `quorum` of them
+// agree it is objectively down (+odown) and a failover starts: a leader is
+// elected for the new epoch, the reachable slave with the highest replication
+// offset is promoted (REPLICAOF NO ONE), the other slaves are repointed to it
+// (REPLICAOF host port) and +switch-master publishes the new topology.
+//
+// The master answers {"type":"ping"} on its replication port; slaves take
+// inline commands (ROLE, REPLICAOF) on their command port, see slaveServer.js.
+
+const net = require("net");
+
+const DEFAULTS = {
+    sentinels: 3,
+    quorum: 2,
+    downAfterMs: 3000,
+    heartbeatMs: 1000,
+    timeoutMs: 1000,
+};
+const MAX_EVENTS = 100;
+
+// quote an inline-command argument when it has spaces or quotes in it
+function quoteArgument(arg) {
+    const str = String(arg);
+    return str === "" || /[\s"]/.test(str) ? JSON.stringify(str) : str;
+}
+
+// Send one line over a short-lived connection and resolve with the first reply line
+function sendLine(host, port, line, timeoutMs = DEFAULTS.timeoutMs) {
+    return new Promise((resolve, reject) => {
+        let buffer = "";
+        const socket = net.createConnection({ host, port }, () => socket.write(line + "\n"));
+        socket.setTimeout(timeoutMs, () => socket.destroy(new Error(`no reply from ${host}:${port} within ${timeoutMs}ms`)));
+        socket.on("data", (data) => {
+            buffer += data.toString();
+            const end = buffer.indexOf("\n");
+            if (end === -1) return;
+            socket.end();
+            resolve(buffer.slice(0, end));
+        });
+        socket.on("error", reject);
+        socket.on("close", () => reject(new Error(`connection to ${host}:${port} closed`)));
+    });
+}
+
+// an inline command on a slave's command port, e.g. ["REPLICAOF", "NO", "ONE"]
+function inlineCommand(host, port, parts, timeoutMs) {
+    return sendLine(host, port, parts.map(quoteArgument).join(" "), timeoutMs);
+}
+
+class SentinelMonitor {
+    // master: { id, host, port } of its replication port
+    // getSlaves: () => [{ id, host, port }] of the slaves' command ports
+    constructor({ masterName = "mymaster", master, getSlaves, onEvent = () => {}, ...options }) {
+        this.masterName = masterName;
+        this.master = master;
+        this.getSlaves = getSlaves;
+        this.onEvent = onEvent;
+        this.options = { ...DEFAULTS, ...options };
+        if (!Number.isInteger(this.options.quorum) || this.options.quorum < 1 || this.options.quorum > this.options.sentinels) {
+            throw new Error(`ERR invalid quorum ${this.options.quorum} for ${this.options.sentinels} sentinels`);
+        }
+
+        this.sentinels = Array.from({ length: this.options.sentinels }, (_, index) => ({
+            id: `sentinel-${index + 1}`,
+            lastPong: Date.now(),
+            sdown: false,
+            votedEpoch: 0,
+            votedFor: null,
+            timer: null,
+        }));
+        this.state = "ok"; // ok | odown | failover
+        this.epoch = 0;
+        this.lastFailover = null;
+        this.events = [];
+        this.running = false;
+    }
+
+    start() {
+        if (this.running) return;
+        this.running = true;
+        this.sentinels.forEach((sentinel) => {
+            sentinel.lastPong = Date.now();
+            sentinel.timer = setInterval(() => this._heartbeat(sentinel), this.options.heartbeatMs);
+        });
+        this._event("+monitor", null, { master: this.master, quorum: this.options.quorum });
+    }
+
+    stop() {
+        this.running = false;
+        this.sentinels.forEach((sentinel) => clearInterval(sentinel.timer));
+    }
+
+    _event(type, sentinel, details = {}) {
+        const event = { type, sentinel: sentinel ? sentinel.id : null, epoch: this.epoch, masterName: this.masterName, details, timestamp: new Date() };
+        this.events.unshift(event);
+        if (this.events.length > MAX_EVENTS) this.events.length = MAX_EVENTS;
+        this.onEvent(event);
+        return event;
+    }
+
+    async _heartbeat(sentinel) {
+        if (!this.running || this.state === "failover") return;
+        const { host, port } = this.master;
+        try {
+            const reply = JSON.parse(await sendLine(host, port, JSON.stringify({ type: "ping" }), this.options.timeoutMs));
+            if (reply.type !== "pong") throw new Error(`unexpected reply ${reply.type}`);
+            sentinel.lastPong = Date.now();
+            if (sentinel.sdown) {
+                sentinel.sdown = false;
+                this._event("-sdown", sentinel, { master: this.master });
+            }
+        } catch (error) {
+            if (!sentinel.sdown && Date.now() - sentinel.lastPong >= this.options.downAfterMs) {
+                sentinel.sdown = true;
+                this._event("+sdown", sentinel, { master: this.master, error: error.message });
+            }
+        }
+        this._checkQuorum();
+    }
+
+    _checkQuorum() {
+        if (this.state === "failover") return;
+        const down = this.sentinels.filter((sentinel) => sentinel.sdown);
+        if (down.length < this.options.quorum) {
+            if (this.state === "odown") {
+                this.state = "ok";
+                this._event("-odown", null, { master: this.master });
+            }
+            return;
+        }
+        if (this.state === "ok") {
+            this.state = "odown";
+            this._event("+odown", null, { master: this.master, agreed: down.length, quorum: this.options.quorum });
+        }
+        this._failover(down).catch((error) => {
+            this.state = "odown";
+            this._event("-failover-abort", null, { error: error.message });
+        });
+    }
+
+    // Each sentinel votes once per epoch, for the first candidate that asks.
+    // The candidate needs a majority of all sentinels and at least the quorum.
+    _electLeader(candidate) {
+        this.epoch++;
+        this._event("+new-epoch", candidate, {});
+        let votes = 0;
+        this.sentinels.forEach((sentinel) => {
+            if (sentinel.votedEpoch < this.epoch) {
+                sentinel.votedEpoch = this.epoch;
+                sentinel.votedFor = candidate.id;
+            }
+            if (sentinel.votedFor === candidate.id) {
+                votes++;
+                this._event("+vote-for-leader", sentinel, { leader: candidate.id });
+            }
+        });
+        const needed = Math.max(this.options.quorum, Math.floor(this.sentinels.length / 2) + 1);
+        return { votes, needed, elected: votes >= needed };
+    }
+
+    async _failover(downSentinels) {
+        this.state = "failover";
+        const leader = downSentinels[0];
+        this._event("+try-failover", leader, { master: this.master });
+
+        const election = this._electLeader(leader);
+        if (!election.elected) {
+            this.state = "odown";
+            this._event("-failover-abort-not-elected", leader, election);
+            return;
+        }
+        this._event("+elected-leader", leader, election);
+
+        // the reachable slave that has seen the most of the old master's stream
+        const slaves = this.getSlaves().filter((slave) => slave.id !== this.master.id);
+        const roles = await Promise.all(slaves.map(async (slave) => {
+            try {
+                return { ...slave, role: JSON.parse(await inlineCommand(slave.host, slave.port, ["ROLE"], this.options.timeoutMs)) };
+            } catch (error) {
+                return { ...slave, role: null };
+            }
+        }));
+        const candidates = roles
+            .filter((slave) => slave.role && slave.role.role === "slave")
+            .sort((a, b) => b.role.offset - a.role.offset || a.id.localeCompare(b.id));
+        if (candidates.length === 0) {
+            this.state = "odown";
+            this._event("-failover-abort-no-good-slave", leader, { checked: slaves.map((slave) => slave.id) });
+            return;
+        }
+        const chosen = candidates[0];
+        this._event("+selected-slave", leader, {
+            slave: chosen.id,
+            offset: chosen.role.offset,
+            candidates: candidates.map((slave) => ({ id: slave.id, offset: slave.role.offset })),
+        });
+
+        await inlineCommand(chosen.host, chosen.port, ["REPLICAOF", "NO", "ONE"], this.options.timeoutMs);
+        const promoted = JSON.parse(await inlineCommand(chosen.host, chosen.port, ["ROLE"], this.options.timeoutMs));
+        const oldMaster = this.master;
+        const newMaster = { id: chosen.id, host: chosen.host, port: promoted.replPort, commandPort: chosen.port };
+        this._event("+promoted-slave", leader, { slave: chosen.id, replId: promoted.replId, offset: promoted.offset });
+
+        for (const slave of candidates.slice(1)) {
+            try {
+                await inlineCommand(slave.host, slave.port, ["REPLICAOF", newMaster.host, newMaster.port], this.options.timeoutMs);
+                this._event("+slave-reconf-sent", leader, { slave: slave.id, master: newMaster });
+            } catch (error) {
+                this._event("-slave-reconf-failed", leader, { slave: slave.id, error: error.message });
+            }
+        }
+
+        this.master = newMaster;
+        this.sentinels.forEach((sentinel) => {
+            sentinel.sdown = false;
+            sentinel.lastPong = Date.now();
+        });
+        this.lastFailover = { epoch: this.epoch, leader: leader.id, from: oldMaster, to: newMaster, at: new Date() };
+        this.state = "ok";
+        this._event("+switch-master", leader, { from: oldMaster, to: newMaster });
+    }
+
+    getStatus() {
+        const now = Date.now();
+        return {
+            masterName: this.masterName,
+            running: this.running,
+            master: this.master,
+            state: this.state,
+            epoch: this.epoch,
+            quorum: this.options.quorum,
+            downAfterMs: this.options.downAfterMs,
+            sentinels: this.sentinels.map(({ id, lastPong, sdown, votedEpoch, votedFor }) => ({
+                id,
+                sdown,
+                lastPongAgoMs: now - lastPong,
+                votedEpoch,
+                votedFor,
+            })),
+            lastFailover: this.lastFailover,
+            events: this.events,
+        };
+    }
+}
+
+module.exports = { SentinelMonitor, inlineCommand };
@@ -67,64 +67,112 @@
 
 const net = require("net");
 const ClusterRedis = require("./ClusterRedis");
+const { RespParser, encode } = require("./respProtocol");
+const { executeCommand } = require("./commandTable");
 
 const cluster = new ClusterRedis(["node1", "node2", "node3"]); // Replace with actual node names
 
+const port = 6379;
+const serverStats = { connectedClients: 0 };
+let nextClientId = 1;
+
 const server = net.createServer((socket) => {
   console.log("Client is connected");
-
-  socket.on("data", (data) => {
-    const command = data.toString().trim().split(" ");
-    const action = command[0].toUpperCase();
-    const key = command[1];
-
-    let response;
-
-    switch (action) {
-      case "SET":
-        response = cluster.set(key, command[2], Number(command[3] || null));
-        break;
-
-      case "GET":
-        response = cluster.get(key);
-        break;
-
-      case "DELETE":
-        response = cluster.delete(key);
-        break;
-
-      case "PUBLISH":
-        response = cluster.route(key).publish(key, command.slice(2).join(" "));
-        socket.write(`Published to ${response} subscribers\n`);
-        return;
-
-      case "SUBSCRIBE":
-        cluster.route(key).subscribe(key, (message) => {
-          socket.write(`Message from ${key}: ${message}\n`);
+  serverStats.connectedClients++;
+
+  // Per-connection state: negotiated protocol (HELLO), name, subscriptions
+  // and the MULTI queue / WATCH state of a transaction
+  const client = {
+    id: nextClientId++,
+    address: `${socket.remoteAddress}:${socket.remotePort}`,
+    name: null,
+    protocol: 2,
+    subscriptions: new Map(), // channel -> callback registered on the owning node
+    patternSubscriptions: new Map(), // pattern -> callback registered on every node
+    multi: null, // { commands, aborted } between MULTI and EXEC
+    watch: null, // keys watched since WATCH (see ClusterRedis.watch)
+    createdAt: Date.now(),
+    closing: false,
+    write: (reply) => {
+      if (!socket.destroyed) socket.write(encode(reply, client.protocol));
+    },
+  };
+  const ctx = { cluster, client, port, stats: serverStats };
+  const parser = new RespParser();
+  const queued = []; // commands that arrived while the client was blocked
+  client.blocked = null; // promise of a blocking command (XREAD BLOCK, BLPOP) in flight
+
+  // Pipelined commands are executed in order and answered in one write. A
+  // blocking command stops the run: what came before it is written now,
+  // its reply when it comes, and the commands after it run only then.
+  const runQueued = () => {
+    let output = "";
+    while (queued.length > 0 && !client.blocked && !client.closing) {
+      let reply;
+      try {
+        reply = executeCommand(ctx, queued.shift());
+      } catch (error) {
+        reply = error;
+      }
+
+      if (reply instanceof Promise) {
+        client.blocked = reply;
+        reply.then((result) => result, (error) => error).then((result) => {
+          client.blocked = null;
+          client.write(result);
+          runQueued();
         });
-        socket.write(`Subscribed to ${key}\n`);
-        return;
+        break;
+      }
+      output += encode(reply, client.protocol);
+    }
 
-      case "UNSUBSCRIBE":
-        cluster.route(key).unsubscribe(key, (message) => {
-          socket.write(`Unsubscribed from ${key}\n`);
-        });
-        socket.write(`Unsubscribed from ${key}\n`);
-        return;
+    if (output) socket.write(output);
+    if (client.closing) socket.end();
+  };
 
-      default:
-        response = "ERROR: Unknown command";
+  socket.on("data", (data) => {
+    let commands;
+    try {
+      commands = parser.feed(data);
+    } catch (error) {
+      // Malformed framing: report it and drop the connection like Redis does
+      socket.end(encode(error));
+      return;
     }
 
-    socket.write(response + "\n");
+    queued.push(...commands);
+    runQueued();
   });
 
+  const cleanup = () => {
+    if (client.blocked && client.blocked.cancel) client.blocked.cancel();
+    queued.length = 0;
+    if (client.watch) cluster.unwatch(client.watch);
+    for (const [channel, callback] of client.subscriptions) {
+      cluster.route(channel).unsubscribe(channel, callback);
+    }
+    client.subscriptions.clear();
+    for (const [pattern, callback] of client.patternSubscriptions) {
+      cluster.punsubscribe(pattern, callback);
+    }
+    client.patternSubscriptions.clear();
+  };
+
   socket.on("end", () => {
     console.log("Client disconnected");
   });
+
+  socket.on("close", () => {
+    serverStats.connectedClients--;
+    cleanup();
+  });
+
+  socket.on("error", (err) => {
+    console.error("Client connection error:", err.message);
+  });
 });
 
-const port = 6379;
 server.listen(port, () => {
-  console.log(`Sharded RedisClone server running on port ${port}`);
+  console.log(`Sharded RedisClone server running on port ${port} (RESP2/RESP3)`);
 });
@@ -0,0 +1,57 @@
+// CONFIG GET / CONFIG SET: the runtime parameters a node exposes. A cluster
+// applies a change to every node, so they all report the same value.
+
+const { matchesPattern } = require("./patternMatch");
+const { parseLfuSetting } = require("./accessFrequency");
+
+const PARAMETERS = {
+    "notify-keyspace-events": {
+        get: (node) => node.notifyKeyspaceEvents,
+        set: (node, value) => node.setNotifyKeyspaceEvents(value),
+    },
+    "maxmemory-policy": {
+        get: (node) => node.maxMemoryPolicy,
+        set: (node, value) => node.setMaxMemoryPolicy(value),
+    },
+    "maxmemory": {
+        get: (node) => String(node.maxMemory),
+        set: (node, value) => node.setMaxMemory(value),
+    },
+    "save": {
+        get: (node) => node.savePoints.map(({ seconds, changes }) => `${seconds} ${changes}`).join(" "),
+        set: (node, value) => node.setSavePoints(value),
+    },
+    "lfu-log-factor": {
+        get: (node) => String(node.lfuSettings.logFactor),
+        set: (node, value) => { node.lfuSettings.logFactor = parseLfuSetting("lfu-log-factor", value); },
+    },
+    "lfu-decay-time": {
+        get: (node) => String(node.lfuSettings.decayTime),
+        set: (node, value) => { node.lfuSettings.decayTime = parseLfuSetting("lfu-decay-time", value); },
+    },
+};
+
+// { parameter: value } for every parameter matching the glob pattern
+function configGet(nodes, pattern) {
+    const config = {};
+    Object.entries(PARAMETERS).forEach(([name, parameter]) => {
+        if (matchesPattern(String(pattern).toLowerCase(), name)) config[name] = parameter.get(nodes[0]);
+    });
+    return config;
+}
+
+// set one parameter on every node; returns the value as CONFIG GET reports it
+function configSet(nodes, name, value) {
+    const parameter = PARAMETERS[String(name).toLowerCase()];
+    if (!parameter) throw new Error(`ERR Unknown option or number of arguments for CONFIG SET - '${name}'`);
+    // a bad value is rejected by the first node, before any node has changed
+    nodes.forEach((node) => parameter.set(node, value));
+    return parameter.get(nodes[0]);
+}
+
+// give a node joining a cluster the same configuration as the others
+function copyConfig(from, to) {
+    Object.values(PARAMETERS).forEach((parameter) => parameter.set(to, parameter.get(from)));
+}
+
+module.exports = { configGet, configSet, copyConfig };
@@ -1,80 +1,216 @@
 const net = require("net");
 const RedisClone = require("./redis");
+const ReplicationBacklog = require("./replicationBacklog");
+const { WRITE_COMMANDS, READ_COMMANDS, isWriteCommand, isReadCommand } = require("./replicationCommands");
+const { commands } = require("./commandTable");
 
 const redis = new RedisClone();
+redis.replica = true;
 
-const MASTER_HOST = "localhost";
-const MASTER_PORT = 7000;
+// where to replicate from; changed by REPLICAOF (e.g. from the sentinel after a failover)
+let masterHost = "localhost";
+let masterPort = 7000;
+let role = "slave";
 
-const client = net.createConnection({ host: MASTER_HOST, port: MASTER_PORT }, () => {
-    console.log("🛰️  Connected to master");
-    
-    // Send slave ID to master immediately after connection
-    const slaveId = process.env.SLAVE_ID;
-    if (slaveId) {
-        const handshake = JSON.stringify({ type: 'handshake', slaveId });
-        client.write(handshake + '\n');
-        console.log(`📋 Sent handshake with ID: ${slaveId}`);
+// PSYNC state: the stream received from the master, in a backlog of our own
+// (replication ID, offset in bytes, newest entries). Sent on every
+// (re)connect so the master can send just the missed entries instead of the
+// whole dataset, and kept when this slave is promoted so the other slaves
+// can continue from it.
+let backlog = null;
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 10000;
+let reconnectDelay = RECONNECT_MIN_MS;
+let masterLink = null;
+let reconnectTimer = null;
+
+// REPLCONF ACK: the offset applied so far goes back to the master every
+// second, and at once when the master asks (GETACK, sent by WAIT)
+const ACK_INTERVAL_MS = 1000;
+
+function sendAck() {
+    if (!backlog || !masterLink || masterLink.connecting || masterLink.destroyed) return;
+    masterLink.write(JSON.stringify({ type: "ack", offset: backlog.offset }) + "\n");
+}
+
+setInterval(sendAck, ACK_INTERVAL_MS);
+
+// apply one control message or stream entry from the master
+function handleMasterLine(line) {
+    const message = JSON.parse(line);
+
+    if (message.type === "fullresync") {
+        // the whole dataset; it is not part of the stream, the offset jumps to the master's
+        message.entries.forEach(({ command, args }) => redis.applyCommand(command, args));
+        backlog = backlog || new ReplicationBacklog(parseInt(process.env.REPL_BACKLOG_SIZE) || undefined);
+        backlog.reset(message.replId, message.offset);
+        console.log(`🔄 Full resync from ${message.replId} at offset ${message.offset} (${message.entries.length - 1} keys)`);
+        sendAck();
+        return;
     }
-});
+    if (message.type === "getack") {
+        sendAck();
+        return;
+    }
+    if (message.type === "continue") {
+        console.log(`🔁 Partial resync from offset ${backlog.offset} (master at ${message.offset})`);
+        // a promoted master continues our history under its new replication ID
+        backlog.replId = message.replId;
+        return;
+    }
+
+    const { command, args } = message;
+    try {
+        redis.applyCommand(command, args);
+        console.log(`📥 Replicated: ${command.toUpperCase()} ${JSON.stringify(args)}`);
+    } catch (err) {
+        console.error(`❌ Failed to apply replicated ${command}:`, err.message);
+    }
+    backlog.append(line + "\n");
+}
+
+function connectToMaster() {
+    reconnectTimer = null;
+    const client = net.createConnection({ host: masterHost, port: masterPort }, () => {
+        console.log(`🛰️  Connected to master ${masterHost}:${masterPort}`);
+        reconnectDelay = RECONNECT_MIN_MS;
+
+        // Send slave ID and replication position to master immediately after connection
+        const slaveId = process.env.SLAVE_ID;
+        const replId = backlog ? backlog.replId : null;
+        const offset = backlog ? backlog.offset : -1;
+        const handshake = JSON.stringify({ type: 'handshake', slaveId, replId, offset });
+        client.write(handshake + '\n');
+        console.log(`📋 Sent handshake with ID: ${slaveId} (PSYNC ${replId || "?"} ${offset})`);
+    });
+    masterLink = client;
+
+    // Entries arrive newline-delimited; a TCP chunk can end mid-line, so keep
+    // the remainder for the next one
+    let pending = "";
+
+    client.on("data" , (data)=>{
+        pending += data.toString();
+        const messages = pending.split("\n");
+        pending = messages.pop();
 
-client.on("data" , (data)=>{
-    const messages = data.toString().trim().split("\n");
-    messages.forEach(msg => {
-        try {
-            const { command, args } = JSON.parse(msg);
-
-            // if (command === "set") {
-            //     redis.set(...args); // replicate key-value locally
-            //     console.log(`📥 Replicated: SET ${args.join(" ")}`);
-            // }
-
-            switch (command) {
-                case "set":
-                    redis.set(...args);
-                    console.log(`📥 Replicated: SET ${args.join(" ")}`);
-                    break;
-
-                case "delete":
-                    redis.delete(...args);
-                    console.log(`📥 Replicated: DELETE ${args.join(" ")}`);
-                    break;
-
-                case "lpush":
-                    redis.lpush(...args);
-                    console.log(`📥 Replicated: LPUSH ${args.join(" ")}`);
-                    break;
-
-                case "rpush":
-                    redis.rpush(...args);
-                    console.log(`📥 Replicated: RPUSH ${args.join(" ")}`);
-                    break;
-
-                case "hset":
-                    redis.hset(...args);
-                    console.log(`📥 Replicated: HSET ${args.join(" ")}`);
-                    break;
-
-                default:
-                    console.warn(`⚠️ Unknown replicated command: ${command}`);
+        messages.forEach(msg => {
+            if (!msg.trim()) return;
+            try {
+                handleMasterLine(msg);
+            } catch (err) {
+                console.error("❌ Failed to parse replication message:", err.message);
             }
-        } catch (err) {
-            console.error("❌ Failed to parse replication message:", err.message);
-        }
+        });
+    })
+
+    client.on("end", () => {
+        console.log("❌ Disconnected from master");
     });
-})
 
-client.on("end", () => {
-    console.log("❌ Disconnected from master");
-});
+    client.on("error", (err) => {
+        console.error("💥 Error in slave connection:", err.message);
+    });
 
-client.on("error", (err) => {
-    console.error("💥 Error in slave connection:", err.message);
-});
+    // keep trying, backing off up to RECONNECT_MAX_MS between attempts,
+    // unless this link was replaced (REPLICAOF) in the meantime
+    client.on("close", () => {
+        if (client !== masterLink || role !== "slave") return;
+        console.log(`⏳ Reconnecting to master in ${reconnectDelay}ms`);
+        reconnectTimer = setTimeout(connectToMaster, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+    });
+}
+
+function dropMasterLink() {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    const link = masterLink;
+    masterLink = null;
+    if (link) link.destroy();
+}
 
+connectToMaster();
 
 
-// 2. Create TCP Server to Handle Client Read Operations (GET)
+// =========================
+// Promotion (REPLICAOF NO ONE / REPLICAOF host port)
+// =========================
+
+// replication port this node serves slaves on once it is a master
+const getReplPort = () => parseInt(process.env.REPL_PORT) || SLAVE_PORT + 1000;
+let replServer = null;
+
+// stop replicating and accept writes; slaves can attach on the replication port
+function promoteToMaster() {
+    if (role === "master") return Promise.resolve();
+    dropMasterLink();
+    role = "master";
+    redis.replica = false;
+    backlog = backlog || new ReplicationBacklog(parseInt(process.env.REPL_BACKLOG_SIZE) || undefined);
+    backlog.shiftReplId();
+    redis.backlog = backlog;
+    console.log(`👑 Promoted to master (new replication ID ${backlog.replId}, continuing ${backlog.replId2} up to ${backlog.secondOffset})`);
+
+    replServer = net.createServer((socket) => {
+        let pending = "";
+        socket.on("data", (data) => {
+            pending += data.toString();
+            const messages = pending.split("\n");
+            pending = messages.pop();
+            messages.forEach((msg) => {
+                if (!msg.trim()) return;
+                try {
+                    const message = JSON.parse(msg);
+                    if (message.type === "ping") {
+                        socket.write(JSON.stringify({ type: "pong", ...redis.getReplicationInfo() }) + "\n");
+                    } else if (message.type === "handshake") {
+                        const sync = redis.syncSlave(socket, message.replId, message.offset);
+                        console.log(`📡 Slave ${message.slaveId} attached (${sync.mode} resync)`);
+                    } else if (message.type === "ack") {
+                        redis.acknowledge(socket, message.offset);
+                    }
+                } catch (err) {
+                    console.error("❌ Failed to parse message from slave:", err.message);
+                }
+            });
+        });
+        socket.on("close", () => redis.unregisterSlave(socket));
+        socket.on("error", () => redis.unregisterSlave(socket));
+    });
+
+    return new Promise((resolve, reject) => {
+        replServer.once("error", reject);
+        replServer.listen(getReplPort(), () => {
+            console.log(`🚀 Accepting slaves on port ${getReplPort()}`);
+            resolve();
+        });
+    });
+}
+
+// follow another master; a promoted node drops its own slaves first
+function replicaOf(host, port) {
+    if (role === "master") {
+        role = "slave";
+        redis.replica = true;
+        redis.backlog = null;
+        [...redis.slaves].forEach((socket) => {
+            socket.destroy();
+            redis.unregisterSlave(socket);
+        });
+        if (replServer) replServer.close();
+        replServer = null;
+    }
+    dropMasterLink();
+    masterHost = host;
+    masterPort = port;
+    console.log(`🔀 Now replicating from ${host}:${port}`);
+    connectToMaster();
+}
+
+
+
+// 2. Create TCP Server to Handle Client Read Operations (every read command; writes only once promoted)
 
 
 
@@ -97,37 +233,117 @@ const getSlavePort = () => {
 
 const SLAVE_PORT = getSlavePort();
 
+// inline command arguments: words, or "double quoted" strings with JSON escapes
+function parseInlineCommand(line) {
+    const parts = [];
+    const pattern = /"((?:[^"\\]|\\.)*)"|(\S+)/g;
+    let match;
+    while ((match = pattern.exec(line)) !== null) {
+        parts.push(match[1] !== undefined ? JSON.parse(`"${match[1]}"`) : match[2]);
+    }
+    return parts;
+}
+
+const READONLY_ERROR = "READONLY You can't write against a read only replica.";
+
+// any command the master's command table flags as a write, whether or not
+// this port implements it, so a replica answers READONLY rather than unknown
+function writesData(action) {
+    const entry = commands[action.toLowerCase()];
+    return isWriteCommand(action) || Boolean(entry && entry.flags.includes("write"));
+}
+
+// One line per reply: strings as they are, nil as (nil), lists and hashes as JSON
+function formatReply(value) {
+    if (value === null || value === undefined || value === "(nil)") return "(nil)";
+    if (value instanceof Set) return JSON.stringify(Array.from(value));
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+}
+
+// Errors go out like Redis': a code word (ERR, WRONGTYPE, READONLY) first
+function formatError(err) {
+    return /^[A-Z]+ /.test(err.message) ? err.message : `ERR ${err.message}`;
+}
+
+function executeCommand(parts) {
+    const action = (parts[0] || "").toUpperCase();
+    const command = parts;
+
+    switch (action) {
+        case "PING":
+            return "PONG";
+        case "DIGEST":
+            // per-key digests for the consistency checker, with the offset they are at
+            return JSON.stringify({ offset: backlog ? backlog.offset : -1, keys: redis.digests() });
+        case "DUMP":
+            return JSON.stringify(redis.dump(command[1]));
+        case "ROLE":
+            return JSON.stringify({
+                role,
+                replId: backlog ? backlog.replId : null,
+                offset: backlog ? backlog.offset : -1,
+                master: role === "slave" ? { host: masterHost, port: masterPort, linkUp: Boolean(masterLink && !masterLink.connecting && !masterLink.destroyed) } : null,
+                replPort: role === "master" ? getReplPort() : null,
+                connectedSlaves: redis.slaves.length,
+            });
+        case "REPLICAOF":
+            if (String(command[1]).toUpperCase() === "NO" && String(command[2]).toUpperCase() === "ONE") {
+                return promoteToMaster().then(() => "OK");
+            }
+            if (!command[1] || !Number.isInteger(Number(command[2]))) {
+                throw new Error("ERR syntax error, use REPLICAOF host port | REPLICAOF NO ONE");
+            }
+            replicaOf(command[1], Number(command[2]));
+            return "OK";
+        case "WAIT":
+            if (role !== "master") throw new Error("ERR WAIT cannot be used with replica instances");
+            return redis.wait(Number(command[1]), Number(command[2]));
+        default:
+            // reads are served whatever the role, so read traffic can go to the slaves
+            if (isReadCommand(action)) {
+                return READ_COMMANDS[action.toLowerCase()](redis, command.slice(1));
+            }
+            if (writesData(action)) {
+                if (role !== "master") throw new Error(READONLY_ERROR);
+                if (isWriteCommand(action)) return WRITE_COMMANDS[action.toLowerCase()](redis, command.slice(1));
+            }
+            throw new Error(`ERR unknown command '${parts[0] || ""}'`);
+    }
+}
+
 const readServer = net.createServer((socket) => {
     console.log("📡 Client connected to slave for read ops");
 
+    // Commands are newline-delimited; a TCP chunk can end mid-line, so the
+    // remainder waits for the next one. Replies go out through one chain, in
+    // the order the commands came, even when one of them (REPLICAOF NO ONE,
+    // WAIT) finishes later than the ones after it.
+    let pending = "";
+    let replies = Promise.resolve();
+
     socket.on("data", (data) => {
-        const command = data.toString().trim().split(" ");
-        const action = command[0].toUpperCase();
-
-        let response;
-
-        switch (action) {
-            case "GET":
-                response = redis.get(command[1]) || "null";
-                break;
-            case "LRANGE":
-                response = redis.lrange(command[1], Number(command[2]), Number(command[3]));
-                break;
-            case "HGET":
-                response = redis.hget(command[1], command[2]);
-                break;
-            default:
-                response = "ERROR: Only read operations like GET, LRANGE, HGET are supported by slave";
-        }
-
-        socket.write(response.toString() + "\n");
+        pending += data.toString();
+        const lines = pending.split("\n");
+        pending = lines.pop();
+
+        lines.filter((line) => line.trim()).forEach((line) => {
+            replies = replies
+                .then(() => executeCommand(parseInlineCommand(line)))
+                .then(formatReply, formatError)
+                .then((response) => {
+                    if (!socket.destroyed) socket.write(response + "\n");
+                });
+        });
     });
 
     socket.on("end", () => {
         console.log("❌ Read client disconnected");
     });
+
+    socket.on("error", () => {});
 });
 
 readServer.listen(SLAVE_PORT, () => {
     console.log(`🚀 Slave ready for read operations on port ${SLAVE_PORT}`);
-});
\ No newline at end of file
+});
@@ -0,0 +1,149 @@
+// Retained RDB snapshot generations for one RedisClone node.
+// Every committed data_<node>.json can be archived as
+// snapshots/data_<node>.<createdAt>.json; only the newest `retention`
+// generations are kept. Explicit saves (SAVE / BGSAVE) are always archived,
+// the saves triggered by writes at most once per `interval`, so a busy node
+// doesn't fill the history with near-identical copies.
+
+const fs = require("fs");
+const path = require("path");
+const { readSnapshot } = require("./rdbFile");
+
+const DEFAULT_RETENTION = 10;
+const DEFAULT_INTERVAL = 5 * 60 * 1000;
+
+class SnapshotHistory {
+    constructor(nodeName, dirPath, { retention = DEFAULT_RETENTION, interval = DEFAULT_INTERVAL } = {}) {
+        this.nodeName = nodeName;
+        this.dirPath = dirPath;
+        this.retention = retention;
+        this.interval = interval;
+        this.generations = []; // oldest first: { id, createdAt, keyCount, bytes, manual, filePath, corrupted, error }
+        this._scan();
+    }
+
+    static isValidRetention(retention) {
+        return Number.isInteger(retention) && retention >= 1;
+    }
+
+    _fileName(createdAt, manual) {
+        return `data_${this.nodeName}.${createdAt}${manual ? ".manual" : ""}.json`;
+    }
+
+    // rebuild the index from the files on disk (headers are verified, damaged ones are listed as corrupted)
+    _scan() {
+        if (!fs.existsSync(this.dirPath)) return;
+
+        const pattern = new RegExp(`^data_${this.nodeName}\\.(\\d+)(\\.manual)?\\.json$`);
+        this.generations = fs.readdirSync(this.dirPath)
+            .map((fileName) => ({ fileName, match: fileName.match(pattern) }))
+            .filter(({ match }) => match)
+            .map(({ fileName, match }) => {
+                const filePath = path.join(this.dirPath, fileName);
+                const generation = {
+                    id: Number(match[1]),
+                    createdAt: Number(match[1]),
+                    keyCount: null,
+                    bytes: fs.statSync(filePath).size,
+                    manual: Boolean(match[2]),
+                    filePath,
+                    corrupted: false,
+                    error: null,
+                };
+                try {
+                    generation.keyCount = readSnapshot(filePath).store.length;
+                } catch (error) {
+                    generation.corrupted = true;
+                    generation.error = error.reason || error.message;
+                }
+                return generation;
+            })
+            .sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    // true when a write-triggered save should be archived too
+    isDue(now = Date.now()) {
+        const newest = this.generations[this.generations.length - 1];
+        return !newest || now - newest.createdAt >= this.interval;
+    }
+
+    // Copy a committed snapshot file into the history. header is the one
+    // writeSnapshot / the RDB worker produced for that file.
+    archive(sourcePath, header, { manual = false } = {}) {
+        const createdAt = header.createdAt;
+        if (this.generations.some((generation) => generation.createdAt === createdAt)) return null;
+
+        fs.mkdirSync(this.dirPath, { recursive: true });
+        const filePath = path.join(this.dirPath, this._fileName(createdAt, manual));
+        const tempPath = `${filePath}.tmp`;
+        fs.copyFileSync(sourcePath, tempPath);
+        fs.renameSync(tempPath, filePath);
+
+        const generation = {
+            id: createdAt,
+            createdAt,
+            keyCount: header.keyCount,
+            bytes: fs.statSync(filePath).size,
+            manual,
+            filePath,
+            corrupted: false,
+            error: null,
+        };
+        this.generations.push(generation);
+        this.generations.sort((a, b) => a.createdAt - b.createdAt);
+        this._prune();
+        return generation;
+    }
+
+    setRetention(retention) {
+        if (!SnapshotHistory.isValidRetention(retention)) {
+            throw new Error(`ERR invalid snapshot retention '${retention}', expected a positive integer`);
+        }
+        this.retention = retention;
+        this._prune();
+    }
+
+    _prune() {
+        while (this.generations.length > this.retention) {
+            const oldest = this.generations.shift();
+            fs.rmSync(oldest.filePath, { force: true });
+        }
+    }
+
+    // newest first
+    list() {
+        return this.generations.slice().reverse();
+    }
+
+    get(id) {
+        return this.generations.find((generation) => generation.id === Number(id)) || null;
+    }
+
+    // the newest generation taken at or before the given time
+    findAt(timestamp) {
+        for (let i = this.generations.length - 1; i >= 0; i--) {
+            if (this.generations[i].createdAt <= timestamp) return this.generations[i];
+        }
+        return null;
+    }
+
+    // { store, expiry, header } of one generation, verified like a primary RDB file
+    read(id) {
+        const generation = this.get(id);
+        if (!generation) {
+            throw new Error(`ERR no snapshot generation ${id} for ${this.nodeName}`);
+        }
+        return readSnapshot(generation.filePath);
+    }
+
+    getStatus() {
+        return {
+            dirPath: this.dirPath,
+            retention: this.retention,
+            interval: this.interval,
+            count: this.generations.length,
+        };
+    }
+}
+
+module.exports = SnapshotHistory;
@@ -0,0 +1,77 @@
+// Checks BLPOP, BRPOP and BLMOVE as clients see them: clients blocked on
+// the same list are served in the order they blocked, one element each, a
+// client that gave up takes nothing, and a timeout answers with a null array
+// (*-1), not a nil bulk string.
+//
+//   node testBlockingLists.js
+
+const { runCheck, connect } = require("./testHelper");
+
+const assert = require("assert");
+const ClusterRedis = require("./ClusterRedis");
+const { executeCommand } = require("./commandTable");
+const { NULL_ARRAY, encode } = require("./respProtocol");
+
+const print = console.log;
+console.log = () => {}; // route() logs every lookup
+
+// the reply of a blocking command, and whether it has come yet
+function block(ctx, argv) {
+    const reply = executeCommand(ctx, argv);
+    assert.ok(reply instanceof Promise, `${argv.join(" ")} should block`);
+    const pending = { reply, settled: false, value: undefined };
+    reply.then((value) => Object.assign(pending, { settled: true, value }));
+    return pending;
+}
+
+// let settled promises run their callbacks
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+runCheck(async () => {
+    const cluster = new ClusterRedis(["node1", "node2", "node3"]);
+    const [first, second, third] = [connect(cluster), connect(cluster), connect(cluster)];
+    const producer = connect(cluster);
+
+    const waiting = [first, second, third].map((ctx) => block(ctx, ["BLPOP", "queue", "0"]));
+    executeCommand(producer, ["RPUSH", "queue", "one"]);
+    await settle();
+    assert.deepStrictEqual(waiting.map((pending) => pending.settled), [true, false, false]);
+    assert.deepStrictEqual(waiting[0].value, ["queue", "one"]);
+    executeCommand(producer, ["RPUSH", "queue", "two", "three"]);
+    await settle();
+    assert.deepStrictEqual(waiting.map((pending) => pending.value), [["queue", "one"], ["queue", "two"], ["queue", "three"]]);
+    assert.strictEqual(executeCommand(producer, ["LLEN", "queue"]), 0);
+    print("✓ clients blocked on one list are served in the order they blocked, one element each");
+
+    const either = block(first, ["BRPOP", "jobs:high", "jobs:low", "0"]);
+    executeCommand(producer, ["LPUSH", "jobs:low", "a", "b"]);
+    await settle();
+    assert.deepStrictEqual(either.value, ["jobs:low", "a"]);
+    print("✓ BRPOP wakes for a push to any of its keys and says which one it popped");
+
+    const gaveUp = block(first, ["BLPOP", "inbox", "0"]);
+    const stays = block(second, ["BLPOP", "inbox", "0"]);
+    gaveUp.reply.cancel(); // the client disconnected
+    executeCommand(producer, ["RPUSH", "inbox", "letter"]);
+    await settle();
+    assert.strictEqual(gaveUp.value, NULL_ARRAY);
+    assert.deepStrictEqual(stays.value, ["inbox", "letter"]);
+    print("✓ a client that stopped waiting takes nothing from the list");
+
+    const moved = block(first, ["BLMOVE", "pending", "done", "LEFT", "RIGHT", "0"]);
+    const after = block(second, ["BLPOP", "done", "0"]);
+    executeCommand(producer, ["RPUSH", "pending", "task"]);
+    await settle();
+    assert.strictEqual(moved.value, "task");
+    assert.deepStrictEqual(after.value, ["done", "task"]);
+    print("✓ BLMOVE moves the element it waited for, and a push it makes wakes the next client");
+
+    for (const argv of [["BLPOP", "nothing", "0.05"], ["BRPOP", "nothing", "0.05"], ["BLMOVE", "nothing", "elsewhere", "LEFT", "LEFT", "0.05"]]) {
+        const reply = await executeCommand(first, argv);
+        assert.strictEqual(reply, NULL_ARRAY, argv[0]);
+        assert.strictEqual(encode(reply, 2), "*-1\r\n");
+        assert.strictEqual(encode(reply, 3), "_\r\n");
+    }
+    assert.strictEqual(executeCommand(first, ["EXISTS", "elsewhere"]), 0);
+    print("✓ a timed-out BLPOP, BRPOP or BLMOVE answers with a null array");
+});
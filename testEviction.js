@@ -0,0 +1,114 @@
+// Checks what a node does once it uses more than maxmemory: under
+// noeviction writes fail with OOM and nothing is dropped, under allkeys-lru
+// the least recently used keys go first, and a write that fails for another
+// reason (wrong type) evicts nothing under either policy. LMOVE and BLMOVE
+// make room before they pop, so a refused move loses no element.
+//
+//   node testEviction.js
+
+const { runCheck } = require("./testHelper");
+
+const assert = require("assert");
+const RedisClone = require("./redis");
+const ClusterRedis = require("./ClusterRedis");
+
+const MAXMEMORY = "8kb";
+const VALUE = "x".repeat(100);
+
+function node(name, policy) {
+    const redis = new RedisClone(name);
+    redis.setMaxMemory(MAXMEMORY);
+    redis.setMaxMemoryPolicy(policy);
+    return redis;
+}
+
+// write keys until the node is over its limit; returns their names
+function fill(redis) {
+    const keys = [];
+    for (let i = 0; redis.usedMemory <= redis.maxMemory; i++) {
+        redis.set(`key:${i}`, VALUE);
+        keys.push(`key:${i}`);
+    }
+    return keys;
+}
+
+const assertOom = (fn) => assert.throws(fn, /^Error: OOM /);
+
+runCheck(() => {
+    const strict = node("evict1", "noeviction");
+    const keys = fill(strict);
+    const used = strict.usedMemory;
+    assertOom(() => strict.set("one:more", VALUE));
+    assertOom(() => strict.lpush("list", "a"));
+    assertOom(() => strict.hset("hash", "field", "value"));
+    assert.strictEqual(strict.store.size, keys.length);
+    assert.strictEqual(strict.usedMemory, used);
+    assert.deepStrictEqual([strict.evictionStats.evictedKeys, strict.evictionStats.rejectedWrites], [0, 3]);
+    assert.strictEqual(strict.get(keys[0]), VALUE);
+    console.log(`✓ noeviction: writes over ${MAXMEMORY} fail with OOM, all ${keys.length} keys stay`);
+
+    strict.delete(keys[0]);
+    strict.delete(keys[1]);
+    assert.ok(strict.usedMemory <= strict.maxMemory);
+    assert.strictEqual(strict.set("one:more", VALUE), "OK");
+    console.log("✓ noeviction: deleting keys makes room for writes again");
+
+    const lru = node("evict2", "allkeys-lru");
+    const lruKeys = fill(lru);
+    lru.get(lruKeys[0]); // key:0 is now the most recently used
+    for (let i = 0; i < 5; i++) lru.set(`new:${i}`, VALUE);
+    const { evictedKeys } = lru.evictionStats;
+    assert.ok(evictedKeys >= 5, `${evictedKeys} keys evicted`);
+    assert.ok(lru.exists(lruKeys[0]), "the key read last was evicted");
+    lruKeys.slice(1, 1 + evictedKeys).forEach((key) => assert.ok(!lru.exists(key), `${key} should have gone first`));
+    lruKeys.slice(1 + evictedKeys).forEach((key) => assert.ok(lru.exists(key), `${key} was evicted out of LRU order`));
+    assert.ok(lru.usedMemory <= lru.maxMemory + 2 * VALUE.length + 200, `${lru.usedMemory} bytes used`);
+    console.log(`✓ allkeys-lru: the ${evictedKeys} least recently used keys went, the one read last stayed`);
+
+    // failing commands evict nothing, even over the limit
+    lru.set("not:a:list", VALUE);
+    lru.set("filler", VALUE);
+    assert.ok(lru.usedMemory > lru.maxMemory, "the next write should have to evict");
+    for (const policy of ["allkeys-lru", "noeviction"]) {
+        lru.setMaxMemoryPolicy(policy);
+        const before = { keys: lru.store.size, evicted: lru.evictionStats.evictedKeys };
+        assert.throws(() => lru.lpush("not:a:list", "a"), /not a list/);
+        assert.throws(() => lru.incr("not:a:list"), /not a number/i);
+        assert.throws(() => lru.sadd("not:a:list", "a"), /WRONGTYPE/);
+        assert.deepStrictEqual({ keys: lru.store.size, evicted: lru.evictionStats.evictedKeys }, before, policy);
+    }
+    console.log("✓ a write that fails on the key's type evicts nothing");
+
+    // a refused LMOVE leaves the element where it was
+    const mover = node("evict3", "noeviction");
+    mover.rpush("src", "precious");
+    mover.set("not:a:list", VALUE);
+    fill(mover);
+    assertOom(() => mover.lmove("src", "dst", "left", "right"));
+    assert.throws(() => mover.lmove("src", "not:a:list", "left", "right"), /WRONGTYPE/);
+    assert.deepStrictEqual(mover.lrange("src", 0, -1), ["precious"]);
+    assert.ok(!mover.exists("dst"));
+
+    // also when source and destination are on different nodes
+    const cluster = new ClusterRedis(["evict4", "evict5"]);
+    const src = "queue";
+    const owner = cluster.slotMap.getNode(src);
+    let dst = null;
+    for (let i = 0; !dst; i++) {
+        if (cluster.slotMap.getNode(`target:${i}`) !== owner) dst = `target:${i}`;
+    }
+    const target = cluster.route(dst);
+    target.setMaxMemory(MAXMEMORY);
+    target.setMaxMemoryPolicy("noeviction");
+    cluster.route(src).rpush(src, "precious");
+    fill(target);
+    assertOom(() => cluster.lmove(src, dst, "left", "right"));
+    assertOom(() => cluster.blmove(src, dst, "right", "left", 0));
+    assert.deepStrictEqual(cluster.route(src).lrange(src, 0, -1), ["precious"]);
+    assert.ok(!target.exists(dst));
+    console.log("✓ an LMOVE or BLMOVE refused with OOM or WRONGTYPE leaves the element in its source list");
+
+    lru.setMaxMemoryPolicy("volatile-lru");
+    assertOom(() => lru.set("one:more", VALUE));
+    console.log("✓ volatile-lru without keys that have a TTL refuses writes like noeviction");
+});
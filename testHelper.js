@@ -0,0 +1,56 @@
+// Scaffold shared by the test*.js checks. Require it before anything that
+// creates a node: DATA_DIR then points at a fresh temporary directory, so
+// every RDB, AOF, snapshot and cluster layout file a check causes goes there,
+// and automatic saves are off. runCheck() removes the directory however the
+// check ends.
+
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "redisclone-check-"));
+process.env.DATA_DIR = dataDir;
+process.env.SAVE_POINTS = "";
+
+function finish(code) {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+    process.exit(code);
+}
+
+// Run check (sync or async) and exit: 0 when it passes, 1 with the failure
+// message otherwise. Nodes keep timers and workers running, so the process
+// is ended explicitly.
+function runCheck(check) {
+    Promise.resolve()
+        .then(check)
+        .then(
+            () => finish(0),
+            (error) => {
+                console.error(error.message);
+                finish(1);
+            }
+        );
+}
+
+// A connection as server.js keeps one, for checks that run commands through
+// commandTable.executeCommand(); what is pushed to it lands in client.pushed
+let nextClientId = 1;
+function connect(cluster) {
+    const pushed = [];
+    const client = {
+        id: nextClientId++,
+        name: null,
+        protocol: 2,
+        subscriptions: new Map(),
+        patternSubscriptions: new Map(),
+        multi: null,
+        watch: null,
+        createdAt: Date.now(),
+        closing: false,
+        pushed,
+        write: (reply) => pushed.push(reply),
+    };
+    return { cluster, client };
+}
+
+module.exports = { dataDir, runCheck, connect };
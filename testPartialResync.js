@@ -0,0 +1,120 @@
+// Checks PSYNC between a master and its slaves: a slave that reconnects with
+// the replication ID and offset it stopped at is sent only the entries it
+// missed, and gets the whole dataset again when the backlog no longer has
+// them or the history is a different one. A promoted slave lets the other
+// slaves of the old master continue from it.
+//
+//   node testPartialResync.js
+
+const { runCheck } = require("./testHelper");
+
+const assert = require("assert");
+const RedisClone = require("./redis");
+const ReplicationBacklog = require("./replicationBacklog");
+
+// A slave as slaveServer.js runs one: the link is the socket the master
+// writes to, and every entry received is applied and added to the slave's
+// own backlog, which is what it sends back on the next PSYNC.
+class Replica {
+    constructor(name) {
+        this.redis = new RedisClone(name);
+        this.redis.replica = true;
+        this.backlog = null;
+        this.link = null;
+    }
+
+    connect(master) {
+        const link = { write: (data) => this.receive(data) };
+        this.link = link;
+        return master.syncSlave(link, this.backlog ? this.backlog.replId : null, this.backlog ? this.backlog.offset : -1);
+    }
+
+    disconnect(master) {
+        master.unregisterSlave(this.link);
+        this.link = null;
+    }
+
+    receive(data) {
+        data.split("\n").filter(Boolean).forEach((line) => {
+            const message = JSON.parse(line);
+            if (message.type === "fullresync") {
+                message.entries.forEach(({ command, args }) => this.redis.applyCommand(command, args));
+                this.backlog = this.backlog || new ReplicationBacklog();
+                this.backlog.reset(message.replId, message.offset);
+            } else if (message.type === "continue") {
+                this.backlog.replId = message.replId;
+            } else {
+                this.redis.applyCommand(message.command, message.args);
+                this.backlog.append(line + "\n");
+            }
+        });
+    }
+
+    // REPLICAOF NO ONE
+    promote() {
+        this.redis.replica = false;
+        this.backlog.shiftReplId();
+        this.redis.backlog = this.backlog;
+    }
+}
+
+function assertInSync(master, replica, message) {
+    assert.deepStrictEqual(replica.redis.digests(), master.digests(), `${message}: datasets differ`);
+    assert.strictEqual(replica.backlog.offset, master.backlog.offset, `${message}: offsets differ`);
+}
+
+runCheck(() => {
+    const master = new RedisClone("master");
+    const replica = new Replica("replica1");
+    const other = new Replica("replica2");
+
+    master.set("greeting", "hello");
+    master.lpush("queue", "a", "b");
+    assert.strictEqual(replica.connect(master).mode, "full");
+    assert.strictEqual(other.connect(master).mode, "full");
+    master.incr("counter");
+    master.sadd("tags", "x", "y");
+    assertInSync(master, replica, "after the first sync");
+    console.log("✓ a new slave gets a full resync and then the live stream");
+
+    replica.disconnect(master);
+    master.set("greeting", "bonjour");
+    master.hset("user:1", "name", "Ada");
+    master.delete("queue");
+    const partial = replica.connect(master);
+    assert.deepStrictEqual([partial.mode, partial.missed], ["partial", 3]);
+    assertInSync(master, replica, "after a partial resync");
+    console.log("✓ a reconnecting slave is sent just the 3 entries it missed");
+
+    const { replId, offset } = replica.backlog;
+    replica.disconnect(master);
+    replica.backlog.replId = ReplicationBacklog.newReplId();
+    assert.strictEqual(replica.connect(master).mode, "full");
+    assertInSync(master, replica, "after an unknown replication ID");
+    assert.strictEqual(replica.backlog.replId, replId);
+    assert.strictEqual(replica.backlog.offset, offset);
+    console.log("✓ a slave with another history gets a full resync");
+
+    replica.disconnect(master);
+    master.backlog.size = 256;
+    for (let i = 0; i < 20; i++) master.set(`key:${i}`, "x".repeat(20));
+    assert.ok(master.backlog.firstOffset() > replica.backlog.offset);
+    assert.strictEqual(replica.connect(master).mode, "full");
+    assertInSync(master, replica, "after falling out of the backlog");
+    console.log("✓ a slave further behind than the backlog gets a full resync");
+
+    assert.strictEqual(master.syncSlave({ write() {} }, master.backlog.replId, master.backlog.offset - 1).mode, "full");
+    console.log("✓ an offset inside an entry is not continued from");
+
+    // the master fails; one slave is promoted and the other follows it
+    master.set("last", "write");
+    other.disconnect(master);
+    replica.disconnect(master);
+    replica.promote();
+    const followed = other.connect(replica.redis);
+    assert.strictEqual(followed.mode, "partial");
+    replica.redis.set("after", "failover");
+    assertInSync(replica.redis, other, "after following the promoted slave");
+    assert.strictEqual(other.redis.get("after"), "failover");
+    console.log("✓ the other slave continues from the promoted one without a full resync");
+});
@@ -0,0 +1,84 @@
+// Checks key routing while a node is added and slots migrate to it. The
+// cluster answers for its nodes instead of sending MOVED/ASK to the client,
+// so what has to hold is what ASK gives a Redis client: mid-migration a key
+// is read and written on the node that has it (the old owner until it is
+// moved, the new one after), a key created in a migrating slot goes to the
+// new owner, and no write is lost when the slot changes hands.
+//
+//   node testReshardRouting.js
+
+const { runCheck } = require("./testHelper");
+
+const assert = require("assert");
+const ClusterRedis = require("./ClusterRedis");
+const HashSlotMap = require("./HashSlotMap");
+
+const print = console.log;
+console.log = () => {}; // route() logs every lookup
+
+runCheck(async () => {
+    const cluster = new ClusterRedis(["node1", "node2", "node3"]);
+
+    const expected = new Map();
+    for (let i = 0; i < 300; i++) {
+        cluster.set(`key:${i}`, `value:${i}`);
+        expected.set(`key:${i}`, `value:${i}`);
+    }
+
+    let checked = false;
+    const onProgress = (status) => {
+        if (checked || status.state !== "running" || status.currentRange === null) return;
+        const range = status.ranges[status.currentRange];
+        if (range.movedKeys === 0 || range.movedKeys === range.keys) return;
+        checked = true;
+
+        const source = cluster.nodes[range.from];
+        const target = cluster.nodes[range.to];
+        const migrating = (key) => cluster.migratingSlots.has(HashSlotMap.keySlot(key));
+
+        // every key is still readable through the cluster
+        expected.forEach((value, key) => assert.strictEqual(cluster.get(key), value, `${key} mid-migration`));
+
+        // moved keys are served by the new owner, the rest by the old one
+        const moved = status.recentKeys[0];
+        assert.ok(!source.exists(moved) && target.exists(moved));
+        assert.strictEqual(cluster.route(moved), target);
+        const waiting = source.keys().find(migrating);
+        assert.strictEqual(cluster.route(waiting), source);
+
+        // a write to a key that hasn't moved yet lands on the old owner and moves with it
+        cluster.set(waiting, "updated during the move");
+        expected.set(waiting, "updated during the move");
+        assert.strictEqual(source.get(waiting), "updated during the move");
+
+        // a key created in a migrating slot starts out on the new owner
+        let fresh = null;
+        for (let i = 0; !fresh; i++) {
+            const key = `fresh:${i}`;
+            if (cluster.migratingSlots.get(HashSlotMap.keySlot(key))?.from === range.from && !source.exists(key)) fresh = key;
+        }
+        cluster.set(fresh, "created during the move");
+        expected.set(fresh, "created during the move");
+        assert.strictEqual(cluster.route(fresh), target);
+        assert.ok(target.exists(fresh));
+    };
+
+    await cluster.addNode("node4", { batchSize: 10, delayMs: 1, onProgress });
+    assert.ok(checked, "the migration finished before a range was half moved");
+    print("✓ mid-migration, keys are served by the node that has them");
+
+    assert.strictEqual(cluster.migratingSlots.size, 0);
+    expected.forEach((value, key) => {
+        assert.strictEqual(cluster.get(key), value, `${key} after the migration`);
+        assert.ok(cluster.nodes[cluster.slotMap.getNode(key)].exists(key), `${key} is not on its slot's owner`);
+    });
+    const total = Object.values(cluster.nodes).reduce((sum, node) => sum + node.keys().length, 0);
+    assert.strictEqual(total, expected.size);
+    assert.ok(cluster.nodes.node4.keys().length > 0);
+    print(`✓ after the migration all ${expected.size} keys are on their slot's owner, with the writes made during it`);
+
+    await cluster.removeNode("node4", { batchSize: 10, delayMs: 1 });
+    expected.forEach((value, key) => assert.strictEqual(cluster.get(key), value, `${key} after removing the node`));
+    print("✓ removing the node moves its keys back without losing any");
+
+});
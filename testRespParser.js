@@ -0,0 +1,68 @@
+// Checks that RespParser gives the same values however the bytes are split
+// into TCP chunks: a frame cut anywhere (inside a length, between \r and \n,
+// inside a multi-byte character) waits for the rest, and several frames in
+// one chunk all come out, in order.
+//
+//   node testRespParser.js
+
+const { runCheck } = require("./testHelper");
+
+const assert = require("assert");
+const { RespParser, encodeCommand } = require("./respProtocol");
+
+const CASES = {
+    "pipelined commands": {
+        bytes: encodeCommand(["SET", "key", "value"]) + encodeCommand(["GET", "key"]) + encodeCommand(["INCR", "counter"]),
+        values: [["SET", "key", "value"], ["GET", "key"], ["INCR", "counter"]],
+    },
+    "multi-byte characters": {
+        bytes: encodeCommand(["SET", "grüße", "日本語 ✓"]),
+        values: [["SET", "grüße", "日本語 ✓"]],
+    },
+    "empty and binary-looking arguments": {
+        bytes: encodeCommand(["SET", "", "line one\r\nline two"]),
+        values: [["SET", "", "line one\r\nline two"]],
+    },
+    "inline commands": {
+        bytes: "PING\r\nSET greeting \"hello world\"\nGET greeting\r\n",
+        values: [["PING"], ["SET", "greeting", "hello world"], ["GET", "greeting"]],
+    },
+    "replies": {
+        bytes: "+OK\r\n-ERR no such key\r\n:42\r\n$-1\r\n*2\r\n$1\r\na\r\n*1\r\n:1\r\n%1\r\n+field\r\n,1.5\r\n",
+        values: ["OK", new Error("ERR no such key"), 42, null, ["a", [1]], { field: 1.5 }],
+    },
+};
+
+// feed the bytes in the given chunks and collect everything that comes out
+function parse(chunks) {
+    const parser = new RespParser();
+    return chunks.flatMap((chunk) => parser.feed(chunk));
+}
+
+function check(name, bytes, expected) {
+    const buffer = Buffer.from(bytes);
+
+    assert.deepStrictEqual(parse([buffer]), expected, `${name}: in one chunk`);
+
+    for (let cut = 1; cut < buffer.length; cut++) {
+        const values = parse([buffer.subarray(0, cut), buffer.subarray(cut)]);
+        assert.deepStrictEqual(values, expected, `${name}: cut after byte ${cut}`);
+    }
+
+    const bytewise = Array.from({ length: buffer.length }, (_, i) => buffer.subarray(i, i + 1));
+    assert.deepStrictEqual(parse(bytewise), expected, `${name}: one byte at a time`);
+}
+
+runCheck(() => {
+    for (const [name, { bytes, values }] of Object.entries(CASES)) {
+        check(name, bytes, values);
+        console.log(`✓ ${name}`);
+    }
+
+    // an incomplete frame gives nothing yet, and is kept for the next chunk
+    const parser = new RespParser();
+    assert.deepStrictEqual(parser.feed(Buffer.from("*2\r\n$3\r\nGET\r\n$3\r\nke")), []);
+    assert.deepStrictEqual(parser.feed(Buffer.from("y\r\n")), [["GET", "key"]]);
+    assert.strictEqual(parser.buffer.length, 0);
+    console.log("✓ an incomplete frame waits for the rest");
+});
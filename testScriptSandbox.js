@@ -0,0 +1,56 @@
+// Checks that an EVAL script can't leave its vm context: each escape below
+// has to fail, while call() and pcall() still work.
+//
+//   node testScriptSandbox.js
+
+const { runCheck } = require("./testHelper");
+
+const assert = require("assert");
+const ScriptEngine = require("./scripting");
+
+const engine = new ScriptEngine(3000);
+
+// a stand-in for the command table: "echo" answers, "fail" is an error reply
+function call(argv) {
+    if (argv[0] === "fail") return new Error("ERR failing command");
+    return argv.slice(1).join(" ");
+}
+
+const ESCAPES = {
+    "globalThis.constructor": 'return globalThis.constructor.constructor("return process")()',
+    "this.constructor": 'return (function () { return this })().constructor.constructor("return process")()',
+    "global prototype chain": 'return Object.getPrototypeOf(Object.getPrototypeOf(globalThis)).constructor.constructor("return process")()',
+    "call.constructor": 'return call.constructor("return process")()',
+    "error from call()": 'try { call("fail") } catch (error) { return error.constructor.constructor("return process")() }',
+    "pcall reply": 'return pcall("fail").constructor.constructor("return process")()',
+    "require": 'return require("fs")',
+    "process": 'return process.pid',
+    "eval": 'return eval("1 + 1")',
+};
+
+async function expectError(name, source) {
+    try {
+        const result = await engine.run(source, [], [], call);
+        assert.fail(`${name}: the script got out and returned a ${typeof result}`);
+    } catch (error) {
+        assert.ok(error.message.startsWith("ERR"), `${name}: ${error.message}`);
+    }
+}
+
+runCheck(async () => {
+    for (const [name, source] of Object.entries(ESCAPES)) {
+        await expectError(name, source);
+        console.log(`✓ ${name} is blocked`);
+    }
+
+    // an error thrown near a stack overflow is still one of the context's
+    const realm = await engine.run(
+        'const seen = []; const f = () => { try { f() } catch (_) { try { call("fail") } catch (error) { seen.push(error instanceof Object) } } }; f(); return seen.every(Boolean)',
+        [], [], call);
+    assert.strictEqual(realm, true);
+    console.log("✓ errors near a stack overflow belong to the context");
+
+    assert.strictEqual(await engine.run('return call("echo", ARGV[0], KEYS[0])', ["key"], ["hi"], call), "hi key");
+    assert.deepStrictEqual(await engine.run('return pcall("fail")', [], [], call), { err: "ERR failing command" });
+    console.log("✓ call() and pcall() still work");
+});
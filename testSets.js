@@ -0,0 +1,92 @@
+// Checks the set commands: SADD and SREM count only the members they really
+// add or remove and write nothing else (no empty key, no entry for the AOF
+// or slaves), SPOP and SRANDMEMBER give distinct members unless the count is
+// negative, and SINTER, SUNION and SDIFF give the same answer whether the
+// keys are on one node or spread over the cluster.
+//
+//   node testSets.js
+
+const { runCheck } = require("./testHelper");
+
+const assert = require("assert");
+const RedisClone = require("./redis");
+const ClusterRedis = require("./ClusterRedis");
+
+const print = console.log;
+console.log = () => {}; // route() logs every lookup
+
+const sorted = (members) => [...members].sort();
+
+// names of keys owned by count different nodes of cluster
+function keysOnDifferentNodes(cluster, count) {
+    const byNode = new Map();
+    for (let i = 0; byNode.size < count; i++) {
+        const node = cluster.slotMap.getNode(`set:${i}`);
+        if (!byNode.has(node)) byNode.set(node, `set:${i}`);
+    }
+    return Array.from(byNode.values());
+}
+
+runCheck(() => {
+    const redis = new RedisClone("sets");
+    const entries = [];
+    const propagate = redis.propagate.bind(redis);
+    redis.propagate = (command, args, ...rest) => {
+        entries.push([command, ...args]);
+        return propagate(command, args, ...rest);
+    };
+
+    assert.strictEqual(redis.sadd("tags", "a", "b", "a", 1), 3);
+    assert.strictEqual(redis.sadd("tags", "b", "1"), 0);
+    assert.deepStrictEqual(sorted(redis.smembers("tags")), ["1", "a", "b"]);
+    assert.deepStrictEqual([redis.sismember("tags", 1), redis.sismember("tags", "c"), redis.scard("tags")], [1, 0, 3]);
+    assert.strictEqual(redis.sadd("nothing"), 0);
+    assert.strictEqual(redis.exists("nothing"), 0);
+    assert.deepStrictEqual(entries, [["sadd", "tags", "a", "b", "a", 1]]);
+    print("✓ SADD counts the new members and writes nothing when there are none, not even an empty key");
+
+    entries.length = 0;
+    assert.strictEqual(redis.srem("tags", "a", "missing"), 1);
+    assert.strictEqual(redis.srem("tags", "missing"), 0);
+    assert.strictEqual(redis.srem("tags", "b", "1"), 2);
+    assert.strictEqual(redis.exists("tags"), 0);
+    assert.deepStrictEqual(entries.map(([command]) => command), ["srem", "del"]);
+    redis.set("text", "value");
+    assert.throws(() => redis.sadd("text", "a"), /^Error: WRONGTYPE/);
+    assert.throws(() => redis.smembers("text"), /^Error: WRONGTYPE/);
+    print("✓ SREM removes the key with its last member, and a string key is refused with WRONGTYPE");
+
+    redis.sadd("deck", ..."abcdefgh");
+    const drawn = redis.srandmember("deck", 5);
+    assert.strictEqual(new Set(drawn).size, 5);
+    assert.strictEqual(redis.srandmember("deck", 20).length, 8);
+    assert.strictEqual(redis.srandmember("deck", -20).length, 20);
+    assert.strictEqual(redis.scard("deck"), 8);
+    const popped = redis.spop("deck", 3);
+    assert.strictEqual(new Set(popped).size, 3);
+    assert.ok(popped.every((member) => !redis.sismember("deck", member)));
+    assert.strictEqual(redis.scard("deck"), 5);
+    assert.deepStrictEqual([redis.spop("empty"), redis.spop("empty", 2), redis.srandmember("empty")], ["(nil)", [], "(nil)"]);
+    print("✓ SPOP and SRANDMEMBER give distinct members, repeats only for a negative count");
+
+    const cluster = new ClusterRedis(["node1", "node2", "node3"]);
+    const [odd, prime, small] = keysOnDifferentNodes(cluster, 3);
+    cluster.route(odd).sadd(odd, "1", "3", "5", "7", "9");
+    cluster.route(prime).sadd(prime, "2", "3", "5", "7");
+    cluster.route(small).sadd(small, "1", "2", "3");
+    assert.deepStrictEqual(sorted(cluster.sinter([odd, prime])), ["3", "5", "7"]);
+    assert.deepStrictEqual(sorted(cluster.sinter([odd, prime, small])), ["3"]);
+    assert.deepStrictEqual(sorted(cluster.sunion([prime, small])), ["1", "2", "3", "5", "7"]);
+    assert.deepStrictEqual(sorted(cluster.sdiff([odd, prime, small])), ["9"]);
+    assert.deepStrictEqual(cluster.sinter([odd, "set:missing"]), []);
+    assert.deepStrictEqual(sorted(cluster.sdiff([odd, "set:missing"])), ["1", "3", "5", "7", "9"]);
+
+    const local = new RedisClone("sets-local");
+    local.sadd("odd", "1", "3", "5", "7", "9");
+    local.sadd("prime", "2", "3", "5", "7");
+    local.sadd("small", "1", "2", "3");
+    assert.deepStrictEqual(sorted(local.sinter("odd", "prime", "small")), sorted(cluster.sinter([odd, prime, small])));
+    assert.deepStrictEqual(sorted(local.sunion("odd", "prime", "small")), sorted(cluster.sunion([odd, prime, small])));
+    assert.deepStrictEqual(sorted(local.sdiff("prime", "odd")), sorted(cluster.sdiff([prime, odd])));
+    print("✓ SINTER, SUNION and SDIFF agree on one node and across three");
+});
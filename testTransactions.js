@@ -0,0 +1,81 @@
+// Checks MULTI/EXEC/WATCH as a client sees them: queued commands run in
+// order with nothing in between, a write by another client to a watched key
+// makes EXEC answer with a null array (*-1) and run nothing, a command that
+// can't be queued aborts the transaction, and one that fails while running
+// has its error in its place while the others still run.
+//
+//   node testTransactions.js
+
+const { runCheck, connect } = require("./testHelper");
+
+const assert = require("assert");
+const ClusterRedis = require("./ClusterRedis");
+const { executeCommand } = require("./commandTable");
+const { NULL_ARRAY, encode, replyToJSON } = require("./respProtocol");
+
+const print = console.log;
+console.log = () => {}; // route() logs every lookup
+
+// send each command and collect the replies, errors included
+function send(ctx, ...commands) {
+    return commands.map((argv) => {
+        try {
+            return executeCommand(ctx, argv);
+        } catch (error) {
+            return error;
+        }
+    });
+}
+
+runCheck(() => {
+    const cluster = new ClusterRedis(["node1", "node2", "node3"]);
+    const client = connect(cluster);
+    const other = connect(cluster);
+
+    const queued = send(client, ["MULTI"], ["SET", "balance", "100"], ["INCR", "balance"], ["GET", "balance"]);
+    assert.deepStrictEqual(queued.map(replyToJSON), ["OK", "QUEUED", "QUEUED", "QUEUED"]);
+    assert.strictEqual(executeCommand(other, ["GET", "balance"]), null, "a queued command ran before EXEC");
+    assert.deepStrictEqual(executeCommand(client, ["EXEC"]).map(replyToJSON), ["OK", 101, "101"]);
+    print("✓ EXEC runs the queued commands in order and answers with their replies");
+
+    send(client, ["WATCH", "balance", "owner"], ["MULTI"], ["SET", "owner", "ada"], ["INCR", "balance"]);
+    executeCommand(other, ["SET", "balance", "0"]);
+    const aborted = executeCommand(client, ["EXEC"]);
+    assert.strictEqual(aborted, NULL_ARRAY);
+    assert.strictEqual(encode(aborted, 2), "*-1\r\n");
+    assert.strictEqual(executeCommand(other, ["GET", "balance"]), "0");
+    assert.strictEqual(executeCommand(other, ["EXISTS", "owner"]), 0);
+    print("✓ a write to a watched key makes EXEC answer with a null array and run nothing");
+
+    send(client, ["WATCH", "balance"], ["MULTI"], ["INCR", "balance"]);
+    assert.deepStrictEqual(executeCommand(client, ["EXEC"]).map(replyToJSON), [1]);
+    assert.strictEqual(client.client.watch, null);
+    send(client, ["MULTI"], ["INCR", "balance"]);
+    executeCommand(other, ["SET", "balance", "50"]);
+    assert.deepStrictEqual(executeCommand(client, ["EXEC"]).map(replyToJSON), [51]);
+    print("✓ EXEC runs when the watched keys are untouched, and unwatches them either way");
+
+    send(client, ["WATCH", "balance"], ["MULTI"], ["SET", "balance", "1"], ["DISCARD"]);
+    assert.strictEqual(executeCommand(other, ["GET", "balance"]), "51");
+    assert.deepStrictEqual([client.client.multi, client.client.watch], [null, null]);
+    print("✓ DISCARD drops the queued commands and the watched keys");
+
+    const refused = send(client, ["MULTI"], ["SET", "flag", "on"], ["NOSUCHCOMMAND"], ["GET"]);
+    assert.ok(refused[2] instanceof Error && refused[3] instanceof Error);
+    assert.throws(() => executeCommand(client, ["EXEC"]), /^Error: EXECABORT /);
+    assert.strictEqual(executeCommand(other, ["EXISTS", "flag"]), 0);
+    print("✓ a command that can't be queued makes EXEC abort without running anything");
+
+    send(client, ["SET", "name", "ada"], ["MULTI"], ["INCR", "counter"], ["SADD", "name", "x"], ["INCR", "counter"], ["BLPOP", "empty", "0"]);
+    const results = executeCommand(client, ["EXEC"]);
+    assert.ok(results[1] instanceof Error && /^WRONGTYPE/.test(results[1].message));
+    assert.deepStrictEqual([results[0], results[2], results[3]], [1, 2, null]);
+    assert.strictEqual(executeCommand(other, ["GET", "name"]), "ada");
+    print("✓ a command that fails in EXEC has its error in its place, the others run and a blocking one doesn't wait");
+
+    assert.deepStrictEqual(send(client, ["EXEC"], ["DISCARD"]).map((error) => error.message), ["ERR EXEC without MULTI", "ERR DISCARD without MULTI"]);
+    send(client, ["MULTI"]);
+    assert.deepStrictEqual(send(client, ["MULTI"], ["WATCH", "key"]).map((error) => error.message),
+        ["ERR MULTI calls can not be nested", "ERR WATCH inside MULTI is not allowed"]);
+    print("✓ EXEC and DISCARD need a MULTI, which can't be nested or followed by WATCH");
+});